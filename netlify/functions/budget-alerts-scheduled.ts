@@ -0,0 +1,43 @@
+import { createClient } from '@supabase/supabase-js';
+import { responses } from '../../src/lib/auth-utils';
+import { fetchBudgetedProjectIds, refreshBudgetAlerts } from '../../src/lib/budget-status';
+
+// Scheduled function (see netlify.toml): records the budget threshold
+// crossings of every project with budgets. Orders are approved and delivery
+// notes saved straight from the app, so their spend reaches the alerts here.
+// Netlify only invokes scheduled functions on their schedule.
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Use service role; alerts are recorded for every project
+  const serviceSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    const projectIds = await fetchBudgetedProjectIds(serviceSupabase);
+
+    // One project failing, e.g. for a missing exchange rate, does not stop the others
+    const failed: string[] = [];
+    for (const projectId of projectIds) {
+      try {
+        await refreshBudgetAlerts(serviceSupabase, projectId);
+      } catch (projectError) {
+        console.error(`Budget alert check failed for project ${projectId}:`, projectError);
+        failed.push(projectId);
+      }
+    }
+
+    return res.status(200).json(responses.success({
+      projects: projectIds.length,
+      failed
+    }).body);
+
+  } catch (error) {
+    console.error('Error checking budget alerts:', error);
+    return res.status(500).json(responses.serverError().body);
+  }
+}
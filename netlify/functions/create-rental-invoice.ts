@@ -0,0 +1,212 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  checkUserRole,
+  responses
+} from '../../src/lib/auth-utils';
+import { rentalInvoiceRunSchema, validateInput } from '../../src/lib/validation-schemas';
+import { toDateKey } from '../../src/lib/rental-engine';
+import { taxTreatmentOfItem } from '../../src/lib/rental-data';
+import { fetchRentalLedger } from '../../src/lib/rental-ledger';
+import { invoicesByCurrency, periodsOverlap } from '../../src/lib/rental-invoice';
+import { refreshBudgetAlerts } from '../../src/lib/budget-status';
+
+// Postgres exclusion_violation, raised when an issued invoice already covers the period
+const EXCLUSION_VIOLATION = '23P01';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Check if user has manager/admin role (only they can issue invoices)
+    const hasRole = await checkUserRole(supabase, user.id, ['admin', 'manager']);
+    if (!hasRole) {
+      return res.status(403).json(responses.forbidden('Only managers and admins can run invoicing').body);
+    }
+
+    // Validate input data
+    const validation = validateInput(rentalInvoiceRunSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { projectId, vendorId, periodStart, periodEnd } = validation.data;
+
+    // Only days that have already happened can be billed
+    if (periodEnd > toDateKey(new Date())) {
+      return res.status(400).json(responses.badRequest('Cannot invoice a period that has not ended').body);
+    }
+
+    // SECURITY: Check if user has access to this project
+    const hasAccess = await checkProjectAccess(supabase, user.id, projectId);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this project').body);
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('name')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      return res.status(404).json(responses.notFound('Project not found').body);
+    }
+
+    const { data: rentalData, error } = await fetchRentalLedger(supabase, {
+      projectId,
+      vendorId,
+      startDate: periodStart,
+      endDate: periodEnd
+    });
+
+    if (error) {
+      console.error('Data fetch error:', error);
+      return res.status(500).json(responses.serverError('Failed to fetch rental data').body);
+    }
+
+    // Amounts in different currencies are never added up: each currency of
+    // the vendor's orders gets its own invoice
+    const drafts = invoicesByCurrency((rentalData || []).map(item => ({
+      id: item.id,
+      po_number: item.po_items.purchase_orders.po_number,
+      item_name: item.po_items.item_name,
+      currency: item.po_items.purchase_orders.currency,
+      charge: item.charge,
+      tax: taxTreatmentOfItem(item)
+    })));
+
+    if (drafts.length === 0) {
+      return res.status(404).json(responses.notFound('Nothing to invoice for this vendor in the period').body);
+    }
+
+    // Refuse early when an issued invoice in one of the currencies already
+    // covers part of the period; the exclusion constraint on rental_invoices
+    // catches concurrent runs
+    const { data: issued, error: overlapError } = await supabase
+      .from('rental_invoices')
+      .select('invoice_number, currency, period_start, period_end')
+      .eq('project_id', projectId)
+      .eq('vendor_id', vendorId)
+      .in('currency', drafts.map(draft => draft.currency))
+      .eq('status', 'issued');
+
+    if (overlapError) {
+      console.error('Invoice lookup error:', overlapError);
+      return res.status(500).json(responses.serverError('Failed to check existing invoices').body);
+    }
+
+    const overlapping = (issued || []).find((invoice: any) => periodsOverlap(
+      { periodStart: invoice.period_start, periodEnd: invoice.period_end },
+      { periodStart, periodEnd }
+    ));
+    if (overlapping) {
+      return res.status(409).json(responses.conflict(
+        `Invoice ${overlapping.invoice_number} already bills ${overlapping.currency} charges from ${overlapping.period_start} to ${overlapping.period_end}`
+      ).body);
+    }
+
+    // The invoices and their lines are inserted in one transaction, so a
+    // failed line never leaves an invoice holding the period
+    const { data: issuedRows, error: invoiceError } = await supabase.rpc('issue_rental_invoices', {
+      p_project_id: projectId,
+      p_vendor_id: vendorId,
+      p_period_start: periodStart,
+      p_period_end: periodEnd,
+      p_invoices: drafts.map(draft => ({
+        currency: draft.currency,
+        net_amount: draft.totals.net,
+        tax_amount: draft.totals.tax,
+        total_amount: draft.totals.gross,
+        lines: draft.lines
+      }))
+    });
+    const invoices = (issuedRows || []) as { id: string; invoice_number: string; currency: string }[];
+
+    if (invoiceError || invoices.length !== drafts.length) {
+      if (invoiceError?.code === EXCLUSION_VIOLATION) {
+        return res.status(409).json(responses.conflict('Another invoice already bills part of this period').body);
+      }
+      console.error('Invoice insert error:', invoiceError);
+      return res.status(500).json(responses.serverError('Failed to create invoice').body);
+    }
+
+    const issuedInvoices = invoices.map(invoice => {
+      const draft = drafts.find(candidate => candidate.currency === invoice.currency)!;
+      return {
+        id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        currency: invoice.currency,
+        net_amount: draft.totals.net,
+        tax_amount: draft.totals.tax,
+        total_amount: draft.totals.gross,
+        line_count: draft.lines.length
+      };
+    });
+
+    const serviceSupabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    // Log audit trail with service role
+    try {
+      await serviceSupabase.from('audit_logs').insert(issuedInvoices.map(({ id, ...invoice }) => ({
+        user_id: user.id,
+        action: 'RENTAL_INVOICE_ISSUED',
+        table_name: 'rental_invoices',
+        record_id: id,
+        new_values: {
+          ...invoice,
+          project_id: projectId,
+          vendor_id: vendorId,
+          period_start: periodStart,
+          period_end: periodEnd
+        },
+        ip_address: req.headers['x-forwarded-for'] || req.connection.remoteAddress,
+        user_agent: req.headers['user-agent']
+      })));
+    } catch (auditError) {
+      console.error('Audit log error:', auditError);
+      // Don't fail the request if audit logging fails
+    }
+
+    // Budget alerts are refreshed with each run rather than left to the next
+    // scheduled check
+    try {
+      await refreshBudgetAlerts(serviceSupabase, projectId);
+    } catch (alertError) {
+      console.error('Budget alert recording failed:', alertError);
+    }
+
+    return res.status(200).json(responses.success({
+      success: true,
+      message: issuedInvoices.length === 1 ? 'Invoice issued successfully' : `${issuedInvoices.length} invoices issued, one per currency`,
+      data: issuedInvoices
+    }).body);
+
+  } catch (error) {
+    console.error('Error creating rental invoice:', error);
+    return res.status(500).json(responses.serverError('Invoice run failed').body);
+  }
+}
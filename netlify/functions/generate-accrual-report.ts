@@ -0,0 +1,291 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  responses
+} from '../../src/lib/auth-utils';
+import { accrualReportSchema, validateInput } from '../../src/lib/validation-schemas';
+import { addDays, roundCurrency } from '../../src/lib/rental-engine';
+import { taxTreatmentOfItem } from '../../src/lib/rental-data';
+import { fetchRentalLedger } from '../../src/lib/rental-ledger';
+import { accrualKey, buildAccrualRows, groupAccruals, lastBilledDates, unbilledWindows } from '../../src/lib/accruals';
+import { convertAmount, fetchExchangeRates, findExchangeRate, formatMoney } from '../../src/lib/currency';
+import { toCsv } from '../../src/lib/csv';
+import { renderPdf } from '../../src/lib/pdf-renderer';
+import { html } from '../../src/lib/html';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(accrualReportSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { projectId, asOf, format } = validation.data;
+
+    // SECURITY: Check if user has access to this project; without one RLS limits the items
+    if (projectId) {
+      const hasAccess = await checkProjectAccess(supabase, user.id, projectId);
+      if (!hasAccess) {
+        return res.status(403).json(responses.forbidden('You do not have access to this project').body);
+      }
+    }
+
+    let invoiceQuery = supabase
+      .from('rental_invoices')
+      .select('project_id, vendor_id, currency, period_end')
+      .eq('status', 'issued');
+    if (projectId) {
+      invoiceQuery = invoiceQuery.eq('project_id', projectId);
+    }
+
+    const { data: invoices, error: invoiceError } = await invoiceQuery;
+
+    if (invoiceError) {
+      console.error('Invoice fetch error:', invoiceError);
+      return res.status(500).json(responses.serverError('Failed to fetch rental data').body);
+    }
+
+    // The ledger charges each item from the day after the last invoice of its
+    // project, vendor and currency, or from delivery when nothing was billed
+    const lastBilled = lastBilledDates(invoices || []);
+    const windows = [
+      { vendorId: null, lastBilledDate: null },
+      ...unbilledWindows(invoices || [], asOf).map(window => ({ vendorId: window.vendor_id, lastBilledDate: window.last_billed_date }))
+    ];
+    const charged = await Promise.all(windows.map(({ vendorId, lastBilledDate }) => fetchRentalLedger(supabase, {
+      ...(projectId ? { projectId } : {}),
+      ...(vendorId ? { vendorId } : {}),
+      ...(lastBilledDate ? { startDate: addDays(lastBilledDate, 1) } : {}),
+      endDate: asOf
+    })));
+
+    const ledgerError = charged.find(result => result.error)?.error;
+    if (ledgerError) {
+      console.error('Data fetch error:', ledgerError);
+      return res.status(500).json(responses.serverError('Failed to fetch rental data').body);
+    }
+
+    // Each item is taken from the read that starts where its group was last billed
+    const items = charged.flatMap((result, index) => (result.data || []).filter(item => {
+      const order = item.po_items.purchase_orders;
+      return (lastBilled.get(accrualKey(order.project_id, order.vendor_id, order.currency)) ?? null) === windows[index]!.lastBilledDate;
+    }));
+    const projectIds = Array.from(new Set<string>(items.map((item: any) => item.po_items.purchase_orders.project_id)));
+
+    const { data: projectRows, error: projectError } = projectIds.length > 0
+      ? await supabase
+        .from('projects')
+        .select('id, name, reporting_currency')
+        .in('id', projectIds)
+      : { data: [], error: null };
+
+    if (projectError) {
+      console.error('Project fetch error:', projectError);
+      return res.status(500).json(responses.serverError('Failed to fetch projects').body);
+    }
+
+    const projects = new Map<string, any>((projectRows || []).map((project: any) => [project.id, project]));
+
+    const rows = buildAccrualRows(items.map(item => ({
+      id: item.id,
+      project_id: item.po_items.purchase_orders.project_id,
+      vendor_id: item.po_items.purchase_orders.vendor_id,
+      vendor_name: item.po_items.purchase_orders.vendors.name,
+      po_number: item.po_items.purchase_orders.po_number,
+      item_name: item.po_items.item_name,
+      currency: item.po_items.purchase_orders.currency,
+      delivery_date: item.delivery_notes.delivery_date,
+      charge: item.charge,
+      tax: taxTreatmentOfItem(item)
+    })), lastBilled, asOf);
+
+    if (rows.length === 0) {
+      return res.status(404).json(responses.notFound('No unbilled rental cost as of this date').body);
+    }
+
+    // Accruals are converted to each project's reporting currency at the as-of date
+    const exchangeRates = await fetchExchangeRates(supabase, asOf);
+    const missingRates = Array.from(new Set(rows
+      .map(row => [row.currency, projects.get(row.project_id).reporting_currency])
+      .filter(([from, to]) => findExchangeRate(exchangeRates, from, to, asOf) === null)
+      .map(([from, to]) => `Record a ${from} to ${to} rate`)));
+    if (missingRates.length > 0) {
+      return res.status(400).json(responses.badRequest(`No exchange rate on or before ${asOf}`, missingRates).body);
+    }
+
+    const reported = (amount: number, currency: string, projectIdOfRow: string) =>
+      convertAmount(amount, currency, projects.get(projectIdOfRow).reporting_currency, asOf, exchangeRates);
+
+    const fileStem = `rental-accruals-${asOf}`;
+
+    if (format === 'csv') {
+      const csv = toCsv([
+        [
+          'Project', 'Vendor', 'PO Number', 'Item Name', 'Currency', 'On Hire Qty', 'Last Billed',
+          'Unbilled From', 'Days Since Billed', 'Chargeable Days', 'Accrued Amount',
+          'Reporting Currency', 'Accrued (Reporting Currency)'
+        ],
+        ...rows.map(row => [
+          projects.get(row.project_id).name,
+          row.vendor_name,
+          row.po_number,
+          row.item_name,
+          row.currency,
+          row.on_hire_quantity,
+          row.last_billed_date ?? '',
+          row.unbilled_from,
+          row.days_since_billed,
+          row.chargeable_days,
+          row.amount.toFixed(2),
+          projects.get(row.project_id).reporting_currency,
+          reported(row.amount, row.currency, row.project_id).toFixed(2)
+        ])
+      ]);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileStem}.csv"`);
+      return res.status(200).json(responses.csv(csv, `${fileStem}.csv`));
+    }
+
+    const groupsByProject = new Map<string, ReturnType<typeof groupAccruals>>();
+    groupAccruals(rows).forEach(group => {
+      groupsByProject.set(group.project_id, [...(groupsByProject.get(group.project_id) || []), group]);
+    });
+
+    // Grand totals per reporting currency, since projects may report in different ones
+    const grandTotals = new Map<string, number>();
+    rows.forEach(row => {
+      const currency = projects.get(row.project_id).reporting_currency;
+      grandTotals.set(currency, roundCurrency((grandTotals.get(currency) ?? 0) + reported(row.amount, row.currency, row.project_id)));
+    });
+
+    const htmlTemplate = html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Rental Accruals</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 20px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 10px; }
+          th, td { border: 1px solid #ddd; padding: 6px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .header { text-align: center; margin-bottom: 20px; }
+          .subtotal td { font-weight: bold; background-color: #fafafa; }
+          .project { margin-top: 30px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Unbilled Rental Cost (Accruals)</h1>
+          <p>As of ${asOf}</p>
+          <p>Generated: ${new Date().toLocaleDateString()}</p>
+          <p>Cost since the end of the last issued invoice per project, vendor and currency, net of tax</p>
+        </div>
+
+        <div class="summary">
+          <h3>Summary</h3>
+          <p>Items on hire or unbilled: ${rows.length}</p>
+          ${Array.from(grandTotals.entries()).map(([currency, amount]) => html`<p>Total Accrued: ${formatMoney(amount, currency)}</p>`)}
+        </div>
+
+        ${Array.from(groupsByProject.entries()).map(([groupProjectId, groups]) => {
+          const project = projects.get(groupProjectId);
+          const projectTotal = groups.reduce((sum, group) =>
+            roundCurrency(sum + reported(group.amount, group.currency, groupProjectId)), 0);
+
+          return html`
+          <div class="project">
+            <h2>${project.name}</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Vendor</th>
+                  <th>PO Number</th>
+                  <th>Item Name</th>
+                  <th>On Hire Qty</th>
+                  <th>Last Billed</th>
+                  <th>Days Since Billed</th>
+                  <th>Chargeable Days</th>
+                  <th>Accrued</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${groups.map(group => html`
+                  ${group.rows.map(row => html`
+                    <tr>
+                      <td>${row.vendor_name}</td>
+                      <td>${row.po_number}</td>
+                      <td>${row.item_name}</td>
+                      <td>${row.on_hire_quantity}</td>
+                      <td>${row.last_billed_date ?? 'Never'}</td>
+                      <td>${row.days_since_billed}</td>
+                      <td>${row.chargeable_days}</td>
+                      <td>${formatMoney(row.amount, row.currency)}</td>
+                    </tr>
+                  `)}
+                  <tr class="subtotal">
+                    <td colspan="3">${group.vendor_name} subtotal</td>
+                    <td>${group.on_hire_quantity}</td>
+                    <td>${group.last_billed_date ?? 'Never'}</td>
+                    <td colspan="2"></td>
+                    <td>
+                      ${formatMoney(group.amount, group.currency)}
+                      ${group.currency !== project.reporting_currency && html`<br>${formatMoney(reported(group.amount, group.currency, groupProjectId), project.reporting_currency)}`}
+                    </td>
+                  </tr>
+                `)}
+                <tr class="subtotal">
+                  <td colspan="7">Project total</td>
+                  <td>${formatMoney(projectTotal, project.reporting_currency)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        `;
+        })}
+      </body>
+      </html>
+    `.toString();
+
+    try {
+      const pdf = await renderPdf(htmlTemplate, { footerText: `Accruals as of ${asOf}` });
+      const filename = `${fileStem}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdf.length.toString());
+
+      return res.status(200).json(responses.pdf(pdf, filename));
+
+    } catch (pdfError) {
+      console.error('PDF generation error:', pdfError);
+      return res.status(500).json(responses.serverError('PDF generation failed').body);
+    }
+
+  } catch (error) {
+    console.error('Error generating accrual report:', error);
+    return res.status(500).json(responses.serverError('Accrual report generation failed').body);
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  responses
+} from '../../src/lib/auth-utils';
+import { deliveryNotePdfSchema, validateInput } from '../../src/lib/validation-schemas';
+import { formatMoney } from '../../src/lib/currency';
+import { renderPdf } from '../../src/lib/pdf-renderer';
+import { html, multiline } from '../../src/lib/html';
+import { fetchReportTemplate, footerTextOf, renderDocument, tableHead, tableRow, templateColumns } from '../../src/lib/report-templates';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(deliveryNotePdfSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { deliveryNoteId } = validation.data;
+
+    const { data: deliveryNote, error: deliveryNoteError } = await supabase
+      .from('delivery_notes')
+      .select(`
+        *,
+        purchase_orders(po_number, project_id, currency, projects(name), vendors(name, address)),
+        dn_items(*, po_items(item_name, description))
+      `)
+      .eq('id', deliveryNoteId)
+      .single();
+
+    if (deliveryNoteError || !deliveryNote) {
+      return res.status(404).json(responses.notFound('Delivery note not found').body);
+    }
+
+    // SECURITY: Check if user has access to the delivery note's project
+    const purchaseOrder = deliveryNote.purchase_orders;
+    const hasAccess = await checkProjectAccess(supabase, user.id, purchaseOrder.project_id);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this delivery note').body);
+    }
+
+    const items = [...(deliveryNote.dn_items || [])].sort((a: any, b: any) =>
+      a.po_items.item_name.localeCompare(b.po_items.item_name)
+    );
+
+    // Render the delivery note from the project's branded template
+    const template = await fetchReportTemplate(supabase, purchaseOrder.project_id);
+    const columns = templateColumns(template, 'delivery_note');
+
+    const htmlTemplate = renderDocument(template, {
+      title: `Delivery Note ${deliveryNote.dn_number}`,
+      styles: `
+        .vendor { margin-bottom: 20px; }
+        .signature { margin-top: 40px; display: flex; justify-content: space-between; }
+        .signature div { width: 45%; border-top: 1px solid #333; padding-top: 4px; }
+      `,
+      heading: html`
+        <h1>Delivery Note</h1>
+        <p>DN No: ${deliveryNote.dn_number}</p>
+        <p>PO No: ${purchaseOrder.po_number}</p>
+        <p>Delivered: ${deliveryNote.delivery_date}</p>
+      `,
+      body: html`
+        <div class="vendor">
+          <h3>${purchaseOrder.vendors.name}</h3>
+          ${purchaseOrder.vendors.address && html`<p>${multiline(purchaseOrder.vendors.address)}</p>`}
+        </div>
+
+        <p>Project: ${purchaseOrder.projects.name}</p>
+        ${deliveryNote.received_by && html`<p>Received by: ${deliveryNote.received_by}</p>`}
+        ${deliveryNote.notes && html`<p>Notes: ${multiline(deliveryNote.notes)}</p>`}
+
+        <table>
+          ${tableHead(columns)}
+          <tbody>
+            ${items.map((item: any) => tableRow(columns, {
+              item_name: item.po_items.item_name,
+              description: item.po_items.description || '',
+              delivered_quantity: item.delivered_quantity,
+              returned_quantity: item.returned_quantity ?? 0,
+              rates: html`
+                ${formatMoney(item.daily_rate || 0, purchaseOrder.currency)}/day
+                ${item.weekly_rate != null && html`<br>${formatMoney(item.weekly_rate, purchaseOrder.currency)}/week`}
+                ${item.four_week_rate != null && html`<br>${formatMoney(item.four_week_rate, purchaseOrder.currency)}/4 weeks`}
+              `,
+              expected_off_hire_date: item.expected_off_hire_date || '',
+              status: item.status
+            }))}
+          </tbody>
+        </table>
+
+        <div class="signature">
+          <div>Delivered by</div>
+          <div>Received by</div>
+        </div>
+      `
+    });
+
+    try {
+      const pdf = await renderPdf(htmlTemplate, { footerText: footerTextOf(template, `Delivery note ${deliveryNote.dn_number}`) });
+      const filename = `delivery-note-${deliveryNote.dn_number}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdf.length.toString());
+
+      return res.status(200).json(responses.pdf(pdf, filename));
+
+    } catch (pdfError) {
+      console.error('PDF generation error:', pdfError);
+      return res.status(500).json(responses.serverError('PDF generation failed').body);
+    }
+
+  } catch (error) {
+    console.error('Error generating delivery note PDF:', error);
+    return res.status(500).json(responses.serverError('Delivery note PDF generation failed').body);
+  }
+}
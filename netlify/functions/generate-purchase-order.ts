@@ -0,0 +1,149 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  responses
+} from '../../src/lib/auth-utils';
+import { purchaseOrderPdfSchema, validateInput } from '../../src/lib/validation-schemas';
+import { formatMoney } from '../../src/lib/currency';
+import { roundCurrency } from '../../src/lib/rental-engine';
+import { describeTax, sumTaxAmounts } from '../../src/lib/tax';
+import { renderPdf } from '../../src/lib/pdf-renderer';
+import { html, multiline } from '../../src/lib/html';
+import { fetchReportTemplate, footerTextOf, renderDocument, tableHead, tableRow, templateColumns } from '../../src/lib/report-templates';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(purchaseOrderPdfSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { purchaseOrderId } = validation.data;
+
+    const { data: purchaseOrder, error: purchaseOrderError } = await supabase
+      .from('purchase_orders')
+      .select(`
+        *,
+        projects(name),
+        vendors(name, address, contact_person, email),
+        po_items(item_name, description, quantity, unit_price, line_total, tax_rate, tax_inclusive, net_amount, tax_amount, created_at)
+      `)
+      .eq('id', purchaseOrderId)
+      .single();
+
+    if (purchaseOrderError || !purchaseOrder) {
+      return res.status(404).json(responses.notFound('Purchase order not found').body);
+    }
+
+    // SECURITY: Check if user has access to the purchase order's project
+    const hasAccess = await checkProjectAccess(supabase, user.id, purchaseOrder.project_id);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this purchase order').body);
+    }
+
+    // Lines in the order they were entered; older lines without tax amounts are untaxed
+    const currency = purchaseOrder.currency;
+    const lines = [...(purchaseOrder.po_items || [])]
+      .sort((a: any, b: any) => a.created_at.localeCompare(b.created_at))
+      .map((item: any) => {
+        const net = Number(item.net_amount ?? item.line_total ?? 0);
+        const tax = Number(item.tax_amount ?? 0);
+        return { ...item, net, tax, gross: roundCurrency(net + tax) };
+      });
+    const totals = sumTaxAmounts(lines);
+
+    // Render the purchase order from the project's branded template
+    const template = await fetchReportTemplate(supabase, purchaseOrder.project_id);
+    const columns = templateColumns(template, 'purchase_order');
+    const totalKey = columns.some(column => column.key === 'gross') ? 'gross' : columns[columns.length - 1]!.key;
+    const totalRow = (label: string, amount: number) => tableRow(columns, {
+      [columns[0]!.key]: label,
+      [totalKey]: formatMoney(amount, currency)
+    }, 'total');
+
+    const htmlTemplate = renderDocument(template, {
+      title: `Purchase Order ${purchaseOrder.po_number}`,
+      styles: `
+        .vendor { margin-bottom: 20px; }
+        .total td { font-weight: bold; }
+      `,
+      heading: html`
+        <h1>Purchase Order</h1>
+        <p>PO No: ${purchaseOrder.po_number}</p>
+        ${purchaseOrder.po_date && html`<p>Date: ${purchaseOrder.po_date}</p>`}
+        <p>Status: ${purchaseOrder.status}</p>
+      `,
+      body: html`
+        <div class="vendor">
+          <h3>${purchaseOrder.vendors.name}</h3>
+          ${purchaseOrder.vendors.address && html`<p>${multiline(purchaseOrder.vendors.address)}</p>`}
+          ${purchaseOrder.vendors.contact_person && html`<p>Attn: ${purchaseOrder.vendors.contact_person}</p>`}
+          ${purchaseOrder.vendors.email && html`<p>${purchaseOrder.vendors.email}</p>`}
+        </div>
+
+        <p>Project: ${purchaseOrder.projects.name}</p>
+        <p>Amounts in ${currency}</p>
+
+        <table>
+          ${tableHead(columns)}
+          <tbody>
+            ${lines.map((item: any) => tableRow(columns, {
+              item_name: item.item_name,
+              description: item.description || '',
+              quantity: item.quantity,
+              unit_price: formatMoney(Number(item.unit_price || 0), currency),
+              tax_rate: describeTax({ rate: Number(item.tax_rate ?? 0), inclusive: Boolean(item.tax_inclusive) }),
+              net: formatMoney(item.net, currency),
+              tax: formatMoney(item.tax, currency),
+              gross: formatMoney(item.gross, currency)
+            }))}
+            ${totalRow('Net', totals.net)}
+            ${totalRow('Tax', totals.tax)}
+            ${totalRow('Total', totals.gross)}
+          </tbody>
+        </table>
+      `
+    });
+
+    try {
+      const pdf = await renderPdf(htmlTemplate, { footerText: footerTextOf(template, `Purchase order ${purchaseOrder.po_number}`) });
+      const filename = `purchase-order-${purchaseOrder.po_number}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdf.length.toString());
+
+      return res.status(200).json(responses.pdf(pdf, filename));
+
+    } catch (pdfError) {
+      console.error('PDF generation error:', pdfError);
+      return res.status(500).json(responses.serverError('PDF generation failed').body);
+    }
+
+  } catch (error) {
+    console.error('Error generating purchase order PDF:', error);
+    return res.status(500).json(responses.serverError('Purchase order PDF generation failed').body);
+  }
+}
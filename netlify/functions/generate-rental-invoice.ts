@@ -0,0 +1,157 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  responses
+} from '../../src/lib/auth-utils';
+import { rentalInvoicePdfSchema, validateInput } from '../../src/lib/validation-schemas';
+import { addDays, describeBreakdown } from '../../src/lib/rental-engine';
+import { renderPdf } from '../../src/lib/pdf-renderer';
+import { html, multiline } from '../../src/lib/html';
+import { fetchReportTemplate, footerTextOf, renderDocument, tableHead, tableRow, templateColumns } from '../../src/lib/report-templates';
+import { describeTax } from '../../src/lib/tax';
+import { formatMoney } from '../../src/lib/currency';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(rentalInvoicePdfSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { invoiceId } = validation.data;
+
+    // The PDF is rendered from the frozen invoice lines, never recalculated
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('rental_invoices')
+      .select(`
+        *,
+        projects(name),
+        vendors(name, address, tax_id),
+        rental_invoice_lines(*)
+      `)
+      .eq('id', invoiceId)
+      .single();
+
+    if (invoiceError || !invoice) {
+      return res.status(404).json(responses.notFound('Invoice not found').body);
+    }
+
+    // SECURITY: Check if user has access to the invoiced project
+    const hasAccess = await checkProjectAccess(supabase, user.id, invoice.project_id);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this invoice').body);
+    }
+
+    const lines = [...(invoice.rental_invoice_lines || [])].sort((a: any, b: any) =>
+      a.po_number.localeCompare(b.po_number) || a.item_name.localeCompare(b.item_name)
+    );
+
+    // Every line of an invoice is billed in the invoice's currency
+    const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+    // Render the invoice from the project's branded template
+    const template = await fetchReportTemplate(supabase, invoice.project_id);
+    const columns = templateColumns(template, 'rental_invoice');
+    // Totals sit under the gross column, or the last one shown when it is hidden
+    const totalKey = columns.some(column => column.key === 'gross') ? 'gross' : columns[columns.length - 1]!.key;
+    const totalRow = (label: string, amount: number) => tableRow(columns, {
+      [columns[0]!.key]: label,
+      [totalKey]: money(amount)
+    }, 'total');
+
+    const htmlTemplate = renderDocument(template, {
+      title: `Rental Invoice ${invoice.invoice_number}`,
+      styles: `
+        .void { color: #b91c1c; font-weight: bold; }
+        .total td { font-weight: bold; }
+        .vendor { margin-bottom: 20px; }
+      `,
+      heading: html`
+        <h1>Rental Invoice</h1>
+        <p>Invoice No: ${invoice.invoice_number}</p>
+        <p>Issued: ${new Date(invoice.created_at).toLocaleDateString()}</p>
+        ${invoice.status === 'void' && html`<p class="void">VOID</p>`}
+      `,
+      body: html`
+        <div class="vendor">
+          <h3>${invoice.vendors.name}</h3>
+          ${invoice.vendors.address && html`<p>${multiline(invoice.vendors.address)}</p>`}
+          ${invoice.vendors.tax_id && html`<p>Tax ID: ${invoice.vendors.tax_id}</p>`}
+        </div>
+
+        <p>Project: ${invoice.projects.name}</p>
+        <p>Billing Period: ${invoice.period_start} to ${invoice.period_end}</p>
+        <p>Currency: ${invoice.currency}</p>
+
+        <table>
+          ${tableHead(columns)}
+          <tbody>
+            ${lines.map((line: any) => tableRow(columns, {
+              po_number: line.po_number,
+              item_name: line.item_name,
+              delivered_quantity: String(line.delivered_quantity),
+              returned_quantity: String(line.returned_quantity),
+              days: String(line.calendar_days),
+              chargeable_days: String(line.chargeable_days),
+              amount: html`
+                ${money(Number(line.amount))}
+                ${(line.detail || []).map((segment: any) => segment.periods.map((period: any) => html`<br><small>${segment.quantity} × ${describeBreakdown(period.breakdown)} @ ${money(period.rates.dailyRate)}/day, ${period.startDate} to ${addDays(period.endDate, -1)}${segment.minimumApplied && ' (minimum hire)'}: ${money(period.amount)}</small>`))}
+              `,
+              tax: html`
+                ${money(Number(line.tax_amount))}
+                <br><small>${describeTax({ rate: Number(line.tax_rate), inclusive: line.tax_inclusive })}</small>
+              `,
+              gross: money(Number(line.gross_amount))
+            }))}
+          </tbody>
+          <tfoot>
+            ${totalRow('Net', Number(invoice.net_amount))}
+            ${totalRow('Tax', Number(invoice.tax_amount))}
+            ${totalRow('Total', Number(invoice.total_amount))}
+          </tfoot>
+        </table>
+      `
+    });
+
+    try {
+      const pdf = await renderPdf(htmlTemplate, { footerText: footerTextOf(template, `Invoice ${invoice.invoice_number}`) });
+      const filename = `rental-invoice-${invoice.invoice_number}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdf.length.toString());
+
+      return res.status(200).json(responses.pdf(pdf, filename));
+
+    } catch (pdfError) {
+      console.error('PDF generation error:', pdfError);
+      return res.status(500).json(responses.serverError('PDF generation failed').body);
+    }
+
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return res.status(500).json(responses.serverError('Invoice PDF generation failed').body);
+  }
+}
@@ -1,4 +1,4 @@
-import puppeteer, { Browser } from 'puppeteer-core';
+import { createClient } from '@supabase/supabase-js';
 import { 
   createAuthenticatedClient, 
   extractAuthToken, 
@@ -7,6 +7,15 @@ import {
   responses 
 } from '../../src/lib/auth-utils';
 import { reportGenerationSchema, validateInput } from '../../src/lib/validation-schemas';
+import { DatabaseError, NotFoundError, ValidationError } from '../../src/lib/error-handler';
+import { describeCostCode } from '../../src/lib/cost-allocation';
+import { describeForecastBasis } from '../../src/lib/forecast';
+import { toCsv } from '../../src/lib/csv';
+import { buildXlsx, cellText, dateCell, moneyCell, Sheet, SheetCell } from '../../src/lib/xlsx';
+import { findExchangeRate } from '../../src/lib/currency';
+import { describeTax } from '../../src/lib/tax';
+import { buildRentalReport } from '../../src/lib/rental-report-builder';
+import { failReportJob, queueReportJob, startReportWorker } from '../../src/lib/report-jobs';
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
@@ -35,7 +44,7 @@ export default async function handler(req: any, res: any) {
       return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
     }
 
-    const { projectId, startDate, endDate } = validation.data;
+    const { projectId, startDate, endDate, groupBy = 'none', sortBy = 'po_number', sortDirection = 'asc', groupLinesBy = 'none', format } = validation.data;
 
     // SECURITY: Check if user has access to this project
     const hasAccess = await checkProjectAccess(supabase, user.id, projectId);
@@ -43,177 +52,202 @@ export default async function handler(req: any, res: any) {
       return res.status(403).json(responses.forbidden('You do not have access to this project').body);
     }
 
-    // Get project info first
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('name')
-      .eq('id', projectId)
-      .single();
+    const parameters = { startDate, endDate, groupBy, sortBy, sortDirection, groupLinesBy };
+
+    // PDFs are rendered by the report worker; the page polls the job for the download
+    if (format === 'pdf') {
+      const job = await queueReportJob(supabase, { projectId, reportType: 'rental_report', parameters, userId: user.id });
+
+      try {
+        await startReportWorker(process.env.URL!, job.id);
+      } catch (workerError) {
+        console.error('Report worker start error:', workerError);
+        // Use service role to record the failure; users cannot update jobs
+        const serviceSupabase = createClient(
+          process.env.NEXT_PUBLIC_SUPABASE_URL!,
+          process.env.SUPABASE_SERVICE_ROLE_KEY!
+        );
+        await failReportJob(serviceSupabase, job.id, 'The report worker could not be started');
+        return res.status(500).json(responses.serverError('Failed to start report generation').body);
+      }
 
-    if (projectError || !project) {
-      return res.status(404).json(responses.notFound('Project not found').body);
+      return res.status(202).json(responses.success({ jobId: job.id, status: job.status }).body);
     }
 
-    // Complex query to get rental data with calculations (using authenticated client respects RLS)
-    const { data: rentalData, error } = await supabase
-      .from('dn_items')
-      .select(`
-        *,
-        delivery_notes!inner(delivery_date, purchase_order_id),
-        po_items!inner(item_name, unit_price),
-        po_items.purchase_orders!inner(po_number, project_id),
-        po_items.purchase_orders.vendors!inner(name)
-      `)
-      .eq('po_items.purchase_orders.project_id', projectId)
-      .gte('delivery_notes.delivery_date', startDate)
-      .lte('delivery_notes.delivery_date', endDate);
-
-    if (error) {
-      console.error('Data fetch error:', error);
-      return res.status(500).json(responses.serverError('Failed to fetch rental data').body);
+    // Preview and exports are built within the request
+    const {
+      project,
+      today,
+      reportingCurrency,
+      conversionDate,
+      exchangeRates,
+      foreignCurrencies,
+      processedData,
+      totals,
+      costCodes,
+      costCodeGroups,
+      forecastGroups,
+      forecastTotal,
+      lines,
+      fileStem
+    } = await buildRentalReport(supabase, { projectId, ...parameters });
+
+    if (format === 'json') {
+      return res.status(200).json(responses.success({
+        project: { id: projectId, name: project.name, status: project.status },
+        startDate,
+        endDate,
+        reportingCurrency,
+        conversionDate,
+        foreignCurrencies,
+        lines: lines.map(({ item, ...line }) => line),
+        totals
+      }).body);
     }
 
-    if (!rentalData || rentalData.length === 0) {
-      return res.status(404).json(responses.notFound('No rental data found for the specified period').body);
+    // CSV and XLSX carry the same lines as the PDF, one row per DN item
+    const lineRows: SheetCell[][] = [
+      [
+        'Project', 'PO Number', 'Item Name', 'Vendor', 'Status', 'Delivery Date', 'Delivered Qty',
+        'Returned Qty', 'Ongoing Qty', 'Days in Period', 'Chargeable Days', 'Suspended Days',
+        'Daily Rate', 'Weekly Rate', '4-Week Rate', 'Minimum Hire Days', 'Currency', 'Net', 'Tax Rate',
+        'Tax', 'Gross', 'Reporting Currency', 'Net (Reporting Currency)', 'Tax (Reporting Currency)',
+        'Gross (Reporting Currency)'
+      ],
+      ...lines.map(({ item }) => [
+        project.name,
+        item.po_items.purchase_orders.po_number,
+        item.po_items.item_name,
+        item.po_items.purchase_orders.vendors.name,
+        item.status,
+        dateCell(item.delivery_notes.delivery_date),
+        Number(item.delivered_quantity),
+        item.returnedQuantity,
+        item.ongoingQuantity,
+        item.totalDays,
+        item.totalChargeableDays,
+        item.suspendedDays,
+        moneyCell(Number(item.daily_rate || 0)),
+        item.weekly_rate != null ? moneyCell(Number(item.weekly_rate)) : null,
+        item.four_week_rate != null ? moneyCell(Number(item.four_week_rate)) : null,
+        item.minimum_hire_days ?? null,
+        item.currency,
+        moneyCell(item.taxAmounts.net),
+        describeTax(item.tax),
+        moneyCell(item.taxAmounts.tax),
+        moneyCell(item.taxAmounts.gross),
+        reportingCurrency,
+        moneyCell(item.convertedTaxAmounts.net),
+        moneyCell(item.convertedTaxAmounts.tax),
+        moneyCell(item.convertedTaxAmounts.gross)
+      ])
+    ];
+
+    if (format === 'csv') {
+      const csv = toCsv(lineRows.map(row => row.map(cellText)));
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileStem}.csv"`);
+      return res.status(200).json(responses.csv(csv, `${fileStem}.csv`));
     }
 
-    // Calculate rental days and amounts
-    const processedData = rentalData.map((item: any) => {
-      const deliveryDate = new Date(item.delivery_notes.delivery_date);
-      const returnDate = item.returned_at ? new Date(item.returned_at) : new Date();
-      const totalDays = Math.ceil((returnDate.getTime() - deliveryDate.getTime()) / (1000 * 60 * 60 * 24));
-      
-      const ongoingQuantity = item.delivered_quantity - item.returned_quantity;
-      const returnedQuantity = item.returned_quantity;
-      
-      const ongoingDays = item.status !== 'fully_returned' ? totalDays : 0;
-      const returnedDays = item.status !== 'delivered' ? totalDays : 0;
-      
-      const amountToPay = (ongoingQuantity * ongoingDays + returnedQuantity * returnedDays) * (item.daily_rate || 0);
-
-      return {
-        ...item,
-        totalDays,
-        ongoingQuantity,
-        returnedQuantity,
-        ongoingDays,
-        returnedDays,
-        amountToPay
-      };
-    });
-
-    // Generate HTML report
-    const htmlTemplate = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Rental Report</title>
-        <style>
-          body { font-family: Arial, sans-serif; margin: 20px; }
-          table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-          th { background-color: #f2f2f2; }
-          .header { text-align: center; margin-bottom: 20px; }
-          .summary { margin-bottom: 20px; }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <h1>Equipment Rental Report</h1>
-          <h2>Project: ${project.name}</h2>
-          <p>Period: ${startDate} to ${endDate}</p>
-          <p>Generated: ${new Date().toLocaleDateString()}</p>
-        </div>
-        
-        <div class="summary">
-          <h3>Summary</h3>
-          <p>Total Items: ${processedData.length}</p>
-          <p>Total Amount: $${processedData.reduce((sum, item) => sum + item.amountToPay, 0).toFixed(2)}</p>
-        </div>
-
-        <table>
-          <thead>
-            <tr>
-              <th>PO Number</th>
-              <th>Item Name</th>
-              <th>Vendor</th>
-              <th>Delivered Qty</th>
-              <th>Returned Qty</th>
-              <th>Ongoing Qty</th>
-              <th>Days</th>
-              <th>Daily Rate</th>
-              <th>Amount</th>
-              <th>Status</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${processedData.map((item: any) => `
-              <tr>
-                <td>${item.po_items.purchase_orders.po_number}</td>
-                <td>${item.po_items.item_name}</td>
-                <td>${item.po_items.purchase_orders.vendors.name}</td>
-                <td>${item.delivered_quantity}</td>
-                <td>${item.returned_quantity}</td>
-                <td>${item.ongoingQuantity}</td>
-                <td>${item.totalDays}</td>
-                <td>$${(item.daily_rate || 0).toFixed(2)}</td>
-                <td>$${item.amountToPay.toFixed(2)}</td>
-                <td>${item.status}</td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-      </body>
-      </html>
-    `;
-
-    // Generate PDF using Puppeteer with better error handling
-    let browser: Browser | undefined;
-    try {
-      browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox', 
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu'
+    const summaryRows: SheetCell[][] = [
+      ['Equipment Rental Report', null],
+      ['Project', project.name],
+      ['Period Start', dateCell(startDate)],
+      ['Period End', dateCell(endDate)],
+      ['Generated', dateCell(today)],
+      ['Reporting Currency', reportingCurrency],
+      ['Conversion Date', dateCell(conversionDate)],
+      ['Total Items', processedData.length],
+      ['Net Amount', moneyCell(totals.net)],
+      ['Tax', moneyCell(totals.tax)],
+      ['Total Amount', moneyCell(totals.gross)],
+      ...(forecastGroups.length > 0 ? [
+        ['Project End', dateCell(project.end_date)],
+        ['Expected Final Rental Cost (Net)', moneyCell(forecastTotal)]
+      ] : []),
+      ...foreignCurrencies.map(currency => [
+        `${currency} to ${reportingCurrency} Rate`,
+        findExchangeRate(exchangeRates, currency, reportingCurrency, conversionDate)
+      ])
+    ];
+
+    const sheets: Sheet[] = [
+      { name: 'Summary', rows: summaryRows },
+      { name: 'Lines', rows: lineRows, header: true }
+    ];
+
+    if (costCodeGroups.length > 0) {
+      sheets.push({
+        name: 'Cost Codes',
+        header: true,
+        rows: [
+          ['Cost Code', 'PO Number', 'Item Name', 'Vendor', 'Share (%)', 'Net', 'Tax', 'Gross', 'Currency'],
+          ...costCodeGroups.flatMap(group => [
+            ...group.rows.map(row => [
+              describeCostCode(group.cost_code_id, costCodes),
+              row.item.po_items.purchase_orders.po_number,
+              row.item.po_items.item_name,
+              row.item.po_items.purchase_orders.vendors.name,
+              row.percentage,
+              moneyCell(row.net),
+              moneyCell(row.tax),
+              moneyCell(row.gross),
+              reportingCurrency
+            ]),
+            [
+              `${describeCostCode(group.cost_code_id, costCodes)} total`, null, null, null, null,
+              moneyCell(group.totals.net), moneyCell(group.totals.tax), moneyCell(group.totals.gross), reportingCurrency
+            ]
+          ])
+        ]
+      });
+    }
+
+    if (forecastGroups.length > 0) {
+      sheets.push({
+        name: 'Forecast',
+        header: true,
+        rows: [
+          ['Vendor', 'PO Number', 'Item Name', 'On Hire Qty', 'Projected To', 'Basis', 'Currency', 'Cost to Date', 'Remaining', 'Expected Final'],
+          ...forecastGroups.flatMap(group => group.rows.map(row => [
+            row.vendor_name,
+            row.po_number,
+            row.item_name,
+            row.on_hire_quantity,
+            dateCell(row.off_hire_date),
+            describeForecastBasis(row),
+            row.currency,
+            moneyCell(row.cost_to_date),
+            moneyCell(row.remaining_cost),
+            moneyCell(row.forecast_cost)
+          ]))
         ]
       });
-      
-      const page = await browser.newPage();
-      
-      // Set viewport and wait for content to load
-      await page.setViewport({ width: 1200, height: 800 });
-      await page.setContent(htmlTemplate, { waitUntil: 'networkidle0' });
-      
-      const pdf = await page.pdf({
-        format: 'A4',
-        printBackground: true,
-        margin: { top: '20px', bottom: '20px', left: '20px', right: '20px' },
-        displayHeaderFooter: true,
-        footerTemplate: `<div style="font-size: 10px; margin: 0 auto;">Generated on ${new Date().toLocaleDateString()} | Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>`
-      }) as Buffer;
-      
-      await browser.close();
-
-      const filename = `rental-report-${project.name.replace(/[^a-zA-Z0-9]/g, '-')}-${startDate}-${endDate}.pdf`;
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Length', pdf.length.toString());
-      
-      return res.status(200).json(responses.pdf(pdf, filename));
-
-    } catch (pdfError) {
-      console.error('PDF generation error:', pdfError);
-      if (browser) {
-        await browser.close();
-      }
-      return res.status(500).json(responses.serverError('PDF generation failed').body);
     }
 
+    const xlsx = buildXlsx(sheets);
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileStem}.xlsx"`);
+    res.setHeader('Content-Length', xlsx.length.toString());
+    return res.status(200).json(responses.xlsx(xlsx, `${fileStem}.xlsx`));
+
   } catch (error) {
-    console.error('Error generating report:', error);
-    return res.status(500).json(responses.serverError('Report generation failed').body);
+    return sendReportError(res, error);
+  }
+}
+
+// Answers a report that could not be built with the reason it carries
+function sendReportError(res: any, error: unknown) {
+  if (error instanceof ValidationError) {
+    return res.status(400).json(responses.badRequest(error.message, error.details).body);
+  }
+  if (error instanceof NotFoundError) {
+    return res.status(404).json(responses.notFound(error.message).body);
   }
-}
\ No newline at end of file
+
+  console.error('Error generating report:', error);
+  return res.status(500).json(responses.serverError(error instanceof DatabaseError ? error.message : 'Report generation failed').body);
+}
@@ -0,0 +1,319 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  responses
+} from '../../src/lib/auth-utils';
+import { vendorStatementSchema, validateInput } from '../../src/lib/validation-schemas';
+import { toDateKey } from '../../src/lib/rental-engine';
+import { taxTreatmentOfItem } from '../../src/lib/rental-data';
+import { fetchRentalLedger } from '../../src/lib/rental-ledger';
+import {
+  buildStatementLines,
+  groupStatementByOrder,
+  STATEMENT_INVOICE_STATUS_LABELS,
+  StatementInvoice,
+  StatementItem,
+  StatementLine,
+  StatementOrder,
+  statementTotals
+} from '../../src/lib/vendor-statement';
+import { formatMoney } from '../../src/lib/currency';
+import { toCsv } from '../../src/lib/csv';
+import { renderPdf } from '../../src/lib/pdf-renderer';
+import { html, multiline } from '../../src/lib/html';
+import { fetchReportTemplate, footerTextOf, renderDocument, tableHead, tableRow, templateColumns } from '../../src/lib/report-templates';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(vendorStatementSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { vendorId, startDate, endDate, format } = validation.data;
+
+    const { data: vendor, error: vendorError } = await supabase
+      .from('vendors')
+      .select('id, name, contact_person, email, phone, address, tax_id')
+      .eq('id', vendorId)
+      .single();
+
+    if (vendorError || !vendor) {
+      return res.status(404).json(responses.notFound('Vendor not found').body);
+    }
+
+    // Nothing is charged for days still to come
+    const today = toDateKey(new Date());
+    const chargedTo = endDate < today ? endDate : today;
+
+    // SECURITY: RLS limits orders, items and invoices to the user's projects
+    const [
+      { data: orderRows, error: orderError },
+      { data: itemsToDate, error: itemError },
+      { data: itemsInPeriod, error: chargeError },
+      { data: invoiceRows, error: invoiceError }
+    ] = await Promise.all([
+      supabase
+        .from('purchase_orders')
+        .select('id, po_number, project_id, po_date, status, currency, projects(name)')
+        .eq('vendor_id', vendorId)
+        .neq('status', 'cancelled'),
+      // From delivery, for the quantities returned and on hire at the end of the period
+      fetchRentalLedger(supabase, { vendorId, endDate: chargedTo }),
+      startDate <= chargedTo
+        ? fetchRentalLedger(supabase, { vendorId, startDate, endDate: chargedTo })
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from('rental_invoices')
+        .select(`
+          invoice_number, project_id, currency, period_start, period_end, status,
+          rental_invoice_lines(dn_item_id, net_amount, tax_amount, gross_amount)
+        `)
+        .eq('vendor_id', vendorId)
+        .lte('period_start', endDate)
+        .gte('period_end', startDate)
+        .order('period_start')
+    ]);
+
+    if (orderError || itemError || chargeError || invoiceError) {
+      console.error('Data fetch error:', orderError || itemError || chargeError || invoiceError);
+      return res.status(500).json(responses.serverError('Failed to fetch vendor statement data').body);
+    }
+
+    if (!orderRows || orderRows.length === 0) {
+      return res.status(404).json(responses.notFound('No purchase orders for this vendor').body);
+    }
+
+    const orders: StatementOrder[] = orderRows.map((order: any) => ({
+      id: order.id,
+      po_number: order.po_number,
+      project_id: order.project_id,
+      project_name: order.projects?.name ?? '',
+      po_date: order.po_date,
+      status: order.status,
+      currency: order.currency
+    }));
+
+    const invoices: StatementInvoice[] = (invoiceRows || []).map((invoice: any) => ({
+      invoice_number: invoice.invoice_number,
+      project_id: invoice.project_id,
+      period_start: invoice.period_start,
+      period_end: invoice.period_end,
+      status: invoice.status,
+      lines: (invoice.rental_invoice_lines || []).map((line: any) => ({
+        dn_item_id: line.dn_item_id,
+        currency: invoice.currency,
+        net: Number(line.net_amount),
+        tax: Number(line.tax_amount),
+        gross: Number(line.gross_amount)
+      }))
+    }));
+
+    const charges = new Map((itemsInPeriod || []).map(item => [item.id, item.charge]));
+    const items: StatementItem[] = (itemsToDate || []).map(item => ({
+      id: item.id,
+      purchase_order_id: item.delivery_notes.purchase_order_id,
+      po_number: item.po_items.purchase_orders.po_number,
+      item_name: item.po_items.item_name,
+      delivery_date: item.delivery_notes.delivery_date,
+      currency: item.po_items.purchase_orders.currency,
+      delivered_quantity: item.charge.deliveredQuantity,
+      returned_quantity: item.charge.returnedQuantity,
+      on_hire_quantity: item.charge.ongoingQuantity,
+      charge: charges.get(item.id) ?? null,
+      tax: taxTreatmentOfItem(item)
+    }));
+
+    const lines = buildStatementLines(items, invoices);
+    const groups = groupStatementByOrder(orders, lines);
+    const totals = statementTotals(lines);
+    const invoiceStatusLabel = (line: StatementLine) =>
+      line.invoice_status ? STATEMENT_INVOICE_STATUS_LABELS[line.invoice_status] : '';
+
+    const fileStem = `vendor-statement-${vendor.name.replace(/[^A-Za-z0-9]+/g, '-')}-${startDate}-${endDate}`;
+
+    if (format === 'csv') {
+      const csv = toCsv([
+        [
+          'Project', 'PO Number', 'PO Date', 'PO Status', 'Item Name', 'Delivery Date', 'Currency',
+          'Delivered Qty', 'Returned Qty', 'On Hire Qty', 'Days in Period', 'Chargeable Days',
+          'Net', 'Tax', 'Gross', 'Invoice Status', 'Invoices'
+        ],
+        ...groups.flatMap(group => group.lines.length > 0
+          ? group.lines.map(line => [
+            group.project_name,
+            group.po_number,
+            group.po_date ?? '',
+            group.status,
+            line.item_name,
+            line.delivery_date,
+            line.currency,
+            line.delivered_quantity,
+            line.returned_quantity,
+            line.on_hire_quantity,
+            line.days,
+            line.chargeable_days,
+            line.net.toFixed(2),
+            line.tax.toFixed(2),
+            line.gross.toFixed(2),
+            invoiceStatusLabel(line),
+            line.invoice_numbers.join(' ')
+          ])
+          // Orders with nothing delivered yet still appear
+          : [[group.project_name, group.po_number, group.po_date ?? '', group.status, '', '', group.currency, 0, 0, 0, 0, 0, '0.00', '0.00', '0.00', '', '']])
+      ]);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileStem}.csv"`);
+      return res.status(200).json(responses.csv(csv, `${fileStem}.csv`));
+    }
+
+    const onHire = groups.reduce((sum, group) => sum + group.on_hire_quantity, 0);
+    const projectNames = new Map(orders.map(order => [order.project_id, order.project_name]));
+
+    // Render the statement from the organisation's branded template; it spans projects
+    const template = await fetchReportTemplate(supabase, null);
+    const columns = templateColumns(template, 'vendor_statement');
+
+    const htmlTemplate = renderDocument(template, {
+      title: `Vendor Statement ${vendor.name}`,
+      styles: `
+        .vendor { margin-bottom: 20px; }
+        .order { margin-top: 30px; }
+        .total td { font-weight: bold; background-color: #fafafa; }
+        .void td { color: #b91c1c; }
+      `,
+      heading: html`
+        <h1>Vendor Statement</h1>
+        <p>Period: ${startDate} to ${endDate}</p>
+        <p>Generated: ${new Date().toLocaleDateString()}</p>
+      `,
+      body: html`
+        <div class="vendor">
+          <h3>${vendor.name}</h3>
+          ${vendor.contact_person && html`<p>Attn: ${vendor.contact_person}</p>`}
+          ${vendor.email && html`<p>${vendor.email}</p>`}
+          ${vendor.phone && html`<p>${vendor.phone}</p>`}
+          ${vendor.address && html`<p>${multiline(vendor.address)}</p>`}
+          ${vendor.tax_id && html`<p>Tax ID: ${vendor.tax_id}</p>`}
+        </div>
+
+        <div class="summary">
+          <h3>Summary</h3>
+          <p>Purchase orders: ${groups.length}</p>
+          <p>Units on hire at ${chargedTo}: ${onHire}</p>
+          ${totals.map(total => html`<p>Charges: ${formatMoney(total.net, total.currency)} net, ${formatMoney(total.tax, total.currency)} tax, ${formatMoney(total.gross, total.currency)} gross</p>`)}
+        </div>
+
+        ${groups.map(group => html`
+          <div class="order">
+            <h2>${group.po_number} - ${group.project_name}</h2>
+            <p>PO Date: ${group.po_date ?? 'Not set'} | Status: ${group.status} | Amounts in ${group.currency}</p>
+            ${group.lines.length === 0 ? html`<p>Nothing delivered yet.</p>` : html`
+            <table>
+              ${tableHead(columns)}
+              <tbody>
+                ${group.lines.map(line => tableRow(columns, {
+                  item_name: line.item_name,
+                  delivery_date: line.delivery_date,
+                  delivered_quantity: line.delivered_quantity,
+                  returned_quantity: line.returned_quantity,
+                  on_hire_quantity: line.on_hire_quantity,
+                  days: line.days,
+                  chargeable_days: line.chargeable_days,
+                  net: formatMoney(line.net, line.currency),
+                  tax: formatMoney(line.tax, line.currency),
+                  gross: formatMoney(line.gross, line.currency),
+                  invoice_status: html`
+                    ${invoiceStatusLabel(line)}
+                    ${line.invoice_numbers.length > 0 && html`<br><small>${line.invoice_numbers.join(', ')}</small>`}
+                  `
+                }))}
+                ${tableRow(columns, {
+                  [columns[0]!.key]: 'PO total',
+                  delivered_quantity: group.delivered_quantity,
+                  returned_quantity: group.returned_quantity,
+                  on_hire_quantity: group.on_hire_quantity,
+                  net: formatMoney(group.totals.net, group.currency),
+                  tax: formatMoney(group.totals.tax, group.currency),
+                  gross: formatMoney(group.totals.gross, group.currency)
+                }, 'total')}
+              </tbody>
+            </table>
+            `}
+          </div>
+        `)}
+
+        ${invoices.length > 0 && html`
+          <div class="order">
+            <h2>Rental Invoices in the Period</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Invoice No</th>
+                  <th>Project</th>
+                  <th>Billing Period</th>
+                  <th>Net</th>
+                  <th>Tax</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${invoices.map(invoice => statementTotals(invoice.lines).map(total => html`
+                  <tr class="${invoice.status === 'void' ? 'void' : ''}">
+                    <td>${invoice.invoice_number}${invoice.status === 'void' && ' (void)'}</td>
+                    <td>${projectNames.get(invoice.project_id) ?? ''}</td>
+                    <td>${invoice.period_start} to ${invoice.period_end}</td>
+                    <td>${formatMoney(total.net, total.currency)}</td>
+                    <td>${formatMoney(total.tax, total.currency)}</td>
+                    <td>${formatMoney(total.gross, total.currency)}</td>
+                  </tr>
+                `))}
+              </tbody>
+            </table>
+          </div>
+        `}
+      `
+    });
+
+    try {
+      const pdf = await renderPdf(htmlTemplate, { footerText: footerTextOf(template, `${vendor.name} statement ${startDate} to ${endDate}`) });
+      const filename = `${fileStem}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdf.length.toString());
+
+      return res.status(200).json(responses.pdf(pdf, filename));
+
+    } catch (pdfError) {
+      console.error('PDF generation error:', pdfError);
+      return res.status(500).json(responses.serverError('PDF generation failed').body);
+    }
+
+  } catch (error) {
+    console.error('Error generating vendor statement:', error);
+    return res.status(500).json(responses.serverError('Vendor statement generation failed').body);
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkUserRole,
+  responses
+} from '../../src/lib/auth-utils';
+import { vendorInvoiceImportSchema, validateInput } from '../../src/lib/validation-schemas';
+import { fetchRentalLedger } from '../../src/lib/rental-ledger';
+import { parseVendorInvoiceCsv, reconcile, summarizeComputedCharges } from '../../src/lib/reconciliation';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Check if user has manager/admin role (only they can reconcile invoices)
+    const hasRole = await checkUserRole(supabase, user.id, ['admin', 'manager']);
+    if (!hasRole) {
+      return res.status(403).json(responses.forbidden('Only managers and admins can import vendor invoices').body);
+    }
+
+    // Validate input data
+    const validation = validateInput(vendorInvoiceImportSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { vendorId, invoiceNumber, periodStart, periodEnd, fileName, csv } = validation.data;
+
+    let parsed;
+    try {
+      parsed = parseVendorInvoiceCsv(csv);
+    } catch (parseError: any) {
+      return res.status(400).json(responses.badRequest('Invalid CSV file', [parseError.message]).body);
+    }
+
+    if (parsed.errors.length > 0) {
+      return res.status(400).json(responses.badRequest('Invalid vendor invoice lines', parsed.errors).body);
+    }
+
+    // Charges for every DN item of the vendor on hire in the period
+    const { data: rentalData, error } = await fetchRentalLedger(supabase, {
+      vendorId,
+      startDate: periodStart,
+      endDate: periodEnd
+    });
+
+    if (error) {
+      console.error('Data fetch error:', error);
+      return res.status(500).json(responses.serverError('Failed to fetch rental data').body);
+    }
+
+    // Each item is charged under its own project's billing calendar
+    const computed = summarizeComputedCharges((rentalData || []).map(item => ({
+      id: item.id,
+      po_number: item.po_items.purchase_orders.po_number,
+      item_name: item.po_items.item_name,
+      charge: item.charge
+    })));
+
+    const rows = reconcile(parsed.lines, computed);
+
+    const { data: invoiceImport, error: importError } = await supabase
+      .from('vendor_invoice_imports')
+      .insert({
+        vendor_id: vendorId,
+        vendor_invoice_number: invoiceNumber,
+        period_start: periodStart,
+        period_end: periodEnd,
+        file_name: fileName ?? null,
+        imported_by: user.id
+      })
+      .select('id')
+      .single();
+
+    if (importError || !invoiceImport) {
+      // unique_violation on (vendor_id, vendor_invoice_number)
+      if (importError?.code === '23505') {
+        return res.status(409).json(responses.conflict(`Vendor invoice ${invoiceNumber} has already been imported`).body);
+      }
+      console.error('Import insert error:', importError);
+      return res.status(500).json(responses.serverError('Failed to record vendor invoice').body);
+    }
+
+    const { error: linesError } = await supabase
+      .from('vendor_invoice_lines')
+      .insert(rows.map(row => ({
+        import_id: invoiceImport.id,
+        po_number: row.po_number,
+        item_name: row.item_name,
+        match_status: row.match_status,
+        vendor_line_number: row.vendor?.line_number ?? null,
+        vendor_quantity: row.vendor?.quantity ?? null,
+        vendor_days: row.vendor?.days ?? null,
+        vendor_rate: row.vendor?.rate ?? null,
+        vendor_amount: row.vendor?.amount ?? null,
+        dn_item_ids: row.computed?.dn_item_ids ?? [],
+        computed_quantity: row.computed?.quantity ?? null,
+        computed_days: row.computed?.days ?? null,
+        computed_rate: row.computed?.rate ?? null,
+        computed_amount: row.computed?.amount ?? null,
+        // Lines that agree need no decision
+        resolution: row.match_status === 'matched' ? 'accepted' : 'pending'
+      })));
+
+    if (linesError) {
+      console.error('Reconciliation lines insert error:', linesError);
+      await supabase.from('vendor_invoice_imports').delete().eq('id', invoiceImport.id);
+      return res.status(500).json(responses.serverError('Failed to record reconciliation lines').body);
+    }
+
+    return res.status(200).json(responses.success({
+      success: true,
+      message: 'Vendor invoice imported successfully',
+      data: {
+        id: invoiceImport.id,
+        matched: rows.filter(row => row.match_status === 'matched').length,
+        variances: rows.filter(row => row.match_status !== 'matched').length
+      }
+    }).body);
+
+  } catch (error) {
+    console.error('Error importing vendor invoice:', error);
+    return res.status(500).json(responses.serverError('Vendor invoice import failed').body);
+  }
+}
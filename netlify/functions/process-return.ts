@@ -7,7 +7,8 @@ import {
   checkUserRole,
   responses 
 } from '../../src/lib/auth-utils';
-import { returnProcessSchema, validateInput } from '../../src/lib/validation-schemas';
+import { returnBatchSchema, validateInput } from '../../src/lib/validation-schemas';
+import { refreshBudgetAlerts } from '../../src/lib/budget-status';
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
@@ -37,97 +38,141 @@ export default async function handler(req: any, res: any) {
     }
 
     // Validate input data
-    const validation = validateInput(returnProcessSchema, req.body);
+    const validation = validateInput(returnBatchSchema, req.body);
     if (!validation.success) {
       return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
     }
 
-    const { dnItemId, returnedQuantity, returnDate } = validation.data;
-
-    // SECURITY: Check if user has access to this delivery note item
-    const hasAccess = await checkDeliveryNoteItemAccess(supabase, user.id, dnItemId);
-    if (!hasAccess) {
-      return res.status(403).json(responses.forbidden('You do not have access to this delivery note item').body);
+    const returns = validation.data.returns.map(({ dnItemId, returnedQuantity, returnDate, reference }) => ({
+      dnItemId,
+      returnedQuantity,
+      returnDay: returnDate.slice(0, 10),
+      reference: reference ?? null
+    }));
+    const dnItemIds = Array.from(new Set(returns.map(event => event.dnItemId)));
+
+    // SECURITY: Check if user has access to every delivery note item
+    for (const dnItemId of dnItemIds) {
+      const hasAccess = await checkDeliveryNoteItemAccess(supabase, user.id, dnItemId);
+      if (!hasAccess) {
+        return res.status(403).json(responses.forbidden('You do not have access to this delivery note item').body);
+      }
     }
 
-    // Get current DN item
-    const { data: dnItem, error: fetchError } = await supabase
+    // Get current DN items
+    const { data: dnItemRows, error: fetchError } = await supabase
       .from('dn_items')
-      .select('*')
-      .eq('id', dnItemId)
-      .single();
+      .select('*, delivery_notes!inner(delivery_date, purchase_orders(project_id)), po_items(item_name)')
+      .in('id', dnItemIds);
 
-    if (fetchError || !dnItem) {
+    const dnItems = new Map<string, any>((dnItemRows || []).map((dnItem: any) => [dnItem.id, dnItem]));
+    if (fetchError || dnItems.size !== dnItemIds.length) {
       return res.status(404).json(responses.notFound('Delivery note item not found').body);
     }
 
-    // Validate business logic
-    const newReturnedQuantity = dnItem.returned_quantity + returnedQuantity;
-    if (newReturnedQuantity > dnItem.delivered_quantity) {
-      return res.status(400).json(responses.badRequest('Cannot return more than delivered quantity').body);
-    }
-
-    if (new Date(returnDate) < new Date(dnItem.created_at)) {
-      return res.status(400).json(responses.badRequest('Return date cannot be before delivery date').body);
+    // Validate business logic; an item may be returned more than once in a submission
+    const outcomes = dnItemIds.map(dnItemId => {
+      const dnItem = dnItems.get(dnItemId);
+      const events = returns.filter(event => event.dnItemId === dnItemId);
+      const newReturnedQuantity = dnItem.returned_quantity + events.reduce((sum, event) => sum + event.returnedQuantity, 0);
+      return { dnItem, events, newReturnedQuantity };
+    });
+
+    const errors = outcomes.flatMap(({ dnItem, events, newReturnedQuantity }) => {
+      const itemName = dnItem.po_items?.item_name ?? dnItem.id;
+      return [
+        ...(newReturnedQuantity > dnItem.delivered_quantity ? [`${itemName}: Cannot return more than delivered quantity`] : []),
+        ...(events.some(event => event.returnDay < dnItem.delivery_notes.delivery_date)
+          ? [`${itemName}: Return date cannot be before delivery date`]
+          : [])
+      ];
+    });
+    if (errors.length > 0) {
+      return res.status(400).json(responses.badRequest('Returns were not recorded', errors).body);
     }
 
-    const isFullyReturned = newReturnedQuantity >= dnItem.delivered_quantity;
-    const newStatus = isFullyReturned ? 'fully_returned' : 'partial_return';
-
     // Use service role for audit log insertion
     const serviceSupabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // Perform update and audit log in a transaction-like manner
-    const { error: updateError } = await supabase
-      .from('dn_items')
-      .update({
-        returned_quantity: newReturnedQuantity,
-        returned_at: returnDate,
-        status: newStatus,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', dnItemId);
-
-    if (updateError) {
-      console.error('Update error:', updateError);
-      return res.status(500).json(responses.serverError('Failed to update delivery note item').body);
+    // Record the return events in one transaction, so a failure records none
+    // of them; returned_quantity, returned_at and status on dn_items are
+    // derived from the ledger by a database trigger
+    const { data: recorded, error: insertError } = await supabase.rpc('record_dn_item_returns', {
+      p_returns: returns.map(event => ({
+        dn_item_id: event.dnItemId,
+        quantity: event.returnedQuantity,
+        return_date: event.returnDay,
+        reference: event.reference
+      }))
+    });
+
+    const returnEvents = (recorded || []) as { id: string; dn_item_id: string }[];
+    if (insertError || returnEvents.length !== returns.length) {
+      console.error('Insert error:', insertError);
+      return res.status(500).json(responses.serverError('Failed to record returns').body);
     }
 
+    const statusOf = (dnItem: any, returnedQuantity: number) =>
+      returnedQuantity >= dnItem.delivered_quantity ? 'fully_returned' : 'partial_return';
+
     // Log audit trail with service role
     try {
-      await serviceSupabase.from('audit_logs').insert({
-        user_id: user.id,
-        action: 'RETURN_PROCESSED',
-        table_name: 'dn_items',
-        record_id: dnItemId,
-        old_values: {
-          returned_quantity: dnItem.returned_quantity,
-          status: dnItem.status
-        },
-        new_values: {
-          returned_quantity: newReturnedQuantity,
-          status: newStatus
-        },
-        ip_address: req.headers['x-forwarded-for'] || req.connection.remoteAddress,
-        user_agent: req.headers['user-agent']
-      });
+      await serviceSupabase.from('audit_logs').insert(returns.map((event, index) => {
+        const { dnItem, newReturnedQuantity } = outcomes.find(outcome => outcome.dnItem.id === event.dnItemId)!;
+        // Several returns of one item in a submission are matched in the order sent
+        const position = returns.slice(0, index).filter(earlier => earlier.dnItemId === event.dnItemId).length;
+        const returnEvent = returnEvents.filter(recordedEvent => recordedEvent.dn_item_id === event.dnItemId)[position];
+        return {
+          user_id: user.id,
+          action: 'RETURN_PROCESSED',
+          table_name: 'dn_item_returns',
+          record_id: returnEvent?.id,
+          old_values: {
+            dn_item_id: event.dnItemId,
+            returned_quantity: dnItem.returned_quantity,
+            status: dnItem.status
+          },
+          new_values: {
+            dn_item_id: event.dnItemId,
+            quantity: event.returnedQuantity,
+            return_date: event.returnDay,
+            reference: event.reference,
+            returned_quantity: newReturnedQuantity,
+            status: statusOf(dnItem, newReturnedQuantity)
+          },
+          ip_address: req.headers['x-forwarded-for'] || req.connection.remoteAddress,
+          user_agent: req.headers['user-agent']
+        };
+      }));
     } catch (auditError) {
       console.error('Audit log error:', auditError);
       // Don't fail the request if audit logging fails
     }
 
+    // Returns change incurred and forecast spend; new crossings are recorded
+    // now rather than on the next scheduled check
+    const projectIds = new Set<string>(outcomes.map(({ dnItem }) => dnItem.delivery_notes.purchase_orders.project_id));
+    for (const projectId of Array.from(projectIds)) {
+      try {
+        await refreshBudgetAlerts(serviceSupabase, projectId);
+      } catch (alertError) {
+        console.error('Budget alert recording failed:', alertError);
+      }
+    }
+
     return res.status(200).json(responses.success({
       success: true, 
-      message: 'Return processed successfully',
-      data: {
-        id: dnItemId,
-        status: newStatus,
+      message: 'Returns processed successfully',
+      data: outcomes.map(({ dnItem, newReturnedQuantity }) => ({
+        id: dnItem.id,
+        return_ids: returnEvents.filter(event => event.dn_item_id === dnItem.id).map(event => event.id),
+        status: statusOf(dnItem, newReturnedQuantity),
         returned_quantity: newReturnedQuantity,
         remaining_quantity: dnItem.delivered_quantity - newReturnedQuantity
-      }
+      }))
     }).body);
 
   } catch (error) {
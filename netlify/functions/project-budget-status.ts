@@ -0,0 +1,91 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  responses
+} from '../../src/lib/auth-utils';
+import { budgetStatusSchema, validateInput } from '../../src/lib/validation-schemas';
+import { calculateBudgetStatus, recordBudgetCrossings } from '../../src/lib/budget-status';
+import { DatabaseError, NotFoundError, ValidationError } from '../../src/lib/error-handler';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(budgetStatusSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { projectId } = validation.data;
+
+    // SECURITY: Check if user has access to this project
+    const hasAccess = await checkProjectAccess(supabase, user.id, projectId);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this project').body);
+    }
+
+    const status = await calculateBudgetStatus(supabase, projectId);
+
+    // Recording is best-effort; the status is answered either way
+    try {
+      const serviceSupabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+      );
+      await recordBudgetCrossings(serviceSupabase, status.budgets);
+    } catch (alertError) {
+      console.error('Budget alert recording failed:', alertError);
+    }
+
+    const budgetIds = status.budgets.map(budgetStatus => budgetStatus.budget.id);
+    const { data: openAlerts, error: openAlertError } = budgetIds.length > 0
+      ? await supabase
+        .from('budget_alerts')
+        .select('*')
+        .in('budget_id', budgetIds)
+        .is('acknowledged_at', null)
+        .order('crossed_at', { ascending: false })
+      : { data: [], error: null };
+
+    if (openAlertError) {
+      console.error('Budget alert fetch error:', openAlertError);
+    }
+
+    return res.status(200).json(responses.success({
+      ...status,
+      openAlerts: openAlerts || []
+    }).body);
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(responses.badRequest(error.message, error.details).body);
+    }
+    if (error instanceof NotFoundError) {
+      return res.status(404).json(responses.notFound(error.message).body);
+    }
+
+    console.error('Error calculating budget status:', error);
+    return res.status(500).json(responses.serverError(error instanceof DatabaseError ? error.message : 'Budget status calculation failed').body);
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  createAuthenticatedClient,
+  extractAuthToken,
+  authenticateUser,
+  checkProjectAccess,
+  responses
+} from '../../src/lib/auth-utils';
+import { rentalForecastSchema, validateInput } from '../../src/lib/validation-schemas';
+import { roundCurrency, toDateKey } from '../../src/lib/rental-engine';
+import { forecastItemOf, projectCalendarOf } from '../../src/lib/rental-data';
+import { fetchRentalLedger } from '../../src/lib/rental-ledger';
+import { buildForecastRows, groupForecastByVendor } from '../../src/lib/forecast';
+import { convertAmount, fetchExchangeRates, findExchangeRate } from '../../src/lib/currency';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(rentalForecastSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { projectId } = validation.data;
+
+    // SECURITY: Check if user has access to this project
+    const hasAccess = await checkProjectAccess(supabase, user.id, projectId);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this project').body);
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('status, end_date, reporting_currency, exclude_weekends, project_non_chargeable_periods(start_date, end_date)')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      return res.status(404).json(responses.notFound('Project not found').body);
+    }
+
+    if (project.status !== 'active') {
+      return res.status(400).json(responses.badRequest('Forecasts are only available for active projects').body);
+    }
+
+    // The whole hire of every item is forecast, so items returned long ago are included
+    const asOf = toDateKey(new Date());
+    const { data: rentalData, error } = await fetchRentalLedger(supabase, { projectId, endDate: asOf });
+
+    if (error) {
+      console.error('Data fetch error:', error);
+      return res.status(500).json(responses.serverError('Failed to fetch rental data').body);
+    }
+
+    const calendar = projectCalendarOf(project);
+    const rows = buildForecastRows(
+      (rentalData || []).map((item: any) => forecastItemOf(item, calendar)),
+      project.end_date,
+      asOf
+    );
+
+    const reportingCurrency = project.reporting_currency;
+    const exchangeRates = await fetchExchangeRates(supabase, asOf);
+    const missingRates = Array.from(new Set(rows.map(row => row.currency)))
+      .filter(currency => findExchangeRate(exchangeRates, currency, reportingCurrency, asOf) === null)
+      .map(currency => `Record a ${currency} to ${reportingCurrency} rate`);
+    if (missingRates.length > 0) {
+      return res.status(400).json(responses.badRequest(`No exchange rate on or before ${asOf}`, missingRates).body);
+    }
+
+    const reported = (amount: number, currency: string) =>
+      convertAmount(amount, currency, reportingCurrency, asOf, exchangeRates);
+
+    const vendors = groupForecastByVendor(rows).map(group => ({
+      ...group,
+      reporting_cost_to_date: reported(group.cost_to_date, group.currency),
+      reporting_remaining_cost: reported(group.remaining_cost, group.currency),
+      reporting_forecast_cost: reported(group.forecast_cost, group.currency)
+    }));
+
+    const totals = vendors.reduce((sum, group) => ({
+      cost_to_date: roundCurrency(sum.cost_to_date + group.reporting_cost_to_date),
+      remaining_cost: roundCurrency(sum.remaining_cost + group.reporting_remaining_cost),
+      forecast_cost: roundCurrency(sum.forecast_cost + group.reporting_forecast_cost)
+    }), { cost_to_date: 0, remaining_cost: 0, forecast_cost: 0 });
+
+    return res.status(200).json(responses.success({
+      asOf,
+      projectEndDate: project.end_date,
+      reportingCurrency,
+      vendors,
+      totals
+    }).body);
+
+  } catch (error) {
+    console.error('Error forecasting rental cost:', error);
+    return res.status(500).json(responses.serverError('Rental forecast failed').body);
+  }
+}
@@ -0,0 +1,100 @@
+import { createClient } from '@supabase/supabase-js';
+import { 
+  createAuthenticatedClient, 
+  extractAuthToken, 
+  authenticateUser, 
+  responses 
+} from '../../src/lib/auth-utils';
+import { reportJobSchema, validateInput } from '../../src/lib/validation-schemas';
+import { failReportJob, isJobStale, ReportJob, ReportJobProgress } from '../../src/lib/report-jobs';
+import { REPORT_SNAPSHOT_BUCKET } from '../../src/lib/report-snapshots';
+
+// Signed download links stay valid this long
+const DOWNLOAD_LINK_SECONDS = 5 * 60;
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+    
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(reportJobSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    // RLS limits users to their own jobs
+    const { data: job, error: jobError } = await supabase
+      .from('report_jobs')
+      .select('*, report_snapshots(storage_path, file_name, sha256)')
+      .eq('id', validation.data.jobId)
+      .single<ReportJob & { report_snapshots: { storage_path: string; file_name: string; sha256: string } | null }>();
+
+    if (jobError || !job) {
+      return res.status(404).json(responses.notFound('Report job not found').body);
+    }
+
+    // Use service role for job updates and storage (but with validated access)
+    const serviceSupabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    // A worker stopped at its time limit leaves the job unfinished
+    if (isJobStale(job)) {
+      const reason = 'Report generation timed out';
+      await failReportJob(serviceSupabase, job.id, reason);
+      job.status = 'failed';
+      job.error_message = reason;
+    }
+
+    let download: ReportJobProgress['download'] = null;
+    if (job.status === 'completed' && job.report_snapshots) {
+      const { data: signed, error: signError } = await serviceSupabase.storage
+        .from(REPORT_SNAPSHOT_BUCKET)
+        .createSignedUrl(job.report_snapshots.storage_path, DOWNLOAD_LINK_SECONDS, { download: job.report_snapshots.file_name });
+
+      if (signError || !signed) {
+        console.error('Download link error:', signError);
+        return res.status(500).json(responses.serverError('Failed to create download link').body);
+      }
+      download = {
+        url: signed.signedUrl,
+        fileName: job.report_snapshots.file_name,
+        sha256: job.report_snapshots.sha256
+      };
+    }
+
+    const progress: ReportJobProgress = {
+      jobId: job.id,
+      status: job.status,
+      error: job.error_message,
+      createdAt: job.created_at,
+      completedAt: job.completed_at,
+      snapshotId: job.snapshot_id,
+      download
+    };
+
+    return res.status(200).json(responses.success(progress).body);
+
+  } catch (error) {
+    console.error('Error reading report job:', error);
+    return res.status(500).json(responses.serverError().body);
+  }
+}
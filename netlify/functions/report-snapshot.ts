@@ -0,0 +1,97 @@
+import { createClient } from '@supabase/supabase-js';
+import { 
+  createAuthenticatedClient, 
+  extractAuthToken, 
+  authenticateUser, 
+  checkProjectAccess,
+  responses 
+} from '../../src/lib/auth-utils';
+import { reportSnapshotSchema, validateInput } from '../../src/lib/validation-schemas';
+import { REPORT_SNAPSHOT_BUCKET, ReportSnapshot, verifySnapshot } from '../../src/lib/report-snapshots';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Extract and validate auth token
+    const authToken = extractAuthToken(req);
+    if (!authToken) {
+      return res.status(401).json(responses.unauthorized().body);
+    }
+
+    // Create authenticated Supabase client
+    const supabase = createAuthenticatedClient(authToken);
+    
+    // Authenticate user
+    const { success: authSuccess, user, error: authError } = await authenticateUser(supabase);
+    if (!authSuccess || !user) {
+      return res.status(401).json(responses.unauthorized(authError || undefined).body);
+    }
+
+    // Validate input data
+    const validation = validateInput(reportSnapshotSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+    }
+
+    const { snapshotId, action = 'download' } = validation.data;
+
+    // The record is read with the user's client, so RLS hides other projects' reports
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('report_snapshots')
+      .select('*')
+      .eq('id', snapshotId)
+      .single<ReportSnapshot>();
+
+    if (snapshotError || !snapshot) {
+      return res.status(404).json(responses.notFound('Report snapshot not found').body);
+    }
+
+    // SECURITY: Check if user has access to the report's project
+    const hasAccess = await checkProjectAccess(supabase, user.id, snapshot.project_id);
+    if (!hasAccess) {
+      return res.status(403).json(responses.forbidden('You do not have access to this project').body);
+    }
+
+    // Use service role for storage operations (but with validated access)
+    const serviceSupabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: file, error: downloadError } = await serviceSupabase.storage
+      .from(REPORT_SNAPSHOT_BUCKET)
+      .download(snapshot.storage_path);
+
+    if (downloadError || !file) {
+      console.error('Snapshot download error:', downloadError);
+      return res.status(500).json(responses.serverError('Failed to read stored report').body);
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const verification = verifySnapshot(snapshot, content);
+
+    if (action === 'verify') {
+      return res.status(200).json(responses.success({
+        snapshotId: snapshot.id,
+        fileName: snapshot.file_name,
+        ...verification
+      }).body);
+    }
+
+    // The file is returned as stored; the header tells whether it still matches its hash
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${snapshot.file_name}"`);
+    res.setHeader('Content-Length', content.length.toString());
+    res.setHeader('X-Report-SHA256', verification.actual);
+    res.setHeader('X-Report-Verified', String(verification.matches));
+
+    return res.status(200).json(responses.pdf(content, snapshot.file_name));
+
+  } catch (error) {
+    console.error('Error reading report snapshot:', error);
+    return res.status(500).json(responses.serverError().body);
+  }
+}
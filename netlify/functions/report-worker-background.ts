@@ -0,0 +1,63 @@
+import { createClient } from '@supabase/supabase-js';
+import { responses } from '../../src/lib/auth-utils';
+import { reportJobSchema, validateInput } from '../../src/lib/validation-schemas';
+import { buildRentalReport, renderRentalReportPdf } from '../../src/lib/rental-report-builder';
+import { storeReportSnapshot } from '../../src/lib/report-snapshots';
+import { claimReportJob, completeReportJob, describeJobFailure, failReportJob, rentalReportParamsOf } from '../../src/lib/report-jobs';
+
+// Background function: Netlify answers the caller with 202 and lets this run
+// for up to 15 minutes. Jobs are claimed before they run, so starting the
+// worker again for the same job does nothing.
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Validate input data
+  const validation = validateInput(reportJobSchema, req.body);
+  if (!validation.success) {
+    return res.status(400).json(responses.badRequest('Invalid input data', validation.errors).body);
+  }
+
+  const { jobId } = validation.data;
+
+  // Use service role; project access was checked when the job was queued, and
+  // the job's parameters are checked again before they run
+  const serviceSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    const job = await claimReportJob(serviceSupabase, jobId);
+    if (!job) {
+      return res.status(409).json(responses.conflict('Report job is not queued').body);
+    }
+
+    try {
+      const { projectId, ...parameters } = rentalReportParamsOf(job);
+      const report = await buildRentalReport(serviceSupabase, { projectId, ...parameters });
+      const pdf = await renderRentalReportPdf(serviceSupabase, report);
+
+      const snapshot = await storeReportSnapshot(serviceSupabase, serviceSupabase, {
+        projectId,
+        reportType: job.report_type,
+        parameters,
+        fileName: `${report.fileStem}.pdf`,
+        content: pdf,
+        userId: job.requested_by
+      });
+      await completeReportJob(serviceSupabase, job.id, snapshot.id);
+
+      return res.status(200).json(responses.success({ jobId: job.id, status: 'completed' }).body);
+    } catch (jobError) {
+      console.error('Report job error:', jobError);
+      await failReportJob(serviceSupabase, job.id, describeJobFailure(jobError));
+      return res.status(200).json(responses.success({ jobId: job.id, status: 'failed' }).body);
+    }
+
+  } catch (error) {
+    console.error('Error running report job:', error);
+    return res.status(500).json(responses.serverError().body);
+  }
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import DnItemHistoryTable from '@/components/data-tables/DnItemHistoryTable'
+
+export default function DnItemHistoryPage() {
+  const params = useParams<{ id: string }>()
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <DnItemHistoryTable dnItemId={params.id} />
+      </div>
+    </DashboardLayout>
+  )
+}
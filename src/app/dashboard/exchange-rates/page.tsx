@@ -0,0 +1,14 @@
+'use client'
+
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import ExchangeRatesDataTable from '@/components/data-tables/ExchangeRatesDataTable'
+
+export default function ExchangeRatesPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <ExchangeRatesDataTable />
+      </div>
+    </DashboardLayout>
+  )
+}
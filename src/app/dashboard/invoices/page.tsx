@@ -0,0 +1,14 @@
+'use client'
+
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import RentalInvoicesDataTable from '@/components/data-tables/RentalInvoicesDataTable'
+
+export default function RentalInvoicesPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <RentalInvoicesDataTable />
+      </div>
+    </DashboardLayout>
+  )
+}
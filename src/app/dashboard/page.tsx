@@ -1,17 +1,140 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import DashboardLayout from '@/components/layout/DashboardLayout';
+import { createClient } from '@/lib/supabase';
+import { toDateKey } from '@/lib/rental-engine';
+import { convertAmount, fetchExchangeRates, formatMoney } from '@/lib/currency';
+import { fetchRentalLedgerTotals } from '@/lib/rental-ledger';
+import { fetchCommittedTotals } from '@/lib/committed-spend';
+
+interface ProjectCommitment {
+  id: string;
+  name: string;
+  reportingCurrency: string;
+  // Purchase order totals in the project reporting currency; null when a rate is missing
+  committed: number | null;
+  // Rental charges so far this month from the rental ledger, converted like committed
+  rentalThisMonth: number | null;
+  currencies: string[];
+}
+
+interface BudgetAlert {
+  id: string;
+  threshold: number;
+  measure: string;
+  crossed_at: string;
+  project_budgets: {
+    project_id: string;
+    projects: { name: string };
+    project_cost_codes: { code: string } | null;
+  };
+}
 
 export default function Dashboard() {
+  const [counts, setCounts] = useState({ projects: 0, purchaseOrders: 0, pendingReturns: 0 });
+  const [commitments, setCommitments] = useState<ProjectCommitment[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchDashboard();
+  }, []);
+
+  const fetchDashboard = async () => {
+    try {
+      const today = toDateKey(new Date());
+      const monthStart = `${today.slice(0, 7)}-01`;
+      const [projectsResult, committedResult, pendingReturnsResult, rates, alertsResult, rentalResult] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('id, name, reporting_currency')
+          .eq('status', 'active')
+          .order('name'),
+        // Summed per project and currency in the database, so no order is cut off
+        fetchCommittedTotals(supabase),
+        supabase
+          .from('dn_items')
+          .select('id', { count: 'exact', head: true })
+          .in('status', ['delivered', 'partial_return']),
+        fetchExchangeRates(supabase, today),
+        // Recorded hourly, after returns and invoice runs and when a budget status is viewed; acknowledged on the project page
+        supabase
+          .from('budget_alerts')
+          .select('id, threshold, measure, crossed_at, project_budgets!inner(project_id, projects!inner(name), project_cost_codes(code))')
+          .is('acknowledged_at', null)
+          .order('crossed_at', { ascending: false }),
+        fetchRentalLedgerTotals(supabase, monthStart, today)
+      ]);
+
+      if (projectsResult.error) throw projectsResult.error;
+      if (committedResult.error) throw committedResult.error;
+
+      if (alertsResult.error) {
+        console.error('Error fetching budget alerts:', alertsResult.error);
+      }
+      setBudgetAlerts((alertsResult.data || []) as unknown as BudgetAlert[]);
+
+      if (rentalResult.error) {
+        console.error('Error fetching rental ledger totals:', rentalResult.error);
+      }
+      const rentalTotals = rentalResult.data || [];
+
+      const projects = projectsResult.data || [];
+      const committedTotals = committedResult.data || [];
+
+      setCounts({
+        projects: projects.length,
+        purchaseOrders: committedTotals.reduce((sum, total) => sum + total.order_count, 0),
+        pendingReturns: pendingReturnsResult.count ?? 0
+      });
+
+      setCommitments(projects.map((project: any) => {
+        const orderTotals = committedTotals.filter(total => total.project_id === project.id);
+        let committed: number | null = 0;
+        try {
+          committed = orderTotals.reduce((sum, total) => sum + convertAmount(
+            total.amount, total.currency, project.reporting_currency, today, rates
+          ), 0);
+        } catch {
+          committed = null;
+        }
+
+        let rentalThisMonth: number | null = 0;
+        try {
+          rentalThisMonth = rentalTotals
+            .filter(total => total.project_id === project.id)
+            .reduce((sum, total) => sum + convertAmount(total.amount, total.currency, project.reporting_currency, today, rates), 0);
+        } catch {
+          rentalThisMonth = null;
+        }
+
+        return {
+          id: project.id,
+          name: project.name,
+          reportingCurrency: project.reporting_currency,
+          committed,
+          rentalThisMonth,
+          currencies: Array.from(new Set(orderTotals.map(total => total.currency)))
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching dashboard:', error);
+    }
+  };
+
   return (
     <DashboardLayout>
       <div className="px-4 py-6 sm:px-0">
-        <div className="border-4 border-dashed border-gray-200 rounded-lg h-96 p-6">
+        <div className="border-4 border-dashed border-gray-200 rounded-lg p-6">
           <h1 className="text-3xl font-bold text-gray-900 mb-6">Dashboard</h1>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="bg-white overflow-hidden shadow rounded-lg">
               <div className="p-5">
                 <div className="flex items-center">
                   <div className="flex-shrink-0">
-                    <div className="text-2xl font-bold text-indigo-600">0</div>
+                    <div className="text-2xl font-bold text-indigo-600">{counts.projects}</div>
                   </div>
                   <div className="ml-5 w-0 flex-1">
                     <dl>
@@ -21,12 +144,12 @@ export default function Dashboard() {
                 </div>
               </div>
             </div>
-            
+
             <div className="bg-white overflow-hidden shadow rounded-lg">
               <div className="p-5">
                 <div className="flex items-center">
                   <div className="flex-shrink-0">
-                    <div className="text-2xl font-bold text-green-600">0</div>
+                    <div className="text-2xl font-bold text-green-600">{counts.purchaseOrders}</div>
                   </div>
                   <div className="ml-5 w-0 flex-1">
                     <dl>
@@ -36,12 +159,12 @@ export default function Dashboard() {
                 </div>
               </div>
             </div>
-            
+
             <div className="bg-white overflow-hidden shadow rounded-lg">
               <div className="p-5">
                 <div className="flex items-center">
                   <div className="flex-shrink-0">
-                    <div className="text-2xl font-bold text-yellow-600">0</div>
+                    <div className="text-2xl font-bold text-yellow-600">{counts.pendingReturns}</div>
                   </div>
                   <div className="ml-5 w-0 flex-1">
                     <dl>
@@ -52,8 +175,62 @@ export default function Dashboard() {
               </div>
             </div>
           </div>
+
+          {budgetAlerts.length > 0 && (
+            <div className="bg-white shadow rounded-lg mt-6 p-5">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Budget Alerts</h2>
+              <ul className="space-y-2 text-sm">
+                {budgetAlerts.map((budgetAlert) => (
+                  <li key={budgetAlert.id} className="rounded-md bg-red-50 px-3 py-2 text-red-700">
+                    <Link href={`/dashboard/projects/${budgetAlert.project_budgets.project_id}`} className="font-medium hover:underline">
+                      {budgetAlert.project_budgets.projects.name}
+                    </Link>
+                    {budgetAlert.project_budgets.project_cost_codes ? ` (${budgetAlert.project_budgets.project_cost_codes.code})` : ''}
+                    : {budgetAlert.measure} spend reached {budgetAlert.threshold}% of budget
+                    on {new Date(budgetAlert.crossed_at).toLocaleDateString()}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white shadow rounded-lg mt-6 p-5">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Committed Spend by Project</h2>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2">Project</th>
+                  <th className="py-2">PO Currencies</th>
+                  <th className="py-2 text-right">Committed</th>
+                  <th className="py-2 text-right">Rental This Month</th>
+                </tr>
+              </thead>
+              <tbody>
+                {commitments.map((project) => (
+                  <tr key={project.id} className="border-t">
+                    <td className="py-2 font-medium">{project.name}</td>
+                    <td className="py-2">{project.currencies.join(', ') || '-'}</td>
+                    <td className="py-2 text-right">
+                      {project.committed === null
+                        ? <span className="text-red-600">Missing exchange rate to {project.reportingCurrency}</span>
+                        : formatMoney(project.committed, project.reportingCurrency)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {project.rentalThisMonth === null
+                        ? <span className="text-red-600">Missing exchange rate to {project.reportingCurrency}</span>
+                        : formatMoney(project.rentalThisMonth, project.reportingCurrency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              Purchase orders and rental charges in other currencies are converted at the latest recorded exchange rate.
+              Rental charges run from the first of the month to today.
+            </p>
+          </div>
         </div>
       </div>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import ProjectBudgetsDataTable from '@/components/data-tables/ProjectBudgetsDataTable'
+import ProjectCostCodesDataTable from '@/components/data-tables/ProjectCostCodesDataTable'
+import ProjectForecastTable from '@/components/data-tables/ProjectForecastTable'
+import { createClient } from '@/lib/supabase'
+
+interface Project {
+  id: string
+  name: string
+  status: string
+  start_date?: string
+  end_date?: string
+  reporting_currency: string
+}
+
+export default function ProjectPage() {
+  const params = useParams<{ id: string }>()
+  const [project, setProject] = useState<Project | null>(null)
+  const [costCodesVersion, setCostCodesVersion] = useState(0)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchProject()
+  }, [params.id])
+
+  const fetchProject = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, status, start_date, end_date, reporting_currency')
+        .eq('id', params.id)
+        .single()
+
+      if (error) throw error
+      setProject(data)
+    } catch (error) {
+      console.error('Error fetching project:', error)
+    }
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0 space-y-6">
+        {project && (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{project.name}</h1>
+              <p className="text-sm text-gray-500">
+                {project.start_date || '-'} to {project.end_date || '-'} · {project.status} · Reporting in {project.reporting_currency}
+              </p>
+            </div>
+            <ProjectBudgetsDataTable
+              projectId={project.id}
+              reportingCurrency={project.reporting_currency}
+              refreshKey={costCodesVersion}
+            />
+            {project.status === 'active' && (
+              <ProjectForecastTable projectId={project.id} />
+            )}
+            <ProjectCostCodesDataTable
+              projectId={project.id}
+              onChange={() => setCostCodesVersion(costCodesVersion + 1)}
+            />
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import ReconciliationVarianceTable from '@/components/data-tables/ReconciliationVarianceTable'
+
+export default function ReconciliationVariancePage() {
+  const params = useParams<{ id: string }>()
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <ReconciliationVarianceTable importId={params.id} />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import VendorInvoiceImportsDataTable from '@/components/data-tables/VendorInvoiceImportsDataTable'
+
+export default function ReconciliationPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <VendorInvoiceImportsDataTable />
+      </div>
+    </DashboardLayout>
+  )
+}
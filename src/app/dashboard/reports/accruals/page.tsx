@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { supabase } from '@/lib/supabase';
+import { toDateKey } from '@/lib/rental-engine';
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+// Last day of the previous month, the usual month-end close
+const previousMonthEnd = () => {
+  const today = new Date();
+  return toDateKey(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0)));
+};
+
+export default function AccrualReportPage() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [formData, setFormData] = useState({
+    project_id: '',
+    as_of: previousMonthEnd()
+  });
+  const [loading, setLoading] = useState<'pdf' | 'csv' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  const fetchProjects = async () => {
+    const { data } = await supabase
+      .from('projects')
+      .select('id, name')
+      .eq('status', 'active');
+    setProjects(data || []);
+  };
+
+  const generateReport = async (format: 'pdf' | 'csv') => {
+    setLoading(format);
+    setError(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch('/.netlify/functions/generate-accrual-report', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`
+        },
+        body: JSON.stringify({
+          ...(formData.project_id ? { projectId: formData.project_id } : {}),
+          asOf: formData.as_of,
+          format
+        })
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `rental-accruals-${formData.as_of}.${format}`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const result = await response.json().catch(() => ({}));
+        setError([result.error, ...(result.errors || [])].filter(Boolean).join('. ') || 'Failed to generate accrual report');
+      }
+    } catch (error) {
+      console.error('Error generating accrual report:', error);
+      setError('Failed to generate accrual report');
+    }
+
+    setLoading(null);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Month-End Accruals</h1>
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Unbilled Rental Cost</h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Rental cost built up since the last issued invoice for each project and vendor, up to and including the chosen date.</p>
+            </div>
+
+            <form onSubmit={(e) => { e.preventDefault(); generateReport('pdf'); }} className="mt-5 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Project</label>
+                  <select
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    value={formData.project_id}
+                    onChange={(e) => setFormData({...formData, project_id: e.target.value})}
+                  >
+                    <option value="">All projects</option>
+                    {projects.map(project => (
+                      <option key={project.id} value={project.id}>{project.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">As Of</label>
+                  <input
+                    type="date"
+                    required
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    value={formData.as_of}
+                    onChange={(e) => setFormData({...formData, as_of: e.target.value})}
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <p className="text-sm text-red-600">{error}</p>
+              )}
+
+              <div className="flex space-x-3">
+                <button
+                  type="submit"
+                  disabled={loading !== null}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {loading === 'pdf' ? 'Generating...' : 'Download PDF'}
+                </button>
+                <button
+                  type="button"
+                  disabled={loading !== null}
+                  onClick={() => generateReport('csv')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {loading === 'csv' ? 'Generating...' : 'Download CSV'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
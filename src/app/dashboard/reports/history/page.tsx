@@ -0,0 +1,14 @@
+'use client'
+
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import ReportSnapshotsDataTable from '@/components/data-tables/ReportSnapshotsDataTable'
+
+export default function ReportHistoryPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <ReportSnapshotsDataTable />
+      </div>
+    </DashboardLayout>
+  )
+}
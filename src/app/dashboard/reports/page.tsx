@@ -0,0 +1,52 @@
+'use client';
+
+import DashboardLayout from '@/components/layout/DashboardLayout';
+
+const REPORTS = [
+  {
+    href: '/dashboard/reports/rental-overview',
+    title: 'Rental Overview',
+    description: 'Deliveries, returns and amounts due for a project over a period.'
+  },
+  {
+    href: '/dashboard/reports/accruals',
+    title: 'Month-End Accruals',
+    description: 'Rental cost built up since the last invoice, per project and vendor.'
+  },
+  {
+    href: '/dashboard/reports/vendor-statement',
+    title: 'Vendor Statement',
+    description: 'One vendor\'s orders across projects: quantities, items on hire, charges and invoice status.'
+  },
+  {
+    href: '/dashboard/reports/history',
+    title: 'Report History',
+    description: 'Every rental report PDF as issued, to download again and check against its hash.'
+  },
+  {
+    href: '/dashboard/reports/templates',
+    title: 'Report Templates',
+    description: 'Logo, address, footer and columns of reports, invoices, delivery notes and purchase orders.'
+  }
+];
+
+export default function ReportsPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Reports</h1>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {REPORTS.map(report => (
+            <a key={report.href} href={report.href} className="bg-white shadow sm:rounded-lg hover:shadow-md">
+              <div className="px-4 py-5 sm:p-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">{report.title}</h3>
+                <p className="mt-2 text-sm text-gray-500">{report.description}</p>
+              </div>
+            </a>
+          ))}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
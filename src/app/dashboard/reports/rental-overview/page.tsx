@@ -2,21 +2,45 @@
 
 import { useState, useEffect } from 'react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
+import RentalReportPreviewTable from '@/components/data-tables/RentalReportPreviewTable';
 import { supabase } from '@/lib/supabase';
+import { RentalReportPreview, REPORT_GROUPING_LABELS, ReportGrouping, ReportSortKey, SortDirection } from '@/lib/rental-report';
+import { REPORT_JOB_STATUS_LABELS, ReportJobProgress } from '@/lib/report-jobs';
 
 interface Project {
   id: string;
   name: string;
 }
 
+type ReportFormat = 'pdf' | 'csv' | 'xlsx';
+
+// How often a queued PDF is checked on
+const POLL_INTERVAL_MS = 2000;
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: 'PDF',
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)'
+};
+
 export default function RentalReportPage() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [formData, setFormData] = useState({
     project_id: '',
     start_date: '',
-    end_date: ''
+    end_date: '',
+    group_by_cost_code: false,
+    format: 'pdf' as ReportFormat
+  });
+  const [view, setView] = useState<{ sortBy: ReportSortKey; sortDirection: SortDirection; groupLinesBy: ReportGrouping }>({
+    sortBy: 'po_number',
+    sortDirection: 'asc',
+    groupLinesBy: 'none'
   });
-  const [loading, setLoading] = useState(false);
+  const [preview, setPreview] = useState<RentalReportPreview | null>(null);
+  const [loading, setLoading] = useState<'preview' | 'export' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<ReportJobProgress | null>(null);
 
   useEffect(() => {
     fetchProjects();
@@ -30,39 +54,135 @@ export default function RentalReportPage() {
     setProjects(data || []);
   };
 
-  const generateReport = async (e: React.FormEvent) => {
+  // A preview of other dates or another project would no longer match the export
+  const updateForm = (changes: Partial<typeof formData>) => {
+    setFormData({...formData, ...changes});
+    if ('project_id' in changes || 'start_date' in changes || 'end_date' in changes) {
+      setPreview(null);
+    }
+  };
+
+  const requestReport = async (format: ReportFormat | 'json') => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return fetch('/.netlify/functions/generate-rental-report', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session?.access_token ?? ''}`
+      },
+      body: JSON.stringify({
+        projectId: formData.project_id,
+        startDate: formData.start_date,
+        endDate: formData.end_date,
+        groupBy: formData.group_by_cost_code ? 'cost_code' : 'none',
+        ...view,
+        format
+      })
+    });
+  };
+
+  const showError = async (response: Response, fallback: string) => {
+    const result = await response.json().catch(() => ({}));
+    setError([result.error, ...(result.errors || [])].filter(Boolean).join('. ') || fallback);
+  };
+
+  const previewReport = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
+    setLoading('preview');
+    setError(null);
 
     try {
-      const response = await fetch('/api/generate-rental-report', {
+      const response = await requestReport('json');
+      if (response.ok) {
+        setPreview(await response.json());
+      } else {
+        setPreview(null);
+        await showError(response, 'Failed to preview report');
+      }
+    } catch (error) {
+      console.error('Error previewing report:', error);
+      setError('Failed to preview report');
+    }
+
+    setLoading(null);
+  };
+
+  const saveFile = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  // PDFs are rendered in the background; the job is polled until its link is ready
+  const waitForJob = async (jobId: string): Promise<ReportJobProgress> => {
+    for (;;) {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch('/.netlify/functions/report-job-status', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          projectId: formData.project_id,
-          startDate: formData.start_date,
-          endDate: formData.end_date
-        })
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`
+        },
+        body: JSON.stringify({ jobId })
       });
+      if (!response.ok) {
+        throw new Error(`Status check failed with status ${response.status}`);
+      }
 
-      if (response.ok) {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `rental-report-${formData.start_date}-${formData.end_date}.pdf`;
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
-        document.body.removeChild(a);
+      const progress: ReportJobProgress = await response.json();
+      setJob(progress);
+      if (progress.status === 'completed' || progress.status === 'failed') {
+        return progress;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  };
+
+  const exportReport = async () => {
+    setLoading('export');
+    setError(null);
+    setJob(null);
+
+    try {
+      const response = await requestReport(formData.format);
+      if (!response.ok) {
+        await showError(response, 'Failed to generate report');
+      } else if (formData.format === 'pdf') {
+        const { jobId } = await response.json();
+        const progress = await waitForJob(jobId);
+        if (progress.download) {
+          const a = document.createElement('a');
+          a.href = progress.download.url;
+          a.download = progress.download.fileName;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+        } else {
+          setError(progress.error || 'Failed to generate report');
+        }
       } else {
-        console.error('Failed to generate report');
+        saveFile(await response.blob(), `rental-report-${formData.start_date}-${formData.end_date}.${formData.format}`);
       }
     } catch (error) {
       console.error('Error generating report:', error);
+      setError('Failed to generate report');
     }
 
-    setLoading(false);
+    setLoading(null);
+  };
+
+  // Clicking the sorted column again reverses it
+  const sortBy = (key: ReportSortKey) => {
+    setView({
+      ...view,
+      sortBy: key,
+      sortDirection: view.sortBy === key && view.sortDirection === 'asc' ? 'desc' : 'asc'
+    });
   };
 
   return (
@@ -77,14 +197,14 @@ export default function RentalReportPage() {
               <p>Generate a comprehensive rental report showing equipment usage, returns, and amounts due.</p>
             </div>
             
-            <form onSubmit={generateReport} className="mt-5 space-y-4">
+            <form onSubmit={previewReport} className="mt-5 space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">Project</label>
                 <select
                   required
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                   value={formData.project_id}
-                  onChange={(e) => setFormData({...formData, project_id: e.target.value})}
+                  onChange={(e) => updateForm({project_id: e.target.value})}
                 >
                   <option value="">Select Project</option>
                   {projects.map(project => (
@@ -101,7 +221,7 @@ export default function RentalReportPage() {
                     required
                     className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                     value={formData.start_date}
-                    onChange={(e) => setFormData({...formData, start_date: e.target.value})}
+                    onChange={(e) => updateForm({start_date: e.target.value})}
                   />
                 </div>
                 
@@ -112,24 +232,102 @@ export default function RentalReportPage() {
                     required
                     className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                     value={formData.end_date}
-                    onChange={(e) => setFormData({...formData, end_date: e.target.value})}
+                    onChange={(e) => updateForm({end_date: e.target.value})}
                   />
                 </div>
               </div>
               
               <div>
+                <label className="block text-sm font-medium text-gray-700">Format</label>
+                <select
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  value={formData.format}
+                  onChange={(e) => updateForm({format: e.target.value as ReportFormat})}
+                >
+                  {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(format => (
+                    <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  id="group_by_cost_code"
+                  type="checkbox"
+                  checked={formData.group_by_cost_code}
+                  onChange={(e) => updateForm({group_by_cost_code: e.target.checked})}
+                />
+                <label htmlFor="group_by_cost_code" className="text-sm font-medium text-gray-700">
+                  Subtotal charges by cost code
+                </label>
+              </div>
+
+              {error && (
+                <p className="text-sm text-red-600">{error}</p>
+              )}
+
+              {job && job.status !== 'failed' && (
+                <p className="text-sm text-gray-600">
+                  PDF {REPORT_JOB_STATUS_LABELS[job.status].toLowerCase()}
+                  {job.download && <>: <a href={job.download.url} className="text-indigo-600 hover:underline">{job.download.fileName}</a></>}
+                </p>
+              )}
+
+              <div className="flex space-x-3">
                 <button
                   type="submit"
-                  disabled={loading}
+                  disabled={loading !== null}
                   className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
                 >
-                  {loading ? 'Generating...' : 'Generate PDF Report'}
+                  {loading === 'preview' ? 'Loading...' : 'Preview Report'}
+                </button>
+                <button
+                  type="button"
+                  disabled={loading !== null || !formData.project_id || !formData.start_date || !formData.end_date}
+                  onClick={exportReport}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {loading === 'export' ? (job ? `${REPORT_JOB_STATUS_LABELS[job.status]}...` : 'Generating...') : `Export ${FORMAT_LABELS[formData.format]}`}
                 </button>
               </div>
             </form>
           </div>
         </div>
 
+        {preview && (
+          <div className="mt-8 bg-white shadow sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">{preview.project.name}</h3>
+                  <p className="text-sm text-gray-500">{preview.startDate} to {preview.endDate}. Click a line for its charge breakdown.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Group Lines By</label>
+                  <select
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    value={view.groupLinesBy}
+                    onChange={(e) => setView({...view, groupLinesBy: e.target.value as ReportGrouping})}
+                  >
+                    {(Object.keys(REPORT_GROUPING_LABELS) as ReportGrouping[]).map(grouping => (
+                      <option key={grouping} value={grouping}>{REPORT_GROUPING_LABELS[grouping]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <RentalReportPreviewTable
+                report={preview}
+                sortBy={view.sortBy}
+                sortDirection={view.sortDirection}
+                groupLinesBy={view.groupLinesBy}
+                onSort={sortBy}
+              />
+              <p className="text-xs text-gray-500 mt-2">The PDF lists lines sorted and grouped as shown here; CSV and Excel exports keep the sort order.</p>
+            </div>
+          </div>
+        )}
+
         <div className="mt-8 bg-white shadow sm:rounded-lg">
           <div className="px-4 py-5 sm:p-6">
             <h3 className="text-lg leading-6 font-medium text-gray-900">Report Contents</h3>
@@ -142,6 +340,9 @@ export default function RentalReportPage() {
                 <li>Status tracking (delivered, partial return, fully returned)</li>
                 <li>Vendor and project breakdown</li>
                 <li>Daily rate calculations and totals</li>
+                <li>Optional subtotals by cost code, with split lines shown under each code</li>
+                <li>CSV and Excel exports of the report lines, with a summary sheet in Excel</li>
+                <li>Every PDF is kept in the report history with a SHA-256 hash, to download again and verify later</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,14 @@
+'use client'
+
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import ReportTemplatesDataTable from '@/components/data-tables/ReportTemplatesDataTable'
+
+export default function ReportTemplatesPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <ReportTemplatesDataTable />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { supabase } from '@/lib/supabase';
+import { toDateKey } from '@/lib/rental-engine';
+
+interface Vendor {
+  id: string;
+  name: string;
+}
+
+// The current month up to today
+const monthStart = () => {
+  const today = new Date();
+  return toDateKey(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1)));
+};
+
+export default function VendorStatementPage() {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [formData, setFormData] = useState({
+    vendor_id: '',
+    start_date: monthStart(),
+    end_date: toDateKey(new Date())
+  });
+  const [loading, setLoading] = useState<'pdf' | 'csv' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchVendors();
+  }, []);
+
+  const fetchVendors = async () => {
+    const { data } = await supabase
+      .from('vendors')
+      .select('id, name')
+      .order('name');
+    setVendors(data || []);
+  };
+
+  const generateStatement = async (format: 'pdf' | 'csv') => {
+    setLoading(format);
+    setError(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch('/.netlify/functions/generate-vendor-statement', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`
+        },
+        body: JSON.stringify({
+          vendorId: formData.vendor_id,
+          startDate: formData.start_date,
+          endDate: formData.end_date,
+          format
+        })
+      });
+
+      if (response.ok) {
+        const vendor = vendors.find(candidate => candidate.id === formData.vendor_id);
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `vendor-statement-${(vendor?.name ?? 'vendor').replace(/[^A-Za-z0-9]+/g, '-')}-${formData.start_date}-${formData.end_date}.${format}`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const result = await response.json().catch(() => ({}));
+        setError([result.error, ...(result.errors || [])].filter(Boolean).join('. ') || 'Failed to generate vendor statement');
+      }
+    } catch (error) {
+      console.error('Error generating vendor statement:', error);
+      setError('Failed to generate vendor statement');
+    }
+
+    setLoading(null);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Vendor Statement</h1>
+
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Orders, Hire and Charges by Vendor</h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Every purchase order placed with the vendor across your projects, with quantities delivered, returned and still on hire at the end of the period, the rental charged in it and how much of that is already invoiced.</p>
+            </div>
+
+            <form onSubmit={(e) => { e.preventDefault(); generateStatement('pdf'); }} className="mt-5 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Vendor</label>
+                  <select
+                    required
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    value={formData.vendor_id}
+                    onChange={(e) => setFormData({...formData, vendor_id: e.target.value})}
+                  >
+                    <option value="">Select a vendor</option>
+                    {vendors.map(vendor => (
+                      <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Start Date</label>
+                  <input
+                    type="date"
+                    required
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({...formData, start_date: e.target.value})}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">End Date</label>
+                  <input
+                    type="date"
+                    required
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({...formData, end_date: e.target.value})}
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <p className="text-sm text-red-600">{error}</p>
+              )}
+
+              <div className="flex space-x-3">
+                <button
+                  type="submit"
+                  disabled={loading !== null}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {loading === 'pdf' ? 'Generating...' : 'Download PDF'}
+                </button>
+                <button
+                  type="button"
+                  disabled={loading !== null || !formData.vendor_id}
+                  onClick={() => generateStatement('csv')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {loading === 'csv' ? 'Generating...' : 'Download CSV'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
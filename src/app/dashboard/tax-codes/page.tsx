@@ -0,0 +1,14 @@
+'use client'
+
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import TaxCodesDataTable from '@/components/data-tables/TaxCodesDataTable'
+
+export default function TaxCodesPage() {
+  return (
+    <DashboardLayout>
+      <div className="px-4 py-6 sm:px-0">
+        <TaxCodesDataTable />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,675 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { RateChangeForm } from '@/components/forms/RateChangeForm'
+import { SuspensionForm } from '@/components/forms/SuspensionForm'
+import { CostAllocationForm } from '@/components/forms/CostAllocationForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { CostCodeOption, describeCostCode } from '@/lib/cost-allocation'
+import { Plus, Edit2, Trash2, PauseCircle, Split, Printer } from 'lucide-react'
+
+interface DnItemHistoryTableProps {
+  dnItemId: string
+}
+
+interface RateChange {
+  id: string
+  effective_from: string
+  daily_rate: number
+  weekly_rate: number | null
+  four_week_rate: number | null
+  reason: string | null
+  created_at: string
+}
+
+interface Suspension {
+  id: string
+  start_date: string
+  end_date: string | null
+  reason: string
+}
+
+interface CostAllocation {
+  id: string
+  cost_code_id: string
+  percentage: number
+}
+
+interface ReturnEvent {
+  id: string
+  quantity: number
+  return_date: string
+  reference: string | null
+}
+
+interface DnItemDetail {
+  id: string
+  delivered_quantity: number
+  returned_quantity: number
+  status: string
+  daily_rate: number
+  weekly_rate: number | null
+  four_week_rate: number | null
+  minimum_hire_days: number
+  expected_off_hire_date: string | null
+  po_item: { item_name: string; description?: string; cost_code_id: string | null }
+  delivery_note: {
+    id: string
+    dn_number: string
+    delivery_date: string
+    purchase_order: {
+      id: string
+      po_number: string
+      project: { id: string; name: string }
+      vendor: { name: string }
+    }
+  }
+}
+
+export default function DnItemHistoryTable({ dnItemId }: DnItemHistoryTableProps) {
+  const [item, setItem] = useState<DnItemDetail | null>(null)
+  const [rateChanges, setRateChanges] = useState<RateChange[]>([])
+  const [returns, setReturns] = useState<ReturnEvent[]>([])
+  const [suspensions, setSuspensions] = useState<Suspension[]>([])
+  const [allocations, setAllocations] = useState<CostAllocation[]>([])
+  const [costCodes, setCostCodes] = useState<CostCodeOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [selectedSuspension, setSelectedSuspension] = useState<Suspension | null>(null)
+  const [isSuspensionDialogOpen, setIsSuspensionDialogOpen] = useState(false)
+  const [selectedAllocation, setSelectedAllocation] = useState<CostAllocation | null>(null)
+  const [isAllocationDialogOpen, setIsAllocationDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchHistory()
+  }, [dnItemId])
+
+  const fetchHistory = async () => {
+    try {
+      const [itemResult, ratesResult, returnsResult, suspensionsResult, allocationsResult] = await Promise.all([
+        supabase
+          .from('dn_items')
+          .select(`
+            id,
+            delivered_quantity,
+            returned_quantity,
+            status,
+            daily_rate,
+            weekly_rate,
+            four_week_rate,
+            minimum_hire_days,
+            expected_off_hire_date,
+            po_item:po_items(item_name, description, cost_code_id),
+            delivery_note:delivery_notes(
+              id,
+              dn_number,
+              delivery_date,
+              purchase_order:purchase_orders(
+                id,
+                po_number,
+                project:projects(id, name),
+                vendor:vendors(name)
+              )
+            )
+          `)
+          .eq('id', dnItemId)
+          .single(),
+        supabase
+          .from('dn_item_rates')
+          .select('*')
+          .eq('dn_item_id', dnItemId)
+          .order('effective_from'),
+        supabase
+          .from('dn_item_returns')
+          .select('id, quantity, return_date, reference')
+          .eq('dn_item_id', dnItemId)
+          .order('return_date'),
+        supabase
+          .from('dn_item_suspensions')
+          .select('id, start_date, end_date, reason')
+          .eq('dn_item_id', dnItemId)
+          .order('start_date'),
+        supabase
+          .from('dn_item_cost_allocations')
+          .select('id, cost_code_id, percentage')
+          .eq('dn_item_id', dnItemId)
+          .order('created_at')
+      ])
+
+      if (itemResult.error) throw itemResult.error
+      if (ratesResult.error) throw ratesResult.error
+      if (returnsResult.error) throw returnsResult.error
+      if (suspensionsResult.error) throw suspensionsResult.error
+      if (allocationsResult.error) throw allocationsResult.error
+
+      const detail = itemResult.data as unknown as DnItemDetail
+      const { data: costCodeRows, error: costCodesError } = await supabase
+        .from('project_cost_codes')
+        .select('id, code, name')
+        .eq('project_id', detail.delivery_note.purchase_order.project.id)
+        .order('code')
+
+      if (costCodesError) throw costCodesError
+
+      setItem(detail)
+      setRateChanges(ratesResult.data || [])
+      setReturns(returnsResult.data || [])
+      setSuspensions(suspensionsResult.data || [])
+      setAllocations(allocationsResult.data || [])
+      setCostCodes(costCodeRows || [])
+    } catch (error) {
+      console.error('Error fetching item history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateRateChange = async (formData: any) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('dn_item_rates')
+        .insert([{ ...formData, dn_item_id: dnItemId, created_by: user?.id }])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error recording rate change:', error)
+    }
+  }
+
+  const handleDeleteRateChange = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this rate change?')) return
+
+    try {
+      const { error } = await supabase
+        .from('dn_item_rates')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchHistory()
+    } catch (error) {
+      console.error('Error deleting rate change:', error)
+    }
+  }
+
+  const handleCreateSuspension = async (formData: any) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('dn_item_suspensions')
+        .insert([{ ...formData, dn_item_id: dnItemId, created_by: user?.id }])
+
+      if (error) throw error
+
+      setIsSuspensionDialogOpen(false)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error recording suspension:', error)
+    }
+  }
+
+  const handleUpdateSuspension = async (formData: any) => {
+    if (!selectedSuspension) return
+
+    try {
+      const { error } = await supabase
+        .from('dn_item_suspensions')
+        .update(formData)
+        .eq('id', selectedSuspension.id)
+
+      if (error) throw error
+
+      setIsSuspensionDialogOpen(false)
+      setSelectedSuspension(null)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error updating suspension:', error)
+    }
+  }
+
+  const handleDeleteSuspension = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this suspension?')) return
+
+    try {
+      const { error } = await supabase
+        .from('dn_item_suspensions')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchHistory()
+    } catch (error) {
+      console.error('Error deleting suspension:', error)
+    }
+  }
+
+  const handleCreateAllocation = async (formData: any) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('dn_item_cost_allocations')
+        .insert([{ ...formData, dn_item_id: dnItemId, created_by: user?.id }])
+
+      if (error) throw error
+
+      setIsAllocationDialogOpen(false)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error allocating cost code:', error)
+      alert('This cost code is already allocated on this line.')
+    }
+  }
+
+  const handleUpdateAllocation = async (formData: any) => {
+    if (!selectedAllocation) return
+
+    try {
+      const { error } = await supabase
+        .from('dn_item_cost_allocations')
+        .update(formData)
+        .eq('id', selectedAllocation.id)
+
+      if (error) throw error
+
+      setIsAllocationDialogOpen(false)
+      setSelectedAllocation(null)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error updating cost allocation:', error)
+    }
+  }
+
+  const handleDeleteAllocation = async (id: string) => {
+    if (!confirm('Are you sure you want to remove this allocation?')) return
+
+    try {
+      const { error } = await supabase
+        .from('dn_item_cost_allocations')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchHistory()
+    } catch (error) {
+      console.error('Error deleting cost allocation:', error)
+    }
+  }
+
+  const handleExpectedOffHireChange = async (value: string) => {
+    try {
+      const { error } = await supabase
+        .from('dn_items')
+        .update({ expected_off_hire_date: value || null })
+        .eq('id', dnItemId)
+
+      if (error) throw error
+      fetchHistory()
+    } catch (error) {
+      console.error('Error updating expected off-hire date:', error)
+    }
+  }
+
+  // Prints render in a Netlify function and download as a PDF
+  const downloadPdf = async (functionName: string, body: object, fileName: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/.netlify/functions/${functionName}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`,
+        },
+        body: JSON.stringify(body),
+      })
+      if (!response.ok) throw new Error(`Failed to generate ${fileName}`)
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error) {
+      console.error('Error printing document:', error)
+    }
+  }
+
+  const handlePrintDeliveryNote = () => {
+    if (!item) return
+    downloadPdf('generate-delivery-note', { deliveryNoteId: item.delivery_note.id }, `delivery-note-${item.delivery_note.dn_number}.pdf`)
+  }
+
+  const handlePrintPurchaseOrder = () => {
+    if (!item) return
+    const purchaseOrder = item.delivery_note.purchase_order
+    downloadPdf('generate-purchase-order', { purchaseOrderId: purchaseOrder.id }, `purchase-order-${purchaseOrder.po_number}.pdf`)
+  }
+
+  const formatRate = (rate: number | null) => (rate === null ? '-' : Number(rate).toFixed(2))
+
+  if (loading) return <div>Loading...</div>
+  if (!item) return <div>Delivery note item not found</div>
+
+  const allocatedPercentage = allocations.reduce((sum, allocation) => sum + Number(allocation.percentage), 0)
+  const unallocatedPercentage = Math.round((100 - allocatedPercentage) * 100) / 100
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>{item.po_item.item_name}</CardTitle>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={handlePrintDeliveryNote}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print Delivery Note
+              </Button>
+              <Button variant="outline" size="sm" onClick={handlePrintPurchaseOrder}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print Purchase Order
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-gray-500">Project / Vendor</div>
+              <div>{item.delivery_note.purchase_order.project.name}</div>
+              <div className="text-gray-500">{item.delivery_note.purchase_order.vendor.name}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">PO / DN</div>
+              <div>{item.delivery_note.purchase_order.po_number}</div>
+              <div className="text-gray-500">{item.delivery_note.dn_number}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Delivered</div>
+              <div>{item.delivered_quantity} on {item.delivery_note.delivery_date}</div>
+              <div className="text-gray-500">{item.returned_quantity} returned ({item.status})</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Rates at Delivery</div>
+              <div>
+                {formatRate(item.daily_rate)}/day, {formatRate(item.weekly_rate)}/wk, {formatRate(item.four_week_rate)}/4wk
+              </div>
+              <div className="text-gray-500">
+                {item.minimum_hire_days > 0 ? `Min. hire ${item.minimum_hire_days} days` : 'No minimum hire'}
+              </div>
+            </div>
+          </div>
+          {item.status !== 'fully_returned' && (
+            <div className="mt-4 flex items-center space-x-2 text-sm">
+              <Label htmlFor="expected_off_hire_date">Expected off-hire</Label>
+              <Input
+                id="expected_off_hire_date"
+                type="date"
+                className="w-44"
+                min={item.delivery_note.delivery_date}
+                value={item.expected_off_hire_date ?? ''}
+                onChange={(e) => handleExpectedOffHireChange(e.target.value)}
+              />
+              <span className="text-xs text-gray-500">Forecasts use the project end date when this is empty</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Rate History</CardTitle>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Rate Change
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <RateChangeForm onSubmit={handleCreateRateChange} />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Effective From</TableHead>
+                <TableHead>Daily</TableHead>
+                <TableHead>Weekly</TableHead>
+                <TableHead>4-Week</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell>{item.delivery_note.delivery_date}</TableCell>
+                <TableCell>{formatRate(item.daily_rate)}</TableCell>
+                <TableCell>{formatRate(item.weekly_rate)}</TableCell>
+                <TableCell>{formatRate(item.four_week_rate)}</TableCell>
+                <TableCell className="text-gray-500">Rate at delivery</TableCell>
+                <TableCell />
+              </TableRow>
+              {rateChanges.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell>{change.effective_from}</TableCell>
+                  <TableCell>{formatRate(change.daily_rate)}</TableCell>
+                  <TableCell>{formatRate(change.weekly_rate)}</TableCell>
+                  <TableCell>{formatRate(change.four_week_rate)}</TableCell>
+                  <TableCell>{change.reason || '-'}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteRateChange(change.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Suspensions</CardTitle>
+            <Dialog open={isSuspensionDialogOpen} onOpenChange={setIsSuspensionDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setSelectedSuspension(null)}>
+                  <PauseCircle className="h-4 w-4 mr-2" />
+                  Suspend Charging
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <SuspensionForm
+                  onSubmit={selectedSuspension ? handleUpdateSuspension : handleCreateSuspension}
+                  initialData={selectedSuspension || undefined}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {suspensions.length === 0 ? (
+            <p className="text-sm text-gray-500">No suspensions recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suspensions.map((suspension) => (
+                  <TableRow key={suspension.id}>
+                    <TableCell>{suspension.start_date}</TableCell>
+                    <TableCell>{suspension.end_date || 'ongoing'}</TableCell>
+                    <TableCell>{suspension.reason}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedSuspension(suspension)
+                            setIsSuspensionDialogOpen(true)
+                          }}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteSuspension(suspension.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Cost Code Split</CardTitle>
+            <Dialog open={isAllocationDialogOpen} onOpenChange={setIsAllocationDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  onClick={() => setSelectedAllocation(null)}
+                  disabled={costCodes.length === 0 || unallocatedPercentage <= 0}
+                >
+                  <Split className="h-4 w-4 mr-2" />
+                  Split Charges
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <CostAllocationForm
+                  onSubmit={selectedAllocation ? handleUpdateAllocation : handleCreateAllocation}
+                  costCodes={costCodes}
+                  available={selectedAllocation
+                    ? Math.round((unallocatedPercentage + Number(selectedAllocation.percentage)) * 100) / 100
+                    : unallocatedPercentage}
+                  initialData={selectedAllocation ? {
+                    cost_code_id: selectedAllocation.cost_code_id,
+                    percentage: Number(selectedAllocation.percentage),
+                  } : undefined}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {costCodes.length === 0 ? (
+            <p className="text-sm text-gray-500">The project has no cost codes</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cost Code</TableHead>
+                  <TableHead>Share</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {allocations.map((allocation) => (
+                  <TableRow key={allocation.id}>
+                    <TableCell>{describeCostCode(allocation.cost_code_id, costCodes)}</TableCell>
+                    <TableCell>{Number(allocation.percentage)}%</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedAllocation(allocation)
+                            setIsAllocationDialogOpen(true)
+                          }}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteAllocation(allocation.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {unallocatedPercentage > 0 && (
+                  <TableRow>
+                    <TableCell>{describeCostCode(item.po_item.cost_code_id, costCodes)}</TableCell>
+                    <TableCell>{unallocatedPercentage}%</TableCell>
+                    <TableCell className="text-gray-500">PO item cost code</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Returns</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {returns.length === 0 ? (
+            <p className="text-sm text-gray-500">No returns recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Return Date</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead>Reference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.map((ret) => (
+                  <TableRow key={ret.id}>
+                    <TableCell>{ret.return_date}</TableCell>
+                    <TableCell>{ret.quantity}</TableCell>
+                    <TableCell>{ret.reference || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
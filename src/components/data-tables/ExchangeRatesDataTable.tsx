@@ -0,0 +1,259 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { ExchangeRateForm } from '@/components/forms/ExchangeRateForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { EXCHANGE_RATE_COLUMNS, ExchangeRate, parseExchangeRateCsv } from '@/lib/currency'
+import { Plus, Upload, Edit2, Trash2 } from 'lucide-react'
+
+interface ExchangeRateRow extends ExchangeRate {
+  id: string
+  source: 'manual' | 'import'
+}
+
+export default function ExchangeRatesDataTable() {
+  const [rates, setRates] = useState<ExchangeRateRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedRate, setSelectedRate] = useState<ExchangeRateRow | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchRates()
+  }, [])
+
+  const fetchRates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('rate_date', { ascending: false })
+        .order('from_currency')
+        .order('to_currency')
+
+      if (error) throw error
+      setRates(data || [])
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateRate = async (formData: any) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('exchange_rates')
+        .insert([{ ...formData, source: 'manual', created_by: user?.id }])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      fetchRates()
+    } catch (error) {
+      console.error('Error creating exchange rate:', error)
+    }
+  }
+
+  const handleUpdateRate = async (formData: any) => {
+    if (!selectedRate) return
+
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .update(formData)
+        .eq('id', selectedRate.id)
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedRate(null)
+      fetchRates()
+    } catch (error) {
+      console.error('Error updating exchange rate:', error)
+    }
+  }
+
+  const handleDeleteRate = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this exchange rate?')) return
+
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchRates()
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error)
+    }
+  }
+
+  // Imported rates replace any rate already recorded for the same pair and date
+  const handleImport = async () => {
+    if (!importFile) {
+      setImportErrors(['Choose the exchange rate CSV file'])
+      return
+    }
+
+    try {
+      const parsed = parseExchangeRateCsv(await importFile.text())
+      if (parsed.errors.length > 0) {
+        setImportErrors(parsed.errors)
+        return
+      }
+
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          parsed.rates.map(rate => ({ ...rate, source: 'import', created_by: user?.id })),
+          { onConflict: 'from_currency,to_currency,rate_date' }
+        )
+
+      if (error) throw error
+
+      setImportErrors([])
+      setImportFile(null)
+      setIsImportOpen(false)
+      fetchRates()
+    } catch (error: any) {
+      console.error('Error importing exchange rates:', error)
+      setImportErrors([error?.message || 'Failed to import exchange rates'])
+    }
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Exchange Rates</CardTitle>
+          <div className="flex space-x-2">
+            <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" onClick={() => setImportErrors([])}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import CSV
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Import Exchange Rates</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <Label htmlFor="rates-file">CSV File</Label>
+                      <Input
+                        id="rates-file"
+                        type="file"
+                        accept=".csv"
+                        onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Columns: {EXCHANGE_RATE_COLUMNS.join(', ')}
+                      </p>
+                    </div>
+
+                    {importErrors.length > 0 && (
+                      <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                        {importErrors.map((error) => (
+                          <p key={error} className="text-sm text-red-700">{error}</p>
+                        ))}
+                      </div>
+                    )}
+
+                    <Button onClick={handleImport}>Import</Button>
+                  </CardContent>
+                </Card>
+              </DialogContent>
+            </Dialog>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setSelectedRate(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rate
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <ExchangeRateForm
+                  onSubmit={selectedRate ? handleUpdateRate : handleCreateRate}
+                  initialData={selectedRate ? {
+                    from_currency: selectedRate.from_currency,
+                    to_currency: selectedRate.to_currency,
+                    rate: Number(selectedRate.rate),
+                    rate_date: selectedRate.rate_date,
+                  } : undefined}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>From</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map((rate) => (
+              <TableRow key={rate.id}>
+                <TableCell>{rate.rate_date}</TableCell>
+                <TableCell className="font-medium">{rate.from_currency}</TableCell>
+                <TableCell>{rate.to_currency}</TableCell>
+                <TableCell>{Number(rate.rate)}</TableCell>
+                <TableCell>{rate.source}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedRate(rate)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteRate(rate.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {rates.length === 0 && (
+          <div className="text-center py-4 text-gray-500">
+            No exchange rates recorded
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
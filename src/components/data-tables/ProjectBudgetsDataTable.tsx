@@ -0,0 +1,325 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { ProjectBudgetForm } from '@/components/forms/ProjectBudgetForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { BUDGET_MEASURES, BudgetMeasure, BudgetStatus, highestThresholdReached } from '@/lib/budgets'
+import { formatMoney } from '@/lib/currency'
+import { Plus, Edit2, Trash2, Check } from 'lucide-react'
+
+interface ProjectBudgetsDataTableProps {
+  projectId: string
+  reportingCurrency: string
+  // Changes when cost codes are edited elsewhere on the page
+  refreshKey?: number
+}
+
+interface ProjectBudget {
+  id: string
+  cost_code_id: string | null
+  amount: number
+  alert_thresholds: number[]
+  notes?: string
+  project_cost_codes?: { code: string; name: string } | null
+}
+
+interface CostCode {
+  id: string
+  code: string
+  name: string
+}
+
+interface BudgetAlert {
+  id: string
+  budget_id: string
+  threshold: number
+  measure: BudgetMeasure
+  spend_amount: number
+  budget_amount: number
+  crossed_at: string
+}
+
+const MEASURE_LABELS: Record<BudgetMeasure, string> = {
+  committed: 'Committed',
+  incurred: 'Incurred',
+  forecast: 'Forecast',
+}
+
+export default function ProjectBudgetsDataTable({ projectId, reportingCurrency, refreshKey }: ProjectBudgetsDataTableProps) {
+  const [budgets, setBudgets] = useState<ProjectBudget[]>([])
+  const [costCodes, setCostCodes] = useState<CostCode[]>([])
+  const [statuses, setStatuses] = useState<Map<string, BudgetStatus>>(new Map())
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([])
+  const [statusError, setStatusError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [selectedBudget, setSelectedBudget] = useState<ProjectBudget | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchBudgets()
+  }, [projectId, refreshKey])
+
+  const fetchBudgets = async () => {
+    try {
+      const [budgetsResult, costCodesResult] = await Promise.all([
+        supabase
+          .from('project_budgets')
+          .select('*, project_cost_codes(code, name)')
+          .eq('project_id', projectId)
+          .order('created_at'),
+        supabase
+          .from('project_cost_codes')
+          .select('id, code, name')
+          .eq('project_id', projectId)
+          .order('code')
+      ])
+
+      if (budgetsResult.error) throw budgetsResult.error
+      if (costCodesResult.error) throw costCodesResult.error
+
+      setBudgets(budgetsResult.data || [])
+      setCostCodes(costCodesResult.data || [])
+      await fetchStatus()
+    } catch (error) {
+      console.error('Error fetching budgets:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Spend is calculated server-side, which also records newly crossed thresholds
+  const fetchStatus = async () => {
+    setStatusError(null)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch('/.netlify/functions/project-budget-status', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`,
+        },
+        body: JSON.stringify({ projectId }),
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setStatusError([result.error || 'Failed to calculate spend', ...(result.errors || [])].join('. '))
+        return
+      }
+
+      setStatuses(new Map((result.budgets || []).map((status: BudgetStatus) => [status.budget.id, status])))
+      setAlerts(result.openAlerts || [])
+    } catch (error) {
+      console.error('Error fetching budget status:', error)
+      setStatusError('Failed to calculate spend')
+    }
+  }
+
+  const handleCreateBudget = async (formData: any) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('project_budgets')
+        .insert([{ ...formData, project_id: projectId, created_by: user?.id }])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      fetchBudgets()
+    } catch (error) {
+      console.error('Error creating budget:', error)
+      alert('A budget already exists for this cost code.')
+    }
+  }
+
+  const handleUpdateBudget = async (formData: any) => {
+    if (!selectedBudget) return
+
+    try {
+      const { error } = await supabase
+        .from('project_budgets')
+        .update(formData)
+        .eq('id', selectedBudget.id)
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedBudget(null)
+      fetchBudgets()
+    } catch (error) {
+      console.error('Error updating budget:', error)
+    }
+  }
+
+  const handleDeleteBudget = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this budget?')) return
+
+    try {
+      const { error } = await supabase
+        .from('project_budgets')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchBudgets()
+    } catch (error) {
+      console.error('Error deleting budget:', error)
+    }
+  }
+
+  const handleAcknowledgeAlert = async (id: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('budget_alerts')
+        .update({ acknowledged_by: user?.id, acknowledged_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+      setAlerts(alerts.filter((budgetAlert) => budgetAlert.id !== id))
+    } catch (error) {
+      console.error('Error acknowledging budget alert:', error)
+    }
+  }
+
+  const scopeOf = (budget?: ProjectBudget) => budget?.project_cost_codes
+    ? `${budget.project_cost_codes.code} - ${budget.project_cost_codes.name}`
+    : 'Whole project'
+
+  const renderSpend = (budget: ProjectBudget, measure: BudgetMeasure) => {
+    const status = statuses.get(budget.id)
+    if (!status) return '-'
+
+    const percentUsed = status.percent_used[measure]
+    const reached = highestThresholdReached(percentUsed, budget.alert_thresholds)
+    const colour = reached === null ? '' : reached >= 100 ? 'text-red-600 font-medium' : 'text-yellow-600 font-medium'
+
+    return (
+      <span className={colour}>
+        {formatMoney(status.spend[measure], reportingCurrency)} ({percentUsed}%)
+      </span>
+    )
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Budget</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setSelectedBudget(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Budget
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <ProjectBudgetForm
+                onSubmit={selectedBudget ? handleUpdateBudget : handleCreateBudget}
+                costCodes={costCodes}
+                reportingCurrency={reportingCurrency}
+                initialData={selectedBudget ? {
+                  cost_code_id: selectedBudget.cost_code_id,
+                  amount: Number(selectedBudget.amount),
+                  alert_thresholds: selectedBudget.alert_thresholds,
+                  notes: selectedBudget.notes,
+                } : undefined}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {alerts.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {alerts.map((budgetAlert) => (
+              <div key={budgetAlert.id} className="flex justify-between items-center rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+                <span>
+                  {scopeOf(budgets.find((budget) => budget.id === budgetAlert.budget_id))}: {MEASURE_LABELS[budgetAlert.measure].toLowerCase()} spend
+                  reached {budgetAlert.threshold}% of budget ({formatMoney(Number(budgetAlert.spend_amount), reportingCurrency)} of {formatMoney(Number(budgetAlert.budget_amount), reportingCurrency)})
+                  on {new Date(budgetAlert.crossed_at).toLocaleDateString()}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Acknowledge"
+                  onClick={() => handleAcknowledgeAlert(budgetAlert.id)}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {statusError && (
+          <p className="text-sm text-red-500 mb-4">{statusError}</p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scope</TableHead>
+              <TableHead>Budget</TableHead>
+              {BUDGET_MEASURES.map((measure) => (
+                <TableHead key={measure}>{MEASURE_LABELS[measure]}</TableHead>
+              ))}
+              <TableHead>Alerts At</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {budgets.map((budget) => (
+              <TableRow key={budget.id}>
+                <TableCell className="font-medium">{scopeOf(budget)}</TableCell>
+                <TableCell>{formatMoney(Number(budget.amount), reportingCurrency)}</TableCell>
+                {BUDGET_MEASURES.map((measure) => (
+                  <TableCell key={measure}>{renderSpend(budget, measure)}</TableCell>
+                ))}
+                <TableCell>{budget.alert_thresholds.map((threshold) => `${threshold}%`).join(', ')}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedBudget(budget)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteBudget(budget.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {budgets.length === 0 && (
+          <div className="text-center py-4 text-gray-500">
+            No budget set for this project
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-2">
+          Committed is the net total of purchase orders past draft, incurred is net rental charges to date and forecast is
+          the higher of committed and the rental cost projected to each item's off-hire date or the project end. Amounts in other currencies are converted at the latest recorded exchange rate.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
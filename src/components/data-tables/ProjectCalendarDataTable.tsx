@@ -0,0 +1,207 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { NonChargeablePeriodForm } from '@/components/forms/NonChargeablePeriodForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Plus, Edit2, Trash2 } from 'lucide-react'
+
+interface ProjectCalendarDataTableProps {
+  projectId: string
+  projectName: string
+}
+
+interface NonChargeablePeriod {
+  id: string
+  kind: 'holiday' | 'shutdown'
+  start_date: string
+  end_date: string
+  description?: string
+}
+
+export default function ProjectCalendarDataTable({ projectId, projectName }: ProjectCalendarDataTableProps) {
+  const [periods, setPeriods] = useState<NonChargeablePeriod[]>([])
+  const [excludeWeekends, setExcludeWeekends] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [selectedPeriod, setSelectedPeriod] = useState<NonChargeablePeriod | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchCalendar()
+  }, [projectId])
+
+  const fetchCalendar = async () => {
+    try {
+      const [projectResult, periodsResult] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('exclude_weekends')
+          .eq('id', projectId)
+          .single(),
+        supabase
+          .from('project_non_chargeable_periods')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('start_date')
+      ])
+
+      if (projectResult.error) throw projectResult.error
+      if (periodsResult.error) throw periodsResult.error
+
+      setExcludeWeekends(projectResult.data?.exclude_weekends ?? false)
+      setPeriods(periodsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching billing calendar:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExcludeWeekendsChange = async (checked: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ exclude_weekends: checked })
+        .eq('id', projectId)
+
+      if (error) throw error
+      setExcludeWeekends(checked)
+    } catch (error) {
+      console.error('Error updating weekend billing:', error)
+    }
+  }
+
+  const handleCreatePeriod = async (formData: any) => {
+    try {
+      const { error } = await supabase
+        .from('project_non_chargeable_periods')
+        .insert([{ ...formData, project_id: projectId }])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      fetchCalendar()
+    } catch (error) {
+      console.error('Error creating non-chargeable period:', error)
+    }
+  }
+
+  const handleUpdatePeriod = async (formData: any) => {
+    if (!selectedPeriod) return
+
+    try {
+      const { error } = await supabase
+        .from('project_non_chargeable_periods')
+        .update(formData)
+        .eq('id', selectedPeriod.id)
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedPeriod(null)
+      fetchCalendar()
+    } catch (error) {
+      console.error('Error updating non-chargeable period:', error)
+    }
+  }
+
+  const handleDeletePeriod = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this period?')) return
+
+    try {
+      const { error } = await supabase
+        .from('project_non_chargeable_periods')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchCalendar()
+    } catch (error) {
+      console.error('Error deleting non-chargeable period:', error)
+    }
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Billing Calendar: {projectName}</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setSelectedPeriod(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Period
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <NonChargeablePeriodForm
+                onSubmit={selectedPeriod ? handleUpdatePeriod : handleCreatePeriod}
+                initialData={selectedPeriod || undefined}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            id="exclude_weekends"
+            type="checkbox"
+            checked={excludeWeekends}
+            onChange={(e) => handleExcludeWeekendsChange(e.target.checked)}
+          />
+          <Label htmlFor="exclude_weekends">Weekends are not chargeable</Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>From</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {periods.map((period) => (
+              <TableRow key={period.id}>
+                <TableCell className="capitalize">{period.kind}</TableCell>
+                <TableCell>{period.start_date}</TableCell>
+                <TableCell>{period.end_date}</TableCell>
+                <TableCell>{period.description || '-'}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedPeriod(period)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeletePeriod(period.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { ProjectCostCodeForm } from '@/components/forms/ProjectCostCodeForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Plus, Edit2, Trash2 } from 'lucide-react'
+
+interface ProjectCostCodesDataTableProps {
+  projectId: string
+  onChange?: () => void
+}
+
+interface ProjectCostCode {
+  id: string
+  code: string
+  name: string
+}
+
+export default function ProjectCostCodesDataTable({ projectId, onChange }: ProjectCostCodesDataTableProps) {
+  const [costCodes, setCostCodes] = useState<ProjectCostCode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedCostCode, setSelectedCostCode] = useState<ProjectCostCode | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchCostCodes()
+  }, [projectId])
+
+  const fetchCostCodes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_cost_codes')
+        .select('id, code, name')
+        .eq('project_id', projectId)
+        .order('code')
+
+      if (error) throw error
+      setCostCodes(data || [])
+    } catch (error) {
+      console.error('Error fetching cost codes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const refresh = () => {
+    fetchCostCodes()
+    onChange?.()
+  }
+
+  const handleCreateCostCode = async (formData: any) => {
+    try {
+      const { error } = await supabase
+        .from('project_cost_codes')
+        .insert([{ ...formData, project_id: projectId }])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      refresh()
+    } catch (error) {
+      console.error('Error creating cost code:', error)
+    }
+  }
+
+  const handleUpdateCostCode = async (formData: any) => {
+    if (!selectedCostCode) return
+
+    try {
+      const { error } = await supabase
+        .from('project_cost_codes')
+        .update(formData)
+        .eq('id', selectedCostCode.id)
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedCostCode(null)
+      refresh()
+    } catch (error) {
+      console.error('Error updating cost code:', error)
+    }
+  }
+
+  const handleDeleteCostCode = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this cost code? Its budget is deleted too.')) return
+
+    try {
+      const { error } = await supabase
+        .from('project_cost_codes')
+        .delete()
+        .eq('id', id)
+
+      // Codes already booked on PO items cannot be deleted
+      if (error) throw error
+      refresh()
+    } catch (error) {
+      console.error('Error deleting cost code:', error)
+      alert('This cost code is used on purchase order items.')
+    }
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Cost Codes</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setSelectedCostCode(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Cost Code
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <ProjectCostCodeForm
+                onSubmit={selectedCostCode ? handleUpdateCostCode : handleCreateCostCode}
+                initialData={selectedCostCode ? {
+                  code: selectedCostCode.code,
+                  name: selectedCostCode.name,
+                } : undefined}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {costCodes.map((costCode) => (
+              <TableRow key={costCode.id}>
+                <TableCell className="font-medium">{costCode.code}</TableCell>
+                <TableCell>{costCode.name}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedCostCode(costCode)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteCostCode(costCode.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {costCodes.length === 0 && (
+          <div className="text-center py-4 text-gray-500">
+            No cost codes defined
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
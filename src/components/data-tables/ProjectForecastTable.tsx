@@ -0,0 +1,161 @@
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { describeForecastBasis, ForecastVendorGroup } from '@/lib/forecast'
+import { formatMoney } from '@/lib/currency'
+
+interface ProjectForecastTableProps {
+  projectId: string
+}
+
+interface VendorForecast extends ForecastVendorGroup {
+  reporting_forecast_cost: number
+}
+
+interface ProjectForecast {
+  asOf: string
+  projectEndDate: string | null
+  reportingCurrency: string
+  vendors: VendorForecast[]
+  totals: { cost_to_date: number; remaining_cost: number; forecast_cost: number }
+}
+
+export default function ProjectForecastTable({ projectId }: ProjectForecastTableProps) {
+  const [forecast, setForecast] = useState<ProjectForecast | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchForecast()
+  }, [projectId])
+
+  const fetchForecast = async () => {
+    setError(null)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch('/.netlify/functions/project-rental-forecast', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`,
+        },
+        body: JSON.stringify({ projectId }),
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError([result.error || 'Failed to forecast rental cost', ...(result.errors || [])].join('. '))
+        return
+      }
+
+      setForecast(result)
+    } catch (error) {
+      console.error('Error fetching rental forecast:', error)
+      setError('Failed to forecast rental cost')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rental Forecast</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="text-sm text-red-500">{error}</p>
+        )}
+
+        {forecast && (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+              <div>
+                <div className="text-xs text-gray-500">Cost to Date</div>
+                <div className="font-medium">{formatMoney(forecast.totals.cost_to_date, forecast.reportingCurrency)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Remaining to Project End ({forecast.projectEndDate || 'not set'})</div>
+                <div className="font-medium">{formatMoney(forecast.totals.remaining_cost, forecast.reportingCurrency)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Expected Final Cost</div>
+                <div className="font-medium">{formatMoney(forecast.totals.forecast_cost, forecast.reportingCurrency)}</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor / Item</TableHead>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>On Hire</TableHead>
+                  <TableHead>Projected To</TableHead>
+                  <TableHead className="text-right">Cost to Date</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead className="text-right">Expected Final</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {forecast.vendors.map((group) => (
+                  <Fragment key={`${group.vendor_id}-${group.currency}`}>
+                    <TableRow className="bg-gray-50 font-medium">
+                      <TableCell colSpan={2}>{group.vendor_name}</TableCell>
+                      <TableCell>{group.on_hire_quantity}</TableCell>
+                      <TableCell></TableCell>
+                      <TableCell className="text-right">{formatMoney(group.cost_to_date, group.currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(group.remaining_cost, group.currency)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(group.forecast_cost, group.currency)}
+                        {group.currency !== forecast.reportingCurrency && (
+                          <div className="text-xs text-gray-500">
+                            {formatMoney(group.reporting_forecast_cost, forecast.reportingCurrency)}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {group.rows.map((row) => (
+                      <TableRow key={row.dn_item_id}>
+                        <TableCell className="pl-8">
+                          <Link href={`/dashboard/delivery-notes/items/${row.dn_item_id}`} className="hover:underline">
+                            {row.item_name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{row.po_number}</TableCell>
+                        <TableCell>{row.on_hire_quantity}</TableCell>
+                        <TableCell className={row.overdue ? 'text-red-600' : ''}>
+                          {row.off_hire_date ?? '-'}
+                          <div className="text-xs text-gray-500">{describeForecastBasis(row)}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(row.cost_to_date, row.currency)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.remaining_cost, row.currency)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.forecast_cost, row.currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+            {forecast.vendors.length === 0 && (
+              <div className="text-center py-4 text-gray-500">
+                Nothing has been delivered to this project yet
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Units on hire are projected to their expected off-hire date, or to the project end date when none is set.
+              Amounts are net of tax and totals are converted at the latest recorded exchange rate.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,14 +1,16 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { createClient } from '@/lib/supabase'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
 import { ProjectForm } from '@/components/forms/ProjectForm'
+import ProjectCalendarDataTable from '@/components/data-tables/ProjectCalendarDataTable'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Search, Edit2, Trash2 } from 'lucide-react'
+import { Plus, Search, Edit2, Trash2, CalendarDays } from 'lucide-react'
 
 interface Project {
   id: string
@@ -17,6 +19,7 @@ interface Project {
   status: 'active' | 'completed' | 'cancelled'
   start_date?: string
   end_date?: string
+  reporting_currency: string
   created_at: string
 }
 
@@ -26,6 +29,7 @@ export default function ProjectsDataTable() {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedProject, setSelectedProject] = useState<Project | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [calendarProject, setCalendarProject] = useState<Project | null>(null)
   const supabase = createClient()
 
   useEffect(() => {
@@ -157,19 +161,33 @@ export default function ProjectsDataTable() {
               <TableHead>Status</TableHead>
               <TableHead>Start Date</TableHead>
               <TableHead>End Date</TableHead>
+              <TableHead>Currency</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {filteredProjects.map((project) => (
               <TableRow key={project.id}>
-                <TableCell className="font-medium">{project.name}</TableCell>
+                <TableCell className="font-medium">
+                  <Link href={`/dashboard/projects/${project.id}`} className="hover:underline">
+                    {project.name}
+                  </Link>
+                </TableCell>
                 <TableCell>{project.description || '-'}</TableCell>
                 <TableCell>{getStatusBadge(project.status)}</TableCell>
                 <TableCell>{project.start_date || '-'}</TableCell>
                 <TableCell>{project.end_date || '-'}</TableCell>
+                <TableCell>{project.reporting_currency}</TableCell>
                 <TableCell>
                   <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Billing calendar"
+                      onClick={() => setCalendarProject(project)}
+                    >
+                      <CalendarDays className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -193,6 +211,14 @@ export default function ProjectsDataTable() {
             ))}
           </TableBody>
         </Table>
+
+        <Dialog open={calendarProject !== null} onOpenChange={(open) => !open && setCalendarProject(null)}>
+          <DialogContent className="max-w-4xl">
+            {calendarProject && (
+              <ProjectCalendarDataTable projectId={calendarProject.id} projectName={calendarProject.name} />
+            )}
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   )
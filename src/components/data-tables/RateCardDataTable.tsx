@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { RateCardForm } from '@/components/forms/RateCardForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RateCardEntry } from '@/lib/rate-cards'
+import { Plus, Edit2, Trash2 } from 'lucide-react'
+
+interface RateCardDataTableProps {
+  vendorId: string
+  vendorName: string
+}
+
+export default function RateCardDataTable({ vendorId, vendorName }: RateCardDataTableProps) {
+  const [entries, setEntries] = useState<RateCardEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedEntry, setSelectedEntry] = useState<RateCardEntry | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchEntries()
+  }, [vendorId])
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vendor_rate_cards')
+        .select('*')
+        .eq('vendor_id', vendorId)
+        .order('item_name')
+        .order('valid_from', { ascending: false })
+
+      if (error) throw error
+      setEntries(data || [])
+    } catch (error) {
+      console.error('Error fetching rate card:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateEntry = async (formData: any) => {
+    try {
+      const { error } = await supabase
+        .from('vendor_rate_cards')
+        .insert([{ ...formData, vendor_id: vendorId }])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      fetchEntries()
+    } catch (error) {
+      console.error('Error creating rate card entry:', error)
+    }
+  }
+
+  const handleUpdateEntry = async (formData: any) => {
+    if (!selectedEntry) return
+
+    try {
+      const { error } = await supabase
+        .from('vendor_rate_cards')
+        .update(formData)
+        .eq('id', selectedEntry.id)
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedEntry(null)
+      fetchEntries()
+    } catch (error) {
+      console.error('Error updating rate card entry:', error)
+    }
+  }
+
+  const handleDeleteEntry = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this rate card entry?')) return
+
+    try {
+      const { error } = await supabase
+        .from('vendor_rate_cards')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchEntries()
+    } catch (error) {
+      console.error('Error deleting rate card entry:', error)
+    }
+  }
+
+  const formatRate = (rate: number | null) => (rate === null ? '-' : Number(rate).toFixed(2))
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Rate Card: {vendorName}</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setSelectedEntry(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Entry
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <RateCardForm
+                onSubmit={selectedEntry ? handleUpdateEntry : handleCreateEntry}
+                initialData={selectedEntry || undefined}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Currency</TableHead>
+              <TableHead>Daily</TableHead>
+              <TableHead>Weekly</TableHead>
+              <TableHead>4-Week</TableHead>
+              <TableHead>Min. Hire</TableHead>
+              <TableHead>Valid</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="font-medium">{entry.item_name}</TableCell>
+                <TableCell>{entry.currency}</TableCell>
+                <TableCell>{formatRate(entry.daily_rate)}</TableCell>
+                <TableCell>{formatRate(entry.weekly_rate)}</TableCell>
+                <TableCell>{formatRate(entry.four_week_rate)}</TableCell>
+                <TableCell>{entry.minimum_hire_days > 0 ? `${entry.minimum_hire_days} days` : '-'}</TableCell>
+                <TableCell>{entry.valid_from} – {entry.valid_to || 'open'}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedEntry(entry)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteEntry(entry.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
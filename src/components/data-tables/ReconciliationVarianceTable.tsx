@@ -0,0 +1,240 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Check, Flag } from 'lucide-react'
+
+interface ReconciliationVarianceTableProps {
+  importId: string
+}
+
+interface ReconciliationLine {
+  id: string
+  po_number: string
+  item_name: string
+  match_status: 'matched' | 'variance' | 'not_in_records' | 'missing_from_vendor'
+  vendor_quantity: number | null
+  vendor_days: number | null
+  vendor_rate: number | null
+  vendor_amount: number | null
+  computed_quantity: number | null
+  computed_days: number | null
+  computed_rate: number | null
+  computed_amount: number | null
+  resolution: 'pending' | 'accepted' | 'disputed'
+  resolution_note: string | null
+}
+
+interface VendorInvoiceImport {
+  vendor_invoice_number: string
+  period_start: string
+  period_end: string
+  vendor: { name: string }
+}
+
+const FIELDS = [
+  { key: 'quantity', label: 'Qty', money: false },
+  { key: 'days', label: 'Days', money: false },
+  { key: 'rate', label: 'Rate', money: true },
+  { key: 'amount', label: 'Amount', money: true },
+] as const
+
+const STATUS_LABELS = {
+  matched: 'Matched',
+  variance: 'Variance',
+  not_in_records: 'Not in our records',
+  missing_from_vendor: 'Not invoiced by vendor',
+}
+
+export default function ReconciliationVarianceTable({ importId }: ReconciliationVarianceTableProps) {
+  const [invoiceImport, setInvoiceImport] = useState<VendorInvoiceImport | null>(null)
+  const [lines, setLines] = useState<ReconciliationLine[]>([])
+  const [showMatched, setShowMatched] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchReconciliation()
+  }, [importId])
+
+  const fetchReconciliation = async () => {
+    try {
+      const [importResult, linesResult] = await Promise.all([
+        supabase
+          .from('vendor_invoice_imports')
+          .select('vendor_invoice_number, period_start, period_end, vendor:vendors(name)')
+          .eq('id', importId)
+          .single(),
+        supabase
+          .from('vendor_invoice_lines')
+          .select('*')
+          .eq('import_id', importId)
+          .order('po_number')
+          .order('item_name')
+      ])
+
+      if (importResult.error) throw importResult.error
+      if (linesResult.error) throw linesResult.error
+
+      setInvoiceImport(importResult.data as unknown as VendorInvoiceImport)
+      setLines(linesResult.data || [])
+    } catch (error) {
+      console.error('Error fetching reconciliation:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleResolve = async (line: ReconciliationLine, resolution: 'accepted' | 'disputed') => {
+    const note = prompt(
+      resolution === 'disputed' ? 'Reason for disputing this line' : 'Note (optional)',
+      line.resolution_note ?? ''
+    )
+    if (note === null) return
+    if (resolution === 'disputed' && note.trim() === '') return
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { error } = await supabase
+        .from('vendor_invoice_lines')
+        .update({
+          resolution,
+          resolution_note: note.trim() || null,
+          resolved_by: user?.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('id', line.id)
+
+      if (error) throw error
+      fetchReconciliation()
+    } catch (error) {
+      console.error('Error resolving variance:', error)
+    }
+  }
+
+  const formatValue = (value: number | null, money: boolean) => {
+    if (value === null) return '-'
+    return money ? Number(value).toFixed(2) : String(value)
+  }
+
+  const variance = (line: ReconciliationLine, key: typeof FIELDS[number]['key']) => {
+    const vendorValue = line[`vendor_${key}`]
+    const computedValue = line[`computed_${key}`]
+    if (vendorValue === null || computedValue === null) return null
+    return Number(vendorValue) - Number(computedValue)
+  }
+
+  const getResolutionBadge = (resolution: string) => {
+    const colors = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      accepted: 'bg-green-100 text-green-800',
+      disputed: 'bg-red-100 text-red-800',
+    }
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${colors[resolution as keyof typeof colors]}`}>
+        {resolution}
+      </span>
+    )
+  }
+
+  if (loading) return <div>Loading...</div>
+  if (!invoiceImport) return <div>Vendor invoice not found</div>
+
+  const visibleLines = showMatched ? lines : lines.filter(line => line.match_status !== 'matched')
+  const totals = (side: 'vendor' | 'computed') =>
+    lines.reduce((sum, line) => sum + Number(line[`${side}_amount`] ?? 0), 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {invoiceImport.vendor?.name}: Invoice {invoiceImport.vendor_invoice_number}
+        </CardTitle>
+        <div className="text-sm text-gray-500">
+          Period {invoiceImport.period_start} to {invoiceImport.period_end}.
+          Vendor total {totals('vendor').toFixed(2)}, computed total {totals('computed').toFixed(2)}.
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            id="show_matched"
+            type="checkbox"
+            checked={showMatched}
+            onChange={(e) => setShowMatched(e.target.checked)}
+          />
+          <label htmlFor="show_matched" className="text-sm">Show matched lines</label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>PO / Item</TableHead>
+              <TableHead>Status</TableHead>
+              {FIELDS.map((field) => (
+                <TableHead key={field.key}>{field.label} (vendor / ours)</TableHead>
+              ))}
+              <TableHead>Resolution</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleLines.map((line) => (
+              <TableRow key={line.id}>
+                <TableCell>
+                  <div className="font-medium">{line.item_name}</div>
+                  <div className="text-xs text-gray-500">{line.po_number}</div>
+                </TableCell>
+                <TableCell>{STATUS_LABELS[line.match_status]}</TableCell>
+                {FIELDS.map((field) => {
+                  const difference = variance(line, field.key)
+                  const isVariance = difference !== null && Math.abs(difference) > 0.005
+                  return (
+                    <TableCell key={field.key} className={isVariance ? 'text-red-600' : ''}>
+                      {formatValue(line[`vendor_${field.key}`], field.money)} / {formatValue(line[`computed_${field.key}`], field.money)}
+                      {isVariance && (
+                        <div className="text-xs">
+                          {difference > 0 ? '+' : ''}{field.money ? difference.toFixed(2) : difference}
+                        </div>
+                      )}
+                    </TableCell>
+                  )
+                })}
+                <TableCell>
+                  {getResolutionBadge(line.resolution)}
+                  {line.resolution_note && (
+                    <div className="text-xs text-gray-500 mt-1">{line.resolution_note}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {line.match_status !== 'matched' && (
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Accept"
+                        onClick={() => handleResolve(line, 'accepted')}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Dispute"
+                        onClick={() => handleResolve(line, 'disputed')}
+                      >
+                        <Flag className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
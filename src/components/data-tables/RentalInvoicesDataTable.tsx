@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { InvoiceRunForm } from '@/components/forms/InvoiceRunForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Plus, Search, Download, Ban } from 'lucide-react'
+import { formatMoney } from '@/lib/currency'
+
+interface RentalInvoice {
+  id: string
+  invoice_number: string
+  period_start: string
+  period_end: string
+  status: 'issued' | 'void'
+  currency: string
+  net_amount: number
+  tax_amount: number
+  total_amount: number
+  created_at: string
+  project: { name: string }
+  vendor: { name: string }
+}
+
+export default function RentalInvoicesDataTable() {
+  const [invoices, setInvoices] = useState<RentalInvoice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [runError, setRunError] = useState<string | null>(null)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [])
+
+  const fetchInvoices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rental_invoices')
+        .select(`
+          id,
+          invoice_number,
+          period_start,
+          period_end,
+          status,
+          currency,
+          net_amount,
+          tax_amount,
+          total_amount,
+          created_at,
+          project:projects(name),
+          vendor:vendors(name)
+        `)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setInvoices((data || []) as unknown as RentalInvoice[])
+    } catch (error) {
+      console.error('Error fetching invoices:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const callFunction = async (name: string, body: object) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    return fetch(`/.netlify/functions/${name}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session?.access_token ?? ''}`,
+      },
+      body: JSON.stringify(body),
+    })
+  }
+
+  const handleRunInvoicing = async (formData: any) => {
+    setRunError(null)
+
+    try {
+      const response = await callFunction('create-rental-invoice', formData)
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        setRunError(result.error || 'Failed to issue invoice')
+        return
+      }
+
+      setIsDialogOpen(false)
+      fetchInvoices()
+    } catch (error) {
+      console.error('Error running invoicing:', error)
+      setRunError('Failed to issue invoice')
+    }
+  }
+
+  const handleDownload = async (invoice: RentalInvoice) => {
+    try {
+      const response = await callFunction('generate-rental-invoice', { invoiceId: invoice.id })
+      if (!response.ok) throw new Error('Failed to generate invoice PDF')
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `rental-invoice-${invoice.invoice_number}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error) {
+      console.error('Error downloading invoice:', error)
+    }
+  }
+
+  const handleVoid = async (invoice: RentalInvoice) => {
+    if (!confirm(`Void invoice ${invoice.invoice_number}? Its period can then be invoiced again.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('rental_invoices')
+        .update({ status: 'void' })
+        .eq('id', invoice.id)
+
+      if (error) throw error
+      fetchInvoices()
+    } catch (error) {
+      console.error('Error voiding invoice:', error)
+    }
+  }
+
+  const filteredInvoices = invoices.filter(invoice =>
+    invoice.invoice_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    invoice.project?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    invoice.vendor?.name.toLowerCase().includes(searchTerm.toLowerCase())
+  )
+
+  const getStatusBadge = (status: string) => {
+    const colors = {
+      issued: 'bg-green-100 text-green-800',
+      void: 'bg-red-100 text-red-800',
+    }
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${colors[status as keyof typeof colors]}`}>
+        {status}
+      </span>
+    )
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Rental Invoices</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setRunError(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Run Invoicing
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <InvoiceRunForm onSubmit={handleRunInvoicing} error={runError} />
+            </DialogContent>
+          </Dialog>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Search className="h-4 w-4" />
+          <Input
+            placeholder="Search invoices..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="max-w-sm"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice No</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Net</TableHead>
+              <TableHead>Tax</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredInvoices.map((invoice) => (
+              <TableRow key={invoice.id}>
+                <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                <TableCell>{invoice.project?.name}</TableCell>
+                <TableCell>{invoice.vendor?.name}</TableCell>
+                <TableCell>{invoice.period_start} – {invoice.period_end}</TableCell>
+                <TableCell>{formatMoney(invoice.net_amount, invoice.currency)}</TableCell>
+                <TableCell>{formatMoney(invoice.tax_amount, invoice.currency)}</TableCell>
+                <TableCell>{formatMoney(invoice.total_amount, invoice.currency)}</TableCell>
+                <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Download PDF"
+                      onClick={() => handleDownload(invoice)}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {invoice.status === 'issued' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Void"
+                        onClick={() => handleVoid(invoice)}
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import Link from 'next/link'
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  groupReportLines,
+  RentalReportPreview,
+  ReportGrouping,
+  ReportSortKey,
+  sortReportLines,
+  SortDirection,
+} from '@/lib/rental-report'
+import { formatMoney } from '@/lib/currency'
+
+interface RentalReportPreviewTableProps {
+  report: RentalReportPreview
+  sortBy: ReportSortKey
+  sortDirection: SortDirection
+  groupLinesBy: ReportGrouping
+  onSort: (key: ReportSortKey) => void
+}
+
+const COLUMNS: { key: ReportSortKey; label: string; numeric?: boolean }[] = [
+  { key: 'po_number', label: 'PO Number' },
+  { key: 'item_name', label: 'Item Name' },
+  { key: 'vendor_name', label: 'Vendor' },
+  { key: 'delivery_date', label: 'Delivered' },
+  { key: 'chargeable_days', label: 'Chargeable Days', numeric: true },
+  { key: 'reporting_net', label: 'Net', numeric: true },
+  { key: 'reporting_gross', label: 'Gross', numeric: true },
+  { key: 'status', label: 'Status' },
+]
+
+export default function RentalReportPreviewTable({
+  report,
+  sortBy,
+  sortDirection,
+  groupLinesBy,
+  onSort,
+}: RentalReportPreviewTableProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const groups = groupReportLines(sortReportLines(report.lines, sortBy, sortDirection), groupLinesBy)
+  const currency = report.reportingCurrency
+
+  const toggle = (dnItemId: string) => {
+    const next = new Set(expanded)
+    if (next.has(dnItemId)) {
+      next.delete(dnItemId)
+    } else {
+      next.add(dnItemId)
+    }
+    setExpanded(next)
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-4 mb-4 text-sm">
+        <div>
+          <div className="text-xs text-gray-500">Items</div>
+          <div className="font-medium">{report.lines.length}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Net</div>
+          <div className="font-medium">{formatMoney(report.totals.net, currency)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Tax</div>
+          <div className="font-medium">{formatMoney(report.totals.tax, currency)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Gross</div>
+          <div className="font-medium">{formatMoney(report.totals.gross, currency)}</div>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8"></TableHead>
+            {COLUMNS.map((column) => (
+              <TableHead key={column.key} className={column.numeric ? 'text-right' : ''}>
+                <button type="button" onClick={() => onSort(column.key)} className="inline-flex items-center gap-1 hover:underline">
+                  {column.label}
+                  {sortBy === column.key && (sortDirection === 'asc'
+                    ? <ArrowUp className="h-3 w-3" />
+                    : <ArrowDown className="h-3 w-3" />)}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map((group) => (
+            <Fragment key={group.key}>
+              {groupLinesBy !== 'none' && (
+                <TableRow className="bg-gray-50 font-medium">
+                  <TableCell colSpan={COLUMNS.length + 1}>{group.label}</TableCell>
+                </TableRow>
+              )}
+              {group.lines.map((line) => (
+                <Fragment key={line.dn_item_id}>
+                  <TableRow className="cursor-pointer" onClick={() => toggle(line.dn_item_id)}>
+                    <TableCell>
+                      {expanded.has(line.dn_item_id)
+                        ? <ChevronDown className="h-4 w-4" />
+                        : <ChevronRight className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell>{line.po_number}</TableCell>
+                    <TableCell>{line.item_name}</TableCell>
+                    <TableCell>{line.vendor_name}</TableCell>
+                    <TableCell>{line.delivery_date}</TableCell>
+                    <TableCell className="text-right">{line.chargeable_days}</TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(line.reporting_net, currency)}
+                      {line.currency !== currency && (
+                        <div className="text-xs text-gray-500">{formatMoney(line.net, line.currency)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(line.reporting_gross, currency)}</TableCell>
+                    <TableCell>{line.status}</TableCell>
+                  </TableRow>
+                  {expanded.has(line.dn_item_id) && (
+                    <TableRow>
+                      <TableCell></TableCell>
+                      <TableCell colSpan={COLUMNS.length} className="text-sm">
+                        <div className="grid grid-cols-4 gap-2 mb-2">
+                          <div>Delivered: {line.delivered_quantity}</div>
+                          <div>Returned: {line.returned_quantity}</div>
+                          <div>On hire: {line.ongoing_quantity}</div>
+                          <div>Days in period: {line.total_days}{line.suspended_days > 0 ? ` (${line.suspended_days} suspended)` : ''}</div>
+                        </div>
+                        <ul className="list-disc list-inside text-gray-600">
+                          {line.details.map((detail, index) => (
+                            <li key={index}>{detail}</li>
+                          ))}
+                        </ul>
+                        <Link href={`/dashboard/delivery-notes/items/${line.dn_item_id}`} className="text-indigo-600 hover:underline">
+                          Open delivery note item
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+              {groupLinesBy !== 'none' && (
+                <TableRow className="font-medium">
+                  <TableCell colSpan={6}>{group.label} total</TableCell>
+                  <TableCell className="text-right">{formatMoney(group.totals.net, currency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(group.totals.gross, currency)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          ))}
+        </TableBody>
+      </Table>
+      {report.foreignCurrencies.length > 0 && (
+        <p className="text-xs text-gray-500 mt-2">
+          {report.foreignCurrencies.join(', ')} amounts converted to {currency} at the latest rates on or before {report.conversionDate}.
+        </p>
+      )}
+    </div>
+  )
+}
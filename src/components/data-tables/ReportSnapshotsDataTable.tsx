@@ -0,0 +1,226 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { ReportSnapshot, SnapshotVerification } from '@/lib/report-snapshots'
+import { Download, ShieldCheck } from 'lucide-react'
+
+interface StoredSnapshot extends ReportSnapshot {
+  projects: { name: string } | null
+  users: { first_name: string | null; last_name: string | null } | null
+}
+
+interface ProjectOption {
+  id: string
+  name: string
+}
+
+export default function ReportSnapshotsDataTable() {
+  const [snapshots, setSnapshots] = useState<StoredSnapshot[]>([])
+  const [projects, setProjects] = useState<ProjectOption[]>([])
+  const [projectId, setProjectId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [verifications, setVerifications] = useState<Record<string, SnapshotVerification>>({})
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchProjects()
+  }, [])
+
+  useEffect(() => {
+    fetchSnapshots()
+  }, [projectId])
+
+  const fetchSnapshots = async () => {
+    try {
+      let query = supabase
+        .from('report_snapshots')
+        .select('*, projects(name), users(first_name, last_name)')
+        .order('generated_at', { ascending: false })
+        .limit(200)
+      if (projectId) query = query.eq('project_id', projectId)
+
+      const { data, error } = await query
+
+      if (error) throw error
+      setSnapshots((data || []) as StoredSnapshot[])
+    } catch (error) {
+      console.error('Error fetching report snapshots:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .order('name')
+
+      if (error) throw error
+      setProjects(data || [])
+    } catch (error) {
+      console.error('Error fetching projects:', error)
+    }
+  }
+
+  const requestSnapshot = async (snapshotId: string, action: 'download' | 'verify') => {
+    const { data: { session } } = await supabase.auth.getSession()
+    return fetch('/.netlify/functions/report-snapshot', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session?.access_token ?? ''}`
+      },
+      body: JSON.stringify({ snapshotId, action })
+    })
+  }
+
+  const handleDownload = async (snapshot: StoredSnapshot) => {
+    setBusy(snapshot.id)
+    setError(null)
+
+    try {
+      const response = await requestSnapshot(snapshot.id, 'download')
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`)
+
+      if (response.headers.get('X-Report-Verified') === 'false') {
+        setError(`${snapshot.file_name} no longer matches its recorded hash`)
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = snapshot.file_name
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error) {
+      console.error('Error downloading report snapshot:', error)
+      setError('Failed to download report')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleVerify = async (snapshot: StoredSnapshot) => {
+    setBusy(snapshot.id)
+    setError(null)
+
+    try {
+      const response = await requestSnapshot(snapshot.id, 'verify')
+      if (!response.ok) throw new Error(`Verification failed with status ${response.status}`)
+
+      const verification: SnapshotVerification = await response.json()
+      setVerifications({ ...verifications, [snapshot.id]: verification })
+    } catch (error) {
+      console.error('Error verifying report snapshot:', error)
+      setError('Failed to verify report')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const describeUser = (snapshot: StoredSnapshot) =>
+    [snapshot.users?.first_name, snapshot.users?.last_name].filter(Boolean).join(' ') || snapshot.generated_by.slice(0, 8)
+
+  const describeParameters = (snapshot: StoredSnapshot) => {
+    const { startDate, endDate, groupBy } = snapshot.parameters as { startDate?: string; endDate?: string; groupBy?: string }
+    return `${startDate} to ${endDate}${groupBy === 'cost_code' ? ', by cost code' : ''}`
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Report History</CardTitle>
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="text-sm text-red-500 mb-4">{error}</p>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Generated</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Generated By</TableHead>
+              <TableHead>SHA-256</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {snapshots.map((snapshot) => {
+              const verification = verifications[snapshot.id]
+              return (
+                <TableRow key={snapshot.id}>
+                  <TableCell>{new Date(snapshot.generated_at).toLocaleString()}</TableCell>
+                  <TableCell className="font-medium">{snapshot.projects?.name ?? '-'}</TableCell>
+                  <TableCell>{describeParameters(snapshot)}</TableCell>
+                  <TableCell>{describeUser(snapshot)}</TableCell>
+                  <TableCell>
+                    <code className="text-xs" title={snapshot.sha256}>{snapshot.sha256.slice(0, 16)}…</code>
+                    {verification && (
+                      <p className={`text-xs mt-1 ${verification.matches ? 'text-green-600' : 'text-red-600'}`}>
+                        {verification.matches ? 'Matches the recorded hash' : `Changed: file hashes to ${verification.actual.slice(0, 16)}…`}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy !== null}
+                        onClick={() => handleDownload(snapshot)}
+                        title="Download"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy !== null}
+                        onClick={() => handleVerify(snapshot)}
+                        title="Verify against the recorded hash"
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+        {snapshots.length === 0 && (
+          <div className="text-center py-4 text-gray-500">
+            No reports generated yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
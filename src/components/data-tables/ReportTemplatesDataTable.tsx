@@ -0,0 +1,210 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { ReportTemplateForm } from '@/components/forms/ReportTemplateForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { DOCUMENT_COLUMNS, DOCUMENT_LABELS, DocumentKind, ReportTemplate, templateColumns } from '@/lib/report-templates'
+import { Plus, Edit2, Trash2 } from 'lucide-react'
+
+interface StoredTemplate extends ReportTemplate {
+  id: string
+  projects: { name: string } | null
+}
+
+interface ProjectOption {
+  id: string
+  name: string
+}
+
+export default function ReportTemplatesDataTable() {
+  const [templates, setTemplates] = useState<StoredTemplate[]>([])
+  const [projects, setProjects] = useState<ProjectOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [selectedTemplate, setSelectedTemplate] = useState<StoredTemplate | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchTemplates()
+    fetchProjects()
+  }, [])
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('report_templates')
+        .select('*, projects(name)')
+        .order('created_at')
+
+      if (error) throw error
+      // The organisation default first
+      setTemplates(((data || []) as StoredTemplate[]).sort((a, b) => Number(a.project_id !== null) - Number(b.project_id !== null)))
+    } catch (error) {
+      console.error('Error fetching report templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .order('name')
+
+      if (error) throw error
+      setProjects(data || [])
+    } catch (error) {
+      console.error('Error fetching projects:', error)
+    }
+  }
+
+  const handleSave = async (formData: any) => {
+    setSaveError(null)
+
+    try {
+      const { error } = selectedTemplate
+        ? await supabase
+          .from('report_templates')
+          .update(formData)
+          .eq('id', selectedTemplate.id)
+        : await supabase
+          .from('report_templates')
+          .insert([formData])
+
+      // The unique index allows one default and one template per project
+      if (error?.code === '23505') {
+        setSaveError(formData.project_id ? 'This project already has a template' : 'An organisation default already exists')
+        return
+      }
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedTemplate(null)
+      fetchTemplates()
+    } catch (error) {
+      console.error('Error saving report template:', error)
+      setSaveError('Failed to save template')
+    }
+  }
+
+  const handleDeleteTemplate = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this template?')) return
+
+    try {
+      const { error } = await supabase
+        .from('report_templates')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchTemplates()
+    } catch (error) {
+      console.error('Error deleting report template:', error)
+    }
+  }
+
+  // Documents showing fewer than all their columns
+  const describeColumns = (template: ReportTemplate) => {
+    const narrowed = (Object.keys(DOCUMENT_COLUMNS) as DocumentKind[])
+      .map(kind => [kind, templateColumns(template, kind).length, DOCUMENT_COLUMNS[kind].length] as const)
+      .filter(([, shown, total]) => shown < total)
+    return narrowed.length === 0
+      ? 'All columns'
+      : narrowed.map(([kind, shown, total]) => `${DOCUMENT_LABELS[kind]}: ${shown} of ${total}`).join(', ')
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Report Templates</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); setSaveError(null) }}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setSelectedTemplate(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Template
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              {saveError && (
+                <p className="text-sm text-red-500">{saveError}</p>
+              )}
+              <ReportTemplateForm
+                onSubmit={handleSave}
+                projects={projects}
+                initialData={selectedTemplate ? {
+                  project_id: selectedTemplate.project_id,
+                  company_name: selectedTemplate.company_name,
+                  logo_data_url: selectedTemplate.logo_data_url,
+                  address: selectedTemplate.address ?? '',
+                  footer_text: selectedTemplate.footer_text ?? '',
+                  columns: selectedTemplate.columns,
+                } : undefined}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Company</TableHead>
+              <TableHead>Logo</TableHead>
+              <TableHead>Footer</TableHead>
+              <TableHead>Columns</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.map((template) => (
+              <TableRow key={template.id}>
+                <TableCell className="font-medium">{template.projects?.name ?? 'Organisation default'}</TableCell>
+                <TableCell>{template.company_name}</TableCell>
+                <TableCell>{template.logo_data_url ? 'Yes' : 'No'}</TableCell>
+                <TableCell>{template.footer_text || '-'}</TableCell>
+                <TableCell className="text-sm">{describeColumns(template)}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedTemplate(template)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteTemplate(template.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {templates.length === 0 && (
+          <div className="text-center py-4 text-gray-500">
+            No templates yet; documents are printed without company branding
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
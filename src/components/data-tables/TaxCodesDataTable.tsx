@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { TaxCodeForm } from '@/components/forms/TaxCodeForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { TaxCode } from '@/lib/tax'
+import { Plus, Edit2, Trash2 } from 'lucide-react'
+
+export default function TaxCodesDataTable() {
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedTaxCode, setSelectedTaxCode] = useState<TaxCode | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchTaxCodes()
+  }, [])
+
+  const fetchTaxCodes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tax_codes')
+        .select('*')
+        .order('code')
+
+      if (error) throw error
+      setTaxCodes(data || [])
+    } catch (error) {
+      console.error('Error fetching tax codes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateTaxCode = async (formData: any) => {
+    try {
+      const { error } = await supabase
+        .from('tax_codes')
+        .insert([formData])
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      fetchTaxCodes()
+    } catch (error) {
+      console.error('Error creating tax code:', error)
+    }
+  }
+
+  const handleUpdateTaxCode = async (formData: any) => {
+    if (!selectedTaxCode) return
+
+    try {
+      const { error } = await supabase
+        .from('tax_codes')
+        .update(formData)
+        .eq('id', selectedTaxCode.id)
+
+      if (error) throw error
+
+      setIsDialogOpen(false)
+      setSelectedTaxCode(null)
+      fetchTaxCodes()
+    } catch (error) {
+      console.error('Error updating tax code:', error)
+    }
+  }
+
+  const handleDeleteTaxCode = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this tax code?')) return
+
+    try {
+      const { error } = await supabase
+        .from('tax_codes')
+        .delete()
+        .eq('id', id)
+
+      // Codes already used on PO items or vendors cannot be deleted, only deactivated
+      if (error) throw error
+      fetchTaxCodes()
+    } catch (error) {
+      console.error('Error deleting tax code:', error)
+      alert('This tax code is in use. Deactivate it instead.')
+    }
+  }
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Tax Codes</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setSelectedTaxCode(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tax Code
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <TaxCodeForm
+                onSubmit={selectedTaxCode ? handleUpdateTaxCode : handleCreateTaxCode}
+                initialData={selectedTaxCode ? {
+                  code: selectedTaxCode.code,
+                  name: selectedTaxCode.name,
+                  rate: Number(selectedTaxCode.rate),
+                  is_inclusive: selectedTaxCode.is_inclusive,
+                  is_active: selectedTaxCode.is_active,
+                } : undefined}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Prices</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {taxCodes.map((taxCode) => (
+              <TableRow key={taxCode.id}>
+                <TableCell className="font-medium">{taxCode.code}</TableCell>
+                <TableCell>{taxCode.name}</TableCell>
+                <TableCell>{Number(taxCode.rate)}%</TableCell>
+                <TableCell>{taxCode.is_inclusive ? 'Include tax' : 'Exclude tax'}</TableCell>
+                <TableCell>{taxCode.is_active ? 'Active' : 'Inactive'}</TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedTaxCode(taxCode)
+                        setIsDialogOpen(true)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteTaxCode(taxCode.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {taxCodes.length === 0 && (
+          <div className="text-center py-4 text-gray-500">
+            No tax codes defined
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
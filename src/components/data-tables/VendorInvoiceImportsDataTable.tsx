@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { VendorInvoiceImportData, VendorInvoiceImportForm } from '@/components/forms/VendorInvoiceImportForm'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Upload, Trash2 } from 'lucide-react'
+
+interface VendorInvoiceImport {
+  id: string
+  vendor_invoice_number: string
+  period_start: string
+  period_end: string
+  file_name: string | null
+  created_at: string
+  vendor: { name: string }
+  vendor_invoice_lines: { match_status: string; resolution: string }[]
+}
+
+export default function VendorInvoiceImportsDataTable() {
+  const [imports, setImports] = useState<VendorInvoiceImport[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchImports()
+  }, [])
+
+  const fetchImports = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vendor_invoice_imports')
+        .select(`
+          id,
+          vendor_invoice_number,
+          period_start,
+          period_end,
+          file_name,
+          created_at,
+          vendor:vendors(name),
+          vendor_invoice_lines(match_status, resolution)
+        `)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setImports((data || []) as unknown as VendorInvoiceImport[])
+    } catch (error) {
+      console.error('Error fetching vendor invoices:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImport = async (formData: VendorInvoiceImportData) => {
+    setImportErrors([])
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch('/.netlify/functions/import-vendor-invoice', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`,
+        },
+        body: JSON.stringify(formData),
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        setImportErrors(result.errors?.length ? result.errors : [result.error || 'Failed to import vendor invoice'])
+        return
+      }
+
+      setIsDialogOpen(false)
+      fetchImports()
+    } catch (error) {
+      console.error('Error importing vendor invoice:', error)
+      setImportErrors(['Failed to import vendor invoice'])
+    }
+  }
+
+  const handleDeleteImport = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this import and its reconciliation?')) return
+
+    try {
+      const { error } = await supabase
+        .from('vendor_invoice_imports')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      fetchImports()
+    } catch (error) {
+      console.error('Error deleting vendor invoice import:', error)
+    }
+  }
+
+  const countLines = (invoiceImport: VendorInvoiceImport, predicate: (line: { match_status: string; resolution: string }) => boolean) =>
+    invoiceImport.vendor_invoice_lines.filter(predicate).length
+
+  if (loading) return <div>Loading...</div>
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Vendor Invoice Reconciliation</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setImportErrors([])}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import Vendor Invoice
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <VendorInvoiceImportForm onSubmit={handleImport} errors={importErrors} />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vendor Invoice</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Matched</TableHead>
+              <TableHead>Variances</TableHead>
+              <TableHead>Pending</TableHead>
+              <TableHead>Disputed</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {imports.map((invoiceImport) => (
+              <TableRow key={invoiceImport.id}>
+                <TableCell className="font-medium">
+                  <Link href={`/dashboard/reconciliation/${invoiceImport.id}`} className="hover:underline">
+                    {invoiceImport.vendor_invoice_number}
+                  </Link>
+                  {invoiceImport.file_name && (
+                    <div className="text-xs text-gray-500">{invoiceImport.file_name}</div>
+                  )}
+                </TableCell>
+                <TableCell>{invoiceImport.vendor?.name}</TableCell>
+                <TableCell>{invoiceImport.period_start} – {invoiceImport.period_end}</TableCell>
+                <TableCell>{countLines(invoiceImport, line => line.match_status === 'matched')}</TableCell>
+                <TableCell>{countLines(invoiceImport, line => line.match_status !== 'matched')}</TableCell>
+                <TableCell>{countLines(invoiceImport, line => line.resolution === 'pending')}</TableCell>
+                <TableCell>{countLines(invoiceImport, line => line.resolution === 'disputed')}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDeleteImport(invoiceImport.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
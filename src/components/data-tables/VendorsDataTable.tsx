@@ -7,8 +7,9 @@ import { Input } from '@/components/ui/input'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
 import { VendorForm } from '@/components/forms/VendorForm'
+import RateCardDataTable from '@/components/data-tables/RateCardDataTable'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Search, Edit2, Trash2 } from 'lucide-react'
+import { Plus, Search, Edit2, Trash2, Tags } from 'lucide-react'
 
 interface Vendor {
   id: string
@@ -18,6 +19,7 @@ interface Vendor {
   phone?: string
   address?: string
   tax_id?: string
+  default_tax_code_id?: string | null
   created_at: string
 }
 
@@ -27,6 +29,7 @@ export default function VendorsDataTable() {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedVendor, setSelectedVendor] = useState<Vendor | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [rateCardVendor, setRateCardVendor] = useState<Vendor | null>(null)
   const supabase = createClient()
 
   useEffect(() => {
@@ -159,6 +162,14 @@ export default function VendorsDataTable() {
                 <TableCell>{vendor.tax_id || '-'}</TableCell>
                 <TableCell>
                   <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Rate card"
+                      onClick={() => setRateCardVendor(vendor)}
+                    >
+                      <Tags className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -182,6 +193,14 @@ export default function VendorsDataTable() {
             ))}
           </TableBody>
         </Table>
+
+        <Dialog open={rateCardVendor !== null} onOpenChange={(open) => !open && setRateCardVendor(null)}>
+          <DialogContent className="max-w-5xl">
+            {rateCardVendor && (
+              <RateCardDataTable vendorId={rateCardVendor.id} vendorName={rateCardVendor.name} />
+            )}
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   )
@@ -0,0 +1,83 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { CostCodeOption } from '@/lib/cost-allocation'
+import { costAllocationSchema } from '@/lib/validation-schemas'
+
+type CostAllocationFormData = z.infer<typeof costAllocationSchema>
+
+interface CostAllocationFormProps {
+  onSubmit: (data: CostAllocationFormData) => Promise<void>
+  costCodes: CostCodeOption[]
+  // Percentage not yet allocated to other codes
+  available: number
+  initialData?: Partial<CostAllocationFormData> | undefined
+  isLoading?: boolean
+}
+
+export function CostAllocationForm({ onSubmit, costCodes, available, initialData, isLoading }: CostAllocationFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<CostAllocationFormData>({
+    resolver: zodResolver(costAllocationSchema.refine(data => data.percentage <= available, {
+      message: `Only ${available}% is left to allocate`,
+      path: ['percentage'],
+    })),
+    defaultValues: initialData || { percentage: available },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Allocation' : 'Allocate to Cost Code'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <Label htmlFor="cost_code_id">Cost Code</Label>
+            <select
+              id="cost_code_id"
+              {...register('cost_code_id')}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Select cost code</option>
+              {costCodes.map((costCode) => (
+                <option key={costCode.id} value={costCode.id}>
+                  {costCode.code} - {costCode.name}
+                </option>
+              ))}
+            </select>
+            {errors.cost_code_id && (
+              <p className="text-sm text-red-500 mt-1">{errors.cost_code_id.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="percentage">Share of Charges (%)</Label>
+            <Input
+              id="percentage"
+              type="number"
+              step="0.01"
+              {...register('percentage', { valueAsNumber: true })}
+            />
+            {errors.percentage && (
+              <p className="text-sm text-red-500 mt-1">{errors.percentage.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Allocation'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -10,11 +10,29 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LineRates, RateCardEntry, findRateCardEntry, isRateOverride, rateCardLineRates } from '@/lib/rate-cards'
+import { formatMoney } from '@/lib/currency'
 
 const dnItemSchema = z.object({
   po_item_id: z.string().min(1, 'PO item is required'),
   delivered_quantity: z.number().min(1, 'Delivered quantity must be at least 1'),
   daily_rate: z.number().min(0, 'Daily rate must be non-negative'),
+  weekly_rate: z.number().min(0, 'Weekly rate must be non-negative').nullable(),
+  four_week_rate: z.number().min(0, '4-week rate must be non-negative').nullable(),
+  minimum_hire_days: z.number().int('Minimum hire must be whole days').min(0, 'Minimum hire must be non-negative').nullable(),
+})
+
+// Empty optional rate inputs are stored as "not quoted" rather than zero
+const optionalNumber = (value: string) => (value === '' ? null : Number(value))
+
+type DnItemFormData = z.infer<typeof dnItemSchema>
+
+// An empty minimum hire means there is none
+const lineRatesOf = (item: DnItemFormData): LineRates => ({
+  daily_rate: item.daily_rate,
+  weekly_rate: item.weekly_rate,
+  four_week_rate: item.four_week_rate,
+  minimum_hire_days: item.minimum_hire_days ?? 0,
 })
 
 const deliveryNoteSchema = z.object({
@@ -31,6 +49,8 @@ type DeliveryNoteFormData = z.infer<typeof deliveryNoteSchema>
 interface PurchaseOrder {
   id: string
   po_number: string
+  vendor_id: string
+  currency: string
   project: { name: string }
   vendor: { name: string }
 }
@@ -47,12 +67,16 @@ export default function DeliveryNoteForm() {
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
   const [poItems, setPoItems] = useState<PoItem[]>([])
   const [selectedPO, setSelectedPO] = useState<string>('')
+  const [rateCards, setRateCards] = useState<RateCardEntry[]>([])
+  // Rate card entry each PO item was last prefilled from
+  const prefilledEntries = useRef<Record<string, string | undefined>>({})
   const supabase = createClient()
 
   const {
     register,
     handleSubmit,
     setValue,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<DeliveryNoteFormData>({
     resolver: zodResolver(deliveryNoteSchema),
@@ -69,15 +93,53 @@ export default function DeliveryNoteForm() {
   useEffect(() => {
     if (selectedPO) {
       fetchPoItems(selectedPO)
+      const po = purchaseOrders.find(order => order.id === selectedPO)
+      if (po) fetchRateCards(po.vendor_id)
     }
   }, [selectedPO])
 
+  const deliveryDate = watch('delivery_date')
+  const watchedItems = watch('items')
+  const poCurrency = purchaseOrders.find(order => order.id === selectedPO)?.currency ?? 'USD'
+
+  const rateCardMatches = useMemo(() => {
+    const po = purchaseOrders.find(order => order.id === selectedPO)
+    const matches: Record<string, RateCardEntry | null> = {}
+    if (!po || !deliveryDate) return matches
+
+    poItems.forEach(poItem => {
+      matches[poItem.id] = findRateCardEntry(rateCards, poItem.item_name, deliveryDate, po.currency)
+    })
+    return matches
+  }, [purchaseOrders, selectedPO, poItems, rateCards, deliveryDate])
+
+  // Prefill line rates from the vendor rate card whenever the matching entry changes
+  useEffect(() => {
+    poItems.forEach((poItem, index) => {
+      const entry = rateCardMatches[poItem.id]
+      if (!entry) {
+        delete prefilledEntries.current[poItem.id]
+        return
+      }
+      if (entry.id === prefilledEntries.current[poItem.id]) return
+
+      const rates = rateCardLineRates(entry)
+      setValue(`items.${index}.daily_rate`, rates.daily_rate)
+      setValue(`items.${index}.weekly_rate`, rates.weekly_rate)
+      setValue(`items.${index}.four_week_rate`, rates.four_week_rate)
+      setValue(`items.${index}.minimum_hire_days`, rates.minimum_hire_days)
+      prefilledEntries.current[poItem.id] = entry.id
+    })
+  }, [poItems, rateCardMatches, setValue])
+
   const fetchPurchaseOrders = async () => {
     const { data } = await supabase
       .from('purchase_orders')
       .select(`
         id,
         po_number,
+        vendor_id,
+        currency,
         project:projects(name),
         vendor:vendors(name)
       `)
@@ -93,6 +155,7 @@ export default function DeliveryNoteForm() {
       .select('*')
       .eq('purchase_order_id', poId)
     
+    prefilledEntries.current = {}
     setPoItems(data || [])
     
     // Initialize items array with PO items
@@ -100,10 +163,28 @@ export default function DeliveryNoteForm() {
       po_item_id: item.id,
       delivered_quantity: 0,
       daily_rate: 0,
+      weekly_rate: null,
+      four_week_rate: null,
+      minimum_hire_days: 0,
     }))
     setValue('items', initialItems)
   }
 
+  const fetchRateCards = async (vendorId: string) => {
+    const { data } = await supabase
+      .from('vendor_rate_cards')
+      .select('*')
+      .eq('vendor_id', vendorId)
+
+    prefilledEntries.current = {}
+    setRateCards(data || [])
+  }
+
+  const isOverridden = (entry: RateCardEntry | null | undefined, index: number) => {
+    const item = watchedItems[index]
+    return !!entry && !!item && isRateOverride(entry, lineRatesOf(item))
+  }
+
   const handlePOChange = (poId: string) => {
     setSelectedPO(poId)
     setValue('purchase_order_id', poId)
@@ -127,13 +208,18 @@ export default function DeliveryNoteForm() {
       
       const itemsWithDn = data.items
         .filter(item => item.delivered_quantity > 0)
-        .map(item => ({
-          delivery_note_id: dnData.id,
-          po_item_id: item.po_item_id,
-          delivered_quantity: item.delivered_quantity,
-          daily_rate: item.daily_rate,
-          status: 'delivered' as const,
-        }))
+        .map(item => {
+          const entry = rateCardMatches[item.po_item_id] ?? null
+          return {
+            delivery_note_id: dnData.id,
+            po_item_id: item.po_item_id,
+            delivered_quantity: item.delivered_quantity,
+            ...lineRatesOf(item),
+            rate_card_id: entry?.id ?? null,
+            rate_overridden: entry ? isRateOverride(entry, lineRatesOf(item)) : false,
+            status: 'delivered' as const,
+          }
+        })
       
       const { error: itemsError } = await supabase
         .from('dn_items')
@@ -233,6 +319,15 @@ export default function DeliveryNoteForm() {
                         <Label>Item</Label>
                         <div className="text-sm font-medium">{poItem.item_name}</div>
                         <div className="text-xs text-gray-500">{poItem.description}</div>
+                        {rateCardMatches[poItem.id] && (
+                          isOverridden(rateCardMatches[poItem.id], index) ? (
+                            <div className="text-xs text-amber-600 mt-1">
+                              Rate card overridden (card: {rateCardMatches[poItem.id]!.currency} {Number(rateCardMatches[poItem.id]!.daily_rate).toFixed(2)}/day)
+                            </div>
+                          ) : (
+                            <div className="text-xs text-green-600 mt-1">Priced from rate card</div>
+                          )
+                        )}
                       </div>
 
                       <div className="col-span-2">
@@ -242,7 +337,7 @@ export default function DeliveryNoteForm() {
 
                       <div className="col-span-2">
                         <Label>Unit Price</Label>
-                        <div className="text-sm">${poItem.unit_price}</div>
+                        <div className="text-sm">{formatMoney(poItem.unit_price, poCurrency)}</div>
                       </div>
 
                       <div className="col-span-2">
@@ -267,6 +362,44 @@ export default function DeliveryNoteForm() {
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-12 gap-4 items-center mt-4">
+                      <div className="col-span-6">
+                        <div className="text-xs text-gray-500">
+                          Optional longer-hire tiers; the cheapest applicable tier is charged.
+                        </div>
+                      </div>
+
+                      <div className="col-span-2">
+                        <Label htmlFor={`items.${index}.weekly_rate`}>Weekly Rate</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.weekly_rate`, { setValueAs: optionalNumber })}
+                          placeholder="—"
+                        />
+                      </div>
+
+                      <div className="col-span-2">
+                        <Label htmlFor={`items.${index}.four_week_rate`}>4-Week Rate</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          {...register(`items.${index}.four_week_rate`, { setValueAs: optionalNumber })}
+                          placeholder="—"
+                        />
+                      </div>
+
+                      <div className="col-span-2">
+                        <Label htmlFor={`items.${index}.minimum_hire_days`}>Min. Hire (days)</Label>
+                        <Input
+                          type="number"
+                          {...register(`items.${index}.minimum_hire_days`, { setValueAs: optionalNumber })}
+                          placeholder="0"
+                          min="0"
+                        />
+                      </div>
+                    </div>
+
                     <input
                       type="hidden"
                       {...register(`items.${index}.po_item_id`)}
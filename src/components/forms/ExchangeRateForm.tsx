@@ -0,0 +1,102 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { exchangeRateSchema } from '@/lib/validation-schemas'
+
+type ExchangeRateFormData = z.infer<typeof exchangeRateSchema>
+
+interface ExchangeRateFormProps {
+  onSubmit: (data: ExchangeRateFormData) => Promise<void>
+  initialData?: Partial<ExchangeRateFormData> | undefined
+  isLoading?: boolean
+}
+
+const currencyCode = (value: string) => value.trim().toUpperCase()
+
+export function ExchangeRateForm({ onSubmit, initialData, isLoading }: ExchangeRateFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ExchangeRateFormData>({
+    resolver: zodResolver(exchangeRateSchema),
+    defaultValues: initialData || {
+      to_currency: 'USD',
+    },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Exchange Rate' : 'Add Exchange Rate'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="from_currency">From Currency</Label>
+              <Input
+                id="from_currency"
+                {...register('from_currency', { setValueAs: currencyCode })}
+                placeholder="EUR"
+                maxLength={3}
+              />
+              {errors.from_currency && (
+                <p className="text-sm text-red-500 mt-1">{errors.from_currency.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="to_currency">To Currency</Label>
+              <Input
+                id="to_currency"
+                {...register('to_currency', { setValueAs: currencyCode })}
+                placeholder="USD"
+                maxLength={3}
+              />
+              {errors.to_currency && (
+                <p className="text-sm text-red-500 mt-1">{errors.to_currency.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="rate">Rate</Label>
+              <Input
+                id="rate"
+                type="number"
+                step="0.00000001"
+                {...register('rate', { valueAsNumber: true })}
+                placeholder="Units of the to currency per unit"
+              />
+              {errors.rate && (
+                <p className="text-sm text-red-500 mt-1">{errors.rate.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="rate_date">Rate Date</Label>
+              <Input
+                id="rate_date"
+                type="date"
+                {...register('rate_date')}
+              />
+              {errors.rate_date && (
+                <p className="text-sm text-red-500 mt-1">{errors.rate_date.message}</p>
+              )}
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Exchange Rate'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { rentalInvoiceRunSchema } from '@/lib/validation-schemas'
+
+type InvoiceRunFormData = z.infer<typeof rentalInvoiceRunSchema>
+
+interface InvoiceRunFormProps {
+  onSubmit: (data: InvoiceRunFormData) => Promise<void>
+  error?: string | null
+  isLoading?: boolean
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+export function InvoiceRunForm({ onSubmit, error, isLoading }: InvoiceRunFormProps) {
+  const [projects, setProjects] = useState<Option[]>([])
+  const [vendors, setVendors] = useState<Option[]>([])
+  const supabase = createClient()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<InvoiceRunFormData>({
+    resolver: zodResolver(rentalInvoiceRunSchema),
+  })
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  const fetchOptions = async () => {
+    try {
+      const [projectsResult, vendorsResult] = await Promise.all([
+        supabase.from('projects').select('id, name').order('name'),
+        supabase.from('vendors').select('id, name').order('name')
+      ])
+
+      if (projectsResult.error) throw projectsResult.error
+      if (vendorsResult.error) throw vendorsResult.error
+
+      setProjects(projectsResult.data || [])
+      setVendors(vendorsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching projects and vendors:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Run Invoicing</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="projectId">Project</Label>
+              <select
+                id="projectId"
+                {...register('projectId')}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Select project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+              {errors.projectId && (
+                <p className="text-sm text-red-500 mt-1">{errors.projectId.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="vendorId">Vendor</Label>
+              <select
+                id="vendorId"
+                {...register('vendorId')}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Select vendor</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+              {errors.vendorId && (
+                <p className="text-sm text-red-500 mt-1">{errors.vendorId.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="periodStart">Period Start</Label>
+              <Input
+                id="periodStart"
+                type="date"
+                {...register('periodStart')}
+              />
+              {errors.periodStart && (
+                <p className="text-sm text-red-500 mt-1">{errors.periodStart.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="periodEnd">Period End</Label>
+              <Input
+                id="periodEnd"
+                type="date"
+                {...register('periodEnd')}
+              />
+              {errors.periodEnd && (
+                <p className="text-sm text-red-500 mt-1">{errors.periodEnd.message}</p>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500">{error}</p>
+          )}
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Issuing...' : 'Close Period and Issue Invoice'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { nonChargeablePeriodSchema } from '@/lib/validation-schemas'
+
+type NonChargeablePeriodFormData = z.infer<typeof nonChargeablePeriodSchema>
+
+interface NonChargeablePeriodFormProps {
+  onSubmit: (data: NonChargeablePeriodFormData) => Promise<void>
+  initialData?: Partial<NonChargeablePeriodFormData> | undefined
+  isLoading?: boolean
+}
+
+export function NonChargeablePeriodForm({ onSubmit, initialData, isLoading }: NonChargeablePeriodFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<NonChargeablePeriodFormData>({
+    resolver: zodResolver(nonChargeablePeriodSchema),
+    defaultValues: initialData || { kind: 'holiday' },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Non-Chargeable Period' : 'Add Non-Chargeable Period'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <Label htmlFor="kind">Type</Label>
+            <select
+              id="kind"
+              {...register('kind')}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="holiday">Public Holiday</option>
+              <option value="shutdown">Site Shutdown</option>
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="start_date">From</Label>
+              <Input
+                id="start_date"
+                type="date"
+                {...register('start_date')}
+              />
+              {errors.start_date && (
+                <p className="text-sm text-red-500 mt-1">{errors.start_date.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="end_date">To (inclusive)</Label>
+              <Input
+                id="end_date"
+                type="date"
+                {...register('end_date')}
+              />
+              {errors.end_date && (
+                <p className="text-sm text-red-500 mt-1">{errors.end_date.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="description">Description</Label>
+            <Input
+              id="description"
+              {...register('description')}
+              placeholder="e.g. Christmas shutdown"
+            />
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Period'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { projectBudgetSchema } from '@/lib/validation-schemas'
+
+type ProjectBudgetFormData = z.infer<typeof projectBudgetSchema>
+
+interface CostCodeOption {
+  id: string
+  code: string
+  name: string
+}
+
+interface ProjectBudgetFormProps {
+  onSubmit: (data: ProjectBudgetFormData) => Promise<void>
+  costCodes: CostCodeOption[]
+  reportingCurrency: string
+  initialData?: Partial<ProjectBudgetFormData> | undefined
+  isLoading?: boolean
+}
+
+export function ProjectBudgetForm({ onSubmit, costCodes, reportingCurrency, initialData, isLoading }: ProjectBudgetFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ProjectBudgetFormData>({
+    resolver: zodResolver(projectBudgetSchema),
+    defaultValues: initialData || {
+      cost_code_id: null,
+      alert_thresholds: [80, 100],
+    },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Budget' : 'Add Budget'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <Label htmlFor="cost_code_id">Cost Code</Label>
+            <select
+              id="cost_code_id"
+              {...register('cost_code_id', { setValueAs: (value) => value || null })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Whole project</option>
+              {costCodes.map((costCode) => (
+                <option key={costCode.id} value={costCode.id}>
+                  {costCode.code} - {costCode.name}
+                </option>
+              ))}
+            </select>
+            {errors.cost_code_id && (
+              <p className="text-sm text-red-500 mt-1">{errors.cost_code_id.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="amount">Budget ({reportingCurrency}, net of tax)</Label>
+            <Input
+              id="amount"
+              type="number"
+              step="0.01"
+              {...register('amount', { valueAsNumber: true })}
+            />
+            {errors.amount && (
+              <p className="text-sm text-red-500 mt-1">{errors.amount.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="alert_thresholds">Alert Thresholds (% of budget, comma separated)</Label>
+            <Input
+              id="alert_thresholds"
+              {...register('alert_thresholds', {
+                setValueAs: (value) => Array.isArray(value)
+                  ? value
+                  : String(value).split(',').map((part) => part.trim()).filter(Boolean).map(Number),
+              })}
+              placeholder="80, 100"
+            />
+            {errors.alert_thresholds && (
+              <p className="text-sm text-red-500 mt-1">
+                {errors.alert_thresholds.message || 'Thresholds must be whole percentages between 1 and 500'}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <Input
+              id="notes"
+              {...register('notes')}
+            />
+            {errors.notes && (
+              <p className="text-sm text-red-500 mt-1">{errors.notes.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Budget'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { projectCostCodeSchema } from '@/lib/validation-schemas'
+
+type ProjectCostCodeFormData = z.infer<typeof projectCostCodeSchema>
+
+interface ProjectCostCodeFormProps {
+  onSubmit: (data: ProjectCostCodeFormData) => Promise<void>
+  initialData?: Partial<ProjectCostCodeFormData> | undefined
+  isLoading?: boolean
+}
+
+export function ProjectCostCodeForm({ onSubmit, initialData, isLoading }: ProjectCostCodeFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ProjectCostCodeFormData>({
+    resolver: zodResolver(projectCostCodeSchema),
+    defaultValues: initialData || {
+      code: '',
+      name: '',
+    },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Cost Code' : 'Add Cost Code'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="code">Code</Label>
+              <Input
+                id="code"
+                {...register('code')}
+                placeholder="01-200"
+              />
+              {errors.code && (
+                <p className="text-sm text-red-500 mt-1">{errors.code.message}</p>
+              )}
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                {...register('name')}
+                placeholder="Temporary works"
+              />
+              {errors.name && (
+                <p className="text-sm text-red-500 mt-1">{errors.name.message}</p>
+              )}
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Cost Code'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
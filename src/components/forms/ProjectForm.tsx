@@ -69,6 +69,21 @@ export function ProjectForm({ onSubmit, initialData, isLoading }: ProjectFormPro
             </select>
           </div>
 
+          <div>
+            <Label htmlFor="reporting_currency">Reporting Currency</Label>
+            <Input
+              id="reporting_currency"
+              {...register('reporting_currency', {
+                setValueAs: (value: string) => (value ? value.trim().toUpperCase() : undefined),
+              })}
+              placeholder="USD"
+              maxLength={3}
+            />
+            {errors.reporting_currency && (
+              <p className="text-sm text-red-500 mt-1">{errors.reporting_currency.message}</p>
+            )}
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <Label htmlFor="start_date">Start Date</Label>
@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { FileUpload } from '@/components/ui/file-upload'
+import { formatMoney } from '@/lib/currency'
+import { TaxCode, calculateTax, describeTax, resolveTaxCode, sumTaxAmounts, taxTreatmentOf } from '@/lib/tax'
 import { Plus, Trash2 } from 'lucide-react'
 
 const poItemSchema = z.object({
@@ -17,6 +19,10 @@ const poItemSchema = z.object({
   description: z.string().optional(),
   quantity: z.number().min(1, 'Quantity must be at least 1'),
   unit_price: z.number().min(0, 'Unit price must be non-negative'),
+  // Empty means the vendor's default tax code
+  tax_code_id: z.string().optional(),
+  // Empty means the line is not booked to a cost code
+  cost_code_id: z.string().optional(),
 })
 
 const purchaseOrderSchema = z.object({
@@ -25,7 +31,7 @@ const purchaseOrderSchema = z.object({
   vendor_id: z.string().min(1, 'Vendor is required'),
   status: z.enum(['draft', 'sent', 'confirmed', 'completed', 'cancelled']),
   po_date: z.string().min(1, 'PO date is required'),
-  currency: z.string().default('USD'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code').default('USD'),
   items: z.array(poItemSchema).min(1, 'At least one item is required'),
 })
 
@@ -36,14 +42,23 @@ interface Project {
   name: string
 }
 
+interface CostCode {
+  id: string
+  code: string
+  name: string
+}
+
 interface Vendor {
   id: string
   name: string
+  default_tax_code_id: string | null
 }
 
 export default function PurchaseOrderForm() {
   const [projects, setProjects] = useState<Project[]>([])
   const [vendors, setVendors] = useState<Vendor[]>([])
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([])
+  const [costCodes, setCostCodes] = useState<CostCode[]>([])
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [uploadedFileUrl, setUploadedFileUrl] = useState<string | null>(null)
   const [isUploading, setIsUploading] = useState(false)
@@ -60,7 +75,7 @@ export default function PurchaseOrderForm() {
     defaultValues: {
       status: 'draft',
       currency: 'USD',
-      items: [{ item_name: '', description: '', quantity: 1, unit_price: 0 }],
+      items: [{ item_name: '', description: '', quantity: 1, unit_price: 0, tax_code_id: '', cost_code_id: '' }],
     },
   })
 
@@ -70,12 +85,21 @@ export default function PurchaseOrderForm() {
   })
 
   const watchedItems = watch('items')
+  const watchedCurrency = watch('currency')
+  const watchedVendorId = watch('vendor_id')
+  const watchedProjectId = watch('project_id')
+  const vendorDefaultTaxCodeId = vendors.find(vendor => vendor.id === watchedVendorId)?.default_tax_code_id
 
   useEffect(() => {
     fetchProjects()
     fetchVendors()
+    fetchTaxCodes()
   }, [])
 
+  useEffect(() => {
+    fetchCostCodes()
+  }, [watchedProjectId])
+
   const fetchProjects = async () => {
     const { data } = await supabase
       .from('projects')
@@ -88,11 +112,34 @@ export default function PurchaseOrderForm() {
   const fetchVendors = async () => {
     const { data } = await supabase
       .from('vendors')
-      .select('id, name')
+      .select('id, name, default_tax_code_id')
       .order('name')
     setVendors(data || [])
   }
 
+  const fetchTaxCodes = async () => {
+    const { data } = await supabase
+      .from('tax_codes')
+      .select('*')
+      .eq('is_active', true)
+      .order('code')
+    setTaxCodes(data || [])
+  }
+
+  const fetchCostCodes = async () => {
+    if (!watchedProjectId) {
+      setCostCodes([])
+      return
+    }
+
+    const { data } = await supabase
+      .from('project_cost_codes')
+      .select('id, code, name')
+      .eq('project_id', watchedProjectId)
+      .order('code')
+    setCostCodes(data || [])
+  }
+
   const handleFileUpload = async (file: File) => {
     setSelectedFile(file)
     setIsUploading(true)
@@ -117,23 +164,30 @@ export default function PurchaseOrderForm() {
     }
   }
 
-  const calculateTotal = () => {
-    return watchedItems.reduce((sum, item) => {
-      const quantity = Number(item.quantity) || 0
-      const unitPrice = Number(item.unit_price) || 0
-      return sum + (quantity * unitPrice)
-    }, 0)
+  const lineTaxCode = (item: { tax_code_id?: string | undefined }) =>
+    resolveTaxCode(taxCodes, item.tax_code_id, vendorDefaultTaxCodeId)
+
+  // Line amounts are entered at the tax treatment of the line's code
+  const lineAmounts = (item: { quantity: number; unit_price: number; tax_code_id?: string | undefined }) => {
+    const quantity = Number(item.quantity) || 0
+    const unitPrice = Number(item.unit_price) || 0
+    return calculateTax(quantity * unitPrice, taxTreatmentOf(lineTaxCode(item)))
   }
 
+  const calculateTotals = () => sumTaxAmounts(watchedItems.map(lineAmounts))
+
   const onSubmit = async (data: PurchaseOrderFormData) => {
     try {
-      const totalAmount = calculateTotal()
+      const { items, ...order } = data
+      const orderTotals = sumTaxAmounts(items.map(lineAmounts))
       
       const { data: poData, error: poError } = await supabase
         .from('purchase_orders')
         .insert([{
-          ...data,
-          total_amount: totalAmount,
+          ...order,
+          net_amount: orderTotals.net,
+          tax_amount: orderTotals.tax,
+          total_amount: orderTotals.gross,
           document_url: uploadedFileUrl,
         }])
         .select()
@@ -141,11 +195,22 @@ export default function PurchaseOrderForm() {
       
       if (poError) throw poError
       
-      const itemsWithPo = data.items.map(item => ({
-        ...item,
-        purchase_order_id: poData.id,
-        line_total: item.quantity * item.unit_price,
-      }))
+      const itemsWithPo = items.map(item => {
+        const taxCode = lineTaxCode(item)
+        const treatment = taxTreatmentOf(taxCode)
+        const amounts = lineAmounts(item)
+        return {
+          ...item,
+          purchase_order_id: poData.id,
+          line_total: item.quantity * item.unit_price,
+          tax_code_id: taxCode?.id ?? null,
+          cost_code_id: item.cost_code_id || null,
+          tax_rate: treatment.rate,
+          tax_inclusive: treatment.inclusive,
+          net_amount: amounts.net,
+          tax_amount: amounts.tax,
+        }
+      })
       
       const { error: itemsError } = await supabase
         .from('po_items')
@@ -160,6 +225,8 @@ export default function PurchaseOrderForm() {
     }
   }
 
+  const totals = calculateTotals()
+
   return (
     <div className="space-y-6">
       <Card>
@@ -234,19 +301,34 @@ export default function PurchaseOrderForm() {
               </div>
             </div>
 
-            <div>
-              <Label htmlFor="status">Status</Label>
-              <select
-                id="status"
-                {...register('status')}
-                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-              >
-                <option value="draft">Draft</option>
-                <option value="sent">Sent</option>
-                <option value="confirmed">Confirmed</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
-              </select>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="status">Status</Label>
+                <select
+                  id="status"
+                  {...register('status')}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="draft">Draft</option>
+                  <option value="sent">Sent</option>
+                  <option value="confirmed">Confirmed</option>
+                  <option value="completed">Completed</option>
+                  <option value="cancelled">Cancelled</option>
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <Input
+                  id="currency"
+                  {...register('currency', { setValueAs: (value: string) => value.trim().toUpperCase() })}
+                  placeholder="USD"
+                  maxLength={3}
+                />
+                {errors.currency && (
+                  <p className="text-sm text-red-500 mt-1">{errors.currency.message}</p>
+                )}
+              </div>
             </div>
 
             <div>
@@ -255,7 +337,7 @@ export default function PurchaseOrderForm() {
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => append({ item_name: '', description: '', quantity: 1, unit_price: 0 })}
+                  onClick={() => append({ item_name: '', description: '', quantity: 1, unit_price: 0, tax_code_id: '', cost_code_id: '' })}
                 >
                   <Plus className="h-4 w-4 mr-2" />
                   Add Item
@@ -278,7 +360,7 @@ export default function PurchaseOrderForm() {
                       )}
                     </div>
 
-                    <div className="col-span-3">
+                    <div className="col-span-2">
                       <Label htmlFor={`items.${index}.description`}>Description</Label>
                       <Input
                         {...register(`items.${index}.description`)}
@@ -286,7 +368,7 @@ export default function PurchaseOrderForm() {
                       />
                     </div>
 
-                    <div className="col-span-2">
+                    <div className="col-span-1">
                       <Label htmlFor={`items.${index}.quantity`}>Quantity</Label>
                       <Input
                         type="number"
@@ -315,10 +397,28 @@ export default function PurchaseOrderForm() {
                       )}
                     </div>
 
+                    <div className="col-span-2">
+                      <Label htmlFor={`items.${index}.tax_code_id`}>Tax Code</Label>
+                      <select
+                        {...register(`items.${index}.tax_code_id`)}
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        <option value="">Vendor default</option>
+                        {taxCodes.map((taxCode) => (
+                          <option key={taxCode.id} value={taxCode.id}>
+                            {taxCode.code} ({describeTax(taxTreatmentOf(taxCode))})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     <div className="col-span-1">
                       <Label>Total</Label>
                       <div className="h-10 flex items-center px-3 text-sm font-medium">
-                        ${((watchedItems[index]?.quantity || 0) * (watchedItems[index]?.unit_price || 0)).toFixed(2)}
+                        {formatMoney(lineAmounts(watchedItems[index] ?? { quantity: 0, unit_price: 0 }).gross, watchedCurrency)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {lineTaxCode(watchedItems[index] ?? {})?.code ?? 'No tax'}
                       </div>
                     </div>
 
@@ -335,12 +435,37 @@ export default function PurchaseOrderForm() {
                       </Button>
                     </div>
                   </div>
+
+                  {costCodes.length > 0 && (
+                    <div className="grid grid-cols-12 gap-4 mt-4">
+                      <div className="col-span-5">
+                        <Label htmlFor={`items.${index}.cost_code_id`}>Cost Code</Label>
+                        <select
+                          {...register(`items.${index}.cost_code_id`)}
+                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        >
+                          <option value="">Not coded</option>
+                          {costCodes.map((costCode) => (
+                            <option key={costCode.id} value={costCode.id}>
+                              {costCode.code} - {costCode.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
                 </Card>
               ))}
 
-              <div className="flex justify-end mt-4">
+              <div className="flex flex-col items-end mt-4 space-y-1">
+                <div className="text-sm">
+                  Net: {formatMoney(totals.net, watchedCurrency)}
+                </div>
+                <div className="text-sm">
+                  Tax: {formatMoney(totals.tax, watchedCurrency)}
+                </div>
                 <div className="text-lg font-semibold">
-                  Total: ${calculateTotal().toFixed(2)}
+                  Total: {formatMoney(totals.gross, watchedCurrency)}
                 </div>
               </div>
             </div>
@@ -0,0 +1,150 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { rateCardSchema } from '@/lib/validation-schemas'
+
+type RateCardFormData = z.infer<typeof rateCardSchema>
+
+interface RateCardFormProps {
+  onSubmit: (data: RateCardFormData) => Promise<void>
+  initialData?: Partial<RateCardFormData> | undefined
+  isLoading?: boolean
+}
+
+// Empty optional inputs are stored as null rather than zero
+const optionalNumber = (value: string) => (value === '' ? null : Number(value))
+const optionalDate = (value: string) => (value === '' ? null : value)
+
+export function RateCardForm({ onSubmit, initialData, isLoading }: RateCardFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<RateCardFormData>({
+    resolver: zodResolver(rateCardSchema),
+    defaultValues: initialData || {
+      currency: 'USD',
+      minimum_hire_days: 0,
+      weekly_rate: null,
+      four_week_rate: null,
+      valid_to: null,
+    },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Rate Card Entry' : 'Add Rate Card Entry'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="item_name">Item Name</Label>
+              <Input
+                id="item_name"
+                {...register('item_name')}
+                placeholder="Must match the PO item name"
+              />
+              {errors.item_name && (
+                <p className="text-sm text-red-500 mt-1">{errors.item_name.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                {...register('currency')}
+                placeholder="USD"
+                maxLength={3}
+              />
+              {errors.currency && (
+                <p className="text-sm text-red-500 mt-1">{errors.currency.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="daily_rate">Daily Rate</Label>
+              <Input
+                id="daily_rate"
+                type="number"
+                step="0.01"
+                {...register('daily_rate', { valueAsNumber: true })}
+                placeholder="0.00"
+              />
+              {errors.daily_rate && (
+                <p className="text-sm text-red-500 mt-1">{errors.daily_rate.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="weekly_rate">Weekly Rate</Label>
+              <Input
+                id="weekly_rate"
+                type="number"
+                step="0.01"
+                {...register('weekly_rate', { setValueAs: optionalNumber })}
+                placeholder="—"
+              />
+            </div>
+            <div>
+              <Label htmlFor="four_week_rate">4-Week Rate</Label>
+              <Input
+                id="four_week_rate"
+                type="number"
+                step="0.01"
+                {...register('four_week_rate', { setValueAs: optionalNumber })}
+                placeholder="—"
+              />
+            </div>
+            <div>
+              <Label htmlFor="minimum_hire_days">Min. Hire (days)</Label>
+              <Input
+                id="minimum_hire_days"
+                type="number"
+                {...register('minimum_hire_days', { valueAsNumber: true })}
+                min="0"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="valid_from">Valid From</Label>
+              <Input
+                id="valid_from"
+                type="date"
+                {...register('valid_from')}
+              />
+              {errors.valid_from && (
+                <p className="text-sm text-red-500 mt-1">{errors.valid_from.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="valid_to">Valid To</Label>
+              <Input
+                id="valid_to"
+                type="date"
+                {...register('valid_to', { setValueAs: optionalDate })}
+              />
+              {errors.valid_to && (
+                <p className="text-sm text-red-500 mt-1">{errors.valid_to.message}</p>
+              )}
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Entry'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { rateChangeSchema } from '@/lib/validation-schemas'
+
+type RateChangeFormData = z.infer<typeof rateChangeSchema>
+
+interface RateChangeFormProps {
+  onSubmit: (data: RateChangeFormData) => Promise<void>
+  initialData?: Partial<RateChangeFormData> | undefined
+  isLoading?: boolean
+}
+
+// Empty optional rate inputs are stored as "not quoted" rather than zero
+const optionalNumber = (value: string) => (value === '' ? null : Number(value))
+
+export function RateChangeForm({ onSubmit, initialData, isLoading }: RateChangeFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<RateChangeFormData>({
+    resolver: zodResolver(rateChangeSchema),
+    defaultValues: initialData || { weekly_rate: null, four_week_rate: null },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Record Rate Change</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <Label htmlFor="effective_from">Effective From</Label>
+            <Input
+              id="effective_from"
+              type="date"
+              {...register('effective_from')}
+            />
+            {errors.effective_from && (
+              <p className="text-sm text-red-500 mt-1">{errors.effective_from.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="daily_rate">Daily Rate</Label>
+              <Input
+                id="daily_rate"
+                type="number"
+                step="0.01"
+                {...register('daily_rate', { valueAsNumber: true })}
+                placeholder="0.00"
+              />
+              {errors.daily_rate && (
+                <p className="text-sm text-red-500 mt-1">{errors.daily_rate.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="weekly_rate">Weekly Rate</Label>
+              <Input
+                id="weekly_rate"
+                type="number"
+                step="0.01"
+                {...register('weekly_rate', { setValueAs: optionalNumber })}
+                placeholder="—"
+              />
+            </div>
+            <div>
+              <Label htmlFor="four_week_rate">4-Week Rate</Label>
+              <Input
+                id="four_week_rate"
+                type="number"
+                step="0.01"
+                {...register('four_week_rate', { setValueAs: optionalNumber })}
+                placeholder="—"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              {...register('reason')}
+              placeholder="e.g. vendor price increase letter ref."
+            />
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Rate Change'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
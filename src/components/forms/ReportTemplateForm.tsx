@@ -0,0 +1,172 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { DOCUMENT_COLUMNS, DOCUMENT_LABELS, DocumentKind } from '@/lib/report-templates'
+import { reportTemplateSchema } from '@/lib/validation-schemas'
+
+type ReportTemplateFormData = z.infer<typeof reportTemplateSchema>
+
+interface ProjectOption {
+  id: string
+  name: string
+}
+
+interface ReportTemplateFormProps {
+  onSubmit: (data: ReportTemplateFormData) => Promise<void>
+  projects: ProjectOption[]
+  initialData?: Partial<ReportTemplateFormData> | undefined
+  isLoading?: boolean
+}
+
+const DOCUMENT_KINDS = Object.keys(DOCUMENT_COLUMNS) as DocumentKind[]
+
+// Every column is ticked until the template narrows it down
+const allColumns = () => Object.fromEntries(
+  DOCUMENT_KINDS.map(kind => [kind, DOCUMENT_COLUMNS[kind].map(column => column.key)])
+)
+
+export function ReportTemplateForm({ onSubmit, projects, initialData, isLoading }: ReportTemplateFormProps) {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ReportTemplateFormData>({
+    resolver: zodResolver(reportTemplateSchema),
+    defaultValues: initialData
+      ? { ...initialData, columns: { ...allColumns(), ...initialData.columns } }
+      : { project_id: null, logo_data_url: null, columns: allColumns() },
+  })
+
+  const logo = watch('logo_data_url')
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = () => {
+      setValue('logo_data_url', String(reader.result), { shouldValidate: true })
+    }
+    reader.onerror = () => {
+      setError('logo_data_url', { message: 'The logo could not be read' })
+    }
+    reader.readAsDataURL(file)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Template' : 'Add Template'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <Label htmlFor="project_id">Applies To</Label>
+            <select
+              id="project_id"
+              {...register('project_id', { setValueAs: (value) => value || null })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Organisation default</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+            {errors.project_id && (
+              <p className="text-sm text-red-500 mt-1">{errors.project_id.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="company_name">Company Name</Label>
+            <Input
+              id="company_name"
+              {...register('company_name')}
+            />
+            {errors.company_name && (
+              <p className="text-sm text-red-500 mt-1">{errors.company_name.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="logo">Logo</Label>
+            <div className="flex items-center space-x-4">
+              {logo && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={logo} alt="Logo" className="h-12 max-w-[160px] object-contain" />
+              )}
+              <Input
+                id="logo"
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={(e) => handleLogoChange(e.target.files?.[0])}
+              />
+              {logo && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setValue('logo_data_url', null)}>
+                  Remove
+                </Button>
+              )}
+            </div>
+            {errors.logo_data_url && (
+              <p className="text-sm text-red-500 mt-1">{errors.logo_data_url.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="address">Address</Label>
+            <Textarea
+              id="address"
+              {...register('address')}
+              placeholder="Shown under the company name"
+            />
+            {errors.address && (
+              <p className="text-sm text-red-500 mt-1">{errors.address.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="footer_text">Footer Text</Label>
+            <Input
+              id="footer_text"
+              {...register('footer_text')}
+              placeholder="Printed before the page numbers"
+            />
+            {errors.footer_text && (
+              <p className="text-sm text-red-500 mt-1">{errors.footer_text.message}</p>
+            )}
+          </div>
+
+          {DOCUMENT_KINDS.map((kind) => (
+            <div key={kind}>
+              <Label>{DOCUMENT_LABELS[kind]} Columns</Label>
+              <div className="grid grid-cols-3 gap-1 mt-1">
+                {DOCUMENT_COLUMNS[kind].map((column) => (
+                  <label key={column.key} className="flex items-center space-x-2 text-sm">
+                    <input type="checkbox" value={column.key} {...register(`columns.${kind}`)} />
+                    <span>{column.label}</span>
+                  </label>
+                ))}
+              </div>
+              {errors.columns?.[kind] && (
+                <p className="text-sm text-red-500 mt-1">{errors.columns[kind]?.message}</p>
+              )}
+            </div>
+          ))}
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Template'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,16 +5,20 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase'
+import { daysOnHire } from '@/lib/rental-engine'
+import { formatMoney } from '@/lib/currency'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { format } from 'date-fns'
+import Link from 'next/link'
 
 const returnItemSchema = z.object({
   dn_item_id: z.string().min(1, 'DN item is required'),
   return_quantity: z.number().min(1, 'Return quantity must be at least 1'),
   return_date: z.string().min(1, 'Return date is required'),
+  reference: z.string().optional(),
 })
 
 const returnSchema = z.object({
@@ -38,6 +42,7 @@ interface DnItem {
     delivery_date: string
     purchase_order: {
       po_number: string
+      currency: string
       project: { name: string }
       vendor: { name: string }
     }
@@ -86,6 +91,7 @@ export default function ReturnForm() {
             delivery_date,
             purchase_order:purchase_orders(
               po_number,
+              currency,
               project:projects(name),
               vendor:vendors(name)
             )
@@ -113,6 +119,7 @@ export default function ReturnForm() {
           dn_item_id: itemId,
           return_quantity: 1,
           return_date: format(new Date(), 'yyyy-MM-dd'),
+          reference: '',
         },
       ])
     } else {
@@ -124,17 +131,32 @@ export default function ReturnForm() {
 
   const onSubmit = async (data: ReturnFormData) => {
     try {
+      const { data: { session } } = await supabase.auth.getSession()
+
+      // Every selected item is recorded as its own return event, all in one
+      // request so that either every return is recorded or none is
       const response = await fetch('/.netlify/functions/process-return', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
         },
-        body: JSON.stringify({ returnItems: data.items }),
+        body: JSON.stringify({
+          returns: data.items.map(item => ({
+            dnItemId: item.dn_item_id,
+            returnedQuantity: item.return_quantity,
+            returnDate: item.return_date,
+            reference: item.reference || undefined,
+          })),
+        }),
       })
 
-      if (!response.ok) throw new Error('Return processing failed')
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        alert([result.error, ...(result.errors || [])].filter(Boolean).join('. ') || 'Error processing returns')
+        return
+      }
 
-      const result = await response.json()
       alert('Items returned successfully!')
       
       // Reset form and refresh data
@@ -151,13 +173,6 @@ export default function ReturnForm() {
     return item.delivered_quantity - item.returned_quantity
   }
 
-  const calculateDaysOnRent = (deliveryDate: string) => {
-    const delivery = new Date(deliveryDate)
-    const today = new Date()
-    const diffTime = Math.abs(today.getTime() - delivery.getTime())
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-  }
-
   if (loading) return <div>Loading...</div>
 
   return (
@@ -172,7 +187,7 @@ export default function ReturnForm() {
             <div className="space-y-4 mt-4">
               {dnItems.map((item, index) => {
                 const availableQty = getAvailableQuantity(item)
-                const daysOnRent = calculateDaysOnRent(item.delivery_note.delivery_date)
+                const daysOnRent = daysOnHire(item.delivery_note.delivery_date, new Date())
                 const isSelected = selectedItems.includes(item.id)
                 const selectedIndex = watch('items').findIndex(i => i.dn_item_id === item.id)
 
@@ -188,7 +203,12 @@ export default function ReturnForm() {
                       
                       <div className="flex-1 grid grid-cols-12 gap-4">
                         <div className="col-span-3">
-                          <div className="text-sm font-medium">{item.po_item.item_name}</div>
+                          <Link
+                            href={`/dashboard/delivery-notes/items/${item.id}`}
+                            className="text-sm font-medium hover:underline"
+                          >
+                            {item.po_item.item_name}
+                          </Link>
                           <div className="text-xs text-gray-500">{item.po_item.description}</div>
                           <div className="text-xs text-blue-600">
                             {item.delivery_note.purchase_order.po_number}
@@ -223,7 +243,7 @@ export default function ReturnForm() {
 
                         <div className="col-span-1">
                           <Label className="text-xs">Daily Rate</Label>
-                          <div className="text-sm">${item.daily_rate}</div>
+                          <div className="text-sm">{formatMoney(item.daily_rate, item.delivery_note.purchase_order.currency)}</div>
                         </div>
 
                         {isSelected && selectedIndex >= 0 && (
@@ -252,6 +272,17 @@ export default function ReturnForm() {
                               />
                             </div>
 
+                            <div className="col-span-3 col-start-10">
+                              <Label htmlFor={`items.${selectedIndex}.reference`} className="text-xs">
+                                Return Reference
+                              </Label>
+                              <Input
+                                {...register(`items.${selectedIndex}.reference`)}
+                                placeholder="e.g. collection note no."
+                                className="h-8"
+                              />
+                            </div>
+
                             <input
                               type="hidden"
                               {...register(`items.${selectedIndex}.dn_item_id`)}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { suspensionSchema } from '@/lib/validation-schemas'
+
+type SuspensionFormData = z.infer<typeof suspensionSchema>
+
+interface SuspensionFormProps {
+  onSubmit: (data: SuspensionFormData) => Promise<void>
+  initialData?: Partial<SuspensionFormData> | undefined
+  isLoading?: boolean
+}
+
+// Leaving the end date empty keeps the suspension open
+const optionalDate = (value: string) => (value === '' ? null : value)
+
+export function SuspensionForm({ onSubmit, initialData, isLoading }: SuspensionFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<SuspensionFormData>({
+    resolver: zodResolver(suspensionSchema),
+    defaultValues: initialData || { end_date: null },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Suspension' : 'Suspend Charging'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="start_date">From</Label>
+              <Input
+                id="start_date"
+                type="date"
+                {...register('start_date')}
+              />
+              {errors.start_date && (
+                <p className="text-sm text-red-500 mt-1">{errors.start_date.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="end_date">To (inclusive, empty if ongoing)</Label>
+              <Input
+                id="end_date"
+                type="date"
+                {...register('end_date', { setValueAs: optionalDate })}
+              />
+              {errors.end_date && (
+                <p className="text-sm text-red-500 mt-1">{errors.end_date.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              {...register('reason')}
+              placeholder="e.g. breakdown awaiting vendor repair"
+            />
+            {errors.reason && (
+              <p className="text-sm text-red-500 mt-1">{errors.reason.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Suspension'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
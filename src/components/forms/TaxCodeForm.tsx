@@ -0,0 +1,103 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { taxCodeSchema } from '@/lib/validation-schemas'
+
+type TaxCodeFormData = z.infer<typeof taxCodeSchema>
+
+interface TaxCodeFormProps {
+  onSubmit: (data: TaxCodeFormData) => Promise<void>
+  initialData?: Partial<TaxCodeFormData> | undefined
+  isLoading?: boolean
+}
+
+export function TaxCodeForm({ onSubmit, initialData, isLoading }: TaxCodeFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<TaxCodeFormData>({
+    resolver: zodResolver(taxCodeSchema),
+    defaultValues: initialData || {
+      is_inclusive: false,
+      is_active: true,
+    },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{initialData ? 'Edit Tax Code' : 'Add Tax Code'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="code">Code</Label>
+              <Input
+                id="code"
+                {...register('code')}
+                placeholder="VAT20"
+              />
+              {errors.code && (
+                <p className="text-sm text-red-500 mt-1">{errors.code.message}</p>
+              )}
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                {...register('name')}
+                placeholder="Standard rate VAT"
+              />
+              {errors.name && (
+                <p className="text-sm text-red-500 mt-1">{errors.name.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="rate">Rate (%)</Label>
+            <Input
+              id="rate"
+              type="number"
+              step="0.001"
+              {...register('rate', { valueAsNumber: true })}
+            />
+            {errors.rate && (
+              <p className="text-sm text-red-500 mt-1">{errors.rate.message}</p>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              id="is_inclusive"
+              type="checkbox"
+              {...register('is_inclusive')}
+            />
+            <Label htmlFor="is_inclusive">Prices include this tax</Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              id="is_active"
+              type="checkbox"
+              {...register('is_active')}
+            />
+            <Label htmlFor="is_active">Available for new purchase orders</Label>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Saving...' : 'Save Tax Code'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
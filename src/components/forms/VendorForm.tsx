@@ -1,5 +1,6 @@
 'use client'
 
+import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -8,6 +9,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { createClient } from '@/lib/supabase'
+import { TaxCode } from '@/lib/tax'
 
 const vendorSchema = z.object({
   name: z.string().min(1, 'Vendor name is required'),
@@ -16,6 +19,7 @@ const vendorSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   tax_id: z.string().optional(),
+  default_tax_code_id: z.string().nullable().optional(),
 })
 
 type VendorFormData = z.infer<typeof vendorSchema>
@@ -27,15 +31,41 @@ interface VendorFormProps {
 }
 
 export function VendorForm({ onSubmit, initialData, isLoading }: VendorFormProps) {
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([])
+  const supabase = createClient()
+
   const {
     register,
     handleSubmit,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<VendorFormData>({
     resolver: zodResolver(vendorSchema),
     defaultValues: initialData,
   })
 
+  useEffect(() => {
+    fetchTaxCodes()
+  }, [])
+
+  // The select only keeps the saved code once its option has been rendered
+  useEffect(() => {
+    if (initialData?.default_tax_code_id) {
+      setValue('default_tax_code_id', initialData.default_tax_code_id)
+    }
+  }, [taxCodes])
+
+  const fetchTaxCodes = async () => {
+    const { data } = await supabase
+      .from('tax_codes')
+      .select('*')
+      .order('code')
+    // Inactive codes stay selectable for the vendor that already uses them
+    setTaxCodes((data || []).filter((taxCode: TaxCode) =>
+      taxCode.is_active || taxCode.id === initialData?.default_tax_code_id
+    ))
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -96,13 +126,30 @@ export function VendorForm({ onSubmit, initialData, isLoading }: VendorFormProps
             />
           </div>
 
-          <div>
-            <Label htmlFor="tax_id">Tax ID</Label>
-            <Input
-              id="tax_id"
-              {...register('tax_id')}
-              placeholder="Enter tax ID"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="tax_id">Tax ID</Label>
+              <Input
+                id="tax_id"
+                {...register('tax_id')}
+                placeholder="Enter tax ID"
+              />
+            </div>
+            <div>
+              <Label htmlFor="default_tax_code_id">Default Tax Code</Label>
+              <select
+                id="default_tax_code_id"
+                {...register('default_tax_code_id', { setValueAs: (value: string) => value || null })}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">No tax</option>
+                {taxCodes.map((taxCode) => (
+                  <option key={taxCode.id} value={taxCode.id}>
+                    {taxCode.code} ({Number(taxCode.rate)}%{taxCode.is_inclusive ? ' incl.' : ''})
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <Button type="submit" disabled={isSubmitting || isLoading}>
@@ -0,0 +1,176 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { VENDOR_INVOICE_COLUMNS } from '@/lib/reconciliation'
+
+const vendorInvoiceImportFormSchema = z.object({
+  vendorId: z.string().min(1, 'Vendor is required'),
+  invoiceNumber: z.string().min(1, 'Vendor invoice number is required'),
+  periodStart: z.string().min(1, 'Period start is required'),
+  periodEnd: z.string().min(1, 'Period end is required'),
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: 'Period end must be on or after period start',
+  path: ['periodEnd'],
+})
+
+type VendorInvoiceImportFormData = z.infer<typeof vendorInvoiceImportFormSchema>
+
+export interface VendorInvoiceImportData extends VendorInvoiceImportFormData {
+  fileName: string
+  csv: string
+}
+
+interface VendorInvoiceImportFormProps {
+  onSubmit: (data: VendorInvoiceImportData) => Promise<void>
+  errors?: string[]
+  isLoading?: boolean
+}
+
+interface Vendor {
+  id: string
+  name: string
+}
+
+export function VendorInvoiceImportForm({ onSubmit, errors: importErrors = [], isLoading }: VendorInvoiceImportFormProps) {
+  const [vendors, setVendors] = useState<Vendor[]>([])
+  const [file, setFile] = useState<File | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const supabase = createClient()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<VendorInvoiceImportFormData>({
+    resolver: zodResolver(vendorInvoiceImportFormSchema),
+  })
+
+  useEffect(() => {
+    fetchVendors()
+  }, [])
+
+  const fetchVendors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vendors')
+        .select('id, name')
+        .order('name')
+
+      if (error) throw error
+      setVendors(data || [])
+    } catch (error) {
+      console.error('Error fetching vendors:', error)
+    }
+  }
+
+  const submit = async (data: VendorInvoiceImportFormData) => {
+    if (!file) {
+      setFileError('Choose the vendor invoice CSV file')
+      return
+    }
+    setFileError(null)
+    await onSubmit({ ...data, fileName: file.name, csv: await file.text() })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Vendor Invoice</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(submit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="vendorId">Vendor</Label>
+              <select
+                id="vendorId"
+                {...register('vendorId')}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Select vendor</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+              {errors.vendorId && (
+                <p className="text-sm text-red-500 mt-1">{errors.vendorId.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="invoiceNumber">Vendor Invoice No</Label>
+              <Input
+                id="invoiceNumber"
+                {...register('invoiceNumber')}
+                placeholder="As printed on the vendor invoice"
+              />
+              {errors.invoiceNumber && (
+                <p className="text-sm text-red-500 mt-1">{errors.invoiceNumber.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="periodStart">Period Start</Label>
+              <Input
+                id="periodStart"
+                type="date"
+                {...register('periodStart')}
+              />
+              {errors.periodStart && (
+                <p className="text-sm text-red-500 mt-1">{errors.periodStart.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="periodEnd">Period End</Label>
+              <Input
+                id="periodEnd"
+                type="date"
+                {...register('periodEnd')}
+              />
+              {errors.periodEnd && (
+                <p className="text-sm text-red-500 mt-1">{errors.periodEnd.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="csv-file">CSV File</Label>
+            <Input
+              id="csv-file"
+              type="file"
+              accept=".csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Columns: {VENDOR_INVOICE_COLUMNS.join(', ')}
+            </p>
+            {fileError && (
+              <p className="text-sm text-red-500 mt-1">{fileError}</p>
+            )}
+          </div>
+
+          {importErrors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              {importErrors.map((error) => (
+                <p key={error} className="text-sm text-red-700">{error}</p>
+              ))}
+            </div>
+          )}
+
+          <Button type="submit" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? 'Importing...' : 'Import and Reconcile'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
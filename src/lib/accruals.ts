@@ -0,0 +1,146 @@
+import { addDays, daysBetween, RentalLineCharge, roundCurrency, toDateKey } from './rental-engine';
+import { calculateTax, NO_TAX, TaxTreatment } from './tax';
+
+// Month-end accruals: rental cost that has built up since the last issued
+// invoice for the project, vendor and currency, but has not been invoiced
+// yet. The cost is the rental ledger's charge for the unbilled days. Amounts
+// are net of tax.
+
+export interface BilledPeriod {
+  project_id: string;
+  vendor_id: string;
+  currency: string;
+  period_end: string;
+}
+
+export interface AccrualItem {
+  id: string;
+  project_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  po_number: string;
+  item_name: string;
+  currency: string;
+  delivery_date: string;
+  // Charge from the day after the last billed date, or from delivery, up to
+  // and including asOf, as the ledger returns it
+  charge: RentalLineCharge;
+  tax?: TaxTreatment;
+}
+
+export interface AccrualRow {
+  dn_item_id: string;
+  project_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  po_number: string;
+  item_name: string;
+  currency: string;
+  on_hire_quantity: number;
+  last_billed_date: string | null;
+  unbilled_from: string;
+  days_since_billed: number;
+  chargeable_days: number;
+  amount: number;
+}
+
+export interface AccrualGroup {
+  project_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  currency: string;
+  last_billed_date: string | null;
+  on_hire_quantity: number;
+  amount: number;
+  rows: AccrualRow[];
+}
+
+export const accrualKey = (projectId: string, vendorId: string, currency: string) => `${projectId}|${vendorId}|${currency}`;
+
+// End of the latest issued invoice per project, vendor and currency
+export function lastBilledDates(invoices: BilledPeriod[]): Map<string, string> {
+  const dates = new Map<string, string>();
+  invoices.forEach(invoice => {
+    const key = accrualKey(invoice.project_id, invoice.vendor_id, invoice.currency);
+    const current = dates.get(key);
+    if (!current || invoice.period_end > current) {
+      dates.set(key, invoice.period_end);
+    }
+  });
+  return dates;
+}
+
+export interface UnbilledWindow {
+  vendor_id: string;
+  last_billed_date: string;
+}
+
+// Billed groups are charged from the day after their last invoice, so the
+// ledger is read once per vendor and last billed date still before asOf
+export function unbilledWindows(invoices: BilledPeriod[], asOf: string): UnbilledWindow[] {
+  const lastBilled = lastBilledDates(invoices);
+  const windows = new Map<string, UnbilledWindow>();
+  invoices.forEach(invoice => {
+    const lastBilledDate = lastBilled.get(accrualKey(invoice.project_id, invoice.vendor_id, invoice.currency))!;
+    if (lastBilledDate < asOf) {
+      windows.set(`${invoice.vendor_id}|${lastBilledDate}`, { vendor_id: invoice.vendor_id, last_billed_date: lastBilledDate });
+    }
+  });
+  return Array.from(windows.values());
+}
+
+export function buildAccrualRows(items: AccrualItem[], lastBilled: Map<string, string>, asOf: string): AccrualRow[] {
+  return items.flatMap(item => {
+    const lastBilledDate = lastBilled.get(accrualKey(item.project_id, item.vendor_id, item.currency)) ?? null;
+    if (lastBilledDate && lastBilledDate >= asOf) return [];
+
+    const charge = item.charge;
+    if (charge.segments.length === 0) return [];
+
+    const deliveryDate = toDateKey(item.delivery_date);
+    const billedUntil = lastBilledDate ? addDays(lastBilledDate, 1) : deliveryDate;
+    const unbilledFrom = billedUntil > deliveryDate ? billedUntil : deliveryDate;
+
+    return [{
+      dn_item_id: item.id,
+      project_id: item.project_id,
+      vendor_id: item.vendor_id,
+      vendor_name: item.vendor_name,
+      po_number: item.po_number,
+      item_name: item.item_name,
+      currency: item.currency,
+      on_hire_quantity: charge.ongoingQuantity,
+      last_billed_date: lastBilledDate,
+      unbilled_from: unbilledFrom,
+      days_since_billed: daysBetween(unbilledFrom, addDays(asOf, 1)),
+      chargeable_days: charge.totalChargeableDays,
+      amount: calculateTax(charge.amount, item.tax ?? NO_TAX).net
+    }];
+  });
+}
+
+// Rows grouped per project, vendor and currency, largest accrual first
+export function groupAccruals(rows: AccrualRow[]): AccrualGroup[] {
+  const groups = new Map<string, AccrualGroup>();
+
+  rows.forEach(row => {
+    const key = accrualKey(row.project_id, row.vendor_id, row.currency);
+    const group = groups.get(key) ?? {
+      project_id: row.project_id,
+      vendor_id: row.vendor_id,
+      vendor_name: row.vendor_name,
+      currency: row.currency,
+      last_billed_date: row.last_billed_date,
+      on_hire_quantity: 0,
+      amount: 0,
+      rows: []
+    };
+
+    group.on_hire_quantity += row.on_hire_quantity;
+    group.amount = roundCurrency(group.amount + row.amount);
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.amount - a.amount);
+}
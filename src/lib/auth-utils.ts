@@ -156,6 +156,12 @@ export const responses = {
     body: JSON.stringify({ error: message })
   }),
   
+  conflict: (message = 'Resource conflict') => ({
+    statusCode: 409,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ error: message })
+  }),
+  
   serverError: (message = 'Internal server error') => ({
     statusCode: 500,
     headers: { 'Content-Type': 'application/json' },
@@ -176,5 +182,24 @@ export const responses = {
     },
     body: pdfBuffer.toString('base64'),
     isBase64Encoded: true
+  }),
+
+  csv: (csvText: string, filename = 'export.csv') => ({
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename=${filename}`
+    },
+    body: csvText
+  }),
+
+  xlsx: (xlsxBuffer: Buffer, filename = 'export.xlsx') => ({
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename=${filename}`
+    },
+    body: xlsxBuffer.toString('base64'),
+    isBase64Encoded: true
   })
 };
\ No newline at end of file
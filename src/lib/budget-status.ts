@@ -0,0 +1,168 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseError, NotFoundError, ValidationError } from './error-handler';
+import { toDateKey } from './rental-engine';
+import { allocateItemAmount, forecastItemOf, projectCalendarOf } from './rental-data';
+import { fetchRentalLedger } from './rental-ledger';
+import { fetchCommittedByCostCode } from './committed-spend';
+import { budgetStatuses, BudgetStatus, ProjectBudget, SpendEntry } from './budgets';
+import { buildForecastRows } from './forecast';
+import { convertAmount, fetchExchangeRates, findExchangeRate } from './currency';
+
+// A project's budgets against its spend as of today. Threshold crossings are
+// recorded whenever the status is calculated: when someone views it, after
+// spend changes through the functions (returns, invoice runs) and on the
+// hourly schedule, which picks up orders and delivery notes saved directly.
+
+export const BUDGET_PAGE_SIZE = 1000;
+
+export interface ProjectBudgetStatus {
+  reportingCurrency: string;
+  asOf: string;
+  budgets: BudgetStatus[];
+}
+
+// Problems that stop the calculation throw: NotFoundError for an unknown
+// project, ValidationError for missing exchange rates and DatabaseError when
+// a query fails.
+export async function calculateBudgetStatus(supabase: SupabaseClient, projectId: string): Promise<ProjectBudgetStatus> {
+  const today = toDateKey(new Date());
+
+  const [
+    { data: project, error: projectError },
+    { data: budgets, error: budgetError },
+    { data: committed, error: committedError },
+    { data: rentalData, error: rentalError }
+  ] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('id, end_date, reporting_currency, exclude_weekends, project_non_chargeable_periods(start_date, end_date)')
+      .eq('id', projectId)
+      .single(),
+    supabase
+      .from('project_budgets')
+      .select('id, project_id, cost_code_id, amount, alert_thresholds, notes, project_cost_codes(code, name)')
+      .eq('project_id', projectId),
+    // Committed spend is every PO line that has left draft and was not cancelled
+    fetchCommittedByCostCode(supabase, projectId),
+    fetchRentalLedger(supabase, { projectId, endDate: today })
+  ]);
+
+  if (projectError || !project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  if (budgetError || committedError || rentalError) {
+    throw new DatabaseError('Failed to fetch budget data', budgetError || committedError || rentalError);
+  }
+
+  const reportingCurrency = project.reporting_currency;
+  const exchangeRates = await fetchExchangeRates(supabase, today);
+  const currencies = [
+    ...(committed || []).map(total => total.currency),
+    ...(rentalData || []).map((item: any) => item.po_items.purchase_orders.currency)
+  ];
+  const missingRates = Array.from(new Set(currencies))
+    .filter(currency => findExchangeRate(exchangeRates, currency, reportingCurrency, today) === null)
+    .map(currency => `Record a ${currency} to ${reportingCurrency} rate`);
+  if (missingRates.length > 0) {
+    throw new ValidationError(`No exchange rate on or before ${today}`, missingRates);
+  }
+
+  const reported = (amount: number, currency: string) =>
+    convertAmount(amount, currency, reportingCurrency, today, exchangeRates);
+
+  // Incurred is the net rental cost to date, projected forward for the forecast
+  const calendar = projectCalendarOf(project);
+  const forecastRows = buildForecastRows(
+    (rentalData || []).map((item: any) => forecastItemOf(item, calendar)),
+    project.end_date,
+    today
+  );
+  const itemsById = new Map<string, any>((rentalData || []).map((item: any) => [item.id, item]));
+
+  const entries: SpendEntry[] = [
+    ...(committed || []).map(total => ({
+      cost_code_id: total.cost_code_id,
+      committed: reported(total.amount, total.currency),
+      incurred: 0
+    })),
+    // Rental charges follow the DN line's cost code split
+    ...forecastRows.flatMap(row => {
+      const item = itemsById.get(row.dn_item_id);
+      const projectedParts = allocateItemAmount(item, row.forecast_cost);
+      return allocateItemAmount(item, row.cost_to_date).map((part, index) => ({
+        cost_code_id: part.cost_code_id,
+        committed: 0,
+        incurred: reported(part.amount, row.currency),
+        projected: reported(projectedParts[index]?.amount ?? 0, row.currency)
+      }));
+    })
+  ];
+
+  return {
+    reportingCurrency,
+    asOf: today,
+    budgets: budgetStatuses((budgets || []).map((budget: any) => ({
+      ...budget,
+      amount: Number(budget.amount)
+    })) as ProjectBudget[], entries)
+  };
+}
+
+// Crossings are recorded once; acknowledged alerts are not raised again.
+// Needs the service role, as users cannot write alerts.
+export async function recordBudgetCrossings(serviceSupabase: SupabaseClient, statuses: BudgetStatus[]): Promise<void> {
+  const crossings = statuses.flatMap(status => status.crossings);
+  if (crossings.length === 0) {
+    return;
+  }
+
+  const { error } = await serviceSupabase
+    .from('budget_alerts')
+    .upsert(crossings, { onConflict: 'budget_id,threshold,measure', ignoreDuplicates: true });
+
+  if (error) {
+    throw new DatabaseError('Failed to record budget alerts', error);
+  }
+}
+
+// Recalculates a project's budgets and records any new crossings. Projects
+// without budgets are skipped before anything else is read.
+export async function refreshBudgetAlerts(serviceSupabase: SupabaseClient, projectId: string): Promise<void> {
+  const { count, error } = await serviceSupabase
+    .from('project_budgets')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId);
+
+  if (error) {
+    throw new DatabaseError('Failed to fetch budgets', error);
+  }
+  if (!count) {
+    return;
+  }
+
+  const status = await calculateBudgetStatus(serviceSupabase, projectId);
+  await recordBudgetCrossings(serviceSupabase, status.budgets);
+}
+
+// Every project with at least one budget, read a page at a time
+export async function fetchBudgetedProjectIds(supabase: SupabaseClient): Promise<string[]> {
+  const projectIds = new Set<string>();
+
+  for (let from = 0; ; from += BUDGET_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('project_budgets')
+      .select('id, project_id')
+      .order('id')
+      .range(from, from + BUDGET_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new DatabaseError('Failed to fetch budgets', error);
+    }
+
+    (data || []).forEach((budget: { project_id: string }) => projectIds.add(budget.project_id));
+    if (!data || data.length < BUDGET_PAGE_SIZE) {
+      return Array.from(projectIds);
+    }
+  }
+}
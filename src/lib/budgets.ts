@@ -0,0 +1,97 @@
+import { roundCurrency } from './rental-engine';
+
+// Project budgets in the reporting currency, tracked against committed spend
+// (net PO totals), incurred spend (net rental charges to date) and forecast
+// spend. A budget without a cost code covers the whole project.
+
+export type BudgetMeasure = 'committed' | 'incurred' | 'forecast';
+
+export const BUDGET_MEASURES: BudgetMeasure[] = ['committed', 'incurred', 'forecast'];
+
+export interface ProjectBudget {
+  id: string;
+  project_id: string;
+  cost_code_id: string | null;
+  amount: number;
+  alert_thresholds: number[];
+}
+
+// Spend of one PO line or DN line, already converted to the reporting currency
+export interface SpendEntry {
+  cost_code_id: string | null;
+  committed: number;
+  incurred: number;
+  // Expected final rental cost; the incurred amount when not projected
+  projected?: number;
+}
+
+export type BudgetSpend = Record<BudgetMeasure, number>;
+
+export interface BudgetCrossing {
+  budget_id: string;
+  threshold: number;
+  measure: BudgetMeasure;
+  spend_amount: number;
+  budget_amount: number;
+}
+
+export interface BudgetStatus {
+  budget: ProjectBudget;
+  spend: BudgetSpend;
+  percent_used: BudgetSpend;
+  crossings: BudgetCrossing[];
+}
+
+// The forecast is whichever is higher of the committed amount and the rental
+// cost projected to the end of hire
+export function budgetSpend(budget: ProjectBudget, entries: SpendEntry[]): BudgetSpend {
+  const inScope = budget.cost_code_id
+    ? entries.filter(entry => entry.cost_code_id === budget.cost_code_id)
+    : entries;
+
+  const committed = inScope.reduce((sum, entry) => roundCurrency(sum + entry.committed), 0);
+  const incurred = inScope.reduce((sum, entry) => roundCurrency(sum + entry.incurred), 0);
+  const projected = inScope.reduce((sum, entry) => roundCurrency(sum + (entry.projected ?? entry.incurred)), 0);
+  return { committed, incurred, forecast: Math.max(committed, projected) };
+}
+
+export function percentOfBudget(amount: number, budgetAmount: number): number {
+  return Math.round(amount / Number(budgetAmount) * 1000) / 10;
+}
+
+// Every threshold reached by each measure, lowest first
+export function crossedThresholds(budget: ProjectBudget, spend: BudgetSpend): BudgetCrossing[] {
+  const thresholds = [...budget.alert_thresholds].sort((a, b) => a - b);
+
+  return BUDGET_MEASURES.flatMap(measure => thresholds
+    .filter(threshold => spend[measure] * 100 >= Number(budget.amount) * threshold)
+    .map(threshold => ({
+      budget_id: budget.id,
+      threshold,
+      measure,
+      spend_amount: spend[measure],
+      budget_amount: Number(budget.amount)
+    })));
+}
+
+export function budgetStatuses(budgets: ProjectBudget[], entries: SpendEntry[]): BudgetStatus[] {
+  return budgets.map(budget => {
+    const spend = budgetSpend(budget, entries);
+    return {
+      budget,
+      spend,
+      percent_used: {
+        committed: percentOfBudget(spend.committed, budget.amount),
+        incurred: percentOfBudget(spend.incurred, budget.amount),
+        forecast: percentOfBudget(spend.forecast, budget.amount)
+      },
+      crossings: crossedThresholds(budget, spend)
+    };
+  });
+}
+
+// Highest threshold a percentage has reached, for colouring budget lines
+export function highestThresholdReached(percentUsed: number, thresholds: number[]): number | null {
+  const reached = thresholds.filter(threshold => percentUsed >= threshold);
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
@@ -0,0 +1,49 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+
+// Committed spend is every purchase order that has left draft and was not
+// cancelled. It is summed in the database, so overviews get one row per
+// project or cost code and currency however many orders there are.
+
+export interface CommittedTotal {
+  project_id: string;
+  currency: string;
+  order_count: number;
+  // Gross order totals
+  amount: number;
+}
+
+export interface CommittedCostCodeTotal {
+  cost_code_id: string | null;
+  currency: string;
+  // Net PO line totals
+  amount: number;
+}
+
+// Per project and currency, over every project the user can see
+export async function fetchCommittedTotals(
+  supabase: SupabaseClient
+): Promise<{ data: CommittedTotal[] | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase.rpc('committed_spend_totals');
+  if (error) {
+    return { data: null, error };
+  }
+  return {
+    data: ((data || []) as CommittedTotal[]).map(total => ({ ...total, amount: Number(total.amount) })),
+    error: null
+  };
+}
+
+// Per cost code and currency for one project
+export async function fetchCommittedByCostCode(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<{ data: CommittedCostCodeTotal[] | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase.rpc('committed_spend_by_cost_code', { p_project_id: projectId });
+  if (error) {
+    return { data: null, error };
+  }
+  return {
+    data: ((data || []) as CommittedCostCodeTotal[]).map(total => ({ ...total, amount: Number(total.amount) })),
+    error: null
+  };
+}
@@ -0,0 +1,77 @@
+import { roundCurrency } from './rental-engine';
+
+// Splitting of DN line charges across project cost codes. A line is booked to
+// its PO item's cost code unless percentages of it are allocated to other
+// codes; the unallocated rest stays on the PO item's code.
+
+export interface CostAllocation {
+  cost_code_id: string;
+  percentage: number;
+}
+
+export interface AllocatedAmount {
+  cost_code_id: string | null;
+  percentage: number;
+  amount: number;
+}
+
+export interface CostCodeOption {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface CostCodeGroup<T> {
+  cost_code_id: string | null;
+  rows: T[];
+}
+
+export const UNCODED_LABEL = 'Not coded';
+
+// Parts are rounded to cents and the last one takes the rounding difference,
+// so they always add up to the amount
+export function allocateAmount(
+  amount: number,
+  allocations: CostAllocation[],
+  defaultCostCodeId: string | null
+): AllocatedAmount[] {
+  const allocated = allocations.reduce((sum, allocation) => sum + Number(allocation.percentage), 0);
+  const shares = [
+    ...allocations.map(allocation => ({ cost_code_id: allocation.cost_code_id, percentage: Number(allocation.percentage) })),
+    ...(allocated < 100 ? [{ cost_code_id: defaultCostCodeId, percentage: roundCurrency(100 - allocated) }] : [])
+  ];
+
+  // The default code may also be allocated explicitly; merge it into one share
+  const merged = shares.reduce<{ cost_code_id: string | null; percentage: number }[]>((result, share) => {
+    const existing = result.find(candidate => candidate.cost_code_id === share.cost_code_id);
+    if (existing) {
+      existing.percentage = roundCurrency(existing.percentage + share.percentage);
+    } else {
+      result.push({ ...share });
+    }
+    return result;
+  }, []);
+
+  let remaining = roundCurrency(amount);
+  return merged.map((share, index) => {
+    const part = index === merged.length - 1 ? remaining : roundCurrency(amount * share.percentage / 100);
+    remaining = roundCurrency(remaining - part);
+    return { ...share, amount: part };
+  });
+}
+
+// Groups in catalogue order, with rows that have no cost code last
+export function groupByCostCode<T extends { cost_code_id: string | null }>(
+  rows: T[],
+  costCodes: CostCodeOption[]
+): CostCodeGroup<T>[] {
+  const order = [...costCodes.map(costCode => costCode.id), null];
+  return order
+    .map(costCodeId => ({ cost_code_id: costCodeId, rows: rows.filter(row => row.cost_code_id === costCodeId) }))
+    .filter(group => group.rows.length > 0);
+}
+
+export function describeCostCode(costCodeId: string | null, costCodes: CostCodeOption[]): string {
+  const costCode = costCodes.find(candidate => candidate.id === costCodeId);
+  return costCode ? `${costCode.code} - ${costCode.name}` : UNCODED_LABEL;
+}
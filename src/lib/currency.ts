@@ -0,0 +1,120 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parseCsvRecords } from './csv';
+import { ValidationError } from './error-handler';
+import { roundCurrency } from './rental-engine';
+
+// Currency formatting and conversion with dated exchange rates. A rate applies
+// from its date until a later rate for the same pair; a rate recorded for one
+// direction is also used, inverted, for the other.
+
+export interface ExchangeRate {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string;
+}
+
+export const EXCHANGE_RATE_COLUMNS = ['from_currency', 'to_currency', 'rate', 'rate_date'] as const;
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${Number(amount).toFixed(2)}`;
+}
+
+// Units of `to` per unit of `from` on a day; null when no rate is on record
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  onDate: string
+): number | null {
+  if (from === to) return 1;
+
+  const candidates = rates
+    .filter(rate => rate.rate_date <= onDate)
+    .flatMap(rate => {
+      if (rate.from_currency === from && rate.to_currency === to) {
+        return [{ date: rate.rate_date, rate: Number(rate.rate), direct: true }];
+      }
+      if (rate.from_currency === to && rate.to_currency === from) {
+        return [{ date: rate.rate_date, rate: 1 / Number(rate.rate), direct: false }];
+      }
+      return [];
+    });
+
+  // Latest date wins; a direct quote beats an inverted one from the same day
+  candidates.sort((a, b) => b.date.localeCompare(a.date) || Number(b.direct) - Number(a.direct));
+  return candidates[0]?.rate ?? null;
+}
+
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  onDate: string,
+  rates: ExchangeRate[]
+): number {
+  const rate = findExchangeRate(rates, from, to, onDate);
+  if (rate === null) {
+    throw new ValidationError(`No exchange rate from ${from} to ${to} on or before ${onDate}`);
+  }
+  return roundCurrency(amount * rate);
+}
+
+export function parseExchangeRateCsv(text: string): { rates: ExchangeRate[]; errors: string[] } {
+  const records = parseCsvRecords(text);
+  const errors: string[] = [];
+  const rates: ExchangeRate[] = [];
+
+  if (records.length === 0) {
+    return { rates, errors: ['The file has no exchange rates'] };
+  }
+
+  const missing = EXCHANGE_RATE_COLUMNS.filter(column => !(column in records[0]!));
+  if (missing.length > 0) {
+    return { rates, errors: [`Missing columns: ${missing.join(', ')}`] };
+  }
+
+  records.forEach((record, index) => {
+    // Header is line 1
+    const lineNumber = index + 2;
+    const from = record.from_currency!.toUpperCase();
+    const to = record.to_currency!.toUpperCase();
+    const rate = Number(record.rate);
+
+    if (!CURRENCY_CODE.test(from) || !CURRENCY_CODE.test(to)) {
+      errors.push(`Line ${lineNumber}: currencies must be 3-letter codes`);
+      return;
+    }
+    if (from === to) {
+      errors.push(`Line ${lineNumber}: from and to currency are the same`);
+      return;
+    }
+    if (record.rate === '' || !Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${lineNumber}: rate must be a positive number`);
+      return;
+    }
+    if (!DATE_KEY.test(record.rate_date!) || Number.isNaN(Date.parse(record.rate_date!))) {
+      errors.push(`Line ${lineNumber}: rate date must be YYYY-MM-DD`);
+      return;
+    }
+
+    rates.push({ from_currency: from, to_currency: to, rate, rate_date: record.rate_date! });
+  });
+
+  return { rates, errors };
+}
+
+// Every rate recorded on or before a day, enough to convert amounts as of that day
+export async function fetchExchangeRates(supabase: SupabaseClient, onDate: string): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('from_currency, to_currency, rate, rate_date')
+    .lte('rate_date', onDate)
+    .order('rate_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
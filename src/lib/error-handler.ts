@@ -75,6 +75,17 @@ export class AuthorizationError extends AppError {
   }
 }
 
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Resource not found') {
+    super(
+      message,
+      'validation',
+      'The requested item could not be found.',
+      404
+    );
+  }
+}
+
 export class NetworkError extends AppError {
   constructor(message: string) {
     super(
@@ -0,0 +1,157 @@
+import { addDays, calculateLineCharge, daysBetween, RentalLineCharge, RentalLineInput, roundCurrency, toDateKey } from './rental-engine';
+import { calculateTax, NO_TAX, TaxTreatment } from './tax';
+
+// Rental cost forecast: units still on hire are assumed to stay until their
+// expected off-hire date, or the project end date when none is set, and are
+// then returned together. The cost to date is the rental ledger's charge; the
+// projection prices the whole hire with the rental engine, so tiers, rate
+// changes, calendars and minimum hire apply as they will on the real return.
+// Amounts are net of tax.
+
+export type ForecastBasis = 'returned' | 'expected_off_hire' | 'project_end' | 'open_ended';
+
+export interface ForecastItem {
+  id: string;
+  vendor_id: string;
+  vendor_name: string;
+  po_number: string;
+  item_name: string;
+  currency: string;
+  line: RentalLineInput;
+  // Charge from delivery up to and including asOf, as the ledger returns it
+  charge: RentalLineCharge;
+  tax?: TaxTreatment;
+  expected_off_hire_date?: string | null;
+}
+
+export interface ForecastRow {
+  dn_item_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  po_number: string;
+  item_name: string;
+  currency: string;
+  on_hire_quantity: number;
+  basis: ForecastBasis;
+  // Last day the units are projected to be on hire; null once everything is back
+  off_hire_date: string | null;
+  // The expected off-hire or project end date has already passed
+  overdue: boolean;
+  remaining_days: number;
+  cost_to_date: number;
+  remaining_cost: number;
+  forecast_cost: number;
+}
+
+export interface ForecastVendorGroup {
+  vendor_id: string;
+  vendor_name: string;
+  currency: string;
+  on_hire_quantity: number;
+  cost_to_date: number;
+  remaining_cost: number;
+  forecast_cost: number;
+  rows: ForecastRow[];
+}
+
+// Without an expected off-hire date or project end, or once that date has
+// passed, units are projected no further than asOf
+export function buildForecastRows(items: ForecastItem[], projectEndDate: string | null, asOf: string): ForecastRow[] {
+  return items.map(item => {
+    const tax = item.tax ?? NO_TAX;
+    const costToDate = calculateTax(item.charge.amount, tax).net;
+    const onHire = item.charge.ongoingQuantity;
+
+    const row = {
+      dn_item_id: item.id,
+      vendor_id: item.vendor_id,
+      vendor_name: item.vendor_name,
+      po_number: item.po_number,
+      item_name: item.item_name,
+      currency: item.currency
+    };
+
+    if (onHire === 0) {
+      return {
+        ...row,
+        on_hire_quantity: 0,
+        basis: 'returned' as const,
+        off_hire_date: null,
+        overdue: false,
+        remaining_days: 0,
+        cost_to_date: costToDate,
+        remaining_cost: 0,
+        forecast_cost: costToDate
+      };
+    }
+
+    const expected = item.expected_off_hire_date ? toDateKey(item.expected_off_hire_date) : null;
+    const target = expected ?? (projectEndDate ? toDateKey(projectEndDate) : null);
+    const basis: ForecastBasis = expected ? 'expected_off_hire' : target ? 'project_end' : 'open_ended';
+    const offHireDate = target && target > asOf ? target : asOf;
+    const returnDate = addDays(offHireDate, 1);
+
+    // Returns recorded after asOf are replaced by the projected return
+    const projected = calculateLineCharge({
+      ...item.line,
+      returns: [
+        ...item.line.returns.filter(event => toDateKey(event.returnDate) <= asOf),
+        { quantity: onHire, returnDate }
+      ]
+    }, { end: returnDate });
+    const forecastCost = calculateTax(projected.amount, tax).net;
+
+    return {
+      ...row,
+      on_hire_quantity: onHire,
+      basis,
+      off_hire_date: offHireDate,
+      overdue: target !== null && target < asOf,
+      remaining_days: daysBetween(addDays(asOf, 1), returnDate),
+      cost_to_date: costToDate,
+      remaining_cost: roundCurrency(forecastCost - costToDate),
+      forecast_cost: forecastCost
+    };
+  });
+}
+
+// Rows grouped per vendor and currency, largest expected final cost first
+export function groupForecastByVendor(rows: ForecastRow[]): ForecastVendorGroup[] {
+  const groups = new Map<string, ForecastVendorGroup>();
+
+  rows.forEach(row => {
+    const key = `${row.vendor_id}|${row.currency}`;
+    const group = groups.get(key) ?? {
+      vendor_id: row.vendor_id,
+      vendor_name: row.vendor_name,
+      currency: row.currency,
+      on_hire_quantity: 0,
+      cost_to_date: 0,
+      remaining_cost: 0,
+      forecast_cost: 0,
+      rows: []
+    };
+
+    group.on_hire_quantity += row.on_hire_quantity;
+    group.cost_to_date = roundCurrency(group.cost_to_date + row.cost_to_date);
+    group.remaining_cost = roundCurrency(group.remaining_cost + row.remaining_cost);
+    group.forecast_cost = roundCurrency(group.forecast_cost + row.forecast_cost);
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.forecast_cost - a.forecast_cost);
+}
+
+export function describeForecastBasis(row: ForecastRow): string {
+  switch (row.basis) {
+    case 'returned':
+      return 'Returned';
+    case 'expected_off_hire':
+      return row.overdue ? 'Expected off-hire passed' : 'Expected off-hire';
+    case 'project_end':
+      return row.overdue ? 'Project end passed' : 'Project end';
+    case 'open_ended':
+      return 'No end date';
+  }
+}
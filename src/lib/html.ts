@@ -0,0 +1,48 @@
+// Escaping for HTML rendered into PDFs. Documents are built with the `html`
+// tag: every interpolated value is escaped unless it is itself markup made by
+// `html` (or deliberately passed through `raw`), so names, numbers and notes
+// from the database always render as plain text.
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, character => ESCAPES[character]!);
+}
+
+// Markup written in code, such as a stylesheet; never pass data through here
+export function raw(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+// Lists render each entry in turn; null, undefined and false render nothing,
+// so `${condition && html`...`}` and `${rows.map(row => html`...`)}` both work
+function renderValue(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(value);
+}
+
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(strings.reduce((result, string, index) =>
+    result + string + (index < values.length ? renderValue(values[index]) : ''), ''));
+}
+
+// Text with its line breaks kept
+export function multiline(text: string): SafeHtml {
+  return html`${text.split('\n').map((line, index) => html`${index > 0 && html`<br>`}${line}`)}`;
+}
@@ -0,0 +1,201 @@
+import puppeteer, { Browser, Page } from 'puppeteer-core';
+import { escapeHtml } from './html';
+
+// HTML to PDF rendering shared by every generated document. Documents are
+// self-contained, so the page may not load anything from the network and
+// runs no scripts; whatever slips into the markup stays inert.
+//
+// Browsers are pooled: one stays warm between renders of the same function
+// instance, a limited number of pages render at once and the browser is
+// replaced after a number of renders or when it crashes.
+
+export interface RenderPdfOptions {
+  // Text shown before the page numbers in the footer
+  footerText?: string;
+}
+
+// The parts of a browser and its pages the pool uses; puppeteer's Browser
+// and Page have them
+export interface PoolPage {
+  close(): Promise<void>;
+}
+
+export interface PoolBrowser<P extends PoolPage> {
+  readonly connected: boolean;
+  newPage(): Promise<P>;
+  on(event: 'disconnected', listener: () => void): unknown;
+  close(): Promise<void>;
+}
+
+export interface BrowserPoolOptions<P extends PoolPage> {
+  // Pages rendering at the same time; further renders wait their turn
+  maxConcurrentPages: number;
+  // A browser is replaced after this many renders to keep its memory in check
+  maxRendersPerBrowser: number;
+  launch: () => Promise<PoolBrowser<P>>;
+}
+
+interface PooledBrowser<P extends PoolPage> {
+  browser: Promise<PoolBrowser<P>>;
+  renders: number;
+  activePages: number;
+  retired: boolean;
+}
+
+// Only inline resources such as a data URL logo are loaded
+export function isAllowedRequest(url: string): boolean {
+  return url.startsWith('data:') || url === 'about:blank';
+}
+
+export function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu'
+    ]
+  });
+}
+
+export class BrowserPool<P extends PoolPage = Page> {
+  private current: PooledBrowser<P> | null = null;
+  private activePages = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly options: BrowserPoolOptions<P>) {}
+
+  // Runs work on a fresh page of the warm browser; the page is always closed
+  async withPage<T>(work: (page: P) => Promise<T>): Promise<T> {
+    await this.acquirePage();
+    const pooled = this.browserForRender();
+    pooled.activePages++;
+
+    try {
+      const browser = await pooled.browser;
+      const page = await browser.newPage();
+      try {
+        return await work(page);
+      } finally {
+        await page.close().catch(() => undefined);
+      }
+    } catch (error) {
+      // A browser that failed to start or lost its connection is not reused
+      if (!(await this.isConnected(pooled))) {
+        this.retire(pooled);
+      }
+      throw error;
+    } finally {
+      pooled.renders++;
+      pooled.activePages--;
+      if (pooled.renders >= this.options.maxRendersPerBrowser) {
+        this.retire(pooled);
+      }
+      if (pooled.retired && pooled.activePages === 0) {
+        await this.closeBrowser(pooled);
+      }
+      this.releasePage();
+    }
+  }
+
+  // Closes the warm browser; the next render starts a new one
+  async close(): Promise<void> {
+    const pooled = this.current;
+    if (!pooled) return;
+    this.retire(pooled);
+    if (pooled.activePages === 0) {
+      await this.closeBrowser(pooled);
+    }
+  }
+
+  private browserForRender(): PooledBrowser<P> {
+    if (!this.current) {
+      const pooled: PooledBrowser<P> = { browser: this.options.launch(), renders: 0, activePages: 0, retired: false };
+      // A crashed browser leaves the pool as soon as it disconnects
+      pooled.browser.then(browser => browser.on('disconnected', () => this.retire(pooled)), () => undefined);
+      this.current = pooled;
+    }
+    return this.current;
+  }
+
+  private retire(pooled: PooledBrowser<P>): void {
+    pooled.retired = true;
+    if (this.current === pooled) {
+      this.current = null;
+    }
+  }
+
+  private async isConnected(pooled: PooledBrowser<P>): Promise<boolean> {
+    try {
+      return (await pooled.browser).connected;
+    } catch {
+      return false;
+    }
+  }
+
+  private async closeBrowser(pooled: PooledBrowser<P>): Promise<void> {
+    try {
+      await (await pooled.browser).close();
+    } catch {
+      // Already gone
+    }
+  }
+
+  private acquirePage(): Promise<void> {
+    if (this.activePages < this.options.maxConcurrentPages) {
+      this.activePages++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by releasePage, so the count stays the same
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private releasePage(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.activePages--;
+    }
+  }
+}
+
+const pool = new BrowserPool<Page>({
+  maxConcurrentPages: 3,
+  maxRendersPerBrowser: 50,
+  launch: launchBrowser
+});
+
+export async function renderPdf(html: string, options: RenderPdfOptions = {}): Promise<Buffer> {
+  const footerText = options.footerText ?? `Generated on ${new Date().toLocaleDateString()}`;
+
+  return pool.withPage(async page => {
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      if (isAllowedRequest(request.url())) {
+        request.continue();
+      } else {
+        request.abort('blockedbyclient');
+      }
+    });
+
+    // Set viewport and wait for content to load
+    await page.setViewport({ width: 1200, height: 800 });
+    await page.setContent(html, { waitUntil: 'networkidle0' });
+
+    return await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '20px', bottom: '20px', left: '20px', right: '20px' },
+      displayHeaderFooter: true,
+      footerTemplate: `<div style="font-size: 10px; margin: 0 auto;">${escapeHtml(footerText)} | Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>`
+    }) as Buffer;
+  });
+}
+
+// Closes the shared browser, e.g. before a process exits
+export function closePdfRenderer(): Promise<void> {
+  return pool.close();
+}
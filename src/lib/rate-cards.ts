@@ -0,0 +1,71 @@
+// Vendor rate cards: agreed prices per item that prefill delivery note lines.
+
+export interface RateCardEntry {
+  id: string;
+  vendor_id: string;
+  item_name: string;
+  currency: string;
+  daily_rate: number;
+  weekly_rate: number | null;
+  four_week_rate: number | null;
+  minimum_hire_days: number;
+  valid_from: string;
+  valid_to: string | null;
+}
+
+// Rate fields as they are stored on a dn_items row
+export interface LineRates {
+  daily_rate: number;
+  weekly_rate: number | null;
+  four_week_rate: number | null;
+  minimum_hire_days: number;
+}
+
+export function normalizeItemName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Rate card entry for an item on a given day; the most recently started entry wins
+export function findRateCardEntry(
+  entries: RateCardEntry[],
+  itemName: string,
+  onDate: string,
+  currency: string
+): RateCardEntry | null {
+  const key = normalizeItemName(itemName);
+
+  const matches = entries.filter(entry =>
+    normalizeItemName(entry.item_name) === key &&
+    entry.currency === currency &&
+    entry.valid_from <= onDate &&
+    (entry.valid_to === null || entry.valid_to >= onDate)
+  );
+
+  return matches.sort((a, b) => b.valid_from.localeCompare(a.valid_from))[0] ?? null;
+}
+
+export function rateCardLineRates(entry: RateCardEntry): LineRates {
+  return {
+    daily_rate: Number(entry.daily_rate),
+    weekly_rate: entry.weekly_rate === null ? null : Number(entry.weekly_rate),
+    four_week_rate: entry.four_week_rate === null ? null : Number(entry.four_week_rate),
+    minimum_hire_days: entry.minimum_hire_days,
+  };
+}
+
+function sameRate(expected: number | null, actual: number | null): boolean {
+  if (expected === null || actual === null) return expected === actual;
+  return Math.abs(expected - actual) < 0.005;
+}
+
+// True when the rates entered on a line differ from its rate card entry
+export function isRateOverride(entry: RateCardEntry, rates: LineRates): boolean {
+  const expected = rateCardLineRates(entry);
+
+  return !(
+    sameRate(expected.daily_rate, rates.daily_rate) &&
+    sameRate(expected.weekly_rate, rates.weekly_rate) &&
+    sameRate(expected.four_week_rate, rates.four_week_rate) &&
+    expected.minimum_hire_days === rates.minimum_hire_days
+  );
+}
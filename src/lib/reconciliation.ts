@@ -0,0 +1,202 @@
+import { parseCsvRecords } from './csv';
+import { normalizeItemName } from './rate-cards';
+import { roundCurrency } from './rental-engine';
+import { RentalInvoiceItem } from './rental-invoice';
+
+// Reconciliation of vendor invoices against the charges computed by the rental
+// engine. Lines are matched on PO number and item name; every matched pair is
+// compared on quantity, days, daily rate and amount.
+
+export interface VendorInvoiceLine {
+  line_number: number;
+  po_number: string;
+  item_name: string;
+  quantity: number;
+  days: number;
+  rate: number;
+  amount: number;
+}
+
+// Computed charges for one PO item, summed over its DN items
+export interface ComputedCharge {
+  dn_item_ids: string[];
+  po_number: string;
+  item_name: string;
+  quantity: number;
+  days: number;
+  rate: number;
+  amount: number;
+}
+
+export type MatchStatus = 'matched' | 'variance' | 'not_in_records' | 'missing_from_vendor';
+
+export interface ReconciliationVariances {
+  quantity: number;
+  days: number;
+  rate: number;
+  amount: number;
+}
+
+export interface ReconciliationRow {
+  po_number: string;
+  item_name: string;
+  vendor: VendorInvoiceLine | null;
+  computed: ComputedCharge | null;
+  variances: ReconciliationVariances | null;
+  match_status: MatchStatus;
+}
+
+export const VENDOR_INVOICE_COLUMNS = ['po_number', 'item_name', 'quantity', 'days', 'rate', 'amount'] as const;
+
+// Amounts within a cent are treated as equal
+const TOLERANCE = 0.005;
+
+const matchKey = (poNumber: string, itemName: string) =>
+  `${poNumber.trim().toLowerCase()}|${normalizeItemName(itemName)}`;
+
+export function parseVendorInvoiceCsv(text: string): { lines: VendorInvoiceLine[]; errors: string[] } {
+  const records = parseCsvRecords(text);
+  const errors: string[] = [];
+  const lines: VendorInvoiceLine[] = [];
+
+  if (records.length === 0) {
+    return { lines, errors: ['The file has no invoice lines'] };
+  }
+
+  const missing = VENDOR_INVOICE_COLUMNS.filter(column => !(column in records[0]!));
+  if (missing.length > 0) {
+    return { lines, errors: [`Missing columns: ${missing.join(', ')}`] };
+  }
+
+  records.forEach((record, index) => {
+    // Header is line 1
+    const lineNumber = index + 2;
+    const numbers = {
+      quantity: Number(record.quantity),
+      days: Number(record.days),
+      rate: Number(record.rate),
+      amount: Number(record.amount)
+    };
+
+    if (!record.po_number || !record.item_name) {
+      errors.push(`Line ${lineNumber}: PO number and item name are required`);
+      return;
+    }
+
+    const invalid = Object.entries(numbers).filter(([, value]) => !Number.isFinite(value));
+    if (invalid.length > 0) {
+      errors.push(`Line ${lineNumber}: invalid ${invalid.map(([key]) => key).join(', ')}`);
+      return;
+    }
+
+    lines.push({ line_number: lineNumber, po_number: record.po_number!, item_name: record.item_name!, ...numbers });
+  });
+
+  return { lines, errors };
+}
+
+// Computed charges grouped by PO item, with the daily rate last in force
+export function summarizeComputedCharges(items: RentalInvoiceItem[]): ComputedCharge[] {
+  const byKey = new Map<string, ComputedCharge & { rateFrom: string }>();
+
+  items.filter(item => item.charge.segments.length > 0).forEach(item => {
+    const key = matchKey(item.po_number, item.item_name);
+    const latest = item.charge.segments
+      .flatMap(segment => segment.periods)
+      .reduce<{ startDate: string; rate: number } | null>((last, period) =>
+        !last || period.startDate > last.startDate ? { startDate: period.startDate, rate: period.rates.dailyRate } : last, null);
+    const existing = byKey.get(key);
+
+    if (!existing) {
+      byKey.set(key, {
+        dn_item_ids: [item.id],
+        po_number: item.po_number,
+        item_name: item.item_name,
+        quantity: item.charge.deliveredQuantity,
+        days: item.charge.totalChargeableDays,
+        rate: latest?.rate ?? Number(item.charge.dailyRate),
+        amount: item.charge.amount,
+        rateFrom: latest?.startDate ?? ''
+      });
+      return;
+    }
+
+    existing.dn_item_ids.push(item.id);
+    existing.quantity += item.charge.deliveredQuantity;
+    existing.days = Math.max(existing.days, item.charge.totalChargeableDays);
+    existing.amount = roundCurrency(existing.amount + item.charge.amount);
+    if (latest && latest.startDate > existing.rateFrom) {
+      existing.rate = latest.rate;
+      existing.rateFrom = latest.startDate;
+    }
+  });
+
+  return Array.from(byKey.values()).map(({ rateFrom: _rateFrom, ...charge }) => charge);
+}
+
+export function reconcile(vendorLines: VendorInvoiceLine[], computed: ComputedCharge[]): ReconciliationRow[] {
+  const computedByKey = new Map(computed.map(charge => [matchKey(charge.po_number, charge.item_name), charge]));
+  const vendorByKey = new Map<string, VendorInvoiceLine>();
+
+  // Vendors sometimes split one item over several lines; compare the totals
+  vendorLines.forEach(line => {
+    const key = matchKey(line.po_number, line.item_name);
+    const existing = vendorByKey.get(key);
+    vendorByKey.set(key, existing
+      ? {
+        ...existing,
+        quantity: existing.quantity + line.quantity,
+        days: Math.max(existing.days, line.days),
+        amount: roundCurrency(existing.amount + line.amount)
+      }
+      : line);
+  });
+
+  const rows: ReconciliationRow[] = [];
+
+  vendorByKey.forEach((vendor, key) => {
+    const charge = computedByKey.get(key) ?? null;
+    if (!charge) {
+      rows.push({
+        po_number: vendor.po_number,
+        item_name: vendor.item_name,
+        vendor,
+        computed: null,
+        variances: null,
+        match_status: 'not_in_records'
+      });
+      return;
+    }
+
+    const variances = {
+      quantity: vendor.quantity - charge.quantity,
+      days: vendor.days - charge.days,
+      rate: roundCurrency(vendor.rate - charge.rate),
+      amount: roundCurrency(vendor.amount - charge.amount)
+    };
+    const hasVariance = Object.values(variances).some(value => Math.abs(value) > TOLERANCE);
+
+    rows.push({
+      po_number: charge.po_number,
+      item_name: charge.item_name,
+      vendor,
+      computed: charge,
+      variances,
+      match_status: hasVariance ? 'variance' : 'matched'
+    });
+  });
+
+  computedByKey.forEach((charge, key) => {
+    if (vendorByKey.has(key) || charge.amount === 0) return;
+    rows.push({
+      po_number: charge.po_number,
+      item_name: charge.item_name,
+      vendor: null,
+      computed: charge,
+      variances: null,
+      match_status: 'missing_from_vendor'
+    });
+  });
+
+  return rows;
+}
@@ -0,0 +1,75 @@
+import { BillingCalendar, RentalLineInput } from './rental-engine';
+import { TaxTreatment } from './tax';
+import { ForecastItem } from './forecast';
+import { allocateAmount, AllocatedAmount } from './cost-allocation';
+
+// Billing inputs of DN items for the rental engine, shared by the rental report,
+// forecasts, accruals and budgets. Items are loaded through the rental ledger
+// (rental-ledger.ts), which nests their delivery note, PO item and child rows.
+
+// Project row selected with exclude_weekends and project_non_chargeable_periods
+export function projectCalendarOf(project: any): Required<BillingCalendar> {
+  return {
+    excludeWeekends: project.exclude_weekends ?? false,
+    excludedPeriods: (project.project_non_chargeable_periods || []).map((period: any) => ({
+      startDate: period.start_date,
+      endDate: period.end_date
+    }))
+  };
+}
+
+export function toRentalLineInput(item: any, calendar: BillingCalendar): RentalLineInput {
+  return {
+    id: item.id,
+    deliveryDate: item.delivery_notes.delivery_date,
+    deliveredQuantity: item.delivered_quantity,
+    dailyRate: item.daily_rate || 0,
+    weeklyRate: item.weekly_rate,
+    fourWeekRate: item.four_week_rate,
+    minimumHireDays: item.minimum_hire_days,
+    rateChanges: (item.dn_item_rates || []).map((change: any) => ({
+      effectiveFrom: change.effective_from,
+      dailyRate: change.daily_rate,
+      weeklyRate: change.weekly_rate,
+      fourWeekRate: change.four_week_rate
+    })),
+    returns: (item.dn_item_returns || []).map((event: any) => ({
+      quantity: event.quantity,
+      returnDate: event.return_date
+    })),
+    calendar,
+    suspensions: (item.dn_item_suspensions || []).map((suspension: any) => ({
+      startDate: suspension.start_date,
+      endDate: suspension.end_date
+    }))
+  };
+}
+
+// Rental charges are taxed like the PO item they come from
+export function taxTreatmentOfItem(item: any): TaxTreatment {
+  return {
+    rate: Number(item.po_items.tax_rate ?? 0),
+    inclusive: item.po_items.tax_inclusive ?? false
+  };
+}
+
+// A ledger item's charge to date, with its line for projecting the rest of the hire
+export function forecastItemOf(item: any, calendar: BillingCalendar): ForecastItem {
+  return {
+    id: item.id,
+    vendor_id: item.po_items.purchase_orders.vendor_id,
+    vendor_name: item.po_items.purchase_orders.vendors.name,
+    po_number: item.po_items.purchase_orders.po_number,
+    item_name: item.po_items.item_name,
+    currency: item.po_items.purchase_orders.currency,
+    line: toRentalLineInput(item, calendar),
+    charge: item.charge,
+    tax: taxTreatmentOfItem(item),
+    expected_off_hire_date: item.expected_off_hire_date
+  };
+}
+
+// Splits an amount charged on the item across its cost code allocations
+export function allocateItemAmount(item: any, amount: number): AllocatedAmount[] {
+  return allocateAmount(amount, item.dn_item_cost_allocations || [], item.po_items.cost_code_id ?? null);
+}
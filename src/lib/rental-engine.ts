@@ -0,0 +1,393 @@
+import { ValidationError } from './error-handler';
+
+// Rental charge engine shared by the PDF report and the forms.
+//
+// All dates are calendar days ('yyyy-MM-dd'). A hire runs over the half-open
+// range [delivery date, return date): the delivery day is charged, the return
+// day is not. Units still on hire are charged through the end of the billing
+// window. A same-day return is charged as one day. Only days inside the
+// billing window are charged, so consecutive windows add up to the full hire.
+//
+// Lines may carry weekly and 4-week rates and a minimum hire period. Each hire
+// is priced with the cheapest combination of tiers for its elapsed days, and a
+// window is charged the difference between the hire's cost at its end and at
+// its start. The minimum hire is topped up when the units come back.
+//
+// Rates can change part-way through a hire. The hire is split into rate
+// periods at each effective date and every period is priced with its own tiers
+// over the days that fall inside it.
+//
+// A project billing calendar can make weekends, holidays and shutdowns
+// non-chargeable. Tiers and the minimum hire then count chargeable days only,
+// while the hire dates themselves stay on the calendar. Suspensions agreed
+// with the vendor for a single line are excluded the same way.
+
+export interface ReturnEvent {
+  quantity: number;
+  returnDate: string;
+}
+
+export interface RateTiers {
+  dailyRate: number;
+  weeklyRate?: number | null;
+  fourWeekRate?: number | null;
+}
+
+export interface RateChange extends RateTiers {
+  effectiveFrom: string;
+}
+
+// Inclusive range of calendar days
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface BillingCalendar {
+  excludeWeekends?: boolean;
+  // Holidays and site shutdowns
+  excludedPeriods?: DateRange[];
+}
+
+// Agreed pause in charging for one line; open-ended until an end date is set
+export interface Suspension {
+  startDate: string;
+  endDate?: string | null;
+}
+
+export interface RentalLineInput extends RateTiers {
+  id: string;
+  deliveryDate: string;
+  deliveredQuantity: number;
+  minimumHireDays?: number | null;
+  rateChanges?: RateChange[];
+  returns: ReturnEvent[];
+  calendar?: BillingCalendar | null;
+  suspensions?: Suspension[];
+}
+
+// Inclusive billing period; without a start the hire is charged from delivery
+export interface BillingWindow {
+  start?: string;
+  end: string;
+}
+
+// Per-unit pricing of a number of hire days
+export interface TierBreakdown {
+  fourWeeks: number;
+  weeks: number;
+  days: number;
+  amount: number;
+}
+
+// Charge for the part of a segment that falls in one rate period
+export interface RatePeriodCharge {
+  startDate: string;
+  endDate: string;
+  days: number;
+  chargeableDays: number;
+  chargedDays: number;
+  rates: RateTiers;
+  breakdown: TierBreakdown;
+  previouslyCharged: number;
+  amount: number;
+}
+
+export interface ChargeSegment {
+  quantity: number;
+  startDate: string;
+  endDate: string;
+  days: number;
+  chargeableDays: number;
+  suspendedDays: number;
+  chargedDays: number;
+  returned: boolean;
+  minimumApplied: boolean;
+  periods: RatePeriodCharge[];
+  amount: number;
+}
+
+export interface RentalLineCharge {
+  id: string;
+  deliveredQuantity: number;
+  returnedQuantity: number;
+  ongoingQuantity: number;
+  totalDays: number;
+  totalChargeableDays: number;
+  suspendedDays: number;
+  ongoingDays: number;
+  unitDays: number;
+  chargeableUnitDays: number;
+  dailyRate: number;
+  amount: number;
+  segments: ChargeSegment[];
+}
+
+export interface RentalChargeSummary {
+  lines: RentalLineCharge[];
+  totalUnitDays: number;
+  totalChargeableUnitDays: number;
+  totalAmount: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}/;
+
+// Normalise a date, timestamp or Date to its calendar day. Timestamps keep the
+// day they were recorded in (their own offset), Dates use the local calendar.
+export function toDateKey(value: string | Date): string {
+  if (value instanceof Date) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+
+  const match = value.match(DATE_KEY);
+  if (!match) {
+    throw new ValidationError(`Invalid date: ${value}`);
+  }
+  return match[0];
+}
+
+function toEpochDay(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(year!, month! - 1, day!) / MS_PER_DAY);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return new Date((toEpochDay(dateKey) + days) * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// Whole days in [start, end); zero when end is not after start
+export function daysBetween(start: string, end: string): number {
+  return Math.max(0, toEpochDay(toDateKey(end)) - toEpochDay(toDateKey(start)));
+}
+
+// Days on hire for a delivery still on site as of the given day (inclusive)
+export function daysOnHire(deliveryDate: string, asOf: string | Date): number {
+  return daysBetween(deliveryDate, addDays(toDateKey(asOf), 1));
+}
+
+// Chargeable days in [start, end) under the calendar; all days without one
+export function chargeableDaysBetween(start: string, end: string, calendar?: BillingCalendar | null): number {
+  const from = toEpochDay(toDateKey(start));
+  const to = toEpochDay(toDateKey(end));
+  if (to <= from) return 0;
+
+  const excluded = (calendar?.excludedPeriods ?? []).map(period => ({
+    from: toEpochDay(toDateKey(period.startDate)),
+    to: toEpochDay(toDateKey(period.endDate)),
+  }));
+  if (!calendar?.excludeWeekends && excluded.length === 0) return to - from;
+
+  let days = 0;
+  for (let day = from; day < to; day++) {
+    // Epoch day 0 (1970-01-01) was a Thursday
+    const weekday = (day + 4) % 7;
+    if (calendar?.excludeWeekends && (weekday === 0 || weekday === 6)) continue;
+    if (excluded.some(period => day >= period.from && day <= period.to)) continue;
+    days++;
+  }
+  return days;
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+// Cheapest mix of 4-week, weekly and daily periods covering the given days
+export function cheapestTierCharge(days: number, rates: RateTiers): TierBreakdown {
+  const daily = rates.dailyRate;
+  const weekly = rates.weeklyRate ?? null;
+  const fourWeekly = rates.fourWeekRate ?? null;
+
+  let best: TierBreakdown = { fourWeeks: 0, weeks: 0, days, amount: days * daily };
+  if (days === 0) return best;
+
+  const maxFourWeeks = fourWeekly !== null ? Math.ceil(days / 28) : 0;
+  for (let fourWeeks = 0; fourWeeks <= maxFourWeeks; fourWeeks++) {
+    const afterFourWeeks = Math.max(0, days - fourWeeks * 28);
+    const maxWeeks = weekly !== null ? Math.ceil(afterFourWeeks / 7) : 0;
+
+    for (let weeks = 0; weeks <= maxWeeks; weeks++) {
+      const remainingDays = Math.max(0, afterFourWeeks - weeks * 7);
+      const amount = fourWeeks * (fourWeekly ?? 0) + weeks * (weekly ?? 0) + remainingDays * daily;
+      if (amount < best.amount - 0.000001) {
+        best = { fourWeeks, weeks, days: remainingDays, amount };
+      }
+    }
+  }
+
+  return { ...best, amount: roundCurrency(best.amount) };
+}
+
+export function describeBreakdown(breakdown: TierBreakdown): string {
+  const parts: string[] = [];
+  if (breakdown.fourWeeks > 0) parts.push(`${breakdown.fourWeeks} × 4 weeks`);
+  if (breakdown.weeks > 0) parts.push(`${breakdown.weeks} × week`);
+  if (breakdown.days > 0 || parts.length === 0) parts.push(`${breakdown.days} × day`);
+  return parts.join(' + ');
+}
+
+interface RatePeriod {
+  startDate: string;
+  endDate: string | null;
+  rates: RateTiers;
+}
+
+function tiersOf(rates: RateTiers): RateTiers {
+  return {
+    dailyRate: Number(rates.dailyRate) || 0,
+    weeklyRate: rates.weeklyRate == null ? null : Number(rates.weeklyRate),
+    fourWeekRate: rates.fourWeekRate == null ? null : Number(rates.fourWeekRate),
+  };
+}
+
+// Rate periods from delivery onwards; changes on or before delivery replace the base rates
+export function buildRatePeriods(line: RentalLineInput): RatePeriod[] {
+  const deliveryDate = toDateKey(line.deliveryDate);
+  const changes = [...(line.rateChanges ?? [])]
+    .map(change => ({ ...change, effectiveFrom: toDateKey(change.effectiveFrom) }))
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  const periods: RatePeriod[] = [{ startDate: deliveryDate, endDate: null, rates: tiersOf(line) }];
+  changes.forEach(change => {
+    const current = periods[periods.length - 1]!;
+    if (change.effectiveFrom <= current.startDate) {
+      current.rates = tiersOf(change);
+      return;
+    }
+    current.endDate = change.effectiveFrom;
+    periods.push({ startDate: change.effectiveFrom, endDate: null, rates: tiersOf(change) });
+  });
+
+  return periods;
+}
+
+const clampDate = (date: string, from: string, to: string) => (date < from ? from : date > to ? to : date);
+
+export function calculateLineCharge(line: RentalLineInput, window: BillingWindow): RentalLineCharge {
+  const deliveryDate = toDateKey(line.deliveryDate);
+  const windowStart = window.start ? toDateKey(window.start) : deliveryDate;
+  const windowEnd = toDateKey(window.end);
+  const chargeFrom = windowStart > deliveryDate ? windowStart : deliveryDate;
+  const chargeUntil = addDays(windowEnd, 1);
+
+  const returns = [...line.returns]
+    .map(event => ({ quantity: event.quantity, returnDate: toDateKey(event.returnDate) }))
+    .filter(event => event.returnDate <= windowEnd)
+    .sort((a, b) => a.returnDate.localeCompare(b.returnDate));
+
+  const returnedQuantity = returns.reduce((sum, event) => sum + event.quantity, 0);
+  if (returnedQuantity > line.deliveredQuantity) {
+    throw new ValidationError(`Returned quantity exceeds delivered quantity on line ${line.id}`, {
+      deliveredQuantity: line.deliveredQuantity,
+      returnedQuantity,
+    });
+  }
+
+  const minimumHireDays = line.minimumHireDays ?? 0;
+  const calendar = line.calendar ?? null;
+  // Open suspensions run past anything this window can charge
+  const suspensions = (line.suspensions ?? []).map(suspension => ({
+    startDate: suspension.startDate,
+    endDate: suspension.endDate ?? chargeUntil,
+  }));
+  const lineCalendar: BillingCalendar = {
+    excludeWeekends: calendar?.excludeWeekends ?? false,
+    excludedPeriods: [...(calendar?.excludedPeriods ?? []), ...suspensions],
+  };
+  const chargeable = (start: string, end: string) => chargeableDaysBetween(start, end, lineCalendar);
+  const ratePeriods = buildRatePeriods(line);
+  const segments: ChargeSegment[] = [];
+  const addSegment = (quantity: number, endDate: string, returned: boolean) => {
+    // Returns on (or recorded before) the delivery day still cost one day
+    const hireEnd = endDate > deliveryDate ? endDate : addDays(deliveryDate, 1);
+    const end = hireEnd < chargeUntil ? hireEnd : chargeUntil;
+    const days = daysBetween(chargeFrom, end);
+    if (days === 0) return;
+
+    const hireDays = chargeable(deliveryDate, hireEnd);
+    const minimumApplied = returned && end === hireEnd && hireDays < minimumHireDays;
+    const topUpDays = minimumApplied ? minimumHireDays - hireDays : 0;
+
+    const periods: RatePeriodCharge[] = [];
+    ratePeriods.forEach(period => {
+      const periodStart = period.startDate > deliveryDate ? period.startDate : deliveryDate;
+      const periodEnd = period.endDate !== null && period.endDate < hireEnd ? period.endDate : hireEnd;
+      if (periodEnd <= periodStart) return;
+
+      const from = clampDate(chargeFrom, periodStart, periodEnd);
+      const to = clampDate(end, periodStart, periodEnd);
+      const daysBefore = chargeable(periodStart, from);
+      // The minimum hire top-up is charged at the rates in force on return
+      const daysToEnd = chargeable(periodStart, to) + (periodEnd === hireEnd && to === hireEnd ? topUpDays : 0);
+      if (daysToEnd === daysBefore) return;
+
+      const breakdown = cheapestTierCharge(daysToEnd, period.rates);
+      const previouslyCharged = cheapestTierCharge(daysBefore, period.rates).amount;
+
+      periods.push({
+        startDate: from,
+        endDate: to,
+        days: daysBetween(from, to),
+        chargeableDays: chargeable(from, to),
+        chargedDays: daysToEnd - daysBefore,
+        rates: period.rates,
+        breakdown,
+        previouslyCharged,
+        amount: roundCurrency(quantity * (breakdown.amount - previouslyCharged)),
+      });
+    });
+
+    segments.push({
+      quantity,
+      startDate: chargeFrom,
+      endDate: end,
+      days,
+      chargeableDays: chargeable(chargeFrom, end),
+      suspendedDays: chargeableDaysBetween(chargeFrom, end, calendar) - chargeable(chargeFrom, end),
+      chargedDays: periods.reduce((sum, period) => sum + period.chargedDays, 0),
+      returned,
+      minimumApplied,
+      periods,
+      amount: roundCurrency(periods.reduce((sum, period) => sum + period.amount, 0)),
+    });
+  };
+
+  returns.forEach(event => addSegment(event.quantity, event.returnDate, true));
+
+  const ongoingQuantity = line.deliveredQuantity - returnedQuantity;
+  if (ongoingQuantity > 0) {
+    addSegment(ongoingQuantity, chargeUntil, false);
+  }
+
+  const ongoingDays = segments.find(segment => !segment.returned)?.days ?? 0;
+
+  return {
+    id: line.id,
+    deliveredQuantity: line.deliveredQuantity,
+    returnedQuantity,
+    ongoingQuantity,
+    totalDays: segments.reduce((max, segment) => Math.max(max, segment.days), 0),
+    totalChargeableDays: segments.reduce((max, segment) => Math.max(max, segment.chargeableDays), 0),
+    suspendedDays: segments.reduce((max, segment) => Math.max(max, segment.suspendedDays), 0),
+    ongoingDays,
+    unitDays: segments.reduce((sum, segment) => sum + segment.quantity * segment.days, 0),
+    chargeableUnitDays: segments.reduce((sum, segment) => sum + segment.quantity * segment.chargeableDays, 0),
+    dailyRate: line.dailyRate,
+    amount: roundCurrency(segments.reduce((sum, segment) => sum + segment.amount, 0)),
+    segments,
+  };
+}
+
+export function calculateRentalCharges(lines: RentalLineInput[], window: BillingWindow): RentalChargeSummary {
+  const charges = lines.map(line => calculateLineCharge(line, window));
+
+  return {
+    lines: charges,
+    totalUnitDays: charges.reduce((sum, line) => sum + line.unitDays, 0),
+    totalChargeableUnitDays: charges.reduce((sum, line) => sum + line.chargeableUnitDays, 0),
+    totalAmount: roundCurrency(charges.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
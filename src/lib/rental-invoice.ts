@@ -0,0 +1,97 @@
+import { RentalLineCharge, roundCurrency } from './rental-engine';
+import { calculateTax, NO_TAX, sumTaxAmounts, TaxAmounts, TaxTreatment } from './tax';
+
+// Rental invoices freeze the engine's charges for one project, vendor,
+// currency and period. Issued invoices for the same project, vendor and
+// currency may not overlap, so the same hire days are never billed twice.
+
+export interface InvoicePeriod {
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface RentalInvoiceLine {
+  dn_item_id: string;
+  po_number: string;
+  item_name: string;
+  delivered_quantity: number;
+  returned_quantity: number;
+  calendar_days: number;
+  chargeable_days: number;
+  unit_days: number;
+  amount: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  net_amount: number;
+  tax_amount: number;
+  gross_amount: number;
+  // Engine segments as charged, kept so the invoice can be explained later
+  detail: RentalLineCharge['segments'];
+}
+
+export interface RentalInvoiceItem {
+  id: string;
+  po_number: string;
+  item_name: string;
+  charge: RentalLineCharge;
+  // Tax of the PO item; untaxed when not given
+  tax?: TaxTreatment;
+}
+
+// A run bills each currency of the vendor's orders on its own invoice
+export interface CurrencyInvoice {
+  currency: string;
+  lines: RentalInvoiceLine[];
+  totals: TaxAmounts;
+}
+
+// Both periods are inclusive
+export function periodsOverlap(a: InvoicePeriod, b: InvoicePeriod): boolean {
+  return a.periodStart <= b.periodEnd && b.periodStart <= a.periodEnd;
+}
+
+// Invoice lines for the items that were charged in the period
+export function buildInvoiceLines(items: RentalInvoiceItem[]): RentalInvoiceLine[] {
+  return items
+    .filter(item => item.charge.segments.length > 0)
+    .map(item => {
+      const tax = item.tax ?? NO_TAX;
+      const amounts = calculateTax(item.charge.amount, tax);
+      return {
+        dn_item_id: item.id,
+        po_number: item.po_number,
+        item_name: item.item_name,
+        delivered_quantity: item.charge.deliveredQuantity,
+        returned_quantity: item.charge.returnedQuantity,
+        calendar_days: item.charge.totalDays,
+        chargeable_days: item.charge.totalChargeableDays,
+        unit_days: item.charge.chargeableUnitDays,
+        amount: item.charge.amount,
+        tax_rate: tax.rate,
+        tax_inclusive: tax.inclusive,
+        net_amount: amounts.net,
+        tax_amount: amounts.tax,
+        gross_amount: amounts.gross,
+        detail: item.charge.segments
+      };
+    });
+}
+
+export function invoiceTotal(lines: Pick<RentalInvoiceLine, 'amount'>[]): number {
+  return roundCurrency(lines.reduce((sum, line) => sum + Number(line.amount), 0));
+}
+
+export function invoiceTaxTotals(lines: Pick<RentalInvoiceLine, 'net_amount' | 'tax_amount' | 'gross_amount'>[]): TaxAmounts {
+  return sumTaxAmounts(lines.map(line => ({ net: line.net_amount, tax: line.tax_amount, gross: line.gross_amount })));
+}
+
+// One invoice per order currency with something charged, by currency code
+export function invoicesByCurrency(items: (RentalInvoiceItem & { currency: string })[]): CurrencyInvoice[] {
+  const currencies = Array.from(new Set(items.map(item => item.currency))).sort();
+  return currencies
+    .map(currency => {
+      const lines = buildInvoiceLines(items.filter(item => item.currency === currency));
+      return { currency, lines, totals: invoiceTaxTotals(lines) };
+    })
+    .filter(invoice => invoice.lines.length > 0);
+}
@@ -0,0 +1,289 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { ChargeSegment, RatePeriodCharge, RentalLineCharge } from './rental-engine';
+
+// Rental charges computed in the database by the rental_ledger function, which
+// follows the rental engine. Items are loaded a page at a time in DN item
+// order, each page below the API row limit, so large projects come back in
+// full. Every row is turned into the DN item shape the rental code reads (with
+// its delivery note, PO item and child rows nested as when selected through
+// the API) plus its charge for the period.
+
+export const LEDGER_PAGE_SIZE = 500;
+
+// The part of the Supabase client the ledger calls, so tests can answer it
+export interface LedgerClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: PostgrestError | null }>;
+}
+
+// Without a project or vendor every item the user can see is loaded. Without a
+// start date items returned long ago are included and charged from delivery.
+export interface RentalLedgerQuery {
+  projectId?: string;
+  startDate?: string;
+  endDate: string;
+  vendorId?: string;
+}
+
+interface LedgerPeriod {
+  start_date: string;
+  end_date: string;
+  days: number;
+  chargeable_days: number;
+  charged_days: number;
+  daily_rate: number | string;
+  weekly_rate: number | string | null;
+  four_week_rate: number | string | null;
+  four_weeks: number;
+  weeks: number;
+  tier_days: number;
+  tier_amount: number | string;
+  previously_charged: number | string;
+  amount: number | string;
+}
+
+interface LedgerSegment {
+  quantity: number;
+  start_date: string;
+  end_date: string;
+  days: number;
+  chargeable_days: number;
+  suspended_days: number;
+  charged_days: number;
+  returned: boolean;
+  minimum_applied: boolean;
+  periods: LedgerPeriod[];
+  amount: number | string;
+}
+
+export interface LedgerCharge {
+  delivered_quantity: number;
+  returned_quantity: number;
+  ongoing_quantity: number;
+  total_days: number;
+  total_chargeable_days: number;
+  suspended_days: number;
+  ongoing_days: number;
+  unit_days: number;
+  chargeable_unit_days: number;
+  daily_rate: number | string;
+  amount: number | string;
+  segments: LedgerSegment[];
+}
+
+// A row as returned by rental_ledger
+export interface RentalLedgerRow {
+  dn_item_id: string;
+  delivery_note_id: string;
+  po_item_id: string;
+  project_id: string;
+  purchase_order_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  po_number: string;
+  item_name: string;
+  currency: string;
+  unit_price: number | null;
+  tax_rate: number | null;
+  tax_inclusive: boolean | null;
+  cost_code_id: string | null;
+  delivery_date: string;
+  status: string;
+  returned_at: string | null;
+  delivered_quantity: number;
+  daily_rate: number | null;
+  weekly_rate: number | null;
+  four_week_rate: number | null;
+  minimum_hire_days: number | null;
+  expected_off_hire_date: string | null;
+  rate_changes: { effective_from: string; daily_rate: number; weekly_rate: number | null; four_week_rate: number | null }[];
+  returns: { quantity: number; return_date: string }[];
+  suspensions: { start_date: string; end_date: string | null; reason: string }[];
+  cost_allocations: { cost_code_id: string; percentage: number }[];
+  charge: LedgerCharge;
+}
+
+export interface RentalLedgerItem {
+  id: string;
+  delivery_note_id: string;
+  po_item_id: string;
+  status: string;
+  returned_at: string | null;
+  delivered_quantity: number;
+  daily_rate: number | null;
+  weekly_rate: number | null;
+  four_week_rate: number | null;
+  minimum_hire_days: number | null;
+  expected_off_hire_date: string | null;
+  delivery_notes: { delivery_date: string; purchase_order_id: string };
+  dn_item_returns: RentalLedgerRow['returns'];
+  dn_item_rates: RentalLedgerRow['rate_changes'];
+  dn_item_suspensions: RentalLedgerRow['suspensions'];
+  dn_item_cost_allocations: RentalLedgerRow['cost_allocations'];
+  po_items: {
+    item_name: string;
+    unit_price: number | null;
+    tax_rate: number | null;
+    tax_inclusive: boolean | null;
+    cost_code_id: string | null;
+    purchase_orders: {
+      po_number: string;
+      project_id: string;
+      vendor_id: string;
+      currency: string;
+      vendors: { name: string };
+    };
+  };
+  charge: RentalLineCharge;
+}
+
+const optionalNumber = (value: number | string | null) => (value == null ? null : Number(value));
+
+function ratePeriodChargeOf(period: LedgerPeriod): RatePeriodCharge {
+  return {
+    startDate: period.start_date,
+    endDate: period.end_date,
+    days: period.days,
+    chargeableDays: period.chargeable_days,
+    chargedDays: period.charged_days,
+    rates: {
+      dailyRate: Number(period.daily_rate),
+      weeklyRate: optionalNumber(period.weekly_rate),
+      fourWeekRate: optionalNumber(period.four_week_rate)
+    },
+    breakdown: {
+      fourWeeks: period.four_weeks,
+      weeks: period.weeks,
+      days: period.tier_days,
+      amount: Number(period.tier_amount)
+    },
+    previouslyCharged: Number(period.previously_charged),
+    amount: Number(period.amount)
+  };
+}
+
+function chargeSegmentOf(segment: LedgerSegment): ChargeSegment {
+  return {
+    quantity: segment.quantity,
+    startDate: segment.start_date,
+    endDate: segment.end_date,
+    days: segment.days,
+    chargeableDays: segment.chargeable_days,
+    suspendedDays: segment.suspended_days,
+    chargedDays: segment.charged_days,
+    returned: segment.returned,
+    minimumApplied: segment.minimum_applied,
+    periods: segment.periods.map(ratePeriodChargeOf),
+    amount: Number(segment.amount)
+  };
+}
+
+// The ledger's charge in the rental engine's shape
+export function rentalLineChargeOf(id: string, charge: LedgerCharge): RentalLineCharge {
+  return {
+    id,
+    deliveredQuantity: charge.delivered_quantity,
+    returnedQuantity: charge.returned_quantity,
+    ongoingQuantity: charge.ongoing_quantity,
+    totalDays: charge.total_days,
+    totalChargeableDays: charge.total_chargeable_days,
+    suspendedDays: charge.suspended_days,
+    ongoingDays: charge.ongoing_days,
+    unitDays: charge.unit_days,
+    chargeableUnitDays: charge.chargeable_unit_days,
+    dailyRate: Number(charge.daily_rate),
+    amount: Number(charge.amount),
+    segments: charge.segments.map(chargeSegmentOf)
+  };
+}
+
+export function ledgerItemOf(row: RentalLedgerRow): RentalLedgerItem {
+  return {
+    id: row.dn_item_id,
+    delivery_note_id: row.delivery_note_id,
+    po_item_id: row.po_item_id,
+    status: row.status,
+    returned_at: row.returned_at,
+    delivered_quantity: row.delivered_quantity,
+    daily_rate: row.daily_rate,
+    weekly_rate: row.weekly_rate,
+    four_week_rate: row.four_week_rate,
+    minimum_hire_days: row.minimum_hire_days,
+    expected_off_hire_date: row.expected_off_hire_date,
+    delivery_notes: { delivery_date: row.delivery_date, purchase_order_id: row.purchase_order_id },
+    dn_item_returns: row.returns || [],
+    dn_item_rates: row.rate_changes || [],
+    dn_item_suspensions: row.suspensions || [],
+    dn_item_cost_allocations: row.cost_allocations || [],
+    po_items: {
+      item_name: row.item_name,
+      unit_price: row.unit_price,
+      tax_rate: row.tax_rate,
+      tax_inclusive: row.tax_inclusive,
+      cost_code_id: row.cost_code_id,
+      purchase_orders: {
+        po_number: row.po_number,
+        project_id: row.project_id,
+        vendor_id: row.vendor_id,
+        currency: row.currency,
+        vendors: { name: row.vendor_name }
+      }
+    },
+    charge: rentalLineChargeOf(row.dn_item_id, row.charge)
+  };
+}
+
+// Everything on hire at some point in the period with something to charge in
+// it: delivered before it ends and not fully returned before it starts. Answers
+// like a query, with the items or the error of the page that failed.
+export async function fetchRentalLedger(
+  supabase: LedgerClient,
+  { projectId, startDate, endDate, vendorId }: RentalLedgerQuery
+): Promise<{ data: RentalLedgerItem[] | null; error: PostgrestError | null }> {
+  const items: RentalLedgerItem[] = [];
+  let after: string | null = null;
+
+  for (;;) {
+    const { data, error } = await supabase.rpc('rental_ledger', {
+      p_project_id: projectId ?? null,
+      p_start: startDate ?? null,
+      p_end: endDate,
+      p_vendor_id: vendorId ?? null,
+      p_after: after,
+      p_limit: LEDGER_PAGE_SIZE
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const rows = (data || []) as RentalLedgerRow[];
+    items.push(...rows.map(ledgerItemOf));
+    if (rows.length < LEDGER_PAGE_SIZE) {
+      return { data: items, error: null };
+    }
+    after = rows[rows.length - 1]!.dn_item_id;
+  }
+}
+
+export interface RentalLedgerTotal {
+  project_id: string;
+  currency: string;
+  line_count: number;
+  amount: number;
+}
+
+// Rental charges at the items' rates over the period, per project and currency
+export async function fetchRentalLedgerTotals(
+  supabase: LedgerClient,
+  startDate: string,
+  endDate: string
+): Promise<{ data: RentalLedgerTotal[] | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase.rpc('rental_ledger_totals', { p_start: startDate, p_end: endDate });
+  if (error) {
+    return { data: null, error };
+  }
+  return {
+    data: ((data || []) as RentalLedgerTotal[]).map(total => ({ ...total, amount: Number(total.amount) })),
+    error: null
+  };
+}
@@ -0,0 +1,441 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseError, NotFoundError, ValidationError } from './error-handler';
+import { addDays, describeBreakdown, RentalLineCharge, roundCurrency, toDateKey } from './rental-engine';
+import { allocateItemAmount, forecastItemOf, projectCalendarOf, taxTreatmentOfItem } from './rental-data';
+import { fetchRentalLedger } from './rental-ledger';
+import { CostCodeOption, describeCostCode, groupByCostCode } from './cost-allocation';
+import { buildForecastRows, describeForecastBasis, groupForecastByVendor } from './forecast';
+import { renderPdf } from './pdf-renderer';
+import {
+  fetchReportTemplate,
+  footerTextOf,
+  renderDocument,
+  tableHead,
+  tableRow,
+  tableSpanRow,
+  TableCells,
+  templateColumns
+} from './report-templates';
+import { html } from './html';
+import { convertAmount, fetchExchangeRates, findExchangeRate, formatMoney } from './currency';
+import { calculateTax, describeTax, sumTaxAmounts } from './tax';
+import {
+  groupReportLines,
+  REPORT_GROUPING_LABELS,
+  REPORT_SORT_LABELS,
+  ReportGrouping,
+  ReportLine,
+  ReportSortKey,
+  sortReportLines,
+  SortDirection
+} from './rental-report';
+
+// The rental report of a project over a period, built once and shared by the
+// preview, the CSV and XLSX exports and the PDF rendered by the report worker.
+// Problems that stop the report throw: NotFoundError when there is nothing to
+// report, ValidationError for missing exchange rates and DatabaseError when a
+// query fails.
+
+export interface RentalReportParams {
+  projectId: string;
+  startDate: string;
+  endDate: string;
+  groupBy: 'none' | 'cost_code';
+  sortBy: ReportSortKey;
+  sortDirection: SortDirection;
+  groupLinesBy: ReportGrouping;
+}
+
+export type RentalReport = Awaited<ReturnType<typeof buildRentalReport>>;
+
+export async function buildRentalReport(supabase: SupabaseClient, params: RentalReportParams) {
+  const { projectId, startDate, endDate, groupBy, sortBy, sortDirection, groupLinesBy } = params;
+
+  // Get project info first
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('name, status, end_date, reporting_currency, exclude_weekends, project_non_chargeable_periods(start_date, end_date)')
+    .eq('id', projectId)
+    .single();
+
+  if (projectError || !project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  // Charge only the days inside the report window, never beyond today
+  const today = toDateKey(new Date());
+  const billingWindow = { start: startDate, end: endDate < today ? endDate : today };
+  const calendar = projectCalendarOf(project);
+
+  // Charges are calculated by the rental ledger in the database
+  const { data: rentalData, error } = await fetchRentalLedger(supabase, {
+    projectId,
+    startDate: billingWindow.start,
+    endDate: billingWindow.end
+  });
+
+  if (error) {
+    throw new DatabaseError('Failed to fetch rental data', error);
+  }
+
+  if (!rentalData || rentalData.length === 0) {
+    throw new NotFoundError('No rental data found for the specified period');
+  }
+
+  // Active projects also get a forecast of the whole hire of every item to the project end
+  let forecastItems: any[] = [];
+  if (project.status === 'active') {
+    const { data: forecastData, error: forecastError } = await fetchRentalLedger(supabase, { projectId, endDate: today });
+    if (forecastError) {
+      throw new DatabaseError('Failed to fetch rental data', forecastError);
+    }
+    forecastItems = forecastData || [];
+  }
+  const forecastGroups = groupForecastByVendor(buildForecastRows(
+    forecastItems.map((item: any) => forecastItemOf(item, calendar)),
+    project.end_date,
+    today
+  ));
+
+  // Amounts are converted at the rates in force on the last charged day
+  const reportingCurrency = project.reporting_currency;
+  const conversionDate = billingWindow.end;
+  const exchangeRates = await fetchExchangeRates(supabase, conversionDate);
+
+  const currencies = Array.from(new Set<string>([
+    ...rentalData.map((item: any) => item.po_items.purchase_orders.currency),
+    ...forecastGroups.map(group => group.currency)
+  ]));
+  const missingRates = currencies.filter(currency =>
+    findExchangeRate(exchangeRates, currency, reportingCurrency, conversionDate) === null
+  );
+  if (missingRates.length > 0) {
+    throw new ValidationError(
+      `No exchange rate to ${reportingCurrency} on or before ${conversionDate}`,
+      missingRates.map(currency => `Record a ${currency} to ${reportingCurrency} rate`)
+    );
+  }
+
+  const processedData = rentalData.map((item: any) => {
+    const charge: RentalLineCharge = item.charge;
+    const currency = item.po_items.purchase_orders.currency;
+    const tax = taxTreatmentOfItem(item);
+    const taxAmounts = calculateTax(charge.amount, tax);
+    const convertedNet = convertAmount(taxAmounts.net, currency, reportingCurrency, conversionDate, exchangeRates);
+    const convertedTax = convertAmount(taxAmounts.tax, currency, reportingCurrency, conversionDate, exchangeRates);
+
+    return {
+      ...item,
+      segments: charge.segments,
+      returns: charge.segments.filter(segment => segment.returned),
+      totalDays: charge.totalDays,
+      totalChargeableDays: charge.totalChargeableDays,
+      suspendedDays: charge.suspendedDays,
+      // Pauses that overlap the report window
+      suspensions: (item.dn_item_suspensions || []).filter((suspension: any) =>
+        suspension.start_date <= billingWindow.end && (!suspension.end_date || suspension.end_date >= startDate)
+      ),
+      ongoingQuantity: charge.ongoingQuantity,
+      returnedQuantity: charge.returnedQuantity,
+      ongoingDays: charge.ongoingDays,
+      currency,
+      amountToPay: charge.amount,
+      convertedAmount: convertAmount(charge.amount, currency, reportingCurrency, conversionDate, exchangeRates),
+      tax,
+      taxAmounts,
+      // Gross is rebuilt from the converted parts so net + tax = gross in the report
+      convertedTaxAmounts: { net: convertedNet, tax: convertedTax, gross: roundCurrency(convertedNet + convertedTax) }
+    };
+  });
+
+  const totals = sumTaxAmounts(processedData.map((item: any) => item.convertedTaxAmounts));
+  const foreignCurrencies = Array.from(new Set<string>(processedData.map((item: any) => item.currency)))
+    .filter(currency => currency !== reportingCurrency);
+
+  // Each line's converted charges split across its cost codes, subtotalled per code
+  let costCodes: CostCodeOption[] = [];
+  if (groupBy === 'cost_code') {
+    const { data: costCodeRows, error: costCodeError } = await supabase
+      .from('project_cost_codes')
+      .select('id, code, name')
+      .eq('project_id', projectId)
+      .order('code');
+    if (costCodeError) {
+      throw new DatabaseError('Failed to fetch cost codes', costCodeError);
+    }
+    costCodes = costCodeRows || [];
+  }
+  const costCodeGroups = groupBy === 'cost_code'
+    ? groupByCostCode(processedData.flatMap((item: any) => {
+      const taxParts = allocateItemAmount(item, item.convertedTaxAmounts.tax);
+      return allocateItemAmount(item, item.convertedTaxAmounts.net).map((part, index) => {
+        const tax = taxParts[index]?.amount ?? 0;
+        return {
+          cost_code_id: part.cost_code_id,
+          percentage: part.percentage,
+          item,
+          net: part.amount,
+          tax,
+          gross: roundCurrency(part.amount + tax)
+        };
+      });
+    }), costCodes).map(group => ({
+      ...group,
+      totals: sumTaxAmounts(group.rows)
+    }))
+    : [];
+
+  const forecastTotal = forecastGroups.reduce((sum, group) =>
+    roundCurrency(sum + convertAmount(group.forecast_cost, group.currency, reportingCurrency, conversionDate, exchangeRates)), 0);
+
+  // Lines in the order and grouping chosen in the preview; each keeps its item for the PDF
+  const lines = sortReportLines(processedData.map((item: any): ReportLine & { item: any } => ({
+    dn_item_id: item.id,
+    po_number: item.po_items.purchase_orders.po_number,
+    item_name: item.po_items.item_name,
+    vendor_name: item.po_items.purchase_orders.vendors.name,
+    status: item.status,
+    delivery_date: item.delivery_notes.delivery_date,
+    delivered_quantity: Number(item.delivered_quantity),
+    returned_quantity: item.returnedQuantity,
+    ongoing_quantity: item.ongoingQuantity,
+    total_days: item.totalDays,
+    chargeable_days: item.totalChargeableDays,
+    suspended_days: item.suspendedDays,
+    currency: item.currency,
+    net: item.taxAmounts.net,
+    tax: item.taxAmounts.tax,
+    gross: item.taxAmounts.gross,
+    reporting_net: item.convertedTaxAmounts.net,
+    reporting_tax: item.convertedTaxAmounts.tax,
+    reporting_gross: item.convertedTaxAmounts.gross,
+    details: [
+      ...item.segments.flatMap((segment: any) => segment.periods.map((period: any) =>
+        `${segment.quantity} × ${describeBreakdown(period.breakdown)} @ ${formatMoney(period.rates.dailyRate, item.currency)}/day, ${period.startDate} to ${addDays(period.endDate, -1)}${segment.minimumApplied ? ' (minimum hire)' : ''}${period.previouslyCharged > 0 ? ` less ${formatMoney(period.previouslyCharged, item.currency)} billed before period` : ''}: ${formatMoney(period.amount, item.currency)}`
+      )),
+      ...item.returns.map((segment: any) => `${segment.quantity} returned ${segment.endDate} (${segment.chargeableDays} chargeable days)`),
+      ...item.suspensions.map((suspension: any) => `Suspended ${suspension.start_date} to ${suspension.end_date || 'ongoing'}: ${suspension.reason}`)
+    ],
+    item
+  })), sortBy, sortDirection);
+  const lineGroups = groupReportLines(lines, groupLinesBy);
+
+  return {
+    params,
+    project,
+    calendar,
+    today,
+    reportingCurrency,
+    conversionDate,
+    exchangeRates,
+    foreignCurrencies,
+    processedData,
+    totals,
+    costCodes,
+    costCodeGroups,
+    forecastGroups,
+    forecastTotal,
+    lines,
+    lineGroups,
+    fileStem: `rental-report-${project.name.replace(/[^a-zA-Z0-9]/g, '-')}-${startDate}-${endDate}`
+  };
+}
+
+// The PDF laid out with the project's branded template
+export async function renderRentalReportPdf(supabase: SupabaseClient, report: RentalReport): Promise<Buffer> {
+  const {
+    params: { projectId, startDate, endDate, sortBy, sortDirection, groupLinesBy },
+    project,
+    calendar,
+    reportingCurrency,
+    conversionDate,
+    exchangeRates,
+    foreignCurrencies,
+    processedData,
+    totals,
+    costCodes,
+    costCodeGroups,
+    forecastGroups,
+    forecastTotal,
+    lineGroups
+  } = report;
+
+  // Render the report from the project's branded template
+  const template = await fetchReportTemplate(supabase, projectId);
+  const columns = templateColumns(template, 'rental_report');
+
+  const lineCells = (item: any): TableCells => ({
+    po_number: item.po_items.purchase_orders.po_number,
+    item_name: item.po_items.item_name,
+    vendor: item.po_items.purchase_orders.vendors.name,
+    delivered_quantity: item.delivered_quantity,
+    returned_quantity: item.returnedQuantity,
+    ongoing_quantity: item.ongoingQuantity,
+    days: html`${item.totalDays}${item.returns.length > 0 && html`<br><small>${item.returns.map((segment: any, index: number) => html`${index > 0 && html`<br>`}${segment.quantity} returned ${segment.endDate} (${segment.days}d)`)}</small>`}`,
+    chargeable_days: html`
+      ${item.totalChargeableDays}${item.returns.length > 0 && html`<br><small>${item.returns.map((segment: any, index: number) => html`${index > 0 && html`<br>`}${segment.quantity} returned (${segment.chargeableDays}d)`)}</small>`}
+      ${item.suspendedDays > 0 && html`<br><small>${item.suspendedDays}d suspended</small>`}
+      ${item.suspensions.map((suspension: any) => html`<br><small>Suspended ${suspension.start_date} to ${suspension.end_date || 'ongoing'}: ${suspension.reason}</small>`)}
+    `,
+    rates: html`
+      ${formatMoney(item.daily_rate || 0, item.currency)}/day
+      ${item.weekly_rate != null && html`<br>${formatMoney(item.weekly_rate, item.currency)}/week`}
+      ${item.four_week_rate != null && html`<br>${formatMoney(item.four_week_rate, item.currency)}/4 weeks`}
+      ${item.minimum_hire_days > 0 && html`<br><small>Min. hire ${item.minimum_hire_days} days</small>`}
+    `,
+    amount: html`
+      ${formatMoney(item.amountToPay, item.currency)}
+      ${item.currency !== reportingCurrency && html`<br><strong>${formatMoney(item.convertedAmount, reportingCurrency)}</strong>`}
+      ${item.segments.map((segment: any) => segment.periods.map((period: any) => html`<br><small>${segment.quantity} × ${describeBreakdown(period.breakdown)} @ ${formatMoney(period.rates.dailyRate, item.currency)}/day, ${period.startDate} to ${addDays(period.endDate, -1)}${segment.minimumApplied && ' (minimum hire)'}${period.previouslyCharged > 0 && ` less ${formatMoney(period.previouslyCharged, item.currency)} billed before period`}: ${formatMoney(period.amount, item.currency)}</small>`))}
+    `,
+    tax: html`
+      ${formatMoney(item.taxAmounts.tax, item.currency)}
+      ${item.currency !== reportingCurrency && html`<br><strong>${formatMoney(item.convertedTaxAmounts.tax, reportingCurrency)}</strong>`}
+      <br><small>${describeTax(item.tax)}</small>
+    `,
+    gross: html`
+      ${formatMoney(item.taxAmounts.gross, item.currency)}
+      ${item.currency !== reportingCurrency && html`<br><strong>${formatMoney(item.convertedTaxAmounts.gross, reportingCurrency)}</strong>`}
+    `,
+    status: item.status
+  });
+
+  const htmlTemplate = renderDocument(template, {
+    title: 'Rental Report',
+    styles: `
+      .summary { margin-bottom: 20px; }
+      tr.group td { background-color: #f9f9f9; }
+    `,
+    heading: html`
+      <h1>Equipment Rental Report</h1>
+      <h2>Project: ${project.name}</h2>
+      <p>Period: ${startDate} to ${endDate}</p>
+      <p>Generated: ${new Date().toLocaleDateString()}</p>
+      ${(calendar.excludeWeekends || calendar.excludedPeriods.length > 0) && html`<p>Chargeable days exclude ${[
+        calendar.excludeWeekends ? 'weekends' : '',
+        calendar.excludedPeriods.length > 0 ? `${calendar.excludedPeriods.length} holiday/shutdown period(s)` : ''
+      ].filter(Boolean).join(' and ')}</p>`}
+    `,
+    body: html`
+      <div class="summary">
+        <h3>Summary</h3>
+        <p>Total Items: ${processedData.length}</p>
+        <p>Net Amount: ${formatMoney(totals.net, reportingCurrency)}</p>
+        <p>Tax: ${formatMoney(totals.tax, reportingCurrency)}</p>
+        <p>Total Amount: ${formatMoney(totals.gross, reportingCurrency)}</p>
+        <p>Lines sorted by ${REPORT_SORT_LABELS[sortBy]} (${sortDirection === 'asc' ? 'ascending' : 'descending'})${groupLinesBy !== 'none' && `, grouped by ${REPORT_GROUPING_LABELS[groupLinesBy].toLowerCase()}`}</p>
+        ${foreignCurrencies.length > 0 && html`<p>${foreignCurrencies.join(', ')} amounts converted to ${reportingCurrency} at the latest rates on or before ${conversionDate}</p>`}
+      </div>
+
+      <table>
+        ${tableHead(columns)}
+        <tbody>
+          ${lineGroups.map(group => html`
+            ${groupLinesBy !== 'none' && tableSpanRow(columns, html`<strong>${group.label}</strong>`, 'group')}
+            ${group.lines.map(({ item }) => tableRow(columns, lineCells(item)))}
+            ${groupLinesBy !== 'none' && tableRow(columns, {
+              [columns[0]!.key]: html`<strong>${group.label} total</strong>`,
+              amount: html`<strong>${formatMoney(group.totals.net, reportingCurrency)}</strong>`,
+              tax: html`<strong>${formatMoney(group.totals.tax, reportingCurrency)}</strong>`,
+              gross: html`<strong>${formatMoney(group.totals.gross, reportingCurrency)}</strong>`
+            }, 'group')}
+          `)}
+        </tbody>
+      </table>
+
+      ${costCodeGroups.length > 0 && html`
+      <div class="cost-codes">
+        <h3>Charges by Cost Code</h3>
+        <p>Lines split across cost codes are shown under each code with their share. Amounts are in ${reportingCurrency}.</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Cost Code</th>
+              <th>PO Number</th>
+              <th>Item Name</th>
+              <th>Vendor</th>
+              <th>Share</th>
+              <th>Net</th>
+              <th>Tax</th>
+              <th>Gross</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${costCodeGroups.map(group => html`
+              ${group.rows.map((row: any) => html`
+                <tr>
+                  <td>${describeCostCode(group.cost_code_id, costCodes)}</td>
+                  <td>${row.item.po_items.purchase_orders.po_number}</td>
+                  <td>${row.item.po_items.item_name}</td>
+                  <td>${row.item.po_items.purchase_orders.vendors.name}</td>
+                  <td>${row.percentage}%</td>
+                  <td>${formatMoney(row.net, reportingCurrency)}</td>
+                  <td>${formatMoney(row.tax, reportingCurrency)}</td>
+                  <td>${formatMoney(row.gross, reportingCurrency)}</td>
+                </tr>
+              `)}
+              <tr>
+                <td colspan="5"><strong>${describeCostCode(group.cost_code_id, costCodes)} subtotal</strong></td>
+                <td><strong>${formatMoney(group.totals.net, reportingCurrency)}</strong></td>
+                <td><strong>${formatMoney(group.totals.tax, reportingCurrency)}</strong></td>
+                <td><strong>${formatMoney(group.totals.gross, reportingCurrency)}</strong></td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </div>
+      `}
+
+      ${forecastGroups.length > 0 && html`
+      <div class="forecast">
+        <h3>Forecast to Project End</h3>
+        <p>Units on hire are projected to their expected off-hire date, or to the project end date (${project.end_date || 'not set'}). Amounts are net of tax.</p>
+        <p>Expected Final Rental Cost: ${formatMoney(forecastTotal, reportingCurrency)}</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Vendor</th>
+              <th>PO Number</th>
+              <th>Item Name</th>
+              <th>On Hire Qty</th>
+              <th>Projected To</th>
+              <th>Cost to Date</th>
+              <th>Remaining</th>
+              <th>Expected Final</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${forecastGroups.map(group => html`
+              ${group.rows.map(row => html`
+                <tr>
+                  <td>${row.vendor_name}</td>
+                  <td>${row.po_number}</td>
+                  <td>${row.item_name}</td>
+                  <td>${row.on_hire_quantity}</td>
+                  <td>${row.off_hire_date ?? '-'}<br><small>${describeForecastBasis(row)}</small></td>
+                  <td>${formatMoney(row.cost_to_date, row.currency)}</td>
+                  <td>${formatMoney(row.remaining_cost, row.currency)}</td>
+                  <td>${formatMoney(row.forecast_cost, row.currency)}</td>
+                </tr>
+              `)}
+              <tr>
+                <td colspan="3"><strong>${group.vendor_name} total</strong></td>
+                <td>${group.on_hire_quantity}</td>
+                <td></td>
+                <td>${formatMoney(group.cost_to_date, group.currency)}</td>
+                <td>${formatMoney(group.remaining_cost, group.currency)}</td>
+                <td>
+                  <strong>${formatMoney(group.forecast_cost, group.currency)}</strong>
+                  ${group.currency !== reportingCurrency && html`<br><strong>${formatMoney(convertAmount(group.forecast_cost, group.currency, reportingCurrency, conversionDate, exchangeRates), reportingCurrency)}</strong>`}
+                </td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </div>
+      `}
+    `
+  });
+
+  return renderPdf(htmlTemplate, { footerText: footerTextOf(template, `Generated on ${new Date().toLocaleDateString()}`) });
+}
@@ -0,0 +1,132 @@
+import { sumTaxAmounts, TaxAmounts } from './tax';
+
+// Rental report lines as previewed on screen and exported. The preview and
+// the PDF order and group lines with the same functions, so an export shows
+// what was on screen.
+
+export type ReportSortKey =
+  | 'po_number'
+  | 'item_name'
+  | 'vendor_name'
+  | 'status'
+  | 'delivery_date'
+  | 'chargeable_days'
+  | 'reporting_net'
+  | 'reporting_gross';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ReportGrouping = 'none' | 'vendor' | 'po' | 'status';
+
+export const REPORT_SORT_LABELS: Record<ReportSortKey, string> = {
+  po_number: 'PO Number',
+  item_name: 'Item Name',
+  vendor_name: 'Vendor',
+  status: 'Status',
+  delivery_date: 'Delivery Date',
+  chargeable_days: 'Chargeable Days',
+  reporting_net: 'Net',
+  reporting_gross: 'Gross'
+};
+
+export const REPORT_GROUPING_LABELS: Record<ReportGrouping, string> = {
+  none: 'No grouping',
+  vendor: 'Vendor',
+  po: 'Purchase order',
+  status: 'Status'
+};
+
+export interface ReportLine {
+  dn_item_id: string;
+  po_number: string;
+  item_name: string;
+  vendor_name: string;
+  status: string;
+  delivery_date: string;
+  delivered_quantity: number;
+  returned_quantity: number;
+  ongoing_quantity: number;
+  total_days: number;
+  chargeable_days: number;
+  suspended_days: number;
+  currency: string;
+  net: number;
+  tax: number;
+  gross: number;
+  reporting_net: number;
+  reporting_tax: number;
+  reporting_gross: number;
+  // How the charge was worked out, one entry per hire period, return or pause
+  details: string[];
+}
+
+export interface ReportLineGroup<T extends ReportLine> {
+  key: string;
+  label: string;
+  lines: T[];
+  // In the reporting currency
+  totals: TaxAmounts;
+}
+
+// What the report endpoint returns for the on-screen preview
+export interface RentalReportPreview {
+  project: { id: string; name: string; status: string };
+  startDate: string;
+  endDate: string;
+  reportingCurrency: string;
+  conversionDate: string;
+  foreignCurrencies: string[];
+  lines: ReportLine[];
+  totals: TaxAmounts;
+}
+
+// Ties keep their incoming order, so sorting by one column after another nests
+export function sortReportLines<T extends ReportLine>(lines: T[], key: ReportSortKey, direction: SortDirection): T[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return lines
+    .map((line, index) => ({ line, index }))
+    .sort((a, b) => {
+      const left = a.line[key];
+      const right = b.line[key];
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right), undefined, { numeric: true });
+      return order * sign || a.index - b.index;
+    })
+    .map(({ line }) => line);
+}
+
+function groupKeyOf(line: ReportLine, grouping: ReportGrouping): { key: string; label: string } {
+  switch (grouping) {
+    case 'vendor':
+      return { key: line.vendor_name, label: line.vendor_name };
+    case 'po':
+      return { key: line.po_number, label: `PO ${line.po_number} - ${line.vendor_name}` };
+    case 'status':
+      return { key: line.status, label: line.status };
+    default:
+      return { key: 'all', label: 'All lines' };
+  }
+}
+
+// Groups appear in the order of their first line, so they follow the sort
+export function groupReportLines<T extends ReportLine>(lines: T[], grouping: ReportGrouping): ReportLineGroup<T>[] {
+  const groups = new Map<string, { label: string; lines: T[] }>();
+  lines.forEach(line => {
+    const { key, label } = groupKeyOf(line, grouping);
+    const group = groups.get(key) || { label, lines: [] };
+    group.lines.push(line);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    label: group.label,
+    lines: group.lines,
+    totals: sumTaxAmounts(group.lines.map(line => ({
+      net: line.reporting_net,
+      tax: line.reporting_tax,
+      gross: line.reporting_gross
+    })))
+  }));
+}
@@ -0,0 +1,167 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppError, DatabaseError, ValidationError } from './error-handler';
+import { reportGenerationSchema, validateInput } from './validation-schemas';
+import type { RentalReportParams } from './rental-report-builder';
+import type { SnapshotReportType } from './report-snapshots';
+
+// Reports rendered in the background. A request queues a job and returns its
+// ID at once; the report worker claims the job, renders and stores the PDF,
+// and marks the job completed or failed with the reason. The page polls the
+// job's status until then.
+
+export type ReportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ReportJob {
+  id: string;
+  project_id: string;
+  report_type: SnapshotReportType;
+  parameters: Record<string, unknown>;
+  status: ReportJobStatus;
+  snapshot_id: string | null;
+  error_message: string | null;
+  requested_by: string;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// What the status endpoint answers while the page polls
+export interface ReportJobProgress {
+  jobId: string;
+  status: ReportJobStatus;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  snapshotId: string | null;
+  // A short-lived link once the PDF is ready
+  download: { url: string; fileName: string; sha256: string } | null;
+}
+
+export const REPORT_JOB_STATUS_LABELS: Record<ReportJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Rendering',
+  completed: 'Ready',
+  failed: 'Failed'
+};
+
+// Background functions are stopped after 15 minutes; a job left queued or
+// running longer than that will never finish
+export const REPORT_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const REPORT_WORKER_PATH = '/.netlify/functions/report-worker-background';
+
+export function isJobFinished(job: Pick<ReportJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+export function isJobStale(job: Pick<ReportJob, 'status' | 'created_at' | 'started_at'>, now: Date = new Date()): boolean {
+  if (isJobFinished(job)) return false;
+  return now.getTime() - new Date(job.started_at ?? job.created_at).getTime() > REPORT_JOB_TIMEOUT_MS;
+}
+
+// The reason recorded on a failed job; application errors keep their message
+// and details, anything else is reported as a rendering failure
+export function describeJobFailure(error: unknown): string {
+  if (error instanceof AppError) {
+    const details = Array.isArray(error.details) ? error.details.filter(detail => typeof detail === 'string') : [];
+    return [error.message, ...details].join('. ');
+  }
+  return `Report rendering failed: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+// The report a job asks for. Parameters are checked again before the worker
+// runs them with the service role, and the project is always the job's own:
+// only that one was checked against the user when the job was queued.
+export function rentalReportParamsOf(job: Pick<ReportJob, 'project_id' | 'parameters'>): RentalReportParams {
+  const validation = validateInput(reportGenerationSchema, { ...job.parameters, projectId: job.project_id, format: 'pdf' });
+  if (!validation.success) {
+    throw new ValidationError('Invalid report parameters', validation.errors);
+  }
+
+  const { startDate, endDate, groupBy = 'none', sortBy = 'po_number', sortDirection = 'asc', groupLinesBy = 'none' } = validation.data;
+  return { startDate, endDate, groupBy, sortBy, sortDirection, groupLinesBy, projectId: job.project_id };
+}
+
+interface JobInput {
+  projectId: string;
+  reportType: SnapshotReportType;
+  parameters: Record<string, unknown>;
+  userId: string;
+}
+
+// Queued with the user's client, so RLS checks the project
+export async function queueReportJob(
+  supabase: SupabaseClient,
+  { projectId, reportType, parameters, userId }: JobInput
+): Promise<ReportJob> {
+  const { data, error } = await supabase
+    .from('report_jobs')
+    .insert({
+      project_id: projectId,
+      report_type: reportType,
+      parameters,
+      requested_by: userId
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new DatabaseError('Failed to queue report job', error);
+  }
+  return data as ReportJob;
+}
+
+// Moves a queued job to running; null when it was already claimed, so a job
+// runs once however often the worker is started for it
+export async function claimReportJob(service: SupabaseClient, jobId: string): Promise<ReportJob | null> {
+  const { data, error } = await service
+    .from('report_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError('Failed to claim report job', error);
+  }
+  return data as ReportJob | null;
+}
+
+export async function completeReportJob(service: SupabaseClient, jobId: string, snapshotId: string): Promise<void> {
+  const { error } = await service
+    .from('report_jobs')
+    .update({ status: 'completed', snapshot_id: snapshotId, completed_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) {
+    throw new DatabaseError('Failed to complete report job', error);
+  }
+}
+
+// Only unfinished jobs fail, so a late timeout never overwrites a result
+export async function failReportJob(service: SupabaseClient, jobId: string, reason: string): Promise<void> {
+  const { error } = await service
+    .from('report_jobs')
+    .update({ status: 'failed', error_message: reason, completed_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running']);
+
+  if (error) {
+    throw new DatabaseError('Failed to record report job failure', error);
+  }
+}
+
+// Background functions answer 202 at once and keep running; siteUrl is the
+// deployed site's address
+export async function startReportWorker(siteUrl: string, jobId: string): Promise<void> {
+  const response = await fetch(new URL(REPORT_WORKER_PATH, siteUrl), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Report worker did not start (status ${response.status})`);
+  }
+}
@@ -0,0 +1,116 @@
+import { createHash, randomUUID } from 'crypto';
+import { DatabaseError } from './error-handler';
+
+// Generated reports kept as they were handed out. The file goes to private
+// storage and its record holds the request, the user, the time and a SHA-256
+// of the file, so a later download can be checked against what was issued.
+
+export const REPORT_SNAPSHOT_BUCKET = 'report-snapshots';
+
+export type SnapshotReportType = 'rental_report';
+
+export interface ReportSnapshot {
+  id: string;
+  project_id: string;
+  report_type: SnapshotReportType;
+  parameters: Record<string, unknown>;
+  storage_path: string;
+  file_name: string;
+  sha256: string;
+  byte_size: number;
+  generated_by: string;
+  generated_at: string;
+}
+
+export interface SnapshotVerification {
+  matches: boolean;
+  expected: string;
+  actual: string;
+}
+
+export function sha256Hex(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function snapshotPath(projectId: string, snapshotId: string): string {
+  return `${projectId}/${snapshotId}.pdf`;
+}
+
+// The stored file against the hash recorded when it was generated
+export function verifySnapshot(snapshot: Pick<ReportSnapshot, 'sha256'>, content: Buffer): SnapshotVerification {
+  const actual = sha256Hex(content);
+  return { matches: actual === snapshot.sha256, expected: snapshot.sha256, actual };
+}
+
+// The calls a snapshot makes on the storage and database clients
+export interface SnapshotStorageClient {
+  storage: {
+    from(bucket: string): {
+      upload(path: string, content: Buffer, options: { contentType: string; upsert: boolean }): PromiseLike<{ error: unknown }>;
+      remove(paths: string[]): PromiseLike<unknown>;
+    };
+  };
+}
+
+export interface SnapshotDatabaseClient {
+  from(table: string): {
+    insert(row: Record<string, unknown>): {
+      select(): { single(): PromiseLike<{ data: unknown; error: unknown }> };
+    };
+  };
+}
+
+interface SnapshotInput {
+  projectId: string;
+  reportType: SnapshotReportType;
+  parameters: Record<string, unknown>;
+  fileName: string;
+  content: Buffer;
+  userId: string;
+}
+
+// The file is written with the service client, which alone can reach the
+// bucket; the record goes through the user's client so RLS checks the project.
+// A file whose record cannot be written is removed again.
+export async function storeReportSnapshot(
+  supabase: SnapshotDatabaseClient,
+  storage: SnapshotStorageClient,
+  { projectId, reportType, parameters, fileName, content, userId }: SnapshotInput
+): Promise<ReportSnapshot> {
+  const id = randomUUID();
+  const storagePath = snapshotPath(projectId, id);
+
+  const { error: uploadError } = await storage.storage
+    .from(REPORT_SNAPSHOT_BUCKET)
+    .upload(storagePath, content, {
+      contentType: 'application/pdf',
+      upsert: false // Snapshots are never overwritten
+    });
+
+  if (uploadError) {
+    throw new DatabaseError('Failed to store report snapshot', uploadError);
+  }
+
+  const { data, error } = await supabase
+    .from('report_snapshots')
+    .insert({
+      id,
+      project_id: projectId,
+      report_type: reportType,
+      parameters,
+      storage_path: storagePath,
+      file_name: fileName,
+      sha256: sha256Hex(content),
+      byte_size: content.length,
+      generated_by: userId
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    await storage.storage.from(REPORT_SNAPSHOT_BUCKET).remove([storagePath]);
+    throw new DatabaseError('Failed to record report snapshot', error);
+  }
+
+  return data as ReportSnapshot;
+}
@@ -0,0 +1,203 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { html, multiline, raw, SafeHtml } from './html';
+
+// Branded templates for generated documents. The rental report, rental
+// invoices, delivery note and purchase order prints and vendor statements are
+// laid out here: a header with the company logo and address, the document's
+// own heading and body, and a table limited to the columns chosen in the
+// template.
+
+export type DocumentKind = 'rental_report' | 'rental_invoice' | 'delivery_note' | 'purchase_order' | 'vendor_statement';
+
+export interface TemplateColumn {
+  key: string;
+  label: string;
+}
+
+export interface ReportTemplate {
+  id?: string;
+  project_id: string | null;
+  company_name: string;
+  logo_data_url: string | null;
+  address: string | null;
+  footer_text: string | null;
+  // Selected column keys per document; a missing document shows every column
+  columns: Partial<Record<DocumentKind, string[]>>;
+}
+
+export const DOCUMENT_LABELS: Record<DocumentKind, string> = {
+  rental_report: 'Rental report',
+  rental_invoice: 'Rental invoice',
+  delivery_note: 'Delivery note',
+  purchase_order: 'Purchase order',
+  vendor_statement: 'Vendor statement'
+};
+
+// Every column a document can show, in the order they appear
+export const DOCUMENT_COLUMNS: Record<DocumentKind, TemplateColumn[]> = {
+  rental_report: [
+    { key: 'po_number', label: 'PO Number' },
+    { key: 'item_name', label: 'Item Name' },
+    { key: 'vendor', label: 'Vendor' },
+    { key: 'delivered_quantity', label: 'Delivered Qty' },
+    { key: 'returned_quantity', label: 'Returned Qty' },
+    { key: 'ongoing_quantity', label: 'Ongoing Qty' },
+    { key: 'days', label: 'Days in Period' },
+    { key: 'chargeable_days', label: 'Chargeable Days' },
+    { key: 'rates', label: 'Rates' },
+    { key: 'amount', label: 'Amount' },
+    { key: 'tax', label: 'Tax' },
+    { key: 'gross', label: 'Gross' },
+    { key: 'status', label: 'Status' }
+  ],
+  rental_invoice: [
+    { key: 'po_number', label: 'PO Number' },
+    { key: 'item_name', label: 'Item Name' },
+    { key: 'delivered_quantity', label: 'Delivered Qty' },
+    { key: 'returned_quantity', label: 'Returned Qty' },
+    { key: 'days', label: 'Days in Period' },
+    { key: 'chargeable_days', label: 'Chargeable Days' },
+    { key: 'amount', label: 'Amount' },
+    { key: 'tax', label: 'Tax' },
+    { key: 'gross', label: 'Gross' }
+  ],
+  delivery_note: [
+    { key: 'item_name', label: 'Item Name' },
+    { key: 'description', label: 'Description' },
+    { key: 'delivered_quantity', label: 'Delivered Qty' },
+    { key: 'returned_quantity', label: 'Returned Qty' },
+    { key: 'rates', label: 'Rates' },
+    { key: 'expected_off_hire_date', label: 'Expected Off-Hire' },
+    { key: 'status', label: 'Status' }
+  ],
+  purchase_order: [
+    { key: 'item_name', label: 'Item Name' },
+    { key: 'description', label: 'Description' },
+    { key: 'quantity', label: 'Quantity' },
+    { key: 'unit_price', label: 'Unit Price' },
+    { key: 'tax_rate', label: 'Tax Rate' },
+    { key: 'net', label: 'Net' },
+    { key: 'tax', label: 'Tax' },
+    { key: 'gross', label: 'Gross' }
+  ],
+  vendor_statement: [
+    { key: 'item_name', label: 'Item Name' },
+    { key: 'delivery_date', label: 'Delivered' },
+    { key: 'delivered_quantity', label: 'Delivered Qty' },
+    { key: 'returned_quantity', label: 'Returned Qty' },
+    { key: 'on_hire_quantity', label: 'On Hire Qty' },
+    { key: 'days', label: 'Days in Period' },
+    { key: 'chargeable_days', label: 'Chargeable Days' },
+    { key: 'net', label: 'Net' },
+    { key: 'tax', label: 'Tax' },
+    { key: 'gross', label: 'Gross' },
+    { key: 'invoice_status', label: 'Invoice Status' }
+  ]
+};
+
+// Used when neither the project nor the organisation has a template
+export const DEFAULT_TEMPLATE: ReportTemplate = {
+  project_id: null,
+  company_name: 'EquipRent',
+  logo_data_url: null,
+  address: null,
+  footer_text: null,
+  columns: {}
+};
+
+// The project's own template wins over the organisation default
+export function resolveTemplate(templates: ReportTemplate[], projectId: string | null): ReportTemplate {
+  return (projectId ? templates.find(template => template.project_id === projectId) : undefined)
+    ?? templates.find(template => template.project_id === null)
+    ?? DEFAULT_TEMPLATE;
+}
+
+export async function fetchReportTemplate(supabase: SupabaseClient, projectId: string | null): Promise<ReportTemplate> {
+  let query = supabase.from('report_templates').select('*');
+  query = projectId ? query.or(`project_id.is.null,project_id.eq.${projectId}`) : query.is('project_id', null);
+
+  const { data, error } = await query;
+  if (error) {
+    // Documents still render, unbranded, when templates cannot be read
+    console.error('Report template fetch error:', error);
+    return DEFAULT_TEMPLATE;
+  }
+  return resolveTemplate((data || []) as ReportTemplate[], projectId);
+}
+
+// Chosen columns in document order; unknown keys are ignored and an empty
+// choice falls back to every column
+export function templateColumns(template: ReportTemplate, kind: DocumentKind): TemplateColumn[] {
+  const selected = template.columns?.[kind];
+  const columns = selected ? DOCUMENT_COLUMNS[kind].filter(column => selected.includes(column.key)) : [];
+  return columns.length > 0 ? columns : DOCUMENT_COLUMNS[kind];
+}
+
+export function tableHead(columns: TemplateColumn[]): SafeHtml {
+  return html`<thead><tr>${columns.map(column => html`<th>${column.label}</th>`)}</tr></thead>`;
+}
+
+// Cells keyed by column; plain values are escaped and cells of columns not
+// shown are dropped
+export type TableCells = Partial<Record<string, SafeHtml | string | number | null>>;
+
+export function tableRow(columns: TemplateColumn[], cells: TableCells, className?: string): SafeHtml {
+  return html`<tr${className ? html` class="${className}"` : ''}>${columns.map(column => html`<td>${cells[column.key] ?? ''}</td>`)}</tr>`;
+}
+
+// A row spanning the whole table, such as a group heading
+export function tableSpanRow(columns: TemplateColumn[], content: SafeHtml | string, className?: string): SafeHtml {
+  return html`<tr${className ? html` class="${className}"` : ''}><td colspan="${columns.length}">${content}</td></tr>`;
+}
+
+// Text before the page numbers in the PDF footer
+export function footerTextOf(template: ReportTemplate, documentText: string): string {
+  return [template.footer_text, documentText].filter(Boolean).join(' | ');
+}
+
+export interface DocumentContent {
+  title: string;
+  // Document specific details shown opposite the company block
+  heading: SafeHtml;
+  body: SafeHtml;
+  // Written in code, never built from data
+  styles?: string;
+}
+
+// Only inline images are shown; the renderer fetches nothing over the network
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/;
+
+export function renderDocument(template: ReportTemplate, { title, heading, body, styles = '' }: DocumentContent): string {
+  return html`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${title}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        table { width: 100%; border-collapse: collapse; margin-top: 20px; }
+        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+        th { background-color: #f2f2f2; }
+        .letterhead { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; }
+        .company img { max-height: 60px; max-width: 200px; display: block; margin-bottom: 8px; }
+        .company p { margin: 2px 0; }
+        .document { text-align: right; }
+        ${raw(styles)}
+      </style>
+    </head>
+    <body>
+      <div class="letterhead">
+        <div class="company">
+          ${template.logo_data_url && IMAGE_DATA_URL.test(template.logo_data_url) && html`<img src="${template.logo_data_url}" alt="">`}
+          <strong>${template.company_name}</strong>
+          ${template.address && html`<p>${multiline(template.address)}</p>`}
+        </div>
+        <div class="document">
+          ${heading}
+        </div>
+      </div>
+      ${body}
+    </body>
+    </html>
+  `.toString();
+}
@@ -0,0 +1,66 @@
+import { roundCurrency } from './rental-engine';
+
+// Tax codes and net/tax/gross splitting. Rates are percentages; an inclusive
+// code means the entered price already contains the tax.
+
+export interface TaxCode {
+  id: string;
+  code: string;
+  name: string;
+  rate: number;
+  is_inclusive: boolean;
+  is_active: boolean;
+}
+
+// Rate and treatment as copied onto a PO item or invoice line
+export interface TaxTreatment {
+  rate: number;
+  inclusive: boolean;
+}
+
+export interface TaxAmounts {
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+export const NO_TAX: TaxTreatment = { rate: 0, inclusive: false };
+
+// The line's own code when it overrides the vendor default
+export function resolveTaxCode(
+  codes: TaxCode[],
+  lineTaxCodeId: string | null | undefined,
+  vendorDefaultId: string | null | undefined
+): TaxCode | null {
+  const id = lineTaxCodeId || vendorDefaultId;
+  return codes.find(code => code.id === id) ?? null;
+}
+
+export function taxTreatmentOf(code: TaxCode | null): TaxTreatment {
+  return code ? { rate: Number(code.rate), inclusive: code.is_inclusive } : NO_TAX;
+}
+
+export function calculateTax(amount: number, { rate, inclusive }: TaxTreatment): TaxAmounts {
+  if (inclusive) {
+    const gross = roundCurrency(amount);
+    const net = roundCurrency(gross / (1 + rate / 100));
+    return { net, tax: roundCurrency(gross - net), gross };
+  }
+
+  const net = roundCurrency(amount);
+  const tax = roundCurrency(net * rate / 100);
+  return { net, tax, gross: roundCurrency(net + tax) };
+}
+
+// Totals are summed from the rounded line amounts so they match the lines shown
+export function sumTaxAmounts(amounts: TaxAmounts[]): TaxAmounts {
+  return amounts.reduce<TaxAmounts>((total, line) => ({
+    net: roundCurrency(total.net + Number(line.net)),
+    tax: roundCurrency(total.tax + Number(line.tax)),
+    gross: roundCurrency(total.gross + Number(line.gross))
+  }), { net: 0, tax: 0, gross: 0 });
+}
+
+export function describeTax({ rate, inclusive }: TaxTreatment): string {
+  return `${Number(rate)}%${inclusive ? ' incl.' : ''}`;
+}
@@ -3,6 +3,7 @@ import { z } from 'zod';
 // Base schemas for common types
 export const uuidSchema = z.string().uuid('Invalid UUID format');
 export const dateSchema = z.string().datetime('Invalid date format');
+export const currencySchema = z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code');
 
 // File upload validation
 export const fileUploadSchema = z.object({
@@ -21,14 +22,32 @@ export const returnProcessSchema = z.object({
     .int('Quantity must be a whole number')
     .positive('Quantity must be positive')
     .max(10000, 'Quantity too large'),
-  returnDate: dateSchema
+  returnDate: z.string().date().or(dateSchema),
+  reference: z.string()
+    .max(255, 'Reference too long')
+    .optional()
+});
+
+// Every return of a submission, recorded together or not at all
+export const returnBatchSchema = z.object({
+  returns: z.array(returnProcessSchema)
+    .min(1, 'At least one return is required')
+    .max(100, 'Too many returns in one submission')
 });
 
 // Report generation validation
 export const reportGenerationSchema = z.object({
   projectId: uuidSchema,
   startDate: z.string().date('Invalid start date format'),
-  endDate: z.string().date('Invalid end date format')
+  endDate: z.string().date('Invalid end date format'),
+  groupBy: z.enum(['none', 'cost_code']).default('none'),
+  // Line order and grouping as shown in the on-screen preview
+  sortBy: z.enum([
+    'po_number', 'item_name', 'vendor_name', 'status', 'delivery_date', 'chargeable_days', 'reporting_net', 'reporting_gross'
+  ]).default('po_number'),
+  sortDirection: z.enum(['asc', 'desc']).default('asc'),
+  groupLinesBy: z.enum(['none', 'vendor', 'po', 'status']).default('none'),
+  format: z.enum(['pdf', 'csv', 'xlsx', 'json']).default('pdf')
 }).refine(data => {
   const start = new Date(data.startDate);
   const end = new Date(data.endDate);
@@ -38,6 +57,79 @@ export const reportGenerationSchema = z.object({
   path: ['endDate']
 });
 
+// Rental invoicing run validation
+export const rentalInvoiceRunSchema = z.object({
+  projectId: uuidSchema,
+  vendorId: uuidSchema,
+  periodStart: z.string().date('Invalid period start format'),
+  periodEnd: z.string().date('Invalid period end format')
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: 'Period end must be on or after period start',
+  path: ['periodEnd']
+});
+
+export const rentalInvoicePdfSchema = z.object({
+  invoiceId: uuidSchema
+});
+
+// Delivery note print validation
+export const deliveryNotePdfSchema = z.object({
+  deliveryNoteId: uuidSchema
+});
+
+// Purchase order print validation
+export const purchaseOrderPdfSchema = z.object({
+  purchaseOrderId: uuidSchema
+});
+
+// Stored report download or check against its recorded hash
+export const reportSnapshotSchema = z.object({
+  snapshotId: uuidSchema,
+  action: z.enum(['download', 'verify']).default('download')
+});
+
+// Report job status polling and the worker's job to run
+export const reportJobSchema = z.object({
+  jobId: uuidSchema
+});
+
+// Accrual report validation; without a project every accessible project is included
+export const accrualReportSchema = z.object({
+  projectId: uuidSchema.optional(),
+  asOf: z.string().date('Invalid as-of date format'),
+  format: z.enum(['pdf', 'csv']).default('pdf')
+});
+
+// Vendor statement validation; the statement covers every accessible project
+export const vendorStatementSchema = z.object({
+  vendorId: uuidSchema,
+  startDate: z.string().date('Invalid start date format'),
+  endDate: z.string().date('Invalid end date format'),
+  format: z.enum(['pdf', 'csv']).default('pdf')
+}).refine(data => data.startDate <= data.endDate, {
+  message: 'End date must be on or after start date',
+  path: ['endDate']
+});
+
+// Vendor invoice import validation
+export const vendorInvoiceImportSchema = z.object({
+  vendorId: uuidSchema,
+  invoiceNumber: z.string()
+    .min(1, 'Vendor invoice number is required')
+    .max(100, 'Vendor invoice number too long'),
+  periodStart: z.string().date('Invalid period start format'),
+  periodEnd: z.string().date('Invalid period end format'),
+  fileName: z.string()
+    .max(255, 'Filename too long')
+    .optional(),
+  csv: z.string()
+    .min(1, 'CSV content is required')
+    .max(2000000, 'CSV file too large')
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: 'Period end must be on or after period start',
+  path: ['periodEnd']
+});
+
 // Project creation/update validation
 export const projectSchema = z.object({
   name: z.string()
@@ -50,7 +142,117 @@ export const projectSchema = z.object({
     errorMap: () => ({ message: 'Invalid project status' })
   }).optional(),
   start_date: z.string().date().optional(),
-  end_date: z.string().date().optional()
+  end_date: z.string().date().optional(),
+  reporting_currency: currencySchema.optional()
+});
+
+// Tax code validation
+export const taxCodeSchema = z.object({
+  code: z.string()
+    .min(1, 'Code is required')
+    .max(20, 'Code too long'),
+  name: z.string()
+    .min(1, 'Name is required')
+    .max(255, 'Name too long'),
+  rate: z.number()
+    .min(0, 'Rate must be non-negative')
+    .max(100, 'Rate cannot exceed 100%'),
+  is_inclusive: z.boolean(),
+  is_active: z.boolean()
+});
+
+// Project cost code validation
+export const projectCostCodeSchema = z.object({
+  code: z.string()
+    .min(1, 'Code is required')
+    .max(50, 'Code too long'),
+  name: z.string()
+    .min(1, 'Name is required')
+    .max(255, 'Name too long')
+});
+
+// Project budget validation; without a cost code the budget covers the whole project
+export const projectBudgetSchema = z.object({
+  cost_code_id: uuidSchema.nullable(),
+  amount: z.number().positive('Budget must be positive'),
+  alert_thresholds: z.array(z.number().int().min(1, 'Threshold must be at least 1%').max(500, 'Threshold too high'))
+    .min(1, 'At least one alert threshold is required'),
+  notes: z.string()
+    .max(1000, 'Notes too long')
+    .optional()
+});
+
+// Report template validation; without a project the template is the organisation default
+const templateColumnsSchema = z.array(z.string()).min(1, 'Select at least one column').optional();
+
+export const reportTemplateSchema = z.object({
+  project_id: uuidSchema.nullable(),
+  company_name: z.string()
+    .min(1, 'Company name is required')
+    .max(255, 'Company name too long'),
+  // Base64 of an image up to about 200 KB
+  logo_data_url: z.string()
+    .regex(/^data:image\/(png|jpeg);base64,/, 'Logo must be a PNG or JPEG image')
+    .max(280000, 'Logo too large (max 200 KB)')
+    .nullable(),
+  address: z.string()
+    .max(1000, 'Address too long')
+    .optional(),
+  footer_text: z.string()
+    .max(255, 'Footer text too long')
+    .optional(),
+  columns: z.object({
+    rental_report: templateColumnsSchema,
+    rental_invoice: templateColumnsSchema,
+    delivery_note: templateColumnsSchema,
+    purchase_order: templateColumnsSchema,
+    vendor_statement: templateColumnsSchema
+  })
+});
+
+// Budget status validation
+export const budgetStatusSchema = z.object({
+  projectId: uuidSchema
+});
+
+// DN item cost code allocation validation
+export const costAllocationSchema = z.object({
+  cost_code_id: uuidSchema,
+  percentage: z.number()
+    .positive('Percentage must be positive')
+    .max(100, 'Percentage cannot exceed 100%')
+});
+
+// Rental forecast validation
+export const rentalForecastSchema = z.object({
+  projectId: uuidSchema
+});
+
+// Exchange rate validation
+export const exchangeRateSchema = z.object({
+  from_currency: currencySchema,
+  to_currency: currencySchema,
+  rate: z.number()
+    .positive('Rate must be greater than zero'),
+  rate_date: z.string().date('Invalid rate date')
+}).refine(data => data.from_currency !== data.to_currency, {
+  message: 'From and to currency must differ',
+  path: ['to_currency']
+});
+
+// Project billing calendar validation
+export const nonChargeablePeriodSchema = z.object({
+  kind: z.enum(['holiday', 'shutdown'], {
+    errorMap: () => ({ message: 'Invalid period type' })
+  }),
+  start_date: z.string().date('Invalid start date'),
+  end_date: z.string().date('Invalid end date'),
+  description: z.string()
+    .max(255, 'Description too long')
+    .optional()
+}).refine(data => data.start_date <= data.end_date, {
+  message: 'End date must be on or after start date',
+  path: ['end_date']
 });
 
 // Vendor validation
@@ -75,6 +277,59 @@ export const vendorSchema = z.object({
     .optional()
 });
 
+// Vendor rate card entry validation
+export const rateCardSchema = z.object({
+  item_name: z.string()
+    .min(1, 'Item name is required')
+    .max(255, 'Item name too long'),
+  currency: z.string()
+    .length(3, 'Currency must be a 3-letter code'),
+  daily_rate: z.number()
+    .min(0, 'Daily rate must be non-negative'),
+  weekly_rate: z.number()
+    .min(0, 'Weekly rate must be non-negative')
+    .nullable(),
+  four_week_rate: z.number()
+    .min(0, '4-week rate must be non-negative')
+    .nullable(),
+  minimum_hire_days: z.number()
+    .int('Minimum hire must be whole days')
+    .min(0, 'Minimum hire must be non-negative'),
+  valid_from: z.string().date('Invalid valid from date'),
+  valid_to: z.string().date('Invalid valid to date').nullable()
+}).refine(data => !data.valid_to || data.valid_from <= data.valid_to, {
+  message: 'Valid to must be on or after valid from',
+  path: ['valid_to']
+});
+
+// DN item rate change validation
+export const rateChangeSchema = z.object({
+  effective_from: z.string().date('Invalid effective date'),
+  daily_rate: z.number()
+    .min(0, 'Daily rate must be non-negative'),
+  weekly_rate: z.number()
+    .min(0, 'Weekly rate must be non-negative')
+    .nullable(),
+  four_week_rate: z.number()
+    .min(0, '4-week rate must be non-negative')
+    .nullable(),
+  reason: z.string()
+    .max(500, 'Reason too long')
+    .optional()
+});
+
+// DN item suspension validation
+export const suspensionSchema = z.object({
+  start_date: z.string().date('Invalid start date'),
+  end_date: z.string().date('Invalid end date').nullable(),
+  reason: z.string()
+    .min(1, 'Reason is required')
+    .max(500, 'Reason too long')
+}).refine(data => !data.end_date || data.start_date <= data.end_date, {
+  message: 'End date must be on or after start date',
+  path: ['end_date']
+});
+
 // Purchase order validation
 export const purchaseOrderSchema = z.object({
   po_number: z.string()
@@ -0,0 +1,175 @@
+import { addDays, daysBetween, RentalLineCharge } from './rental-engine';
+import { calculateTax, sumTaxAmounts, TaxAmounts, TaxTreatment } from './tax';
+
+// Vendor statement: one vendor's purchase orders across every project, with
+// every item delivered by the end of a period, its quantities delivered,
+// returned and still on hire at that date, and its rental charges in the
+// period. Charged lines are marked with how much of the period issued rental
+// invoices already bill. Amounts stay in each PO's currency.
+
+export type StatementInvoiceStatus = 'invoiced' | 'part_invoiced' | 'not_invoiced';
+
+export const STATEMENT_INVOICE_STATUS_LABELS: Record<StatementInvoiceStatus, string> = {
+  invoiced: 'Invoiced',
+  part_invoiced: 'Part invoiced',
+  not_invoiced: 'Not invoiced'
+};
+
+export interface StatementOrder {
+  id: string;
+  po_number: string;
+  project_id: string;
+  project_name: string;
+  po_date: string | null;
+  status: string;
+  currency: string;
+}
+
+// An invoice line with the currency of the PO it bills
+export interface StatementInvoiceLine extends TaxAmounts {
+  dn_item_id: string;
+  currency: string;
+}
+
+// A rental invoice of the vendor with the DN items it bills
+export interface StatementInvoice {
+  invoice_number: string;
+  project_id: string;
+  period_start: string;
+  period_end: string;
+  status: 'issued' | 'void';
+  lines: StatementInvoiceLine[];
+}
+
+export interface StatementItem {
+  id: string;
+  purchase_order_id: string;
+  po_number: string;
+  item_name: string;
+  delivery_date: string;
+  currency: string;
+  delivered_quantity: number;
+  // As of the end of the period
+  returned_quantity: number;
+  on_hire_quantity: number;
+  // Charges in the period; null when the item was not on hire in it
+  charge: RentalLineCharge | null;
+  tax: TaxTreatment;
+}
+
+export interface StatementLine extends TaxAmounts {
+  dn_item_id: string;
+  purchase_order_id: string;
+  po_number: string;
+  item_name: string;
+  delivery_date: string;
+  currency: string;
+  delivered_quantity: number;
+  returned_quantity: number;
+  on_hire_quantity: number;
+  days: number;
+  chargeable_days: number;
+  // Null when there is nothing to charge in the period
+  invoice_status: StatementInvoiceStatus | null;
+  invoice_numbers: string[];
+}
+
+export interface StatementOrderGroup extends StatementOrder {
+  delivered_quantity: number;
+  returned_quantity: number;
+  on_hire_quantity: number;
+  totals: TaxAmounts;
+  lines: StatementLine[];
+}
+
+// Totals of lines in one currency
+export interface StatementCurrencyTotal extends TaxAmounts {
+  currency: string;
+}
+
+// How much of the item's charged days in the period issued invoices bill.
+// Only invoices with a line for the item count; void ones never do.
+export function invoiceStatusOf(
+  itemId: string,
+  charge: RentalLineCharge,
+  invoices: StatementInvoice[]
+): { status: StatementInvoiceStatus; invoiceNumbers: string[] } {
+  const billing = invoices.filter(invoice => invoice.status === 'issued' && invoice.lines.some(line => line.dn_item_id === itemId));
+  if (charge.segments.length === 0 || billing.length === 0) {
+    return { status: 'not_invoiced', invoiceNumbers: [] };
+  }
+
+  // Charged days run from the segments' common start to the latest end (exclusive)
+  const from = charge.segments[0]!.startDate;
+  const to = charge.segments.reduce((end, segment) => (segment.endDate > end ? segment.endDate : end), from);
+
+  // Issued invoices of a project and vendor never overlap, so their days add up
+  const billed = billing.map(invoice => {
+    const start = invoice.period_start > from ? invoice.period_start : from;
+    const afterPeriod = addDays(invoice.period_end, 1);
+    return { invoice, days: daysBetween(start, afterPeriod < to ? afterPeriod : to) };
+  }).filter(({ days }) => days > 0);
+
+  const billedDays = billed.reduce((sum, { days }) => sum + days, 0);
+  if (billedDays === 0) {
+    return { status: 'not_invoiced', invoiceNumbers: [] };
+  }
+  return {
+    status: billedDays >= daysBetween(from, to) ? 'invoiced' : 'part_invoiced',
+    invoiceNumbers: billed.map(({ invoice }) => invoice.invoice_number).sort()
+  };
+}
+
+export function buildStatementLines(items: StatementItem[], invoices: StatementInvoice[]): StatementLine[] {
+  return items.map(item => {
+    const { status, invoiceNumbers } = item.charge
+      ? invoiceStatusOf(item.id, item.charge, invoices)
+      : { status: null, invoiceNumbers: [] };
+    return {
+      dn_item_id: item.id,
+      purchase_order_id: item.purchase_order_id,
+      po_number: item.po_number,
+      item_name: item.item_name,
+      delivery_date: item.delivery_date,
+      currency: item.currency,
+      delivered_quantity: item.delivered_quantity,
+      returned_quantity: item.returned_quantity,
+      on_hire_quantity: item.on_hire_quantity,
+      days: item.charge?.totalDays ?? 0,
+      chargeable_days: item.charge?.totalChargeableDays ?? 0,
+      ...calculateTax(item.charge?.amount ?? 0, item.tax),
+      invoice_status: status,
+      invoice_numbers: invoiceNumbers
+    };
+  });
+}
+
+// Every order of the vendor by PO number, including those with nothing
+// delivered yet
+export function groupStatementByOrder(orders: StatementOrder[], lines: StatementLine[]): StatementOrderGroup[] {
+  return [...orders]
+    .sort((a, b) => a.po_number.localeCompare(b.po_number))
+    .map(order => {
+      const orderLines = lines
+        .filter(line => line.purchase_order_id === order.id)
+        .sort((a, b) => a.item_name.localeCompare(b.item_name) || a.delivery_date.localeCompare(b.delivery_date));
+
+      return {
+        ...order,
+        delivered_quantity: orderLines.reduce((sum, line) => sum + line.delivered_quantity, 0),
+        returned_quantity: orderLines.reduce((sum, line) => sum + line.returned_quantity, 0),
+        on_hire_quantity: orderLines.reduce((sum, line) => sum + line.on_hire_quantity, 0),
+        totals: sumTaxAmounts(orderLines),
+        lines: orderLines
+      };
+    });
+}
+
+// Totals per currency, of statement lines or of an invoice's lines
+export function statementTotals(lines: (TaxAmounts & { currency: string })[]): StatementCurrencyTotal[] {
+  const currencies = Array.from(new Set(lines.map(line => line.currency))).sort();
+  return currencies.map(currency => ({
+    currency,
+    ...sumTaxAmounts(lines.filter(line => line.currency === currency))
+  }));
+}
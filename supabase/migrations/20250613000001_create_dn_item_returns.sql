@@ -0,0 +1,101 @@
+-- Migration: Return events ledger for DN items
+-- Every partial or full return is recorded as its own event instead of overwriting
+-- dn_items.returned_at, so each off-hire can be billed for its own number of days.
+-- Date: 2025-06-13
+
+CREATE TABLE public.dn_item_returns (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dn_item_id UUID REFERENCES public.dn_items(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  return_date DATE NOT NULL,
+  returned_by UUID REFERENCES public.users(id),
+  reference TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_dn_item_returns_dn_item_id ON public.dn_item_returns(dn_item_id);
+CREATE INDEX idx_dn_item_returns_return_date ON public.dn_item_returns(return_date);
+
+-- Backfill: existing aggregated returns become a single event dated at the last return
+INSERT INTO public.dn_item_returns (dn_item_id, quantity, return_date, reference)
+SELECT id, returned_quantity, COALESCE(returned_at, created_at)::date, 'Migrated from dn_items.returned_quantity'
+FROM public.dn_items
+WHERE returned_quantity > 0;
+
+-- Derive dn_items.returned_quantity, returned_at and status from the ledger
+CREATE OR REPLACE FUNCTION sync_dn_item_returns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_id UUID;
+  total_returned INTEGER;
+  last_return DATE;
+  delivered INTEGER;
+BEGIN
+  target_id := COALESCE(NEW.dn_item_id, OLD.dn_item_id);
+
+  SELECT COALESCE(SUM(quantity), 0), MAX(return_date)
+  INTO total_returned, last_return
+  FROM public.dn_item_returns
+  WHERE dn_item_id = target_id;
+
+  SELECT delivered_quantity INTO delivered FROM public.dn_items WHERE id = target_id;
+
+  IF total_returned > delivered THEN
+    RAISE EXCEPTION 'Cannot return more than delivered quantity (% > %)', total_returned, delivered;
+  END IF;
+
+  UPDATE public.dn_items
+  SET
+    returned_quantity = total_returned,
+    returned_at = last_return,
+    status = CASE
+      WHEN total_returned = 0 THEN 'delivered'::dn_item_status
+      WHEN total_returned >= delivered THEN 'fully_returned'::dn_item_status
+      ELSE 'partial_return'::dn_item_status
+    END
+  WHERE id = target_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_dn_item_returns_after_change
+AFTER INSERT OR UPDATE OR DELETE ON public.dn_item_returns
+FOR EACH ROW EXECUTE FUNCTION sync_dn_item_returns();
+
+-- RLS
+ALTER TABLE public.dn_item_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view returns for accessible dn items" ON public.dn_item_returns
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND EXISTS (
+    SELECT 1 FROM public.dn_items di
+    JOIN public.delivery_notes dn ON dn.id = di.delivery_note_id
+    JOIN public.purchase_orders po ON po.id = dn.purchase_order_id
+    WHERE di.id = dn_item_id
+    AND can_access_project(po.project_id)
+  )
+);
+
+CREATE POLICY "Managers and admins can record returns" ON public.dn_item_returns
+FOR INSERT
+TO authenticated
+WITH CHECK (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Managers and admins can correct returns" ON public.dn_item_returns
+FOR UPDATE
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Managers and admins can delete returns" ON public.dn_item_returns
+FOR DELETE
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.dn_item_returns IS 'Ledger of return events per DN item; dn_items.returned_quantity/returned_at/status are derived from it';
+COMMENT ON FUNCTION sync_dn_item_returns() IS 'Recomputes the derived return fields on dn_items whenever the return ledger changes';
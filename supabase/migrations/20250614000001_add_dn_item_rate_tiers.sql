@@ -0,0 +1,13 @@
+-- Migration: Rate tiers and minimum hire on DN items
+-- Vendors quote weekly and 4-week rates alongside the daily rate, plus a minimum
+-- hire period. The rental calculation picks the cheapest tier for the elapsed days.
+-- Date: 2025-06-14
+
+ALTER TABLE public.dn_items
+  ADD COLUMN weekly_rate DECIMAL(10,2) CHECK (weekly_rate >= 0),
+  ADD COLUMN four_week_rate DECIMAL(10,2) CHECK (four_week_rate >= 0),
+  ADD COLUMN minimum_hire_days INTEGER DEFAULT 0 NOT NULL CHECK (minimum_hire_days >= 0);
+
+COMMENT ON COLUMN public.dn_items.weekly_rate IS 'Optional rate per 7 days on hire';
+COMMENT ON COLUMN public.dn_items.four_week_rate IS 'Optional rate per 28 days on hire';
+COMMENT ON COLUMN public.dn_items.minimum_hire_days IS 'Minimum number of days charged once the units are returned';
@@ -0,0 +1,46 @@
+-- Migration: Vendor rate cards
+-- Agreed per-item rates for each vendor, used to prefill delivery note lines.
+-- DN lines remember the entry they were priced from and whether it was overridden.
+-- Date: 2025-06-15
+
+CREATE TABLE public.vendor_rate_cards (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE CASCADE NOT NULL,
+  item_name TEXT NOT NULL,
+  currency TEXT DEFAULT 'USD' NOT NULL,
+  daily_rate DECIMAL(8,2) NOT NULL CHECK (daily_rate >= 0),
+  weekly_rate DECIMAL(10,2) CHECK (weekly_rate >= 0),
+  four_week_rate DECIMAL(10,2) CHECK (four_week_rate >= 0),
+  minimum_hire_days INTEGER DEFAULT 0 NOT NULL CHECK (minimum_hire_days >= 0),
+  valid_from DATE NOT NULL,
+  valid_to DATE,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT vendor_rate_cards_valid_range CHECK (valid_to IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX idx_vendor_rate_cards_vendor_id ON public.vendor_rate_cards(vendor_id);
+CREATE INDEX idx_vendor_rate_cards_item ON public.vendor_rate_cards(vendor_id, lower(item_name));
+
+CREATE TRIGGER update_vendor_rate_cards_updated_at BEFORE UPDATE ON public.vendor_rate_cards FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.dn_items
+  ADD COLUMN rate_card_id UUID REFERENCES public.vendor_rate_cards(id) ON DELETE SET NULL,
+  ADD COLUMN rate_overridden BOOLEAN DEFAULT false NOT NULL;
+
+-- RLS
+ALTER TABLE public.vendor_rate_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view vendor rate cards" ON public.vendor_rate_cards
+FOR SELECT
+TO authenticated
+USING (is_authenticated_user());
+
+CREATE POLICY "Managers and admins can manage vendor rate cards" ON public.vendor_rate_cards
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.vendor_rate_cards IS 'Agreed per-item rates per vendor, valid over a date range';
+COMMENT ON COLUMN public.dn_items.rate_overridden IS 'True when the line rates differ from the matching rate card entry';
@@ -0,0 +1,42 @@
+-- Migration: Rate history for DN items
+-- Records vendor price changes part-way through a hire. The rates on dn_items apply
+-- from delivery; each row here applies from its effective date until the next one.
+-- Date: 2025-06-16
+
+CREATE TABLE public.dn_item_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dn_item_id UUID REFERENCES public.dn_items(id) ON DELETE CASCADE NOT NULL,
+  effective_from DATE NOT NULL,
+  daily_rate DECIMAL(8,2) NOT NULL CHECK (daily_rate >= 0),
+  weekly_rate DECIMAL(10,2) CHECK (weekly_rate >= 0),
+  four_week_rate DECIMAL(10,2) CHECK (four_week_rate >= 0),
+  reason TEXT,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT dn_item_rates_unique_effective_date UNIQUE (dn_item_id, effective_from)
+);
+
+CREATE INDEX idx_dn_item_rates_dn_item_id ON public.dn_item_rates(dn_item_id);
+
+-- RLS
+ALTER TABLE public.dn_item_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rate history for accessible dn items" ON public.dn_item_rates
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND EXISTS (
+    SELECT 1 FROM public.dn_items di
+    JOIN public.delivery_notes dn ON dn.id = di.delivery_note_id
+    JOIN public.purchase_orders po ON po.id = dn.purchase_order_id
+    WHERE di.id = dn_item_id
+    AND can_access_project(po.project_id)
+  )
+);
+
+CREATE POLICY "Managers and admins can manage rate history" ON public.dn_item_rates
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.dn_item_rates IS 'Rate changes per DN item, effective from a date until the next change';
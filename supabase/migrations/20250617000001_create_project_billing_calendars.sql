@@ -0,0 +1,38 @@
+-- Migration: Project billing calendars
+-- Lets a project exclude weekends, public holidays and site shutdowns from
+-- chargeable rental days. Holidays are single-day periods.
+-- Date: 2025-06-17
+
+ALTER TABLE public.projects
+  ADD COLUMN exclude_weekends BOOLEAN DEFAULT FALSE NOT NULL;
+
+CREATE TABLE public.project_non_chargeable_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('holiday', 'shutdown')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT project_non_chargeable_periods_valid_range CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_project_non_chargeable_periods_project_id ON public.project_non_chargeable_periods(project_id);
+
+-- RLS
+ALTER TABLE public.project_non_chargeable_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view billing calendars for accessible projects" ON public.project_non_chargeable_periods
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND can_access_project(project_id)
+);
+
+CREATE POLICY "Managers and admins can manage billing calendars" ON public.project_non_chargeable_periods
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON COLUMN public.projects.exclude_weekends IS 'Saturdays and Sundays are not chargeable rental days';
+COMMENT ON TABLE public.project_non_chargeable_periods IS 'Holidays and shutdowns excluded from chargeable rental days, inclusive of both dates';
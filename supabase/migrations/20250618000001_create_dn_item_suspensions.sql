@@ -0,0 +1,41 @@
+-- Migration: Rental suspensions on DN items
+-- Records periods where the vendor agreed to stop charging for equipment that
+-- stays on site, e.g. a breakdown awaiting repair. Both dates are inclusive;
+-- a suspension without an end date is still running.
+-- Date: 2025-06-18
+
+CREATE TABLE public.dn_item_suspensions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dn_item_id UUID REFERENCES public.dn_items(id) ON DELETE CASCADE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT dn_item_suspensions_valid_range CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_dn_item_suspensions_dn_item_id ON public.dn_item_suspensions(dn_item_id);
+
+-- RLS
+ALTER TABLE public.dn_item_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suspensions for accessible dn items" ON public.dn_item_suspensions
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND EXISTS (
+    SELECT 1 FROM public.dn_items di
+    JOIN public.delivery_notes dn ON dn.id = di.delivery_note_id
+    JOIN public.purchase_orders po ON po.id = dn.purchase_order_id
+    WHERE di.id = dn_item_id
+    AND can_access_project(po.project_id)
+  )
+);
+
+CREATE POLICY "Managers and admins can manage suspensions" ON public.dn_item_suspensions
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.dn_item_suspensions IS 'Agreed pauses in rental charging per DN item, inclusive of both dates';
@@ -0,0 +1,126 @@
+-- Migration: Rental invoices
+-- An invoicing run closes a billing period for one project and vendor and
+-- freezes the computed charges as invoice lines. Issued invoices for the same
+-- project and vendor may not overlap, so hire days cannot be billed twice.
+-- Voiding an invoice releases its period for a new run.
+-- Date: 2025-06-19
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE SEQUENCE public.rental_invoice_number_seq;
+
+CREATE TABLE public.rental_invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number TEXT UNIQUE NOT NULL
+    DEFAULT 'RI-' || LPAD(nextval('public.rental_invoice_number_seq')::TEXT, 6, '0'),
+  project_id UUID REFERENCES public.projects(id) NOT NULL,
+  vendor_id UUID REFERENCES public.vendors(id) NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT DEFAULT 'issued' NOT NULL CHECK (status IN ('issued', 'void')),
+  total_amount DECIMAL(12,2) DEFAULT 0 NOT NULL,
+  created_by UUID REFERENCES public.users(id) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  voided_at TIMESTAMPTZ,
+  CONSTRAINT rental_invoices_valid_period CHECK (period_end >= period_start),
+  CONSTRAINT rental_invoices_no_double_billing EXCLUDE USING gist (
+    project_id WITH =,
+    vendor_id WITH =,
+    daterange(period_start, period_end, '[]') WITH &&
+  ) WHERE (status = 'issued')
+);
+
+CREATE TABLE public.rental_invoice_lines (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID REFERENCES public.rental_invoices(id) ON DELETE CASCADE NOT NULL,
+  dn_item_id UUID REFERENCES public.dn_items(id) NOT NULL,
+  po_number TEXT NOT NULL,
+  item_name TEXT NOT NULL,
+  delivered_quantity INTEGER NOT NULL,
+  returned_quantity INTEGER NOT NULL,
+  calendar_days INTEGER NOT NULL,
+  chargeable_days INTEGER NOT NULL,
+  unit_days INTEGER NOT NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  detail JSONB DEFAULT '[]'::JSONB NOT NULL,
+  CONSTRAINT rental_invoice_lines_unique_item UNIQUE (invoice_id, dn_item_id)
+);
+
+CREATE INDEX idx_rental_invoices_project_vendor ON public.rental_invoices(project_id, vendor_id);
+CREATE INDEX idx_rental_invoice_lines_invoice_id ON public.rental_invoice_lines(invoice_id);
+CREATE INDEX idx_rental_invoice_lines_dn_item_id ON public.rental_invoice_lines(dn_item_id);
+
+-- Invoices are frozen: only the status may change after issue
+CREATE OR REPLACE FUNCTION prevent_rental_invoice_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id <> OLD.project_id
+    OR NEW.vendor_id <> OLD.vendor_id
+    OR NEW.period_start <> OLD.period_start
+    OR NEW.period_end <> OLD.period_end
+    OR NEW.total_amount <> OLD.total_amount
+    OR NEW.invoice_number <> OLD.invoice_number THEN
+    RAISE EXCEPTION 'Issued rental invoices cannot be changed, void and re-run instead';
+  END IF;
+
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'A void rental invoice cannot be reissued';
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    NEW.voided_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER rental_invoices_frozen
+  BEFORE UPDATE ON public.rental_invoices
+  FOR EACH ROW EXECUTE FUNCTION prevent_rental_invoice_changes();
+
+-- RLS
+ALTER TABLE public.rental_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rental_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rental invoices for accessible projects" ON public.rental_invoices
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND can_access_project(project_id)
+);
+
+CREATE POLICY "Managers and admins can issue rental invoices" ON public.rental_invoices
+FOR INSERT
+TO authenticated
+WITH CHECK (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Managers and admins can void rental invoices" ON public.rental_invoices
+FOR UPDATE
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Managers and admins can remove unfinished rental invoices" ON public.rental_invoices
+FOR DELETE
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Users can view lines of accessible rental invoices" ON public.rental_invoice_lines
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND EXISTS (
+    SELECT 1 FROM public.rental_invoices ri
+    WHERE ri.id = invoice_id
+    AND can_access_project(ri.project_id)
+  )
+);
+
+CREATE POLICY "Managers and admins can add rental invoice lines" ON public.rental_invoice_lines
+FOR INSERT
+TO authenticated
+WITH CHECK (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.rental_invoices IS 'Closed rental billing periods per project and vendor; issued periods never overlap';
+COMMENT ON TABLE public.rental_invoice_lines IS 'Rental charges frozen at invoicing, one row per DN item';
+COMMENT ON COLUMN public.rental_invoice_lines.detail IS 'Charge segments from the rental engine at the time of invoicing';
@@ -0,0 +1,73 @@
+-- Migration: Vendor invoice reconciliation
+-- Imported vendor invoices are matched against the rental charges computed for
+-- the vendor's DN items over the invoice period. Each reconciliation line keeps
+-- both sides as imported and computed, and the variance can be accepted or disputed.
+-- Date: 2025-06-20
+
+CREATE TABLE public.vendor_invoice_imports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_id UUID REFERENCES public.vendors(id) NOT NULL,
+  vendor_invoice_number TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  file_name TEXT,
+  imported_by UUID REFERENCES public.users(id) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT vendor_invoice_imports_valid_period CHECK (period_end >= period_start),
+  CONSTRAINT vendor_invoice_imports_unique_number UNIQUE (vendor_id, vendor_invoice_number)
+);
+
+CREATE TABLE public.vendor_invoice_lines (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  import_id UUID REFERENCES public.vendor_invoice_imports(id) ON DELETE CASCADE NOT NULL,
+  po_number TEXT NOT NULL,
+  item_name TEXT NOT NULL,
+  match_status TEXT NOT NULL
+    CHECK (match_status IN ('matched', 'variance', 'not_in_records', 'missing_from_vendor')),
+  -- As invoiced by the vendor; null when the vendor did not bill the item
+  vendor_line_number INTEGER,
+  vendor_quantity INTEGER,
+  vendor_days INTEGER,
+  vendor_rate DECIMAL(10,2),
+  vendor_amount DECIMAL(12,2),
+  -- As computed by the rental engine; null when we have no record of the item
+  dn_item_ids UUID[] DEFAULT '{}' NOT NULL,
+  computed_quantity INTEGER,
+  computed_days INTEGER,
+  computed_rate DECIMAL(10,2),
+  computed_amount DECIMAL(12,2),
+  resolution TEXT DEFAULT 'pending' NOT NULL CHECK (resolution IN ('pending', 'accepted', 'disputed')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.users(id),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_vendor_invoice_imports_vendor_id ON public.vendor_invoice_imports(vendor_id);
+CREATE INDEX idx_vendor_invoice_lines_import_id ON public.vendor_invoice_lines(import_id);
+
+-- RLS
+ALTER TABLE public.vendor_invoice_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendor_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view vendor invoice imports" ON public.vendor_invoice_imports
+FOR SELECT
+TO authenticated
+USING (is_authenticated_user());
+
+CREATE POLICY "Managers and admins can manage vendor invoice imports" ON public.vendor_invoice_imports
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Authenticated users can view vendor invoice lines" ON public.vendor_invoice_lines
+FOR SELECT
+TO authenticated
+USING (is_authenticated_user());
+
+CREATE POLICY "Managers and admins can manage vendor invoice lines" ON public.vendor_invoice_lines
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.vendor_invoice_imports IS 'Vendor invoices imported from CSV for reconciliation';
+COMMENT ON TABLE public.vendor_invoice_lines IS 'Vendor invoice lines matched against computed rental charges, with the variance resolution';
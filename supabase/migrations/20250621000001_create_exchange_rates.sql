@@ -0,0 +1,40 @@
+-- Migration: Reporting currencies and exchange rates
+-- Gives every project a reporting currency and stores dated exchange rates so
+-- purchase orders in other currencies can be converted in reports. A rate
+-- applies from its date until a later rate for the same pair is recorded.
+-- Date: 2025-06-21
+
+ALTER TABLE public.projects
+  ADD COLUMN reporting_currency TEXT DEFAULT 'USD' NOT NULL
+    CONSTRAINT projects_reporting_currency_code CHECK (reporting_currency ~ '^[A-Z]{3}$');
+
+CREATE TABLE public.exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT DEFAULT 'manual' NOT NULL CHECK (source IN ('manual', 'import')),
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_pair_date_key UNIQUE (from_currency, to_currency, rate_date)
+);
+
+CREATE INDEX idx_exchange_rates_rate_date ON public.exchange_rates(rate_date);
+
+-- RLS
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates" ON public.exchange_rates
+FOR SELECT
+TO authenticated
+USING (is_authenticated_user());
+
+CREATE POLICY "Managers and admins can manage exchange rates" ON public.exchange_rates
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON COLUMN public.projects.reporting_currency IS 'Currency that report and dashboard totals for the project are converted to';
+COMMENT ON TABLE public.exchange_rates IS 'Dated exchange rates; one unit of from_currency is worth rate units of to_currency';
@@ -0,0 +1,101 @@
+-- Migration: Tax codes
+-- Adds a catalogue of tax codes (rate and whether prices include the tax), a
+-- default code per vendor and a per-line override on PO items. The rate and
+-- treatment are copied onto each PO item so later edits to a code do not
+-- change existing orders, rental charges or invoices.
+-- Date: 2025-06-22
+
+CREATE TABLE public.tax_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  rate DECIMAL(6,3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  is_inclusive BOOLEAN DEFAULT FALSE NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.vendors
+  ADD COLUMN default_tax_code_id UUID REFERENCES public.tax_codes(id);
+
+ALTER TABLE public.po_items
+  ADD COLUMN tax_code_id UUID REFERENCES public.tax_codes(id),
+  ADD COLUMN tax_rate DECIMAL(6,3) DEFAULT 0 NOT NULL,
+  ADD COLUMN tax_inclusive BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN net_amount DECIMAL(10,2),
+  ADD COLUMN tax_amount DECIMAL(10,2) DEFAULT 0 NOT NULL;
+
+-- total_amount on purchase orders is the gross amount from here on
+ALTER TABLE public.purchase_orders
+  ADD COLUMN net_amount DECIMAL(10,2),
+  ADD COLUMN tax_amount DECIMAL(10,2) DEFAULT 0 NOT NULL;
+
+ALTER TABLE public.rental_invoices
+  ADD COLUMN net_amount DECIMAL(12,2),
+  ADD COLUMN tax_amount DECIMAL(12,2) DEFAULT 0 NOT NULL;
+
+ALTER TABLE public.rental_invoice_lines
+  ADD COLUMN tax_rate DECIMAL(6,3) DEFAULT 0 NOT NULL,
+  ADD COLUMN tax_inclusive BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN net_amount DECIMAL(12,2),
+  ADD COLUMN tax_amount DECIMAL(12,2) DEFAULT 0 NOT NULL,
+  ADD COLUMN gross_amount DECIMAL(12,2);
+
+-- Everything recorded before tax codes existed was untaxed
+UPDATE public.po_items SET net_amount = line_total;
+UPDATE public.purchase_orders SET net_amount = total_amount;
+UPDATE public.rental_invoices SET net_amount = total_amount;
+UPDATE public.rental_invoice_lines SET net_amount = amount, gross_amount = amount;
+
+ALTER TABLE public.rental_invoices ALTER COLUMN net_amount SET NOT NULL;
+ALTER TABLE public.rental_invoice_lines ALTER COLUMN net_amount SET NOT NULL;
+ALTER TABLE public.rental_invoice_lines ALTER COLUMN gross_amount SET NOT NULL;
+
+CREATE INDEX idx_po_items_tax_code_id ON public.po_items(tax_code_id);
+
+-- Tax amounts are frozen with the rest of an issued invoice
+CREATE OR REPLACE FUNCTION prevent_rental_invoice_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id <> OLD.project_id
+    OR NEW.vendor_id <> OLD.vendor_id
+    OR NEW.period_start <> OLD.period_start
+    OR NEW.period_end <> OLD.period_end
+    OR NEW.total_amount <> OLD.total_amount
+    OR NEW.net_amount IS DISTINCT FROM OLD.net_amount
+    OR NEW.tax_amount <> OLD.tax_amount
+    OR NEW.invoice_number <> OLD.invoice_number THEN
+    RAISE EXCEPTION 'Issued rental invoices cannot be changed, void and re-run instead';
+  END IF;
+
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'A void rental invoice cannot be reissued';
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    NEW.voided_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE public.tax_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view tax codes" ON public.tax_codes
+FOR SELECT
+TO authenticated
+USING (is_authenticated_user());
+
+CREATE POLICY "Managers and admins can manage tax codes" ON public.tax_codes
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.tax_codes IS 'Tax codes; rate is a percentage, is_inclusive means prices already contain the tax';
+COMMENT ON COLUMN public.vendors.default_tax_code_id IS 'Tax code applied to PO items of the vendor unless the line overrides it';
+COMMENT ON COLUMN public.po_items.tax_code_id IS 'Tax code of the line, the vendor default unless overridden';
+COMMENT ON COLUMN public.po_items.tax_rate IS 'Rate of the tax code when the line was saved; also applied to rental charges of the item';
+COMMENT ON COLUMN public.purchase_orders.total_amount IS 'Gross order value including tax';
+COMMENT ON COLUMN public.rental_invoices.total_amount IS 'Gross invoice value including tax';
@@ -0,0 +1,109 @@
+-- Migration: Project budgets
+-- Adds a cost code catalogue per project, a cost code on PO items and budgets
+-- per project, either for the whole project or for one cost code. Budgets are
+-- in the project reporting currency. Crossing an alert threshold (a percentage
+-- of the budget) is recorded once per budget, threshold and measure so
+-- managers can be warned and acknowledge it.
+-- Date: 2025-06-23
+
+CREATE TABLE public.project_cost_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT project_cost_codes_unique_code UNIQUE (project_id, code)
+);
+
+ALTER TABLE public.po_items
+  ADD COLUMN cost_code_id UUID REFERENCES public.project_cost_codes(id);
+
+CREATE TABLE public.project_budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  cost_code_id UUID REFERENCES public.project_cost_codes(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  alert_thresholds INTEGER[] DEFAULT '{80,100}' NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- One whole-project budget and one budget per cost code
+CREATE UNIQUE INDEX idx_project_budgets_unique_scope ON public.project_budgets(
+  project_id,
+  COALESCE(cost_code_id, '00000000-0000-0000-0000-000000000000'::UUID)
+);
+
+CREATE TABLE public.budget_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.project_budgets(id) ON DELETE CASCADE NOT NULL,
+  threshold INTEGER NOT NULL,
+  measure TEXT NOT NULL CHECK (measure IN ('committed', 'incurred', 'forecast')),
+  spend_amount DECIMAL(12,2) NOT NULL,
+  budget_amount DECIMAL(12,2) NOT NULL,
+  crossed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  acknowledged_by UUID REFERENCES public.users(id),
+  acknowledged_at TIMESTAMPTZ,
+  CONSTRAINT budget_alerts_unique_crossing UNIQUE (budget_id, threshold, measure)
+);
+
+CREATE INDEX idx_project_cost_codes_project_id ON public.project_cost_codes(project_id);
+CREATE INDEX idx_po_items_cost_code_id ON public.po_items(cost_code_id);
+CREATE INDEX idx_budget_alerts_open ON public.budget_alerts(budget_id) WHERE acknowledged_at IS NULL;
+
+CREATE TRIGGER update_project_budgets_updated_at
+  BEFORE UPDATE ON public.project_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.project_cost_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cost codes for accessible projects" ON public.project_cost_codes
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND can_access_project(project_id)
+);
+
+CREATE POLICY "Managers and admins can manage cost codes" ON public.project_cost_codes
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Users can view budgets for accessible projects" ON public.project_budgets
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND can_access_project(project_id)
+);
+
+CREATE POLICY "Managers and admins can manage budgets" ON public.project_budgets
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+CREATE POLICY "Users can view alerts for accessible budgets" ON public.budget_alerts
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND EXISTS (
+    SELECT 1 FROM public.project_budgets pb
+    WHERE pb.id = budget_id
+    AND can_access_project(pb.project_id)
+  )
+);
+
+CREATE POLICY "Managers and admins can acknowledge budget alerts" ON public.budget_alerts
+FOR UPDATE
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.project_cost_codes IS 'Cost codes (WBS elements) that project spend is booked against';
+COMMENT ON COLUMN public.po_items.cost_code_id IS 'Cost code the line and its rental charges are booked against';
+COMMENT ON TABLE public.project_budgets IS 'Budgets in the project reporting currency; cost_code_id NULL is the whole-project budget';
+COMMENT ON COLUMN public.project_budgets.alert_thresholds IS 'Percentages of the budget at which managers are warned';
+COMMENT ON TABLE public.budget_alerts IS 'Threshold crossings, recorded by the budget status function with the service role';
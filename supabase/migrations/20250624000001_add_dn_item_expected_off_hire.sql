@@ -0,0 +1,10 @@
+-- Migration: Expected off-hire date on DN items
+-- Site teams record when they expect to send equipment back. The rental forecast
+-- projects units still on hire to this date, or to the project end date when it
+-- is not set.
+-- Date: 2025-06-24
+
+ALTER TABLE public.dn_items
+  ADD COLUMN expected_off_hire_date DATE;
+
+COMMENT ON COLUMN public.dn_items.expected_off_hire_date IS 'Last day the remaining units are expected to be on hire';
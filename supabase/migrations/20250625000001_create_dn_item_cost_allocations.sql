@@ -0,0 +1,58 @@
+-- Migration: Cost code allocations on DN items
+-- Splits a DN line's rental charges across several project cost codes by
+-- percentage. Whatever is not allocated stays on the PO item's cost code.
+-- Date: 2025-06-25
+
+CREATE TABLE public.dn_item_cost_allocations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dn_item_id UUID REFERENCES public.dn_items(id) ON DELETE CASCADE NOT NULL,
+  cost_code_id UUID REFERENCES public.project_cost_codes(id) ON DELETE CASCADE NOT NULL,
+  percentage DECIMAL(5,2) NOT NULL CHECK (percentage > 0 AND percentage <= 100),
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT dn_item_cost_allocations_unique_code UNIQUE (dn_item_id, cost_code_id)
+);
+
+CREATE INDEX idx_dn_item_cost_allocations_dn_item_id ON public.dn_item_cost_allocations(dn_item_id);
+
+-- A line cannot be allocated more than its full charge
+CREATE OR REPLACE FUNCTION check_dn_item_cost_allocation_total()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    SELECT COALESCE(SUM(percentage), 0)
+    FROM public.dn_item_cost_allocations
+    WHERE dn_item_id = NEW.dn_item_id
+  ) > 100 THEN
+    RAISE EXCEPTION 'Cost allocations for DN item % exceed 100%%', NEW.dn_item_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_dn_item_cost_allocation_total
+  AFTER INSERT OR UPDATE ON public.dn_item_cost_allocations
+  FOR EACH ROW EXECUTE FUNCTION check_dn_item_cost_allocation_total();
+
+-- RLS
+ALTER TABLE public.dn_item_cost_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cost allocations for accessible dn items" ON public.dn_item_cost_allocations
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND EXISTS (
+    SELECT 1 FROM public.dn_items di
+    JOIN public.delivery_notes dn ON dn.id = di.delivery_note_id
+    JOIN public.purchase_orders po ON po.id = dn.purchase_order_id
+    WHERE di.id = dn_item_id
+    AND can_access_project(po.project_id)
+  )
+);
+
+CREATE POLICY "Managers and admins can manage cost allocations" ON public.dn_item_cost_allocations
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.dn_item_cost_allocations IS 'Percentage split of a DN item''s rental charges across project cost codes; the unallocated rest stays on the PO item''s cost code';
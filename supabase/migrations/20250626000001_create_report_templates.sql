@@ -0,0 +1,47 @@
+-- Migration: Report templates
+-- Adds branding for generated documents: company name, logo, address, footer
+-- text and the table columns shown on the rental report, rental invoices and
+-- delivery note prints. A template without a project is the organisation
+-- default; a project template replaces it for that project's documents.
+-- Date: 2025-06-26
+
+CREATE TABLE public.report_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  company_name TEXT NOT NULL,
+  -- Stored inline so rendering never fetches anything over the network
+  logo_data_url TEXT CHECK (logo_data_url IS NULL OR logo_data_url ~ '^data:image/(png|jpeg);base64,'),
+  address TEXT,
+  footer_text TEXT,
+  columns JSONB DEFAULT '{}' NOT NULL,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- One organisation default and one template per project
+CREATE UNIQUE INDEX idx_report_templates_unique_scope ON public.report_templates(
+  COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::UUID)
+);
+
+CREATE TRIGGER update_report_templates_updated_at
+  BEFORE UPDATE ON public.report_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS
+ALTER TABLE public.report_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the default and accessible project templates" ON public.report_templates
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND (project_id IS NULL OR can_access_project(project_id))
+);
+
+CREATE POLICY "Managers and admins can manage report templates" ON public.report_templates
+FOR ALL
+TO authenticated
+USING (has_any_role(ARRAY['admin', 'manager']));
+
+COMMENT ON TABLE public.report_templates IS 'Branding of generated documents; project_id NULL is the organisation default';
+COMMENT ON COLUMN public.report_templates.columns IS 'Selected table columns per document, e.g. {"rental_report": ["po_number", "amount"]}; a missing document shows all columns';
@@ -0,0 +1,58 @@
+-- Migration: Report snapshots
+-- Keeps every generated rental report PDF in the private report-snapshots
+-- storage bucket with its input parameters, generating user, time and the
+-- SHA-256 of the file, so a report handed out earlier can be downloaded again
+-- and shown to be unchanged. Snapshots are never updated or deleted.
+-- Date: 2025-06-27
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('report-snapshots', 'report-snapshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.report_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) NOT NULL,
+  report_type TEXT DEFAULT 'rental_report' NOT NULL CHECK (report_type IN ('rental_report')),
+  -- The request the report was generated from: period, grouping and sort order
+  parameters JSONB NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  byte_size INTEGER NOT NULL CHECK (byte_size > 0),
+  generated_by UUID REFERENCES public.users(id) NOT NULL,
+  generated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_report_snapshots_project ON public.report_snapshots(project_id, generated_at DESC);
+
+-- Rows are written once; a changed record would defeat the hash
+CREATE OR REPLACE FUNCTION prevent_report_snapshot_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Report snapshots cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER report_snapshots_immutable
+  BEFORE UPDATE OR DELETE ON public.report_snapshots
+  FOR EACH ROW EXECUTE FUNCTION prevent_report_snapshot_change();
+
+-- RLS
+ALTER TABLE public.report_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view snapshots of accessible projects" ON public.report_snapshots
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND can_access_project(project_id)
+);
+
+CREATE POLICY "Users can record their own snapshots of accessible projects" ON public.report_snapshots
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  is_authenticated_user() AND generated_by = auth.uid() AND can_access_project(project_id)
+);
+
+COMMENT ON TABLE public.report_snapshots IS 'Generated report files kept in the report-snapshots bucket; rows cannot be updated or deleted';
+COMMENT ON COLUMN public.report_snapshots.sha256 IS 'Lower-case hex SHA-256 of the stored file, taken when it was generated';
@@ -0,0 +1,45 @@
+-- Migration: Report jobs
+-- Rental report PDFs are rendered in the background. A request queues a job,
+-- the report worker renders the PDF and stores it as a report snapshot, and
+-- the page polls the job until it has completed or failed with a reason.
+-- Date: 2025-06-28
+
+CREATE TABLE public.report_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) NOT NULL,
+  report_type TEXT DEFAULT 'rental_report' NOT NULL CHECK (report_type IN ('rental_report')),
+  parameters JSONB NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  -- Set once the PDF has been stored
+  snapshot_id UUID REFERENCES public.report_snapshots(id),
+  error_message TEXT,
+  requested_by UUID REFERENCES public.users(id) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  CHECK (status <> 'completed' OR snapshot_id IS NOT NULL),
+  CHECK (status <> 'failed' OR error_message IS NOT NULL)
+);
+
+CREATE INDEX idx_report_jobs_requested_by ON public.report_jobs(requested_by, created_at DESC);
+CREATE INDEX idx_report_jobs_status ON public.report_jobs(status) WHERE status IN ('queued', 'running');
+
+-- RLS; the worker updates jobs with the service role
+ALTER TABLE public.report_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own report jobs" ON public.report_jobs
+FOR SELECT
+TO authenticated
+USING (
+  is_authenticated_user() AND requested_by = auth.uid()
+);
+
+CREATE POLICY "Users can queue report jobs for accessible projects" ON public.report_jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  is_authenticated_user() AND requested_by = auth.uid() AND status = 'queued' AND can_access_project(project_id)
+);
+
+COMMENT ON TABLE public.report_jobs IS 'Background report rendering; the worker moves jobs from queued to running to completed or failed';
+COMMENT ON COLUMN public.report_jobs.error_message IS 'Why the job failed, shown to the user';
@@ -0,0 +1,49 @@
+-- Migration: Restrict report job parameters
+-- The report worker runs jobs with the service role, so a job may only carry
+-- the rental report options. The project is the job's own project_id column,
+-- which the insert policy checks; parameters never name another one.
+-- Date: 2025-06-30
+
+CREATE OR REPLACE FUNCTION public.report_job_parameters_valid(p_parameters JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- Keys are only read from objects
+  SELECT CASE WHEN jsonb_typeof(p_parameters) <> 'object' THEN false ELSE
+    p_parameters ?& ARRAY['startDate', 'endDate']
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_object_keys(p_parameters) AS parameter(key)
+      WHERE parameter.key NOT IN ('startDate', 'endDate', 'groupBy', 'sortBy', 'sortDirection', 'groupLinesBy')
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(p_parameters) AS parameter(key, value)
+      WHERE jsonb_typeof(parameter.value) <> 'string'
+    )
+    AND p_parameters->>'startDate' ~ '^\d{4}-\d{2}-\d{2}$'
+    AND p_parameters->>'endDate' ~ '^\d{4}-\d{2}-\d{2}$'
+    AND p_parameters->>'startDate' <= p_parameters->>'endDate'
+    AND COALESCE(p_parameters->>'groupBy', 'none') IN ('none', 'cost_code')
+    AND COALESCE(p_parameters->>'sortBy', 'po_number') IN (
+      'po_number', 'item_name', 'vendor_name', 'status', 'delivery_date', 'chargeable_days', 'reporting_net', 'reporting_gross'
+    )
+    AND COALESCE(p_parameters->>'sortDirection', 'asc') IN ('asc', 'desc')
+    AND COALESCE(p_parameters->>'groupLinesBy', 'none') IN ('none', 'vendor', 'po', 'status')
+  END;
+$$;
+
+DROP POLICY "Users can queue report jobs for accessible projects" ON public.report_jobs;
+
+CREATE POLICY "Users can queue report jobs for accessible projects" ON public.report_jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  is_authenticated_user() AND requested_by = auth.uid() AND status = 'queued' AND can_access_project(project_id)
+  AND report_job_parameters_valid(parameters)
+);
+
+GRANT EXECUTE ON FUNCTION public.report_job_parameters_valid(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.report_job_parameters_valid(JSONB) IS 'Whether report job parameters hold only the rental report options, as the report worker expects';
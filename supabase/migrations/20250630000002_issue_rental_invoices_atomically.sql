@@ -0,0 +1,70 @@
+-- Migration: Issue rental invoices atomically
+-- An invoicing run inserted the invoice and then its lines in separate
+-- requests, deleting the invoice again when the lines failed. If that delete
+-- failed too, an invoice without lines kept holding its billing period.
+-- issue_rental_invoice inserts both in one transaction instead.
+-- Date: 2025-06-30
+
+-- Runs as the caller, so the invoice and line insert policies still apply
+CREATE OR REPLACE FUNCTION public.issue_rental_invoice(
+  p_project_id UUID,
+  p_vendor_id UUID,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_net_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_total_amount NUMERIC,
+  p_lines JSONB
+)
+RETURNS TABLE (id UUID, invoice_number TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_invoice public.rental_invoices%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A rental invoice needs at least one line' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.rental_invoices (
+    project_id, vendor_id, period_start, period_end, net_amount, tax_amount, total_amount, created_by
+  )
+  VALUES (
+    p_project_id, p_vendor_id, p_period_start, p_period_end, p_net_amount, p_tax_amount, p_total_amount, auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO public.rental_invoice_lines (
+    invoice_id, dn_item_id, po_number, item_name, delivered_quantity, returned_quantity, calendar_days,
+    chargeable_days, unit_days, amount, tax_rate, tax_inclusive, net_amount, tax_amount, gross_amount, detail
+  )
+  SELECT
+    v_invoice.id, line.dn_item_id, line.po_number, line.item_name, line.delivered_quantity, line.returned_quantity,
+    line.calendar_days, line.chargeable_days, line.unit_days, line.amount, line.tax_rate, line.tax_inclusive,
+    line.net_amount, line.tax_amount, line.gross_amount, COALESCE(line.detail, '[]'::JSONB)
+  FROM jsonb_to_recordset(p_lines) AS line(
+    dn_item_id UUID,
+    po_number TEXT,
+    item_name TEXT,
+    delivered_quantity INTEGER,
+    returned_quantity INTEGER,
+    calendar_days INTEGER,
+    chargeable_days INTEGER,
+    unit_days INTEGER,
+    amount NUMERIC,
+    tax_rate NUMERIC,
+    tax_inclusive BOOLEAN,
+    net_amount NUMERIC,
+    tax_amount NUMERIC,
+    gross_amount NUMERIC,
+    detail JSONB
+  );
+
+  RETURN QUERY SELECT v_invoice.id, v_invoice.invoice_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_rental_invoice(UUID, UUID, DATE, DATE, NUMERIC, NUMERIC, NUMERIC, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.issue_rental_invoice(UUID, UUID, DATE, DATE, NUMERIC, NUMERIC, NUMERIC, JSONB) IS 'Issues a rental invoice with its lines in one transaction';
@@ -0,0 +1,8 @@
+-- Migration: Remove rental invoice deletes
+-- Managers could delete any rental invoice, issued ones included, which got
+-- round the freeze trigger and released the period for billing again. Runs now
+-- issue invoices with their lines in one transaction, so nothing needs
+-- removing after a failed run; voiding is the only way to release a period.
+-- Date: 2025-06-30
+
+DROP POLICY "Managers and admins can remove unfinished rental invoices" ON public.rental_invoices;
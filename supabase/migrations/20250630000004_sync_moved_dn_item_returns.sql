@@ -0,0 +1,64 @@
+-- Migration: Sync both DN items when a return moves
+-- The return ledger trigger recomputed only the new DN item when an update
+-- moved a return to another item, so the old item kept its returned quantity
+-- and status. Both are recomputed now.
+-- Date: 2025-06-30
+
+-- Derive dn_items.returned_quantity, returned_at and status from the ledger
+CREATE OR REPLACE FUNCTION recompute_dn_item_returns(target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  total_returned INTEGER;
+  last_return DATE;
+  delivered INTEGER;
+BEGIN
+  SELECT COALESCE(SUM(quantity), 0), MAX(return_date)
+  INTO total_returned, last_return
+  FROM public.dn_item_returns
+  WHERE dn_item_id = target_id;
+
+  SELECT delivered_quantity INTO delivered FROM public.dn_items WHERE id = target_id;
+
+  IF total_returned > delivered THEN
+    RAISE EXCEPTION 'Cannot return more than delivered quantity (% > %)', total_returned, delivered;
+  END IF;
+
+  UPDATE public.dn_items
+  SET
+    returned_quantity = total_returned,
+    returned_at = last_return,
+    status = CASE
+      WHEN total_returned = 0 THEN 'delivered'::dn_item_status
+      WHEN total_returned >= delivered THEN 'fully_returned'::dn_item_status
+      ELSE 'partial_return'::dn_item_status
+    END
+  WHERE id = target_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_dn_item_returns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recompute_dn_item_returns(NEW.dn_item_id);
+  END IF;
+
+  -- A deleted return, or one moved to another item, leaves the old item to update
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.dn_item_id <> NEW.dn_item_id) THEN
+    PERFORM recompute_dn_item_returns(OLD.dn_item_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recompute_dn_item_returns(UUID) FROM PUBLIC;
+
+COMMENT ON FUNCTION recompute_dn_item_returns(UUID) IS 'Recomputes the derived return fields of one DN item from the return ledger';
+COMMENT ON FUNCTION sync_dn_item_returns() IS 'Recomputes the derived return fields on dn_items whenever the return ledger changes, for the old and new item when a return moves';
@@ -0,0 +1,29 @@
+-- Migration: Record returns in one transaction
+-- The returns form sent one request per item, so a failure part way left the
+-- earlier returns recorded and submitting again recorded them twice.
+-- record_dn_item_returns inserts every return of a submission or none.
+-- Date: 2025-06-30
+
+-- Runs as the caller, so the return insert policy still applies; the ledger
+-- trigger rejects returns beyond the delivered quantity and rolls back the lot
+CREATE OR REPLACE FUNCTION public.record_dn_item_returns(p_returns JSONB)
+RETURNS TABLE (id UUID, dn_item_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  IF jsonb_typeof(p_returns) <> 'array' OR jsonb_array_length(p_returns) = 0 THEN
+    RAISE EXCEPTION 'At least one return is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.dn_item_returns AS r (dn_item_id, quantity, return_date, returned_by, reference)
+  SELECT event.dn_item_id, event.quantity, event.return_date, auth.uid(), event.reference
+  FROM jsonb_to_recordset(p_returns) AS event(dn_item_id UUID, quantity INTEGER, return_date DATE, reference TEXT)
+  RETURNING r.id, r.dn_item_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_dn_item_returns(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.record_dn_item_returns(JSONB) IS 'Records a submission of return events in one transaction';
@@ -0,0 +1,149 @@
+-- Migration: Split rental invoices by currency
+-- An invoicing run added up the charges of all the vendor's orders, whatever
+-- their currency, and the invoice totals had no currency at all. Invoices now
+-- carry the currency of the orders they bill and a run issues one invoice per
+-- currency, all in one transaction. Issued periods may not overlap per
+-- project, vendor and currency.
+-- Date: 2025-06-30
+
+ALTER TABLE public.rental_invoices
+  ADD COLUMN currency TEXT;
+
+-- Existing invoices take the currency of the orders they billed. One that
+-- billed orders in several currencies takes the first; void and re-run it to
+-- bill each currency on its own invoice.
+UPDATE public.rental_invoices ri
+SET currency = COALESCE((
+  SELECT MIN(po.currency)
+  FROM public.rental_invoice_lines ril
+  JOIN public.dn_items di ON di.id = ril.dn_item_id
+  JOIN public.po_items pi ON pi.id = di.po_item_id
+  JOIN public.purchase_orders po ON po.id = pi.purchase_order_id
+  WHERE ril.invoice_id = ri.id
+), 'USD');
+
+ALTER TABLE public.rental_invoices
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT rental_invoices_currency_code CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.rental_invoices
+  DROP CONSTRAINT rental_invoices_no_double_billing,
+  ADD CONSTRAINT rental_invoices_no_double_billing EXCLUDE USING gist (
+    project_id WITH =,
+    vendor_id WITH =,
+    currency WITH =,
+    daterange(period_start, period_end, '[]') WITH &&
+  ) WHERE (status = 'issued');
+
+-- The currency is frozen with the amounts it belongs to
+CREATE OR REPLACE FUNCTION prevent_rental_invoice_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id <> OLD.project_id
+    OR NEW.vendor_id <> OLD.vendor_id
+    OR NEW.currency <> OLD.currency
+    OR NEW.period_start <> OLD.period_start
+    OR NEW.period_end <> OLD.period_end
+    OR NEW.total_amount <> OLD.total_amount
+    OR NEW.net_amount IS DISTINCT FROM OLD.net_amount
+    OR NEW.tax_amount <> OLD.tax_amount
+    OR NEW.invoice_number <> OLD.invoice_number THEN
+    RAISE EXCEPTION 'Issued rental invoices cannot be changed, void and re-run instead';
+  END IF;
+
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'A void rental invoice cannot be reissued';
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    NEW.voided_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION public.issue_rental_invoice(UUID, UUID, DATE, DATE, NUMERIC, NUMERIC, NUMERIC, JSONB);
+
+-- Issues the invoices of one run, each with its currency, totals and lines.
+-- Runs as the caller, so the invoice and line insert policies still apply
+CREATE OR REPLACE FUNCTION public.issue_rental_invoices(
+  p_project_id UUID,
+  p_vendor_id UUID,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_invoices JSONB
+)
+RETURNS TABLE (id UUID, invoice_number TEXT, currency TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_draft RECORD;
+  v_invoice public.rental_invoices%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_invoices) <> 'array' OR jsonb_array_length(p_invoices) = 0 THEN
+    RAISE EXCEPTION 'An invoicing run needs at least one invoice' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_draft IN
+    SELECT *
+    FROM jsonb_to_recordset(p_invoices) AS draft(
+      currency TEXT,
+      net_amount NUMERIC,
+      tax_amount NUMERIC,
+      total_amount NUMERIC,
+      lines JSONB
+    )
+  LOOP
+    IF jsonb_typeof(v_draft.lines) IS DISTINCT FROM 'array' OR jsonb_array_length(v_draft.lines) = 0 THEN
+      RAISE EXCEPTION 'A rental invoice needs at least one line' USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.rental_invoices (
+      project_id, vendor_id, currency, period_start, period_end, net_amount, tax_amount, total_amount, created_by
+    )
+    VALUES (
+      p_project_id, p_vendor_id, v_draft.currency, p_period_start, p_period_end,
+      v_draft.net_amount, v_draft.tax_amount, v_draft.total_amount, auth.uid()
+    )
+    RETURNING * INTO v_invoice;
+
+    INSERT INTO public.rental_invoice_lines (
+      invoice_id, dn_item_id, po_number, item_name, delivered_quantity, returned_quantity, calendar_days,
+      chargeable_days, unit_days, amount, tax_rate, tax_inclusive, net_amount, tax_amount, gross_amount, detail
+    )
+    SELECT
+      v_invoice.id, line.dn_item_id, line.po_number, line.item_name, line.delivered_quantity, line.returned_quantity,
+      line.calendar_days, line.chargeable_days, line.unit_days, line.amount, line.tax_rate, line.tax_inclusive,
+      line.net_amount, line.tax_amount, line.gross_amount, COALESCE(line.detail, '[]'::JSONB)
+    FROM jsonb_to_recordset(v_draft.lines) AS line(
+      dn_item_id UUID,
+      po_number TEXT,
+      item_name TEXT,
+      delivered_quantity INTEGER,
+      returned_quantity INTEGER,
+      calendar_days INTEGER,
+      chargeable_days INTEGER,
+      unit_days INTEGER,
+      amount NUMERIC,
+      tax_rate NUMERIC,
+      tax_inclusive BOOLEAN,
+      net_amount NUMERIC,
+      tax_amount NUMERIC,
+      gross_amount NUMERIC,
+      detail JSONB
+    );
+
+    id := v_invoice.id;
+    invoice_number := v_invoice.invoice_number;
+    currency := v_invoice.currency;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_rental_invoices(UUID, UUID, DATE, DATE, JSONB) TO authenticated;
+
+COMMENT ON COLUMN public.rental_invoices.currency IS 'Currency of the orders the invoice bills and of its amounts';
+COMMENT ON FUNCTION public.issue_rental_invoices(UUID, UUID, DATE, DATE, JSONB) IS 'Issues the invoices of a run, one per currency, with their lines in one transaction';
@@ -0,0 +1,58 @@
+-- Migration: Committed spend totals
+-- The dashboard and the budget status read every purchase order or PO line
+-- through the API to add up committed spend, so past max_rows the totals were
+-- silently short. Both now read totals summed in the database, which come
+-- back as one row per project or cost code and currency.
+-- Date: 2025-06-30
+
+-- Gross totals of the orders that have left draft and were not cancelled, per
+-- project and currency
+CREATE OR REPLACE FUNCTION public.committed_spend_totals()
+RETURNS TABLE (
+  project_id UUID,
+  currency TEXT,
+  order_count INTEGER,
+  amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    po.project_id,
+    po.currency,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(po.total_amount), 0)
+  FROM public.purchase_orders po
+  WHERE po.status NOT IN ('draft', 'cancelled')
+  GROUP BY po.project_id, po.currency;
+$$;
+
+-- Net PO line totals of one project's committed orders, per cost code and
+-- currency; lines saved before tax codes fall back to their line total
+CREATE OR REPLACE FUNCTION public.committed_spend_by_cost_code(p_project_id UUID)
+RETURNS TABLE (
+  cost_code_id UUID,
+  currency TEXT,
+  amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    pi.cost_code_id,
+    po.currency,
+    COALESCE(SUM(COALESCE(pi.net_amount, pi.line_total, 0)), 0)
+  FROM public.po_items pi
+  JOIN public.purchase_orders po ON po.id = pi.purchase_order_id
+  WHERE po.project_id = p_project_id
+  AND po.status NOT IN ('draft', 'cancelled')
+  GROUP BY pi.cost_code_id, po.currency;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.committed_spend_totals() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.committed_spend_by_cost_code(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.committed_spend_totals() IS 'Gross committed purchase order totals per project and currency';
+COMMENT ON FUNCTION public.committed_spend_by_cost_code(UUID) IS 'Net committed PO line totals of a project per cost code and currency';
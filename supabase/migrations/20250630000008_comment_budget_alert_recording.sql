@@ -0,0 +1,7 @@
+-- Migration: Budget alert recording
+-- Crossings were only recorded when someone opened a project's budget status.
+-- They are now also recorded by an hourly scheduled check of every project
+-- with budgets and after returns and rental invoice runs.
+-- Date: 2025-06-30
+
+COMMENT ON TABLE public.budget_alerts IS 'Threshold crossings, recorded with the service role by the hourly budget check, after returns and invoice runs and when a budget status is viewed';
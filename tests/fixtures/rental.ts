@@ -0,0 +1,25 @@
+import { RentalLineInput } from '@/lib/rental-engine';
+
+// Rental fixtures shared by the unit tests. Tests pass overrides for their own
+// scenario rather than keeping a copy of the factory.
+
+// Four units at 10 a day delivered on 1 May, nothing returned
+export const rentalLine = (overrides: Partial<RentalLineInput> = {}): RentalLineInput => ({
+  id: 'dn-1',
+  deliveryDate: '2025-05-01',
+  deliveredQuantity: 4,
+  dailyRate: 10,
+  returns: [],
+  ...overrides
+});
+
+// The vendor and PO fields report items carry with their line
+export const hiredItem = (line: RentalLineInput = rentalLine()) => ({
+  id: line.id,
+  vendor_id: 'vendor-1',
+  vendor_name: 'Acme Hire',
+  po_number: 'PO-1',
+  item_name: 'Scaffold Tower',
+  currency: 'USD',
+  line
+});
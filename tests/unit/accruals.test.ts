@@ -0,0 +1,147 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  AccrualItem,
+  accrualKey,
+  buildAccrualRows as buildRows,
+  groupAccruals,
+  lastBilledDates,
+  unbilledWindows
+} from '@/lib/accruals';
+import { addDays, calculateLineCharge, RentalLineInput } from '@/lib/rental-engine';
+import { hiredItem, rentalLine as line } from '../fixtures/rental';
+
+type UnchargedItem = Omit<AccrualItem, 'delivery_date' | 'charge'> & { line: RentalLineInput };
+
+const item = (overrides: Partial<UnchargedItem> = {}): UnchargedItem => ({ ...hiredItem(), project_id: 'project-1', ...overrides });
+
+// The engine's charge for the unbilled days stands in for the ledger's, which follows it
+const buildAccrualRows = (items: UnchargedItem[], lastBilled: Map<string, string>, asOf: string) =>
+  buildRows(items.map(({ line: itemLine, ...each }) => {
+    const lastBilledDate = lastBilled.get(accrualKey(each.project_id, each.vendor_id, each.currency));
+    return {
+      ...each,
+      delivery_date: itemLine.deliveryDate,
+      charge: calculateLineCharge(itemLine, { ...(lastBilledDate ? { start: addDays(lastBilledDate, 1) } : {}), end: asOf })
+    };
+  }), lastBilled, asOf);
+
+describe('lastBilledDates', () => {
+  it('keeps the latest period end per project, vendor and currency', () => {
+    const dates = lastBilledDates([
+      { project_id: 'project-1', vendor_id: 'vendor-1', currency: 'USD', period_end: '2025-04-30' },
+      { project_id: 'project-1', vendor_id: 'vendor-1', currency: 'USD', period_end: '2025-05-31' },
+      { project_id: 'project-1', vendor_id: 'vendor-1', currency: 'EUR', period_end: '2025-04-30' },
+      { project_id: 'project-1', vendor_id: 'vendor-2', currency: 'USD', period_end: '2025-05-15' }
+    ]);
+
+    expect(dates.get('project-1|vendor-1|USD')).toBe('2025-05-31');
+    expect(dates.get('project-1|vendor-1|EUR')).toBe('2025-04-30');
+    expect(dates.get('project-1|vendor-2|USD')).toBe('2025-05-15');
+    expect(dates.size).toBe(3);
+  });
+});
+
+describe('unbilledWindows', () => {
+  it('reads the ledger once per vendor and last billed date before the as-of date', () => {
+    const windows = unbilledWindows([
+      { project_id: 'project-1', vendor_id: 'vendor-1', currency: 'USD', period_end: '2025-04-30' },
+      { project_id: 'project-1', vendor_id: 'vendor-1', currency: 'USD', period_end: '2025-05-31' },
+      { project_id: 'project-2', vendor_id: 'vendor-1', currency: 'USD', period_end: '2025-05-31' },
+      { project_id: 'project-1', vendor_id: 'vendor-1', currency: 'EUR', period_end: '2025-04-30' },
+      { project_id: 'project-1', vendor_id: 'vendor-2', currency: 'USD', period_end: '2025-06-30' }
+    ], '2025-06-30');
+
+    expect(windows).toEqual([
+      { vendor_id: 'vendor-1', last_billed_date: '2025-05-31' },
+      { vendor_id: 'vendor-1', last_billed_date: '2025-04-30' }
+    ]);
+  });
+});
+
+describe('buildAccrualRows', () => {
+  it('accrues from delivery when nothing has been billed', () => {
+    const [row] = buildAccrualRows([item()], new Map(), '2025-05-31');
+
+    expect(row).toMatchObject({
+      on_hire_quantity: 4,
+      last_billed_date: null,
+      unbilled_from: '2025-05-01',
+      days_since_billed: 31,
+      chargeable_days: 31,
+      amount: 1240
+    });
+  });
+
+  it('accrues only the days after the last billed date', () => {
+    const billed = new Map([['project-1|vendor-1|USD', '2025-05-31']]);
+    const [row] = buildAccrualRows([item()], billed, '2025-06-30');
+
+    expect(row).toMatchObject({
+      last_billed_date: '2025-05-31',
+      unbilled_from: '2025-06-01',
+      days_since_billed: 30,
+      chargeable_days: 30,
+      amount: 1200
+    });
+  });
+
+  it('counts unbilled days from a delivery after the last billed date', () => {
+    const billed = new Map([['project-1|vendor-1|USD', '2025-05-31']]);
+    const [row] = buildAccrualRows([item({ line: line({ deliveryDate: '2025-06-21' }) })], billed, '2025-06-30');
+
+    expect(row).toMatchObject({ unbilled_from: '2025-06-21', days_since_billed: 10, amount: 400 });
+  });
+
+  it('leaves out items returned before the unbilled period', () => {
+    const billed = new Map([['project-1|vendor-1|USD', '2025-05-31']]);
+    const returned = item({ line: line({ returns: [{ quantity: 4, returnDate: '2025-05-20' }] }) });
+
+    expect(buildAccrualRows([returned], billed, '2025-06-30')).toEqual([]);
+  });
+
+  it('accrues items returned in the unbilled period without counting them as on hire', () => {
+    const billed = new Map([['project-1|vendor-1|USD', '2025-05-31']]);
+    const returned = item({ line: line({ returns: [{ quantity: 4, returnDate: '2025-06-11' }] }) });
+    const [row] = buildAccrualRows([returned], billed, '2025-06-30');
+
+    expect(row).toMatchObject({ on_hire_quantity: 0, chargeable_days: 10, amount: 400 });
+  });
+
+  it('accrues the charge as given', () => {
+    const charge = calculateLineCharge(line({ dailyRate: 20 }), { start: '2025-06-01', end: '2025-06-30' });
+    const billed = new Map([['project-1|vendor-1|USD', '2025-05-31']]);
+    const [row] = buildRows([{ ...hiredItem(), project_id: 'project-1', delivery_date: '2025-05-01', charge }], billed, '2025-06-30');
+
+    expect(row).toMatchObject({ unbilled_from: '2025-06-01', chargeable_days: 30, amount: 2400 });
+  });
+
+  it('accrues the net amount of tax-inclusive rates', () => {
+    const [row] = buildAccrualRows([item({ tax: { rate: 25, inclusive: true } })], new Map(), '2025-05-31');
+
+    expect(row?.amount).toBe(992);
+  });
+
+  it('accrues nothing when the last invoice reaches the as-of date', () => {
+    const billed = new Map([['project-1|vendor-1|USD', '2025-06-30']]);
+
+    expect(buildAccrualRows([item()], billed, '2025-06-30')).toEqual([]);
+  });
+});
+
+describe('groupAccruals', () => {
+  it('subtotals per project and vendor, largest first', () => {
+    const rows = buildAccrualRows([
+      item(),
+      item({ id: 'dn-2', line: line({ id: 'dn-2', deliveredQuantity: 1 }) }),
+      item({ id: 'dn-3', vendor_id: 'vendor-2', vendor_name: 'Lift Co', line: line({ id: 'dn-3', dailyRate: 100 }) })
+    ], new Map(), '2025-05-31');
+
+    const groups = groupAccruals(rows);
+
+    expect(groups.map(group => [group.vendor_name, group.on_hire_quantity, group.amount])).toEqual([
+      ['Lift Co', 4, 12400],
+      ['Acme Hire', 5, 1550]
+    ]);
+    expect(groups[1]?.rows).toHaveLength(2);
+  });
+});
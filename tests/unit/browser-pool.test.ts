@@ -0,0 +1,118 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { BrowserPool, PoolBrowser, PoolPage } from '@/lib/pdf-renderer';
+
+interface FakePage extends PoolPage {
+  close: jest.Mock<() => Promise<void>>;
+}
+
+// A browser that can be made to crash; pages finish when the test says so
+const fakeBrowser = () => {
+  const listeners: Record<string, () => void> = {};
+  const browser = {
+    connected: true,
+    pages: [] as FakePage[],
+    newPage: jest.fn(async (): Promise<FakePage> => {
+      if (!browser.connected) throw new Error('Target closed');
+      const page = { close: jest.fn(async () => undefined) };
+      browser.pages.push(page);
+      return page;
+    }),
+    on: jest.fn((event: string, listener: () => void) => {
+      listeners[event] = listener;
+    }),
+    close: jest.fn(async () => undefined),
+    crash: () => {
+      browser.connected = false;
+      listeners.disconnected?.();
+    }
+  };
+  return browser;
+};
+
+const poolOf = (maxConcurrentPages: number, maxRendersPerBrowser: number) => {
+  const browsers: ReturnType<typeof fakeBrowser>[] = [];
+  const launch = jest.fn(async (): Promise<PoolBrowser<FakePage>> => {
+    const browser = fakeBrowser();
+    browsers.push(browser);
+    return browser;
+  });
+  return { pool: new BrowserPool({ maxConcurrentPages, maxRendersPerBrowser, launch }), browsers, launch };
+};
+
+describe('BrowserPool', () => {
+  it('limits the pages rendering at once', async () => {
+    const { pool } = poolOf(2, 100);
+    let active = 0;
+    let mostActive = 0;
+
+    await Promise.all(Array.from({ length: 5 }, () => pool.withPage(async () => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    })));
+
+    expect(mostActive).toBe(2);
+  });
+
+  it('shares one browser between renders', async () => {
+    const { pool, launch } = poolOf(2, 100);
+
+    await Promise.all([pool.withPage(async () => 'a'), pool.withPage(async () => 'b')]);
+    await pool.withPage(async () => 'c');
+
+    expect(launch).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces the browser after its last allowed render', async () => {
+    const { pool, browsers, launch } = poolOf(1, 2);
+
+    for (let render = 0; render < 3; render++) {
+      await pool.withPage(async () => render);
+    }
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(browsers[0]!.close).toHaveBeenCalled();
+    expect(browsers[1]!.close).not.toHaveBeenCalled();
+  });
+
+  it('starts a new browser after a crash', async () => {
+    const { pool, browsers, launch } = poolOf(1, 100);
+
+    await pool.withPage(async () => undefined);
+    browsers[0]!.crash();
+    await pool.withPage(async () => undefined);
+
+    expect(launch).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a browser that lost its connection mid-render', async () => {
+    const { pool, browsers, launch } = poolOf(1, 100);
+
+    await expect(pool.withPage(async () => {
+      browsers[0]!.connected = false;
+      throw new Error('Protocol error: Target closed');
+    })).rejects.toThrow('Target closed');
+    await pool.withPage(async () => undefined);
+
+    expect(launch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the browser after a failed page', async () => {
+    const { pool, launch } = poolOf(1, 100);
+
+    await expect(pool.withPage(async () => {
+      throw new Error('Navigation timeout of 30000 ms exceeded');
+    })).rejects.toThrow('Navigation timeout');
+    await pool.withPage(async () => undefined);
+
+    expect(launch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns what the page work returns and closes the page', async () => {
+    const { pool, browsers } = poolOf(1, 100);
+
+    await expect(pool.withPage(async () => 'pdf')).resolves.toBe('pdf');
+    expect(browsers[0]!.pages[0]!.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  budgetSpend,
+  budgetStatuses,
+  crossedThresholds,
+  highestThresholdReached,
+  percentOfBudget,
+  ProjectBudget,
+  SpendEntry
+} from '@/lib/budgets';
+
+const budget = (overrides: Partial<ProjectBudget> = {}): ProjectBudget => ({
+  id: 'budget-1',
+  project_id: 'project-1',
+  cost_code_id: null,
+  amount: 10000,
+  alert_thresholds: [80, 100],
+  ...overrides
+});
+
+const entries: SpendEntry[] = [
+  { cost_code_id: 'code-a', committed: 5000, incurred: 1200.5 },
+  { cost_code_id: 'code-b', committed: 3000, incurred: 3500 },
+  { cost_code_id: null, committed: 500, incurred: 0 }
+];
+
+describe('budgetSpend', () => {
+  it('sums all spend for a whole-project budget', () => {
+    expect(budgetSpend(budget(), entries)).toEqual({ committed: 8500, incurred: 4700.5, forecast: 8500 });
+  });
+
+  it('only counts spend booked to the budget cost code', () => {
+    expect(budgetSpend(budget({ cost_code_id: 'code-b' }), entries))
+      .toEqual({ committed: 3000, incurred: 3500, forecast: 3500 });
+  });
+
+  it('forecasts the higher of committed spend and projected rental cost', () => {
+    const projected: SpendEntry[] = [
+      { cost_code_id: 'code-a', committed: 5000, incurred: 1200.5, projected: 6400 },
+      { cost_code_id: 'code-a', committed: 0, incurred: 300 }
+    ];
+
+    expect(budgetSpend(budget({ cost_code_id: 'code-a' }), projected))
+      .toEqual({ committed: 5000, incurred: 1500.5, forecast: 6700 });
+  });
+});
+
+describe('percentOfBudget', () => {
+  it('rounds to one decimal place', () => {
+    expect(percentOfBudget(1234.56, 10000)).toBe(12.3);
+    expect(percentOfBudget(15000, 10000)).toBe(150);
+  });
+});
+
+describe('crossedThresholds', () => {
+  it('lists each threshold reached per measure', () => {
+    const crossings = crossedThresholds(budget(), { committed: 10000, incurred: 7999.99, forecast: 10000 });
+
+    expect(crossings.map(crossing => [crossing.measure, crossing.threshold])).toEqual([
+      ['committed', 80],
+      ['committed', 100],
+      ['forecast', 80],
+      ['forecast', 100]
+    ]);
+    expect(crossings[0]).toMatchObject({ budget_id: 'budget-1', spend_amount: 10000, budget_amount: 10000 });
+  });
+
+  it('checks thresholds in ascending order whatever order they were entered in', () => {
+    const crossings = crossedThresholds(budget({ alert_thresholds: [100, 50] }), { committed: 6000, incurred: 0, forecast: 6000 });
+
+    expect(crossings.map(crossing => crossing.threshold)).toEqual([50, 50]);
+  });
+});
+
+describe('budgetStatuses', () => {
+  it('reports spend, percentages and crossings per budget', () => {
+    const [whole, code] = budgetStatuses([
+      budget(),
+      budget({ id: 'budget-2', cost_code_id: 'code-a', amount: 5000 })
+    ], entries);
+
+    expect(whole?.percent_used).toEqual({ committed: 85, incurred: 47, forecast: 85 });
+    expect(whole?.crossings.map(crossing => crossing.measure)).toEqual(['committed', 'forecast']);
+    expect(code?.percent_used.committed).toBe(100);
+    expect(code?.crossings).toHaveLength(4);
+  });
+});
+
+describe('highestThresholdReached', () => {
+  it('returns the highest threshold reached, or null below all of them', () => {
+    expect(highestThresholdReached(79.9, [80, 100])).toBeNull();
+    expect(highestThresholdReached(85, [80, 100])).toBe(80);
+    expect(highestThresholdReached(120, [80, 100])).toBe(100);
+  });
+});
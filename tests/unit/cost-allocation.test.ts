@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import { allocateAmount, describeCostCode, groupByCostCode } from '@/lib/cost-allocation';
+
+const costCodes = [
+  { id: 'code-a', code: '01-100', name: 'Groundworks' },
+  { id: 'code-b', code: '02-200', name: 'Temporary works' }
+];
+
+describe('allocateAmount', () => {
+  it('books the whole amount to the default code without allocations', () => {
+    expect(allocateAmount(1240, [], 'code-a')).toEqual([
+      { cost_code_id: 'code-a', percentage: 100, amount: 1240 }
+    ]);
+  });
+
+  it('leaves the unallocated rest on the default code', () => {
+    expect(allocateAmount(1000, [{ cost_code_id: 'code-b', percentage: 30 }], 'code-a')).toEqual([
+      { cost_code_id: 'code-b', percentage: 30, amount: 300 },
+      { cost_code_id: 'code-a', percentage: 70, amount: 700 }
+    ]);
+  });
+
+  it('keeps an uncoded rest when the PO item has no cost code', () => {
+    const parts = allocateAmount(500, [{ cost_code_id: 'code-b', percentage: 60 }], null);
+
+    expect(parts.map(part => [part.cost_code_id, part.amount])).toEqual([['code-b', 300], [null, 200]]);
+  });
+
+  it('adds the rounding difference to the last part', () => {
+    const parts = allocateAmount(100, [
+      { cost_code_id: 'code-a', percentage: 33.33 },
+      { cost_code_id: 'code-b', percentage: 33.33 },
+      { cost_code_id: 'code-c', percentage: 33.34 }
+    ], null);
+
+    expect(parts.map(part => part.amount)).toEqual([33.33, 33.33, 33.34]);
+    expect(parts.reduce((sum, part) => sum + part.amount, 0)).toBeCloseTo(100, 10);
+  });
+
+  it('merges an explicit allocation to the default code with the rest', () => {
+    const parts = allocateAmount(200, [
+      { cost_code_id: 'code-a', percentage: 25 },
+      { cost_code_id: 'code-b', percentage: 50 }
+    ], 'code-a');
+
+    expect(parts).toEqual([
+      { cost_code_id: 'code-a', percentage: 50, amount: 100 },
+      { cost_code_id: 'code-b', percentage: 50, amount: 100 }
+    ]);
+  });
+});
+
+describe('groupByCostCode', () => {
+  it('orders groups like the catalogue with uncoded rows last', () => {
+    const groups = groupByCostCode([
+      { cost_code_id: null, amount: 1 },
+      { cost_code_id: 'code-b', amount: 2 },
+      { cost_code_id: 'code-b', amount: 3 }
+    ], costCodes);
+
+    expect(groups.map(group => [group.cost_code_id, group.rows.length])).toEqual([['code-b', 2], [null, 1]]);
+  });
+});
+
+describe('describeCostCode', () => {
+  it('shows the code and name, or that the line is not coded', () => {
+    expect(describeCostCode('code-a', costCodes)).toBe('01-100 - Groundworks');
+    expect(describeCostCode(null, costCodes)).toBe('Not coded');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseCsv, parseCsvRecords, toCsv } from '@/lib/csv';
+import { ValidationError } from '@/lib/error-handler';
+
+describe('CSV', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('a,b\r\n1,2\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+
+    it('should read quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCsv('"Lift, 19ft","say ""hi""","two\nlines"\n')).toEqual([['Lift, 19ft', 'say "hi"', 'two\nlines']]);
+    });
+
+    it('should skip blank lines and a byte order mark', () => {
+      expect(parseCsv('﻿a\n\n1\n')).toEqual([['a'], ['1']]);
+    });
+
+    it('should reject an unterminated quote', () => {
+      expect(() => parseCsv('"open')).toThrow(ValidationError);
+    });
+  });
+
+  describe('parseCsvRecords', () => {
+    it('should key rows by normalised header', () => {
+      expect(parseCsvRecords(' PO_Number ,Amount\nPO-1, 12.50 \nPO-2')).toEqual([
+        { po_number: 'PO-1', amount: '12.50' },
+        { po_number: 'PO-2', amount: '' }
+      ]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote only fields that need it and round trip', () => {
+      const rows = [['name', 'amount'], ['Lift, 19ft', 12.5], ['say "hi"', null]];
+      const csv = toCsv(rows);
+
+      expect(csv).toBe('name,amount\r\n"Lift, 19ft",12.5\r\n"say ""hi""",\r\n');
+      expect(parseCsv(csv)).toEqual([['name', 'amount'], ['Lift, 19ft', '12.5'], ['say "hi"', '']]);
+    });
+
+    it('should stop text from being read as a spreadsheet formula', () => {
+      const csv = toCsv([['=HYPERLINK("http://x")', '+1+2', '-2+3', '@SUM(A1)', '\tTab', '\rReturn']]);
+
+      expect(parseCsv(csv)).toEqual([[`'=HYPERLINK("http://x")`, `'+1+2`, `'-2+3`, `'@SUM(A1)`, `'\tTab`, `'\rReturn`]]);
+    });
+
+    it('should leave numbers and negative amounts alone', () => {
+      expect(toCsv([[-12.5, '-12.50', '+3', 'PO-1 - Lift']])).toBe('-12.5,-12.50,+3,PO-1 - Lift\r\n');
+    });
+  });
+});
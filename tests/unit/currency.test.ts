@@ -0,0 +1,125 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  convertAmount,
+  ExchangeRate,
+  findExchangeRate,
+  formatMoney,
+  parseExchangeRateCsv
+} from '@/lib/currency';
+import { ValidationError } from '@/lib/error-handler';
+
+const rate = (overrides: Partial<ExchangeRate> = {}): ExchangeRate => ({
+  from_currency: 'EUR',
+  to_currency: 'USD',
+  rate: 1.1,
+  rate_date: '2025-06-01',
+  ...overrides
+});
+
+describe('formatMoney', () => {
+  it('prefixes the currency code to two decimals', () => {
+    expect(formatMoney(1234.5, 'EUR')).toBe('EUR 1234.50');
+  });
+});
+
+describe('findExchangeRate', () => {
+  it('returns 1 for the same currency without any rates', () => {
+    expect(findExchangeRate([], 'GBP', 'GBP', '2025-06-10')).toBe(1);
+  });
+
+  it('uses the latest rate on or before the date', () => {
+    const rates = [
+      rate({ rate_date: '2025-06-01', rate: 1.1 }),
+      rate({ rate_date: '2025-06-08', rate: 1.2 }),
+      rate({ rate_date: '2025-06-15', rate: 1.3 })
+    ];
+
+    expect(findExchangeRate(rates, 'EUR', 'USD', '2025-06-10')).toBe(1.2);
+    expect(findExchangeRate(rates, 'EUR', 'USD', '2025-06-15')).toBe(1.3);
+  });
+
+  it('returns null when every rate is dated after the day', () => {
+    expect(findExchangeRate([rate({ rate_date: '2025-06-20' })], 'EUR', 'USD', '2025-06-10')).toBeNull();
+  });
+
+  it('inverts a rate recorded in the other direction', () => {
+    expect(findExchangeRate([rate({ rate: 1.25 })], 'USD', 'EUR', '2025-06-10')).toBe(0.8);
+  });
+
+  it('prefers a newer inverted rate over an older direct one', () => {
+    const rates = [
+      rate({ rate_date: '2025-06-01', rate: 1.1 }),
+      rate({ from_currency: 'USD', to_currency: 'EUR', rate_date: '2025-06-05', rate: 0.5 })
+    ];
+
+    expect(findExchangeRate(rates, 'EUR', 'USD', '2025-06-10')).toBe(2);
+  });
+
+  it('prefers the direct rate when both directions share a date', () => {
+    const rates = [
+      rate({ from_currency: 'USD', to_currency: 'EUR', rate: 0.5 }),
+      rate({ rate: 1.1 })
+    ];
+
+    expect(findExchangeRate(rates, 'EUR', 'USD', '2025-06-10')).toBe(1.1);
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts and rounds to cents', () => {
+    expect(convertAmount(100.01, 'EUR', 'USD', '2025-06-10', [rate({ rate: 1.0837 })])).toBe(108.38);
+  });
+
+  it('leaves amounts in the target currency unchanged', () => {
+    expect(convertAmount(99.99, 'USD', 'USD', '2025-06-10', [])).toBe(99.99);
+  });
+
+  it('throws a validation error when no rate is on record', () => {
+    expect(() => convertAmount(10, 'GBP', 'USD', '2025-06-10', [rate()])).toThrow(ValidationError);
+    expect(() => convertAmount(10, 'GBP', 'USD', '2025-06-10', [rate()]))
+      .toThrow('No exchange rate from GBP to USD on or before 2025-06-10');
+  });
+});
+
+describe('parseExchangeRateCsv', () => {
+  it('reads rates and upper-cases currency codes', () => {
+    const { rates, errors } = parseExchangeRateCsv(
+      'From_Currency,To_Currency,Rate,Rate_Date\r\neur,usd,1.0837,2025-06-02\r\nGBP,USD,1.27,2025-06-02\r\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { from_currency: 'EUR', to_currency: 'USD', rate: 1.0837, rate_date: '2025-06-02' },
+      { from_currency: 'GBP', to_currency: 'USD', rate: 1.27, rate_date: '2025-06-02' }
+    ]);
+  });
+
+  it('reports missing columns', () => {
+    expect(parseExchangeRateCsv('from_currency,to_currency,rate\nEUR,USD,1.1\n').errors)
+      .toEqual(['Missing columns: rate_date']);
+  });
+
+  it('reports invalid lines by their line number', () => {
+    const { rates, errors } = parseExchangeRateCsv([
+      'from_currency,to_currency,rate,rate_date',
+      'EURO,USD,1.1,2025-06-02',
+      'EUR,EUR,1,2025-06-02',
+      'EUR,USD,-1,2025-06-02',
+      'EUR,USD,1.1,02/06/2025',
+      'EUR,USD,1.1,2025-06-02'
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      'Line 2: currencies must be 3-letter codes',
+      'Line 3: from and to currency are the same',
+      'Line 4: rate must be a positive number',
+      'Line 5: rate date must be YYYY-MM-DD'
+    ]);
+    expect(rates).toHaveLength(1);
+  });
+
+  it('reports an empty file', () => {
+    expect(parseExchangeRateCsv('from_currency,to_currency,rate,rate_date\n').errors)
+      .toEqual(['The file has no exchange rates']);
+  });
+});
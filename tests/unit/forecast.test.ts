@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildForecastRows as buildRows, describeForecastBasis, ForecastItem, groupForecastByVendor } from '@/lib/forecast';
+import { calculateLineCharge } from '@/lib/rental-engine';
+import { hiredItem, rentalLine as line } from '../fixtures/rental';
+
+type UnchargedItem = Omit<ForecastItem, 'charge'>;
+
+const item = (overrides: Partial<UnchargedItem> = {}): UnchargedItem => ({ ...hiredItem(), ...overrides });
+
+// The engine's charge to date stands in for the ledger's, which follows it
+const buildForecastRows = (items: UnchargedItem[], projectEndDate: string | null, asOf: string) =>
+  buildRows(items.map(each => ({ ...each, charge: calculateLineCharge(each.line, { end: asOf }) })), projectEndDate, asOf);
+
+describe('buildForecastRows', () => {
+  it('projects units on hire to the project end date', () => {
+    const [row] = buildForecastRows([item()], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({
+      on_hire_quantity: 4,
+      basis: 'project_end',
+      off_hire_date: '2025-06-30',
+      overdue: false,
+      remaining_days: 30,
+      cost_to_date: 1240,
+      remaining_cost: 1200,
+      forecast_cost: 2440
+    });
+  });
+
+  it('prefers the expected off-hire date of the item', () => {
+    const [row] = buildForecastRows([item({ expected_off_hire_date: '2025-06-10' })], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({ basis: 'expected_off_hire', off_hire_date: '2025-06-10', forecast_cost: 1640 });
+  });
+
+  it('stops at the as-of date when the expected off-hire date has passed', () => {
+    const [row] = buildForecastRows([item({ expected_off_hire_date: '2025-05-20' })], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({ overdue: true, off_hire_date: '2025-05-31', remaining_cost: 0, forecast_cost: 1240 });
+    expect(describeForecastBasis(row!)).toBe('Expected off-hire passed');
+  });
+
+  it('does not project items without any end date', () => {
+    const [row] = buildForecastRows([item()], null, '2025-05-31');
+
+    expect(row).toMatchObject({ basis: 'open_ended', remaining_days: 0, forecast_cost: 1240 });
+  });
+
+  it('keeps returned items at their final cost', () => {
+    const returned = item({ line: line({ returns: [{ quantity: 4, returnDate: '2025-05-20' }] }) });
+    const [row] = buildForecastRows([returned], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({ basis: 'returned', on_hire_quantity: 0, off_hire_date: null, forecast_cost: 760 });
+  });
+
+  it('projects only the units still on hire', () => {
+    const partial = item({ line: line({ returns: [{ quantity: 1, returnDate: '2025-05-11' }] }) });
+    const [row] = buildForecastRows([partial], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({ on_hire_quantity: 3, forecast_cost: 1930 });
+  });
+
+  it('applies the minimum hire on the projected return', () => {
+    const [row] = buildForecastRows([item({ line: line({ minimumHireDays: 60 }) })], '2025-05-31', '2025-05-15');
+
+    expect(row).toMatchObject({ cost_to_date: 600, forecast_cost: 2400 });
+  });
+
+  it('forecasts net of tax-inclusive rates', () => {
+    const [row] = buildForecastRows([item({ tax: { rate: 25, inclusive: true } })], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({ cost_to_date: 992, forecast_cost: 1952, remaining_cost: 960 });
+  });
+});
+
+describe('buildForecastRows with the ledger charge', () => {
+  it('takes the cost to date and units on hire from the charge', () => {
+    const charge = calculateLineCharge(line({ dailyRate: 20, returns: [{ quantity: 4, returnDate: '2025-05-20' }] }), { end: '2025-05-31' });
+    const [row] = buildRows([{ ...item(), charge }], '2025-06-30', '2025-05-31');
+
+    expect(row).toMatchObject({ basis: 'returned', on_hire_quantity: 0, cost_to_date: 1520, forecast_cost: 1520 });
+  });
+});
+
+describe('groupForecastByVendor', () => {
+  it('totals per vendor, largest expected final cost first', () => {
+    const rows = buildForecastRows([
+      item(),
+      item({ id: 'dn-2', line: line({ id: 'dn-2', deliveredQuantity: 1 }) }),
+      item({ id: 'dn-3', vendor_id: 'vendor-2', vendor_name: 'Lift Co', line: line({ id: 'dn-3', dailyRate: 100 }) })
+    ], '2025-06-30', '2025-05-31');
+
+    const groups = groupForecastByVendor(rows);
+
+    expect(groups.map(group => [group.vendor_name, group.on_hire_quantity, group.cost_to_date, group.forecast_cost])).toEqual([
+      ['Lift Co', 4, 12400, 24400],
+      ['Acme Hire', 5, 1550, 3050]
+    ]);
+    expect(groups[1]?.remaining_cost).toBe(1500);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { escapeHtml, html, multiline, raw } from '@/lib/html';
+import { DEFAULT_TEMPLATE, renderDocument, tableRow, tableSpanRow } from '@/lib/report-templates';
+
+const HOSTILE = '<img src=x onerror="alert(1)">';
+const ESCAPED = '&lt;img src=x onerror=&quot;alert(1)&quot;&gt;';
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(HOSTILE)).toBe(ESCAPED);
+    expect(escapeHtml("O'Neil & Sons")).toBe('O&#39;Neil &amp; Sons');
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated values but keeps nested markup', () => {
+    const vendor = html`<strong>${HOSTILE}</strong>`;
+
+    expect(html`<td>${vendor}</td>`.toString()).toBe(`<td><strong>${ESCAPED}</strong></td>`);
+  });
+
+  it('renders lists and skips empty conditions', () => {
+    const names = ['Acme', '<b>Beta</b>'];
+
+    expect(html`${names.map(name => html`<li>${name}</li>`)}${false}${null}${undefined}`.toString())
+      .toBe('<li>Acme</li><li>&lt;b&gt;Beta&lt;/b&gt;</li>');
+    expect(html`${0} of ${3}`.toString()).toBe('0 of 3');
+  });
+
+  it('escapes plain strings that contain markup built outside the tag', () => {
+    const built = `<script>alert(1)</script>`;
+
+    expect(html`${built}`.toString()).toBe('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html`${raw('<hr>')}`.toString()).toBe('<hr>');
+  });
+
+  it('keeps line breaks of multi-line text', () => {
+    expect(multiline('1 High St\n<Leeds>').toString()).toBe('1 High St<br>&lt;Leeds&gt;');
+  });
+});
+
+describe('hostile names in documents', () => {
+  it('render as plain text in table cells', () => {
+    const columns = [{ key: 'vendor', label: 'Vendor' }];
+
+    expect(tableRow(columns, { vendor: HOSTILE }).toString()).toBe(`<tr><td>${ESCAPED}</td></tr>`);
+    expect(tableSpanRow(columns, HOSTILE).toString()).toBe(`<tr><td colspan="1">${ESCAPED}</td></tr>`);
+  });
+
+  it('render as plain text in the letterhead and heading', () => {
+    const document = renderDocument({
+      ...DEFAULT_TEMPLATE,
+      company_name: HOSTILE,
+      address: `</p><script>alert(1)</script>`
+    }, {
+      title: `</title>${HOSTILE}`,
+      heading: html`<h2>Project: ${HOSTILE}</h2>`,
+      body: html`<p>${HOSTILE}</p>`
+    });
+
+    expect(document).not.toContain('<img');
+    expect(document).not.toContain('<script>');
+    expect(document).toContain(`<strong>${ESCAPED}</strong>`);
+    expect(document).toContain(`<h2>Project: ${ESCAPED}</h2>`);
+  });
+
+  it('leaves out a logo that is not an inline image', () => {
+    const document = renderDocument({
+      ...DEFAULT_TEMPLATE,
+      logo_data_url: 'https://attacker.example/logo.png'
+    }, { title: 'Report', heading: html``, body: html`` });
+
+    expect(document).not.toContain('<img');
+  });
+});
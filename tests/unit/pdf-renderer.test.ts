@@ -0,0 +1,98 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import puppeteer, { PDFOptions } from 'puppeteer-core';
+import { closePdfRenderer, isAllowedRequest, renderPdf } from '@/lib/pdf-renderer';
+
+// Mock Puppeteer with the global jest, whose mocks are hoisted above the imports; the page records how it was set up and which request handler it got
+interface FakeRequest {
+  url(): string;
+  continue: jest.Mock;
+  abort: jest.Mock;
+}
+type RequestHandler = (request: FakeRequest) => void;
+const handlers: RequestHandler[] = [];
+
+const mockPage = {
+  setJavaScriptEnabled: jest.fn(async () => undefined),
+  setRequestInterception: jest.fn(async () => undefined),
+  on: jest.fn((event: string, handler: RequestHandler) => {
+    if (event === 'request') handlers.push(handler);
+  }),
+  setViewport: jest.fn(async () => undefined),
+  setContent: jest.fn(async () => undefined),
+  pdf: jest.fn(async (_options: PDFOptions) => Buffer.from('%PDF')),
+  close: jest.fn(async () => undefined),
+};
+
+const mockBrowser = {
+  connected: true,
+  newPage: jest.fn(async () => mockPage),
+  on: jest.fn(),
+  close: jest.fn(async () => undefined),
+};
+
+jest.mock('puppeteer-core', () => ({
+  __esModule: true,
+  default: { launch: jest.fn(async () => mockBrowser) },
+}));
+
+const request = (url: string): FakeRequest => ({
+  url: () => url,
+  continue: jest.fn(),
+  abort: jest.fn(),
+});
+
+describe('renderPdf', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handlers.length = 0;
+  });
+
+  it('renders with scripts disabled and requests intercepted', async () => {
+    await renderPdf('<p>Report</p>');
+
+    expect(mockPage.setJavaScriptEnabled).toHaveBeenCalledWith(false);
+    expect(mockPage.setRequestInterception).toHaveBeenCalledWith(true);
+    expect(mockPage.close).toHaveBeenCalled();
+  });
+
+  it('keeps the browser warm between renders', async () => {
+    await closePdfRenderer();
+    jest.clearAllMocks();
+
+    await renderPdf('<p>Invoice</p>');
+    await renderPdf('<p>Delivery note</p>');
+
+    expect(puppeteer.launch).toHaveBeenCalledTimes(1);
+    expect(mockBrowser.newPage).toHaveBeenCalledTimes(2);
+    expect(mockBrowser.close).not.toHaveBeenCalled();
+  });
+
+  it('blocks outbound network requests and allows inline images', async () => {
+    await renderPdf('<img src="data:image/png;base64,AAAA">');
+    const handler = handlers[0]!;
+
+    const outbound = request('http://169.254.169.254/latest/meta-data');
+    handler(outbound);
+    expect(outbound.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(outbound.continue).not.toHaveBeenCalled();
+
+    const inline = request('data:image/png;base64,AAAA');
+    handler(inline);
+    expect(inline.continue).toHaveBeenCalled();
+  });
+
+  it('escapes the footer text', async () => {
+    await renderPdf('<p>Report</p>', { footerText: '<img src=x onerror=alert(1)>' });
+    const options = mockPage.pdf.mock.calls[0]![0];
+
+    expect(options.footerTemplate).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(options.footerTemplate).not.toContain('<img');
+  });
+
+  it('only allows data URLs and the blank page', () => {
+    expect(isAllowedRequest('data:image/jpeg;base64,AAAA')).toBe(true);
+    expect(isAllowedRequest('about:blank')).toBe(true);
+    expect(isAllowedRequest('https://example.com/logo.png')).toBe(false);
+    expect(isAllowedRequest('file:///etc/passwd')).toBe(false);
+  });
+});
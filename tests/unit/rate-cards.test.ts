@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  findRateCardEntry,
+  isRateOverride,
+  normalizeItemName,
+  rateCardLineRates,
+  RateCardEntry
+} from '@/lib/rate-cards';
+
+const entry = (overrides: Partial<RateCardEntry> = {}): RateCardEntry => ({
+  id: 'card-1',
+  vendor_id: 'vendor-1',
+  item_name: 'Scissor Lift 19ft',
+  currency: 'USD',
+  daily_rate: 45,
+  weekly_rate: 180,
+  four_week_rate: null,
+  minimum_hire_days: 7,
+  valid_from: '2025-01-01',
+  valid_to: null,
+  ...overrides
+});
+
+describe('Rate Cards', () => {
+  describe('normalizeItemName', () => {
+    it('should ignore case and extra whitespace', () => {
+      expect(normalizeItemName('  Scissor   Lift 19FT ')).toBe('scissor lift 19ft');
+    });
+  });
+
+  describe('findRateCardEntry', () => {
+    it('should match an item by name within its validity period', () => {
+      const match = findRateCardEntry([entry()], 'scissor lift 19ft', '2025-06-01', 'USD');
+      expect(match?.id).toBe('card-1');
+    });
+
+    it('should not match outside the validity period', () => {
+      const entries = [entry({ valid_from: '2025-07-01' }), entry({ id: 'card-2', valid_to: '2025-05-31' })];
+      expect(findRateCardEntry(entries, 'Scissor Lift 19ft', '2025-06-01', 'USD')).toBeNull();
+    });
+
+    it('should include the last valid day', () => {
+      const match = findRateCardEntry([entry({ valid_to: '2025-06-01' })], 'Scissor Lift 19ft', '2025-06-01', 'USD');
+      expect(match).not.toBeNull();
+    });
+
+    it('should not match an entry in another currency', () => {
+      expect(findRateCardEntry([entry({ currency: 'EUR' })], 'Scissor Lift 19ft', '2025-06-01', 'USD')).toBeNull();
+    });
+
+    it('should prefer the most recently started entry', () => {
+      const entries = [
+        entry({ id: 'old', valid_from: '2025-01-01' }),
+        entry({ id: 'new', valid_from: '2025-05-01', daily_rate: 50 })
+      ];
+      expect(findRateCardEntry(entries, 'Scissor Lift 19ft', '2025-06-01', 'USD')?.id).toBe('new');
+    });
+  });
+
+  describe('isRateOverride', () => {
+    it('should not flag rates copied from the rate card', () => {
+      expect(isRateOverride(entry(), rateCardLineRates(entry()))).toBe(false);
+    });
+
+    it('should flag a changed daily rate', () => {
+      expect(isRateOverride(entry(), { ...rateCardLineRates(entry()), daily_rate: 40 })).toBe(true);
+    });
+
+    it('should flag a tier that was added or removed', () => {
+      expect(isRateOverride(entry(), { ...rateCardLineRates(entry()), weekly_rate: null })).toBe(true);
+      expect(isRateOverride(entry(), { ...rateCardLineRates(entry()), four_week_rate: 500 })).toBe(true);
+    });
+
+    it('should flag a changed minimum hire', () => {
+      expect(isRateOverride(entry(), { ...rateCardLineRates(entry()), minimum_hire_days: 0 })).toBe(true);
+    });
+
+    it('should treat decimal strings from the database as numbers', () => {
+      const fromDb = entry({ daily_rate: '45.00' as unknown as number });
+      expect(isRateOverride(fromDb, rateCardLineRates(entry()))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateLineCharge } from '@/lib/rental-engine';
+import {
+  ComputedCharge,
+  parseVendorInvoiceCsv,
+  reconcile,
+  summarizeComputedCharges,
+  VendorInvoiceLine
+} from '@/lib/reconciliation';
+import { rentalLine } from '../fixtures/rental';
+
+const computed = (overrides: Partial<ComputedCharge> = {}): ComputedCharge => ({
+  dn_item_ids: ['dn-1'],
+  po_number: 'PO-1',
+  item_name: 'Scissor Lift 19ft',
+  quantity: 2,
+  days: 30,
+  rate: 45,
+  amount: 2700,
+  ...overrides
+});
+
+const vendorLine = (overrides: Partial<VendorInvoiceLine> = {}): VendorInvoiceLine => ({
+  line_number: 2,
+  po_number: 'PO-1',
+  item_name: 'Scissor Lift 19ft',
+  quantity: 2,
+  days: 30,
+  rate: 45,
+  amount: 2700,
+  ...overrides
+});
+
+// Two scissor lifts on hire from 1 June, as billed on the vendor's invoice
+const liftHire = { deliveryDate: '2025-06-01', deliveredQuantity: 2, dailyRate: 45 };
+
+describe('Reconciliation', () => {
+  describe('parseVendorInvoiceCsv', () => {
+    it('should read vendor invoice lines', () => {
+      const { lines, errors } = parseVendorInvoiceCsv(
+        'PO_Number,Item_Name,Quantity,Days,Rate,Amount\nPO-1,Scissor Lift 19ft,2,30,45,2700\n'
+      );
+
+      expect(errors).toEqual([]);
+      expect(lines).toEqual([vendorLine()]);
+    });
+
+    it('should report missing columns', () => {
+      const { errors } = parseVendorInvoiceCsv('po_number,item_name,amount\nPO-1,Lift,10\n');
+      expect(errors).toEqual(['Missing columns: quantity, days, rate']);
+    });
+
+    it('should report invalid numbers with their line', () => {
+      const { errors } = parseVendorInvoiceCsv('po_number,item_name,quantity,days,rate,amount\nPO-1,Lift,two,30,45,2700\n');
+      expect(errors).toEqual(['Line 2: invalid quantity']);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should match lines on PO number and item name regardless of case and spacing', () => {
+      const rows = reconcile([vendorLine({ item_name: ' scissor  lift 19FT' })], [computed()]);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]?.match_status).toBe('matched');
+      expect(rows[0]?.variances).toEqual({ quantity: 0, days: 0, rate: 0, amount: 0 });
+    });
+
+    it('should report each variance as vendor minus computed', () => {
+      const rows = reconcile([vendorLine({ days: 31, amount: 2790 })], [computed()]);
+
+      expect(rows[0]?.match_status).toBe('variance');
+      expect(rows[0]?.variances).toEqual({ quantity: 0, days: 1, rate: 0, amount: 90 });
+    });
+
+    it('should sum vendor lines split over the same item', () => {
+      const rows = reconcile(
+        [vendorLine({ quantity: 1, amount: 1350 }), vendorLine({ line_number: 3, quantity: 1, amount: 1350 })],
+        [computed()]
+      );
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]?.match_status).toBe('matched');
+    });
+
+    it('should flag lines on only one side', () => {
+      const rows = reconcile([vendorLine({ po_number: 'PO-9' })], [computed()]);
+
+      expect(rows.map(row => row.match_status)).toEqual(['not_in_records', 'missing_from_vendor']);
+    });
+  });
+
+  describe('summarizeComputedCharges', () => {
+    it('should group DN items of the same PO item', () => {
+      const june = { start: '2025-06-01', end: '2025-06-30' };
+      const charges = summarizeComputedCharges([
+        { id: 'dn-1', po_number: 'PO-1', item_name: 'Scissor Lift 19ft', charge: calculateLineCharge(rentalLine(liftHire), june) },
+        {
+          id: 'dn-2',
+          po_number: 'PO-1',
+          item_name: 'Scissor Lift 19ft',
+          charge: calculateLineCharge(rentalLine({ ...liftHire, id: 'dn-2', deliveryDate: '2025-06-16', deliveredQuantity: 1 }), june)
+        }
+      ]);
+
+      expect(charges).toEqual([computed({ dn_item_ids: ['dn-1', 'dn-2'], quantity: 3, amount: 3375 })]);
+    });
+
+    it('should report the daily rate last in force', () => {
+      const june = { start: '2025-06-01', end: '2025-06-30' };
+      const [charge] = summarizeComputedCharges([{
+        id: 'dn-1',
+        po_number: 'PO-1',
+        item_name: 'Scissor Lift 19ft',
+        charge: calculateLineCharge(rentalLine({ ...liftHire, rateChanges: [{ effectiveFrom: '2025-06-15', dailyRate: 50 }] }), june)
+      }]);
+
+      expect(charge?.rate).toBe(50);
+    });
+  });
+});
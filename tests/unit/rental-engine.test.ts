@@ -0,0 +1,571 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  addDays,
+  buildRatePeriods,
+  calculateLineCharge,
+  calculateRentalCharges,
+  chargeableDaysBetween,
+  cheapestTierCharge,
+  daysBetween,
+  describeBreakdown,
+  daysOnHire,
+  roundCurrency,
+  toDateKey,
+  RentalLineInput
+} from '@/lib/rental-engine';
+import { ValidationError } from '@/lib/error-handler';
+import { rentalLine } from '../fixtures/rental';
+
+// Ten units at 5 a day on hire from 1 June
+const line = (overrides: Partial<RentalLineInput> = {}): RentalLineInput =>
+  rentalLine({ id: 'line-1', deliveryDate: '2025-06-01', deliveredQuantity: 10, dailyRate: 5, ...overrides });
+
+describe('Rental Engine', () => {
+  describe('date helpers', () => {
+    it('should keep plain dates as calendar days', () => {
+      expect(toDateKey('2025-06-01')).toBe('2025-06-01');
+    });
+
+    it('should keep the calendar day a timestamp was recorded in', () => {
+      expect(toDateKey('2025-06-01T23:30:00-05:00')).toBe('2025-06-01');
+      expect(toDateKey('2025-06-02T00:15:00+10:00')).toBe('2025-06-02');
+    });
+
+    it('should use the local calendar day for Date objects', () => {
+      expect(toDateKey(new Date(2025, 5, 1, 23, 59))).toBe('2025-06-01');
+      expect(toDateKey(new Date(2025, 5, 2, 0, 1))).toBe('2025-06-02');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => toDateKey('not-a-date')).toThrow(ValidationError);
+    });
+
+    it('should add days across month and year boundaries', () => {
+      expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    });
+
+    it('should count whole days regardless of daylight saving changes', () => {
+      expect(daysBetween('2025-03-29', '2025-03-31')).toBe(2);
+      expect(daysBetween('2025-10-25', '2025-10-27')).toBe(2);
+    });
+
+    it('should never return negative day counts', () => {
+      expect(daysBetween('2025-06-10', '2025-06-01')).toBe(0);
+    });
+
+    it('should count the delivery day and the as-of day when on hire', () => {
+      expect(daysOnHire('2025-06-01', '2025-06-01')).toBe(1);
+      expect(daysOnHire('2025-06-01', '2025-06-30')).toBe(30);
+    });
+
+    it('should round currency to cents', () => {
+      expect(roundCurrency(1.005)).toBe(1.01);
+      expect(roundCurrency(10.004)).toBe(10);
+    });
+  });
+
+  describe('calculateLineCharge', () => {
+    it('should charge units still on hire through the window end', () => {
+      const charge = calculateLineCharge(line(), { end: '2025-06-30' });
+
+      expect(charge.ongoingQuantity).toBe(10);
+      expect(charge.ongoingDays).toBe(30);
+      expect(charge.unitDays).toBe(300);
+      expect(charge.amount).toBe(1500);
+    });
+
+    it('should charge a same-day return as one day', () => {
+      const charge = calculateLineCharge(
+        line({ returns: [{ quantity: 10, returnDate: '2025-06-01' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.returnedQuantity).toBe(10);
+      expect(charge.ongoingQuantity).toBe(0);
+      expect(charge.totalDays).toBe(1);
+      expect(charge.amount).toBe(50);
+    });
+
+    it('should not charge the return day', () => {
+      const charge = calculateLineCharge(
+        line({ deliveredQuantity: 1, returns: [{ quantity: 1, returnDate: '2025-06-03' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.totalDays).toBe(2);
+      expect(charge.amount).toBe(10);
+    });
+
+    it('should bill each partial return for its own days', () => {
+      const charge = calculateLineCharge(
+        line({
+          returns: [
+            { quantity: 4, returnDate: '2025-06-11' },
+            { quantity: 2, returnDate: '2025-06-21' }
+          ]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments).toEqual([
+        expect.objectContaining({ quantity: 4, days: 10, returned: true, amount: 200 }),
+        expect.objectContaining({ quantity: 2, days: 20, returned: true, amount: 200 }),
+        expect.objectContaining({ quantity: 4, days: 30, returned: false, amount: 600 })
+      ]);
+      expect(charge.unitDays).toBe(40 + 40 + 120);
+      expect(charge.amount).toBe(1000);
+      expect(charge.totalDays).toBe(30);
+    });
+
+    it('should order returns chronologically', () => {
+      const charge = calculateLineCharge(
+        line({
+          returns: [
+            { quantity: 2, returnDate: '2025-06-21' },
+            { quantity: 4, returnDate: '2025-06-11' }
+          ]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments.map(segment => segment.endDate)).toEqual(['2025-06-11', '2025-06-21', '2025-07-01']);
+    });
+
+    it('should treat returns after the window end as still on hire', () => {
+      const charge = calculateLineCharge(
+        line({ returns: [{ quantity: 10, returnDate: '2025-07-05' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.returnedQuantity).toBe(0);
+      expect(charge.ongoingQuantity).toBe(10);
+      expect(charge.ongoingDays).toBe(30);
+    });
+
+    it('should give the same result for a return timestamp near midnight', () => {
+      const charge = calculateLineCharge(
+        line({ deliveredQuantity: 1, returns: [{ quantity: 1, returnDate: '2025-06-03T23:59:59-08:00' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]?.endDate).toBe('2025-06-03');
+      expect(charge.totalDays).toBe(2);
+    });
+
+    it('should not charge lines delivered after the window end', () => {
+      const charge = calculateLineCharge(line({ deliveryDate: '2025-07-02' }), { end: '2025-06-30' });
+
+      expect(charge.segments).toHaveLength(0);
+      expect(charge.amount).toBe(0);
+    });
+
+    it('should charge nothing without a daily rate', () => {
+      const charge = calculateLineCharge(line({ dailyRate: 0 }), { end: '2025-06-30' });
+
+      expect(charge.unitDays).toBe(300);
+      expect(charge.amount).toBe(0);
+    });
+
+    it('should reject returns exceeding the delivered quantity', () => {
+      expect(() => calculateLineCharge(
+        line({ returns: [{ quantity: 11, returnDate: '2025-06-05' }] }),
+        { end: '2025-06-30' }
+      )).toThrow(ValidationError);
+    });
+  });
+
+  describe('billing window', () => {
+    it('should only charge days inside the window', () => {
+      const charge = calculateLineCharge(
+        line({ deliveryDate: '2025-05-20' }),
+        { start: '2025-06-01', end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]).toEqual(expect.objectContaining({
+        startDate: '2025-06-01',
+        endDate: '2025-07-01',
+        days: 30
+      }));
+      expect(charge.amount).toBe(1500);
+    });
+
+    it('should charge returns within the window up to the return day', () => {
+      const charge = calculateLineCharge(
+        line({ deliveryDate: '2025-05-20', returns: [{ quantity: 10, returnDate: '2025-06-05' }] }),
+        { start: '2025-06-01', end: '2025-06-30' }
+      );
+
+      expect(charge.totalDays).toBe(4);
+      expect(charge.amount).toBe(200);
+    });
+
+    it('should not charge units returned before the window', () => {
+      const charge = calculateLineCharge(
+        line({ deliveryDate: '2025-05-01', returns: [{ quantity: 6, returnDate: '2025-05-15' }] }),
+        { start: '2025-06-01', end: '2025-06-30' }
+      );
+
+      expect(charge.segments).toHaveLength(1);
+      expect(charge.segments[0]).toEqual(expect.objectContaining({ quantity: 4, returned: false, days: 30 }));
+    });
+
+    it('should charge a same-day return only in the window containing it', () => {
+      const sameDay = line({ deliveryDate: '2025-06-30', returns: [{ quantity: 10, returnDate: '2025-06-30' }] });
+
+      expect(calculateLineCharge(sameDay, { start: '2025-06-01', end: '2025-06-30' }).amount).toBe(50);
+      expect(calculateLineCharge(sameDay, { start: '2025-07-01', end: '2025-07-31' }).amount).toBe(0);
+    });
+
+    it('should make consecutive monthly windows add up to the full hire', () => {
+      const hire = line({
+        deliveryDate: '2025-04-17',
+        dailyRate: 7.35,
+        returns: [
+          { quantity: 3, returnDate: '2025-05-09' },
+          { quantity: 5, returnDate: '2025-06-01' },
+          { quantity: 2, returnDate: '2025-07-22' }
+        ]
+      });
+      const months = [
+        { start: '2025-04-01', end: '2025-04-30' },
+        { start: '2025-05-01', end: '2025-05-31' },
+        { start: '2025-06-01', end: '2025-06-30' },
+        { start: '2025-07-01', end: '2025-07-31' }
+      ];
+
+      const full = calculateLineCharge(hire, { end: '2025-07-31' });
+      const monthly = months.map(window => calculateLineCharge(hire, window));
+
+      expect(monthly.reduce((sum, charge) => sum + charge.unitDays, 0)).toBe(full.unitDays);
+      expect(roundCurrency(monthly.reduce((sum, charge) => sum + charge.amount, 0))).toBe(full.amount);
+    });
+  });
+
+  describe('rate tiers', () => {
+    const rates = { dailyRate: 20, weeklyRate: 100, fourWeekRate: 300 };
+
+    it('should use daily rates when no other tier is cheaper', () => {
+      expect(cheapestTierCharge(3, rates)).toEqual({ fourWeeks: 0, weeks: 0, days: 3, amount: 60 });
+    });
+
+    it('should switch to a week once it is cheaper than the remaining days', () => {
+      expect(cheapestTierCharge(6, rates)).toEqual({ fourWeeks: 0, weeks: 1, days: 0, amount: 100 });
+      expect(cheapestTierCharge(9, rates)).toEqual({ fourWeeks: 0, weeks: 1, days: 2, amount: 140 });
+    });
+
+    it('should combine 4-week, weekly and daily periods', () => {
+      expect(cheapestTierCharge(37, rates)).toEqual({ fourWeeks: 1, weeks: 1, days: 2, amount: 440 });
+    });
+
+    it('should prefer a 4-week period over several weeks when cheaper', () => {
+      expect(cheapestTierCharge(22, rates)).toEqual({ fourWeeks: 1, weeks: 0, days: 0, amount: 300 });
+    });
+
+    it('should ignore tiers that are not quoted', () => {
+      expect(cheapestTierCharge(10, { dailyRate: 20, weeklyRate: null })).toEqual({ fourWeeks: 0, weeks: 0, days: 10, amount: 200 });
+    });
+
+    it('should describe a breakdown', () => {
+      expect(describeBreakdown({ fourWeeks: 1, weeks: 1, days: 2, amount: 440 })).toBe('1 × 4 weeks + 1 × week + 2 × day');
+      expect(describeBreakdown({ fourWeeks: 0, weeks: 0, days: 0, amount: 0 })).toBe('0 × day');
+    });
+
+    it('should price a line with the cheapest tier for its elapsed days', () => {
+      const charge = calculateLineCharge(
+        line({ deliveredQuantity: 2, ...rates, returns: [{ quantity: 2, returnDate: '2025-06-10' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]?.periods[0]?.breakdown).toEqual({ fourWeeks: 0, weeks: 1, days: 2, amount: 140 });
+      expect(charge.amount).toBe(280);
+    });
+
+    it('should charge each window the increase in the hire cost', () => {
+      const hire = line({ deliveredQuantity: 1, ...rates, deliveryDate: '2025-06-25', returns: [{ quantity: 1, returnDate: '2025-07-04' }] });
+
+      const june = calculateLineCharge(hire, { start: '2025-06-01', end: '2025-06-30' });
+      const july = calculateLineCharge(hire, { start: '2025-07-01', end: '2025-07-31' });
+
+      expect(june.amount).toBe(100);
+      expect(july.segments[0]?.periods[0]?.previouslyCharged).toBe(100);
+      expect(july.amount).toBe(40);
+      expect(june.amount + july.amount).toBe(cheapestTierCharge(9, rates).amount);
+    });
+
+    it('should top up to the minimum hire when units come back early', () => {
+      const charge = calculateLineCharge(
+        line({ deliveredQuantity: 1, dailyRate: 20, minimumHireDays: 7, returns: [{ quantity: 1, returnDate: '2025-06-03' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]).toEqual(expect.objectContaining({ days: 2, chargedDays: 7, minimumApplied: true }));
+      expect(charge.amount).toBe(140);
+    });
+
+    it('should not apply the minimum hire while units are still on site', () => {
+      const charge = calculateLineCharge(
+        line({ deliveredQuantity: 1, dailyRate: 20, minimumHireDays: 7 }),
+        { end: '2025-06-03' }
+      );
+
+      expect(charge.segments[0]).toEqual(expect.objectContaining({ days: 3, chargedDays: 3, minimumApplied: false }));
+      expect(charge.amount).toBe(60);
+    });
+  });
+
+  describe('rate changes', () => {
+    it('should start with the line rates from delivery', () => {
+      const periods = buildRatePeriods(line({ rateChanges: [{ effectiveFrom: '2025-06-15', dailyRate: 6 }] }));
+
+      expect(periods).toEqual([
+        expect.objectContaining({ startDate: '2025-06-01', endDate: '2025-06-15', rates: expect.objectContaining({ dailyRate: 5 }) }),
+        expect.objectContaining({ startDate: '2025-06-15', endDate: null, rates: expect.objectContaining({ dailyRate: 6 }) })
+      ]);
+    });
+
+    it('should let a change effective on or before delivery replace the base rates', () => {
+      const periods = buildRatePeriods(line({ rateChanges: [{ effectiveFrom: '2025-05-01', dailyRate: 4 }] }));
+
+      expect(periods).toHaveLength(1);
+      expect(periods[0]?.rates.dailyRate).toBe(4);
+    });
+
+    it('should split a hire at each rate change', () => {
+      const charge = calculateLineCharge(
+        line({
+          deliveredQuantity: 1,
+          rateChanges: [
+            { effectiveFrom: '2025-06-21', dailyRate: 8 },
+            { effectiveFrom: '2025-06-11', dailyRate: 6 }
+          ]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]?.periods).toEqual([
+        expect.objectContaining({ startDate: '2025-06-01', endDate: '2025-06-11', days: 10, amount: 50 }),
+        expect.objectContaining({ startDate: '2025-06-11', endDate: '2025-06-21', days: 10, amount: 60 }),
+        expect.objectContaining({ startDate: '2025-06-21', endDate: '2025-07-01', days: 10, amount: 80 })
+      ]);
+      expect(charge.amount).toBe(190);
+    });
+
+    it('should ignore rate changes after the units came back', () => {
+      const charge = calculateLineCharge(
+        line({
+          deliveredQuantity: 1,
+          returns: [{ quantity: 1, returnDate: '2025-06-05' }],
+          rateChanges: [{ effectiveFrom: '2025-06-10', dailyRate: 100 }]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]?.periods).toHaveLength(1);
+      expect(charge.amount).toBe(20);
+    });
+
+    it('should price tiers within each rate period', () => {
+      const charge = calculateLineCharge(
+        line({
+          deliveredQuantity: 1,
+          dailyRate: 20,
+          weeklyRate: 100,
+          rateChanges: [{ effectiveFrom: '2025-06-08', dailyRate: 25, weeklyRate: 120 }]
+        }),
+        { end: '2025-06-14' }
+      );
+
+      expect(charge.segments[0]?.periods.map(period => period.amount)).toEqual([100, 120]);
+    });
+
+    it('should charge the minimum hire top-up at the rate in force on return', () => {
+      const charge = calculateLineCharge(
+        line({
+          deliveredQuantity: 1,
+          dailyRate: 10,
+          minimumHireDays: 7,
+          returns: [{ quantity: 1, returnDate: '2025-06-05' }],
+          rateChanges: [{ effectiveFrom: '2025-06-03', dailyRate: 20 }]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]?.chargedDays).toBe(7);
+      expect(charge.amount).toBe(2 * 10 + 5 * 20);
+    });
+
+    it('should keep monthly windows adding up across rate changes', () => {
+      const hire = line({
+        deliveryDate: '2025-05-20',
+        dailyRate: 20,
+        weeklyRate: 100,
+        fourWeekRate: 300,
+        rateChanges: [{ effectiveFrom: '2025-06-16', dailyRate: 22, weeklyRate: 110, fourWeekRate: 330 }],
+        returns: [{ quantity: 10, returnDate: '2025-07-09' }]
+      });
+
+      const full = calculateLineCharge(hire, { end: '2025-07-31' });
+      const monthly = [
+        { start: '2025-05-01', end: '2025-05-31' },
+        { start: '2025-06-01', end: '2025-06-30' },
+        { start: '2025-07-01', end: '2025-07-31' }
+      ].map(window => calculateLineCharge(hire, window));
+
+      expect(roundCurrency(monthly.reduce((sum, charge) => sum + charge.amount, 0))).toBe(full.amount);
+    });
+  });
+
+  describe('billing calendar', () => {
+    const weekdaysOnly = { excludeWeekends: true };
+
+    it('should count every day without a calendar', () => {
+      expect(chargeableDaysBetween('2025-06-01', '2025-07-01')).toBe(30);
+    });
+
+    it('should skip weekends when they are excluded', () => {
+      expect(chargeableDaysBetween('2025-06-01', '2025-07-01', weekdaysOnly)).toBe(21);
+    });
+
+    it('should skip holidays and shutdown ranges inclusively', () => {
+      const calendar = {
+        excludeWeekends: true,
+        excludedPeriods: [
+          { startDate: '2025-06-19', endDate: '2025-06-19' },
+          { startDate: '2025-06-23', endDate: '2025-06-27' }
+        ]
+      };
+      expect(chargeableDaysBetween('2025-06-01', '2025-07-01', calendar)).toBe(15);
+    });
+
+    it('should not double count a holiday on a weekend', () => {
+      const calendar = { excludeWeekends: true, excludedPeriods: [{ startDate: '2025-06-07', endDate: '2025-06-07' }] };
+      expect(chargeableDaysBetween('2025-06-01', '2025-07-01', calendar)).toBe(21);
+    });
+
+    it('should charge chargeable days and report calendar days alongside', () => {
+      const charge = calculateLineCharge(line({ calendar: weekdaysOnly }), { end: '2025-06-30' });
+
+      expect(charge.totalDays).toBe(30);
+      expect(charge.totalChargeableDays).toBe(21);
+      expect(charge.chargeableUnitDays).toBe(210);
+      expect(charge.amount).toBe(1050);
+    });
+
+    it('should apply tiers to chargeable days', () => {
+      const charge = calculateLineCharge(
+        line({ deliveredQuantity: 1, weeklyRate: 20, calendar: weekdaysOnly }),
+        { end: '2025-06-14' }
+      );
+
+      // 10 weekdays between Sunday 1 and Saturday 14 June: one week plus three days
+      expect(charge.segments[0]?.periods[0]?.breakdown).toEqual({ fourWeeks: 0, weeks: 1, days: 3, amount: 35 });
+    });
+
+    it('should measure the minimum hire in chargeable days', () => {
+      const charge = calculateLineCharge(
+        line({
+          deliveryDate: '2025-06-06',
+          minimumHireDays: 5,
+          calendar: weekdaysOnly,
+          returns: [{ quantity: 10, returnDate: '2025-06-09' }]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.segments[0]?.chargeableDays).toBe(1);
+      expect(charge.segments[0]?.chargedDays).toBe(5);
+      expect(charge.amount).toBe(250);
+    });
+
+    it('should add up across consecutive windows', () => {
+      const hire = line({
+        deliveryDate: '2025-05-20',
+        weeklyRate: 20,
+        calendar: { excludeWeekends: true, excludedPeriods: [{ startDate: '2025-06-09', endDate: '2025-06-13' }] },
+        returns: [{ quantity: 4, returnDate: '2025-06-18' }]
+      });
+
+      const full = calculateLineCharge(hire, { end: '2025-07-31' });
+      const monthly = [
+        { start: '2025-05-01', end: '2025-05-31' },
+        { start: '2025-06-01', end: '2025-06-30' },
+        { start: '2025-07-01', end: '2025-07-31' }
+      ].map(window => calculateLineCharge(hire, window));
+
+      expect(roundCurrency(monthly.reduce((sum, charge) => sum + charge.amount, 0))).toBe(full.amount);
+    });
+  });
+
+  describe('suspensions', () => {
+    it('should not charge suspended days', () => {
+      const charge = calculateLineCharge(
+        line({ suspensions: [{ startDate: '2025-06-10', endDate: '2025-06-14' }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.totalDays).toBe(30);
+      expect(charge.totalChargeableDays).toBe(25);
+      expect(charge.suspendedDays).toBe(5);
+      expect(charge.amount).toBe(1250);
+    });
+
+    it('should keep an open suspension running to the end of the window', () => {
+      const charge = calculateLineCharge(
+        line({ suspensions: [{ startDate: '2025-06-21', endDate: null }] }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.suspendedDays).toBe(10);
+      expect(charge.amount).toBe(1000);
+    });
+
+    it('should only count suspended days that would otherwise be chargeable', () => {
+      const charge = calculateLineCharge(
+        line({
+          calendar: { excludeWeekends: true },
+          suspensions: [{ startDate: '2025-06-06', endDate: '2025-06-09' }]
+        }),
+        { end: '2025-06-30' }
+      );
+
+      expect(charge.totalChargeableDays).toBe(19);
+      expect(charge.suspendedDays).toBe(2);
+    });
+
+    it('should add up across consecutive windows', () => {
+      const hire = line({
+        deliveryDate: '2025-05-20',
+        weeklyRate: 20,
+        suspensions: [{ startDate: '2025-05-28', endDate: '2025-06-04' }],
+        returns: [{ quantity: 4, returnDate: '2025-06-18' }]
+      });
+
+      const full = calculateLineCharge(hire, { end: '2025-07-31' });
+      const monthly = [
+        { start: '2025-05-01', end: '2025-05-31' },
+        { start: '2025-06-01', end: '2025-06-30' },
+        { start: '2025-07-01', end: '2025-07-31' }
+      ].map(window => calculateLineCharge(hire, window));
+
+      expect(roundCurrency(monthly.reduce((sum, charge) => sum + charge.amount, 0))).toBe(full.amount);
+    });
+  });
+
+  describe('calculateRentalCharges', () => {
+    it('should total all lines', () => {
+      const summary = calculateRentalCharges(
+        [
+          line(),
+          line({ id: 'line-2', deliveredQuantity: 1, dailyRate: 12.5, returns: [{ quantity: 1, returnDate: '2025-06-05' }] })
+        ],
+        { end: '2025-06-30' }
+      );
+
+      expect(summary.lines).toHaveLength(2);
+      expect(summary.totalUnitDays).toBe(304);
+      expect(summary.totalAmount).toBe(1550);
+    });
+  });
+});
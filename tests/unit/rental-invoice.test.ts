@@ -0,0 +1,138 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateLineCharge } from '@/lib/rental-engine';
+import { buildInvoiceLines, invoicesByCurrency, invoiceTaxTotals, invoiceTotal, periodsOverlap } from '@/lib/rental-invoice';
+import { rentalLine } from '../fixtures/rental';
+
+// Ten scaffold units at 5 a day on hire from 1 June
+const scaffoldHire = { id: 'line-1', deliveryDate: '2025-06-01', deliveredQuantity: 10, dailyRate: 5 };
+
+const june = { start: '2025-06-01', end: '2025-06-30' };
+
+describe('Rental Invoices', () => {
+  describe('periodsOverlap', () => {
+    it('should treat both period ends as billed days', () => {
+      const may = { periodStart: '2025-05-01', periodEnd: '2025-05-31' };
+      expect(periodsOverlap(may, { periodStart: '2025-05-31', periodEnd: '2025-06-30' })).toBe(true);
+      expect(periodsOverlap(may, { periodStart: '2025-06-01', periodEnd: '2025-06-30' })).toBe(false);
+    });
+
+    it('should detect a period inside another', () => {
+      expect(periodsOverlap(
+        { periodStart: '2025-06-01', periodEnd: '2025-06-30' },
+        { periodStart: '2025-06-10', periodEnd: '2025-06-12' }
+      )).toBe(true);
+    });
+  });
+
+  describe('buildInvoiceLines', () => {
+    it('should freeze the charge of each item', () => {
+      const lines = buildInvoiceLines([
+        { id: 'line-1', po_number: 'PO-1', item_name: 'Scaffold', charge: calculateLineCharge(rentalLine(scaffoldHire), june) }
+      ]);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({
+        dn_item_id: 'line-1',
+        po_number: 'PO-1',
+        item_name: 'Scaffold',
+        delivered_quantity: 10,
+        returned_quantity: 0,
+        calendar_days: 30,
+        chargeable_days: 30,
+        unit_days: 300,
+        amount: 1500
+      });
+      expect(lines[0]?.detail).toHaveLength(1);
+    });
+
+    it('should leave charges untaxed without a tax treatment', () => {
+      const [invoiceLine] = buildInvoiceLines([
+        { id: 'line-1', po_number: 'PO-1', item_name: 'Scaffold', charge: calculateLineCharge(rentalLine(scaffoldHire), june) }
+      ]);
+
+      expect(invoiceLine).toMatchObject({ tax_rate: 0, net_amount: 1500, tax_amount: 0, gross_amount: 1500 });
+    });
+
+    it('should add exclusive tax on top of the charge', () => {
+      const [invoiceLine] = buildInvoiceLines([{
+        id: 'line-1',
+        po_number: 'PO-1',
+        item_name: 'Scaffold',
+        charge: calculateLineCharge(rentalLine(scaffoldHire), june),
+        tax: { rate: 20, inclusive: false }
+      }]);
+
+      expect(invoiceLine).toMatchObject({
+        amount: 1500,
+        tax_rate: 20,
+        tax_inclusive: false,
+        net_amount: 1500,
+        tax_amount: 300,
+        gross_amount: 1800
+      });
+    });
+
+    it('should extract inclusive tax from the charge', () => {
+      const [invoiceLine] = buildInvoiceLines([{
+        id: 'line-1',
+        po_number: 'PO-1',
+        item_name: 'Scaffold',
+        charge: calculateLineCharge(rentalLine(scaffoldHire), june),
+        tax: { rate: 25, inclusive: true }
+      }]);
+
+      expect(invoiceLine).toMatchObject({ net_amount: 1200, tax_amount: 300, gross_amount: 1500 });
+    });
+
+    it('should leave out items not on hire in the period', () => {
+      const returnedInMay = rentalLine({ ...scaffoldHire, deliveryDate: '2025-05-01', returns: [{ quantity: 10, returnDate: '2025-05-20' }] });
+      const lines = buildInvoiceLines([
+        { id: 'line-1', po_number: 'PO-1', item_name: 'Scaffold', charge: calculateLineCharge(returnedInMay, june) }
+      ]);
+
+      expect(lines).toHaveLength(0);
+    });
+  });
+
+  describe('invoicesByCurrency', () => {
+    it('should bill each order currency on its own invoice', () => {
+      const charge = calculateLineCharge(rentalLine(scaffoldHire), june);
+      const invoices = invoicesByCurrency([
+        { id: 'line-1', po_number: 'PO-1', item_name: 'Scaffold', currency: 'USD', charge, tax: { rate: 20, inclusive: false } },
+        { id: 'line-2', po_number: 'PO-2', item_name: 'Scaffold', currency: 'EUR', charge },
+        { id: 'line-3', po_number: 'PO-1', item_name: 'Scaffold', currency: 'USD', charge }
+      ]);
+
+      expect(invoices.map(invoice => invoice.currency)).toEqual(['EUR', 'USD']);
+      expect(invoices[0]!.lines.map(invoiceLine => invoiceLine.dn_item_id)).toEqual(['line-2']);
+      expect(invoices[0]!.totals).toEqual({ net: 1500, tax: 0, gross: 1500 });
+      expect(invoices[1]!.lines.map(invoiceLine => invoiceLine.dn_item_id)).toEqual(['line-1', 'line-3']);
+      expect(invoices[1]!.totals).toEqual({ net: 3000, tax: 300, gross: 3300 });
+    });
+
+    it('should leave out currencies with nothing charged', () => {
+      const returnedInMay = rentalLine({ ...scaffoldHire, deliveryDate: '2025-05-01', returns: [{ quantity: 10, returnDate: '2025-05-20' }] });
+      const invoices = invoicesByCurrency([
+        { id: 'line-1', po_number: 'PO-1', item_name: 'Scaffold', currency: 'USD', charge: calculateLineCharge(rentalLine(scaffoldHire), june) },
+        { id: 'line-2', po_number: 'PO-2', item_name: 'Scaffold', currency: 'EUR', charge: calculateLineCharge(returnedInMay, june) }
+      ]);
+
+      expect(invoices.map(invoice => invoice.currency)).toEqual(['USD']);
+    });
+  });
+
+  describe('invoiceTotal', () => {
+    it('should sum line amounts including decimal strings from the database', () => {
+      expect(invoiceTotal([{ amount: 10.1 }, { amount: '20.2' as unknown as number }])).toBe(30.3);
+    });
+  });
+
+  describe('invoiceTaxTotals', () => {
+    it('should sum net, tax and gross of the lines', () => {
+      expect(invoiceTaxTotals([
+        { net_amount: 100, tax_amount: 20, gross_amount: 120 },
+        { net_amount: '50.5' as unknown as number, tax_amount: 0, gross_amount: 50.5 }
+      ])).toEqual({ net: 150.5, tax: 20, gross: 170.5 });
+    });
+  });
+});
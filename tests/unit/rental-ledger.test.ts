@@ -0,0 +1,202 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { PostgrestError } from '@supabase/supabase-js';
+import {
+  fetchRentalLedger,
+  fetchRentalLedgerTotals,
+  LEDGER_PAGE_SIZE,
+  ledgerItemOf,
+  LedgerCharge,
+  LedgerClient,
+  RentalLedgerRow
+} from '@/lib/rental-ledger';
+import { taxTreatmentOfItem, toRentalLineInput } from '@/lib/rental-data';
+
+const charge: LedgerCharge = {
+  delivered_quantity: 3,
+  returned_quantity: 1,
+  ongoing_quantity: 2,
+  total_days: 10,
+  total_chargeable_days: 8,
+  suspended_days: 0,
+  ongoing_days: 10,
+  unit_days: 24,
+  chargeable_unit_days: 19,
+  daily_rate: '12.50',
+  amount: '290.00',
+  segments: [
+    {
+      quantity: 1,
+      start_date: '2025-06-01',
+      end_date: '2025-06-05',
+      days: 4,
+      chargeable_days: 3,
+      suspended_days: 0,
+      charged_days: 3,
+      returned: true,
+      minimum_applied: false,
+      periods: [{
+        start_date: '2025-06-01',
+        end_date: '2025-06-05',
+        days: 4,
+        chargeable_days: 3,
+        charged_days: 3,
+        daily_rate: '12.50',
+        weekly_rate: null,
+        four_week_rate: '300.00',
+        four_weeks: 0,
+        weeks: 0,
+        tier_days: 3,
+        tier_amount: '37.50',
+        previously_charged: '0',
+        amount: '37.50'
+      }],
+      amount: '37.50'
+    }
+  ]
+};
+
+const row = (id: string, overrides: Partial<RentalLedgerRow> = {}): RentalLedgerRow => ({
+  dn_item_id: id,
+  delivery_note_id: 'dn-1',
+  po_item_id: 'po-item-1',
+  project_id: 'project-1',
+  purchase_order_id: 'po-1',
+  vendor_id: 'vendor-1',
+  vendor_name: 'Acme Hire',
+  po_number: 'PO-100',
+  item_name: 'Scissor lift',
+  currency: 'EUR',
+  unit_price: 12.5,
+  tax_rate: 20,
+  tax_inclusive: false,
+  cost_code_id: 'code-1',
+  delivery_date: '2025-06-01',
+  status: 'partial_return',
+  returned_at: '2025-06-05T09:00:00+00:00',
+  delivered_quantity: 3,
+  daily_rate: 12.5,
+  weekly_rate: null,
+  four_week_rate: 300,
+  minimum_hire_days: 0,
+  expected_off_hire_date: null,
+  rate_changes: [],
+  returns: [{ quantity: 1, return_date: '2025-06-05' }],
+  suspensions: [],
+  cost_allocations: [{ cost_code_id: 'code-2', percentage: 40 }],
+  charge,
+  ...overrides
+});
+
+// A client whose rental_ledger answers pages of the given rows after the cursor
+const fakeClient = (rows: RentalLedgerRow[], error: PostgrestError | null = null) => {
+  const rpc = jest.fn(async (_name: string, params: Record<string, unknown>) => {
+    if (error) return { data: null, error };
+    const start = params.p_after ? rows.findIndex(candidate => candidate.dn_item_id === params.p_after) + 1 : 0;
+    return { data: rows.slice(start, start + Number(params.p_limit)), error: null };
+  });
+  const client: LedgerClient = { rpc };
+  return { client, rpc };
+};
+
+const ids = (count: number) => Array.from({ length: count }, (_, index) => `item-${String(index).padStart(5, '0')}`);
+
+describe('ledgerItemOf', () => {
+  it('nests the row like a DN item selected with its delivery note and PO item', () => {
+    const item = ledgerItemOf(row('item-1'));
+
+    expect(item.id).toBe('item-1');
+    expect(item.delivery_notes.delivery_date).toBe('2025-06-01');
+    expect(item.po_items.purchase_orders).toEqual({
+      po_number: 'PO-100',
+      project_id: 'project-1',
+      vendor_id: 'vendor-1',
+      currency: 'EUR',
+      vendors: { name: 'Acme Hire' }
+    });
+    expect(item.dn_item_cost_allocations).toEqual([{ cost_code_id: 'code-2', percentage: 40 }]);
+    expect(taxTreatmentOfItem(item)).toEqual({ rate: 20, inclusive: false });
+    expect(toRentalLineInput(item, {}).returns).toEqual([{ quantity: 1, returnDate: '2025-06-05' }]);
+  });
+
+  it('reads the charge in the rental engine shape with numbers', () => {
+    const { charge: lineCharge } = ledgerItemOf(row('item-1'));
+
+    expect(lineCharge.id).toBe('item-1');
+    expect(lineCharge.amount).toBe(290);
+    expect(lineCharge.dailyRate).toBe(12.5);
+    expect(lineCharge.segments[0]).toMatchObject({ quantity: 1, returned: true, chargeableDays: 3, amount: 37.5 });
+    expect(lineCharge.segments[0]!.periods[0]).toEqual({
+      startDate: '2025-06-01',
+      endDate: '2025-06-05',
+      days: 4,
+      chargeableDays: 3,
+      chargedDays: 3,
+      rates: { dailyRate: 12.5, weeklyRate: null, fourWeekRate: 300 },
+      breakdown: { fourWeeks: 0, weeks: 0, days: 3, amount: 37.5 },
+      previouslyCharged: 0,
+      amount: 37.5
+    });
+  });
+});
+
+describe('fetchRentalLedger', () => {
+  it('loads every page after the last item of the one before', async () => {
+    const rows = ids(LEDGER_PAGE_SIZE * 2 + 3).map(id => row(id));
+    const { client, rpc } = fakeClient(rows);
+
+    const { data, error } = await fetchRentalLedger(client, { projectId: 'project-1', startDate: '2025-06-01', endDate: '2025-06-30' });
+
+    expect(error).toBeNull();
+    expect(data!.map(item => item.id)).toEqual(rows.map(candidate => candidate.dn_item_id));
+    expect(rpc).toHaveBeenCalledTimes(3);
+    expect(rpc.mock.calls[0]).toEqual(['rental_ledger', {
+      p_project_id: 'project-1',
+      p_start: '2025-06-01',
+      p_end: '2025-06-30',
+      p_vendor_id: null,
+      p_after: null,
+      p_limit: LEDGER_PAGE_SIZE
+    }]);
+    expect(rpc.mock.calls[2]![1]).toMatchObject({ p_after: rows[LEDGER_PAGE_SIZE * 2 - 1]!.dn_item_id });
+  });
+
+  it('asks once more when the last page is full', async () => {
+    const { client, rpc } = fakeClient(ids(LEDGER_PAGE_SIZE).map(id => row(id)));
+
+    const { data } = await fetchRentalLedger(client, { endDate: '2025-06-30' });
+
+    expect(data).toHaveLength(LEDGER_PAGE_SIZE);
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(rpc.mock.calls[0]![1]).toMatchObject({ p_project_id: null, p_start: null });
+  });
+
+  it('answers with the error of a failed page', async () => {
+    const failure: PostgrestError = {
+      name: 'PostgrestError',
+      code: '23514',
+      message: 'Returned quantity exceeds delivered quantity on line item-1',
+      details: '',
+      hint: ''
+    };
+    const { client } = fakeClient([], failure);
+
+    const { data, error } = await fetchRentalLedger(client, { endDate: '2025-06-30' });
+
+    expect(data).toBeNull();
+    expect(error).toBe(failure);
+  });
+});
+
+describe('fetchRentalLedgerTotals', () => {
+  it('reads amounts as numbers', async () => {
+    const rpc = jest.fn(async (_name: string, _params: Record<string, unknown>) => ({
+      data: [{ project_id: 'project-1', currency: 'EUR', line_count: 4, amount: '1250.40' }],
+      error: null
+    }));
+
+    const { data } = await fetchRentalLedgerTotals({ rpc }, '2025-06-01', '2025-06-30');
+
+    expect(rpc).toHaveBeenCalledWith('rental_ledger_totals', { p_start: '2025-06-01', p_end: '2025-06-30' });
+    expect(data).toEqual([{ project_id: 'project-1', currency: 'EUR', line_count: 4, amount: 1250.4 }]);
+  });
+});
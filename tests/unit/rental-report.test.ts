@@ -0,0 +1,68 @@
+import { describe, expect, it } from '@jest/globals';
+import { groupReportLines, ReportLine, sortReportLines } from '@/lib/rental-report';
+
+const line = (overrides: Partial<ReportLine>): ReportLine => ({
+  dn_item_id: 'dn-1',
+  po_number: 'PO-1',
+  item_name: 'Excavator',
+  vendor_name: 'Acme Plant',
+  status: 'delivered',
+  delivery_date: '2025-06-01',
+  delivered_quantity: 1,
+  returned_quantity: 0,
+  ongoing_quantity: 1,
+  total_days: 10,
+  chargeable_days: 10,
+  suspended_days: 0,
+  currency: 'GBP',
+  net: 100,
+  tax: 20,
+  gross: 120,
+  reporting_net: 100,
+  reporting_tax: 20,
+  reporting_gross: 120,
+  details: [],
+  ...overrides
+});
+
+const lines = [
+  line({ dn_item_id: 'a', po_number: 'PO-10', vendor_name: 'Beta Hire', reporting_net: 50, reporting_tax: 10, reporting_gross: 60 }),
+  line({ dn_item_id: 'b', po_number: 'PO-2', vendor_name: 'Acme Plant', reporting_net: 200, reporting_tax: 40, reporting_gross: 240 }),
+  line({ dn_item_id: 'c', po_number: 'PO-2', vendor_name: 'Acme Plant', status: 'fully_returned' })
+];
+
+describe('sortReportLines', () => {
+  it('sorts PO numbers naturally', () => {
+    expect(sortReportLines(lines, 'po_number', 'asc').map(item => item.dn_item_id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('sorts amounts numerically and keeps ties in order when descending', () => {
+    expect(sortReportLines(lines, 'reporting_net', 'desc').map(item => item.dn_item_id)).toEqual(['b', 'c', 'a']);
+    expect(sortReportLines(lines, 'status', 'desc').map(item => item.dn_item_id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('leaves the input untouched', () => {
+    sortReportLines(lines, 'vendor_name', 'asc');
+    expect(lines.map(item => item.dn_item_id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('groupReportLines', () => {
+  it('groups in order of first line with reporting currency subtotals', () => {
+    const groups = groupReportLines(lines, 'vendor');
+
+    expect(groups.map(group => [group.label, group.lines.length])).toEqual([['Beta Hire', 1], ['Acme Plant', 2]]);
+    expect(groups[1]!.totals).toEqual({ net: 300, tax: 60, gross: 360 });
+  });
+
+  it('labels purchase order groups with their vendor', () => {
+    expect(groupReportLines(lines, 'po').map(group => group.label)).toEqual(['PO PO-10 - Beta Hire', 'PO PO-2 - Acme Plant']);
+  });
+
+  it('keeps every line in one group without grouping', () => {
+    const groups = groupReportLines(lines, 'none');
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.totals).toEqual({ net: 350, tax: 70, gross: 420 });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { describeJobFailure, isJobFinished, isJobStale, rentalReportParamsOf, REPORT_JOB_TIMEOUT_MS } from '@/lib/report-jobs';
+import { DatabaseError, NotFoundError, ValidationError } from '@/lib/error-handler';
+
+const created = '2025-06-28T10:00:00.000Z';
+const after = (ms: number) => new Date(new Date(created).getTime() + ms);
+
+describe('isJobStale', () => {
+  it('gives a job until the worker time limit', () => {
+    const job = { status: 'queued' as const, created_at: created, started_at: null };
+
+    expect(isJobStale(job, after(REPORT_JOB_TIMEOUT_MS))).toBe(false);
+    expect(isJobStale(job, after(REPORT_JOB_TIMEOUT_MS + 1))).toBe(true);
+  });
+
+  it('counts a running job from when it started', () => {
+    const job = { status: 'running' as const, created_at: created, started_at: after(60_000).toISOString() };
+
+    expect(isJobStale(job, after(REPORT_JOB_TIMEOUT_MS + 1))).toBe(false);
+  });
+
+  it('never treats a finished job as stale', () => {
+    const job = { status: 'completed' as const, created_at: created, started_at: created };
+
+    expect(isJobFinished(job)).toBe(true);
+    expect(isJobStale(job, after(24 * 60 * 60 * 1000))).toBe(false);
+  });
+});
+
+describe('describeJobFailure', () => {
+  it('keeps the reason and details of report errors', () => {
+    expect(describeJobFailure(new ValidationError('No exchange rate to GBP on or before 2025-06-30', ['Record a EUR to GBP rate'])))
+      .toBe('No exchange rate to GBP on or before 2025-06-30. Record a EUR to GBP rate');
+    expect(describeJobFailure(new NotFoundError('No rental data found for the specified period')))
+      .toBe('No rental data found for the specified period');
+  });
+
+  it('leaves out database details', () => {
+    expect(describeJobFailure(new DatabaseError('Failed to fetch rental data', { code: '57014' })))
+      .toBe('Failed to fetch rental data');
+  });
+
+  it('reports anything else as a rendering failure', () => {
+    expect(describeJobFailure(new Error('Navigation timeout of 30000 ms exceeded')))
+      .toBe('Report rendering failed: Navigation timeout of 30000 ms exceeded');
+  });
+});
+
+describe('rentalReportParamsOf', () => {
+  const projectId = '11111111-1111-4111-8111-111111111111';
+  const otherProjectId = '22222222-2222-4222-8222-222222222222';
+
+  it('fills in the report defaults for the job\'s project', () => {
+    expect(rentalReportParamsOf({ project_id: projectId, parameters: { startDate: '2025-06-01', endDate: '2025-06-30' } })).toEqual({
+      projectId,
+      startDate: '2025-06-01',
+      endDate: '2025-06-30',
+      groupBy: 'none',
+      sortBy: 'po_number',
+      sortDirection: 'asc',
+      groupLinesBy: 'none'
+    });
+  });
+
+  it('never runs the report for a project named in the parameters', () => {
+    const params = rentalReportParamsOf({
+      project_id: projectId,
+      parameters: { startDate: '2025-06-01', endDate: '2025-06-30', projectId: otherProjectId, format: 'csv' }
+    });
+
+    expect(params.projectId).toBe(projectId);
+    expect(params).not.toHaveProperty('format');
+  });
+
+  it('rejects parameters the report form would not send', () => {
+    expect(() => rentalReportParamsOf({ project_id: projectId, parameters: { startDate: '2025-06-01', endDate: '2025-06-30', sortBy: 'amount; drop' } }))
+      .toThrow(ValidationError);
+    expect(() => rentalReportParamsOf({ project_id: projectId, parameters: { startDate: '2025-07-01', endDate: '2025-06-30' } }))
+      .toThrow('Invalid report parameters');
+  });
+});
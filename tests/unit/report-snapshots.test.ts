@@ -0,0 +1,95 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  sha256Hex,
+  SnapshotDatabaseClient,
+  snapshotPath,
+  SnapshotStorageClient,
+  storeReportSnapshot,
+  verifySnapshot
+} from '@/lib/report-snapshots';
+
+const content = Buffer.from('%PDF-1.4 report');
+
+// A client whose storage bucket and report_snapshots table answer as told
+const fakeClient = ({ uploadError = null, insertError = null }: { uploadError?: unknown; insertError?: unknown } = {}) => {
+  const upload = jest.fn(async (_path: string, _content: Buffer, _options: { contentType: string; upsert: boolean }) => ({ data: uploadError ? null : { path: 'stored' }, error: uploadError }));
+  const remove = jest.fn(async (_paths: string[]) => ({ data: [], error: null }));
+  const insert = jest.fn((row: Record<string, unknown>) => ({
+    select: () => ({
+      single: async () => ({ data: insertError ? null : { ...row, generated_at: '2025-06-27T10:00:00Z' }, error: insertError })
+    })
+  }));
+
+  const client: SnapshotStorageClient & SnapshotDatabaseClient = {
+    storage: { from: () => ({ upload, remove }) },
+    from: () => ({ insert })
+  };
+
+  return {
+    client,
+    upload,
+    remove,
+    insert
+  };
+};
+
+const input = {
+  projectId: 'project-1',
+  reportType: 'rental_report' as const,
+  parameters: { startDate: '2025-06-01', endDate: '2025-06-30' },
+  fileName: 'rental-report.pdf',
+  content,
+  userId: 'user-1'
+};
+
+describe('sha256Hex', () => {
+  it('hashes to lower-case hex', () => {
+    expect(sha256Hex(Buffer.from('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('verifySnapshot', () => {
+  it('matches the file it was taken from', () => {
+    expect(verifySnapshot({ sha256: sha256Hex(content) }, content).matches).toBe(true);
+  });
+
+  it('reports a changed file with both hashes', () => {
+    const changed = Buffer.from('%PDF-1.4 altered');
+    const verification = verifySnapshot({ sha256: sha256Hex(content) }, changed);
+
+    expect(verification.matches).toBe(false);
+    expect(verification.expected).toBe(sha256Hex(content));
+    expect(verification.actual).toBe(sha256Hex(changed));
+  });
+});
+
+describe('storeReportSnapshot', () => {
+  it('stores the file under its project and records its hash', async () => {
+    const storage = fakeClient();
+    const database = fakeClient();
+
+    const snapshot = await storeReportSnapshot(database.client, storage.client, input);
+
+    expect(snapshot.storage_path).toBe(snapshotPath('project-1', snapshot.id));
+    expect(snapshot.sha256).toBe(sha256Hex(content));
+    expect(snapshot.byte_size).toBe(content.length);
+    expect(snapshot.generated_by).toBe('user-1');
+    expect(storage.upload).toHaveBeenCalledWith(snapshot.storage_path, content, expect.objectContaining({ upsert: false }));
+  });
+
+  it('fails without a record when the upload fails', async () => {
+    const storage = fakeClient({ uploadError: { message: 'bucket missing' } });
+    const database = fakeClient();
+
+    await expect(storeReportSnapshot(database.client, storage.client, input)).rejects.toThrow('Failed to store report snapshot');
+    expect(database.insert).not.toHaveBeenCalled();
+  });
+
+  it('removes the file when its record cannot be written', async () => {
+    const storage = fakeClient();
+    const database = fakeClient({ insertError: { code: '42501' } });
+
+    await expect(storeReportSnapshot(database.client, storage.client, input)).rejects.toThrow('Failed to record report snapshot');
+    expect(storage.remove).toHaveBeenCalledWith([storage.upload.mock.calls[0]![0]]);
+  });
+});
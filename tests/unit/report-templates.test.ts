@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { html } from '@/lib/html';
+import {
+  DEFAULT_TEMPLATE,
+  DOCUMENT_COLUMNS,
+  footerTextOf,
+  renderDocument,
+  ReportTemplate,
+  resolveTemplate,
+  tableHead,
+  tableRow,
+  templateColumns
+} from '@/lib/report-templates';
+
+const template = (overrides: Partial<ReportTemplate>): ReportTemplate => ({ ...DEFAULT_TEMPLATE, ...overrides });
+
+describe('resolveTemplate', () => {
+  const organisation = template({ company_name: 'Acme Construction' });
+  const project = template({ project_id: 'project-1', company_name: 'Acme JV' });
+
+  it('prefers the project template over the organisation default', () => {
+    expect(resolveTemplate([organisation, project], 'project-1')).toBe(project);
+    expect(resolveTemplate([organisation, project], 'project-2')).toBe(organisation);
+  });
+
+  it('falls back to the built-in template', () => {
+    expect(resolveTemplate([], 'project-1')).toBe(DEFAULT_TEMPLATE);
+  });
+});
+
+describe('templateColumns', () => {
+  it('keeps the document order whatever the selection order', () => {
+    const columns = templateColumns(template({ columns: { rental_invoice: ['gross', 'po_number'] } }), 'rental_invoice');
+
+    expect(columns.map(column => column.key)).toEqual(['po_number', 'gross']);
+  });
+
+  it('shows every column without a usable selection', () => {
+    expect(templateColumns(DEFAULT_TEMPLATE, 'delivery_note')).toEqual(DOCUMENT_COLUMNS.delivery_note);
+    expect(templateColumns(template({ columns: { delivery_note: ['unknown'] } }), 'delivery_note')).toEqual(DOCUMENT_COLUMNS.delivery_note);
+  });
+});
+
+describe('table rendering', () => {
+  const columns = [{ key: 'item_name', label: 'Item Name' }, { key: 'gross', label: 'Gross' }];
+
+  it('renders only the selected columns', () => {
+    expect(tableHead(columns).toString()).toBe('<thead><tr><th>Item Name</th><th>Gross</th></tr></thead>');
+    expect(tableRow(columns, { po_number: 'PO-1', item_name: 'Excavator' }, 'total').toString())
+      .toBe('<tr class="total"><td>Excavator</td><td></td></tr>');
+  });
+});
+
+describe('renderDocument', () => {
+  it('brands the document with the logo and address', () => {
+    const document = renderDocument(template({
+      company_name: 'Acme Construction',
+      logo_data_url: 'data:image/png;base64,AAAA',
+      address: '1 High Street\nLeeds'
+    }), { title: 'Rental Report', heading: html`<h1>Rental Report</h1>`, body: html`<p>Body</p>` });
+
+    expect(document).toContain('<img src="data:image/png;base64,AAAA" alt="">');
+    expect(document).toContain('<strong>Acme Construction</strong>');
+    expect(document).toContain('1 High Street<br>Leeds');
+    expect(document).toContain('<p>Body</p>');
+  });
+});
+
+describe('footerTextOf', () => {
+  it('puts the template footer before the document text', () => {
+    expect(footerTextOf(template({ footer_text: 'Acme Ltd, reg. 123' }), 'Invoice INV-1')).toBe('Acme Ltd, reg. 123 | Invoice INV-1');
+    expect(footerTextOf(DEFAULT_TEMPLATE, 'Invoice INV-1')).toBe('Invoice INV-1');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  calculateTax,
+  describeTax,
+  NO_TAX,
+  resolveTaxCode,
+  sumTaxAmounts,
+  TaxCode,
+  taxTreatmentOf
+} from '@/lib/tax';
+
+const taxCode = (overrides: Partial<TaxCode> = {}): TaxCode => ({
+  id: 'tc-std',
+  code: 'STD',
+  name: 'Standard rate',
+  rate: 20,
+  is_inclusive: false,
+  is_active: true,
+  ...overrides
+});
+
+describe('calculateTax', () => {
+  it('adds tax on top of exclusive amounts', () => {
+    expect(calculateTax(100, { rate: 20, inclusive: false })).toEqual({ net: 100, tax: 20, gross: 120 });
+  });
+
+  it('extracts tax from inclusive amounts', () => {
+    expect(calculateTax(120, { rate: 20, inclusive: true })).toEqual({ net: 100, tax: 20, gross: 120 });
+  });
+
+  it('keeps net plus tax equal to gross after rounding', () => {
+    const amounts = calculateTax(99.99, { rate: 7.5, inclusive: true });
+
+    expect(amounts.net).toBe(93.01);
+    expect(amounts.tax).toBe(6.98);
+    expect(amounts.net + amounts.tax).toBeCloseTo(amounts.gross, 10);
+  });
+
+  it('rounds exclusive tax to cents', () => {
+    expect(calculateTax(33.33, { rate: 17.5, inclusive: false })).toEqual({ net: 33.33, tax: 5.83, gross: 39.16 });
+  });
+
+  it('charges nothing without a tax code', () => {
+    expect(calculateTax(250, NO_TAX)).toEqual({ net: 250, tax: 0, gross: 250 });
+  });
+});
+
+describe('resolveTaxCode', () => {
+  const codes = [taxCode(), taxCode({ id: 'tc-zero', code: 'ZERO', rate: 0 })];
+
+  it('uses the line override before the vendor default', () => {
+    expect(resolveTaxCode(codes, 'tc-zero', 'tc-std')?.code).toBe('ZERO');
+  });
+
+  it('falls back to the vendor default', () => {
+    expect(resolveTaxCode(codes, null, 'tc-std')?.code).toBe('STD');
+    expect(resolveTaxCode(codes, '', 'tc-std')?.code).toBe('STD');
+  });
+
+  it('returns null when neither is set', () => {
+    expect(resolveTaxCode(codes, null, null)).toBeNull();
+  });
+});
+
+describe('taxTreatmentOf', () => {
+  it('copies the rate and treatment of a code', () => {
+    expect(taxTreatmentOf(taxCode({ rate: 5, is_inclusive: true }))).toEqual({ rate: 5, inclusive: true });
+  });
+
+  it('treats a missing code as untaxed', () => {
+    expect(taxTreatmentOf(null)).toEqual(NO_TAX);
+  });
+});
+
+describe('sumTaxAmounts', () => {
+  it('sums lines with different treatments', () => {
+    expect(sumTaxAmounts([
+      calculateTax(100, { rate: 20, inclusive: false }),
+      calculateTax(110, { rate: 10, inclusive: true }),
+      calculateTax(50, NO_TAX)
+    ])).toEqual({ net: 250, tax: 30, gross: 280 });
+  });
+
+  it('returns zeros for no lines', () => {
+    expect(sumTaxAmounts([])).toEqual({ net: 0, tax: 0, gross: 0 });
+  });
+});
+
+describe('describeTax', () => {
+  it('marks inclusive rates', () => {
+    expect(describeTax({ rate: 20, inclusive: false })).toBe('20%');
+    expect(describeTax({ rate: 7.5, inclusive: true })).toBe('7.5% incl.');
+  });
+});
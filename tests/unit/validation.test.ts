@@ -5,6 +5,7 @@ import {
   vendorSchema, 
   fileUploadSchema,
   returnProcessSchema,
+  returnBatchSchema,
   sanitizeString 
 } from '@/lib/validation-schemas';
 
@@ -35,7 +36,7 @@ describe('Validation Schemas', () => {
       const result = validateInput(projectSchema, invalidProject);
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.errors).toContain('name: String must contain at least 1 character(s)');
+        expect(result.errors).toContain('name: Project name is required');
       }
     });
 
@@ -120,6 +121,18 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept a plain return date with a reference', () => {
+      const validReturn = {
+        dnItemId: '123e4567-e89b-12d3-a456-426614174000',
+        returnedQuantity: 2,
+        returnDate: '2025-01-12',
+        reference: 'COL-0042'
+      };
+
+      const result = validateInput(returnProcessSchema, validReturn);
+      expect(result.success).toBe(true);
+    });
+
     it('should reject negative quantities', () => {
       const invalidReturn = {
         dnItemId: '123e4567-e89b-12d3-a456-426614174000',
@@ -143,6 +156,34 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('returnBatchSchema', () => {
+    const validReturn = {
+      dnItemId: '123e4567-e89b-12d3-a456-426614174000',
+      returnedQuantity: 2,
+      returnDate: '2025-01-12'
+    };
+
+    it('should validate several returns', () => {
+      const result = validateInput(returnBatchSchema, {
+        returns: [validReturn, { ...validReturn, dnItemId: '123e4567-e89b-12d3-a456-426614174001', reference: 'COL-0042' }]
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty submission', () => {
+      const result = validateInput(returnBatchSchema, { returns: [] });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject the whole submission when one return is invalid', () => {
+      const result = validateInput(returnBatchSchema, { returns: [validReturn, { ...validReturn, returnedQuantity: 0 }] });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errors[0]).toMatch(/^returns\.1\.returnedQuantity/);
+      }
+    });
+  });
+
   describe('sanitizeString', () => {
     it('should remove script tags', () => {
       const maliciousInput = '<script>alert("xss")</script>Hello World';
@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateLineCharge, RentalLineCharge } from '@/lib/rental-engine';
+import {
+  buildStatementLines,
+  groupStatementByOrder,
+  invoiceStatusOf,
+  StatementInvoice,
+  StatementItem,
+  StatementOrder,
+  statementTotals
+} from '@/lib/vendor-statement';
+import { rentalLine } from '../fixtures/rental';
+
+// Four units at 10/day delivered 1 June, charged over June
+const juneCharge = (id = 'dn-1'): RentalLineCharge =>
+  calculateLineCharge(rentalLine({ id, deliveryDate: '2025-06-01' }), { start: '2025-06-01', end: '2025-06-30' });
+
+const invoice = (overrides: Partial<StatementInvoice> = {}): StatementInvoice => ({
+  invoice_number: 'RI-1',
+  project_id: 'project-1',
+  period_start: '2025-06-01',
+  period_end: '2025-06-30',
+  status: 'issued',
+  lines: [{ dn_item_id: 'dn-1', currency: 'USD', net: 1200, tax: 240, gross: 1440 }],
+  ...overrides
+});
+
+const item = (overrides: Partial<StatementItem> = {}): StatementItem => ({
+  id: 'dn-1',
+  purchase_order_id: 'po-1',
+  po_number: 'PO-1',
+  item_name: 'Scaffold Tower',
+  delivery_date: '2025-06-01',
+  currency: 'USD',
+  delivered_quantity: 4,
+  returned_quantity: 0,
+  on_hire_quantity: 4,
+  charge: juneCharge(),
+  tax: { rate: 20, inclusive: false },
+  ...overrides
+});
+
+const order = (overrides: Partial<StatementOrder> = {}): StatementOrder => ({
+  id: 'po-1',
+  po_number: 'PO-1',
+  project_id: 'project-1',
+  project_name: 'Riverside',
+  po_date: '2025-05-20',
+  status: 'confirmed',
+  currency: 'USD',
+  ...overrides
+});
+
+describe('invoiceStatusOf', () => {
+  it('is invoiced when issued invoices bill every charged day', () => {
+    const result = invoiceStatusOf('dn-1', juneCharge(), [
+      invoice({ invoice_number: 'RI-2', period_start: '2025-06-16', period_end: '2025-06-30' }),
+      invoice({ invoice_number: 'RI-1', period_end: '2025-06-15' })
+    ]);
+
+    expect(result).toEqual({ status: 'invoiced', invoiceNumbers: ['RI-1', 'RI-2'] });
+  });
+
+  it('is part invoiced when an invoice bills only some of the days', () => {
+    const result = invoiceStatusOf('dn-1', juneCharge(), [invoice({ period_start: '2025-05-01', period_end: '2025-06-10' })]);
+
+    expect(result).toEqual({ status: 'part_invoiced', invoiceNumbers: ['RI-1'] });
+  });
+
+  it('ignores void invoices and invoices without a line for the item', () => {
+    const result = invoiceStatusOf('dn-1', juneCharge(), [
+      invoice({ status: 'void' }),
+      invoice({ invoice_number: 'RI-2', lines: [{ dn_item_id: 'dn-2', currency: 'USD', net: 10, tax: 2, gross: 12 }] })
+    ]);
+
+    expect(result).toEqual({ status: 'not_invoiced', invoiceNumbers: [] });
+  });
+
+  it('ignores invoices billing only days outside the charge', () => {
+    const result = invoiceStatusOf('dn-1', juneCharge(), [invoice({ period_start: '2025-05-01', period_end: '2025-05-31' })]);
+
+    expect(result.status).toBe('not_invoiced');
+  });
+});
+
+describe('buildStatementLines', () => {
+  it('splits the period charge into net, tax and gross', () => {
+    const [line] = buildStatementLines([item()], [invoice()]);
+
+    expect(line).toMatchObject({
+      dn_item_id: 'dn-1',
+      days: 30,
+      chargeable_days: 30,
+      net: 1200,
+      tax: 240,
+      gross: 1440,
+      invoice_status: 'invoiced',
+      invoice_numbers: ['RI-1']
+    });
+  });
+
+  it('keeps items with nothing charged in the period for their quantities', () => {
+    const [line] = buildStatementLines([item({ returned_quantity: 4, on_hire_quantity: 0, charge: null })], [invoice()]);
+
+    expect(line).toMatchObject({ returned_quantity: 4, days: 0, net: 0, gross: 0, invoice_status: null, invoice_numbers: [] });
+  });
+});
+
+describe('groupStatementByOrder', () => {
+  it('lists every order by PO number with its lines and totals', () => {
+    const lines = buildStatementLines([
+      item({ id: 'dn-2', item_name: 'Generator', on_hire_quantity: 1, returned_quantity: 3, charge: juneCharge('dn-2') }),
+      item()
+    ], []);
+
+    const groups = groupStatementByOrder([order({ id: 'po-2', po_number: 'PO-2' }), order()], lines);
+
+    expect(groups.map(group => group.po_number)).toEqual(['PO-1', 'PO-2']);
+    expect(groups[0]!.lines.map(line => line.item_name)).toEqual(['Generator', 'Scaffold Tower']);
+    expect(groups[0]).toMatchObject({ delivered_quantity: 8, returned_quantity: 3, on_hire_quantity: 5 });
+    expect(groups[0]!.totals).toEqual({ net: 2400, tax: 480, gross: 2880 });
+    expect(groups[1]).toMatchObject({ lines: [], delivered_quantity: 0, totals: { net: 0, tax: 0, gross: 0 } });
+  });
+});
+
+describe('statementTotals', () => {
+  it('totals lines per currency', () => {
+    const lines = buildStatementLines([
+      item({ currency: 'USD' }),
+      item({ id: 'dn-2', currency: 'EUR', tax: { rate: 0, inclusive: false }, charge: juneCharge('dn-2') })
+    ], []);
+
+    expect(statementTotals(lines)).toEqual([
+      { currency: 'EUR', net: 1200, tax: 0, gross: 1200 },
+      { currency: 'USD', net: 1200, tax: 240, gross: 1440 }
+    ]);
+  });
+
+  it('keeps an invoice billing orders in two currencies apart', () => {
+    const { lines } = invoice({
+      lines: [
+        { dn_item_id: 'dn-1', currency: 'USD', net: 100, tax: 20, gross: 120 },
+        { dn_item_id: 'dn-2', currency: 'GBP', net: 50, tax: 10, gross: 60 },
+        { dn_item_id: 'dn-3', currency: 'USD', net: 25.5, tax: 5.1, gross: 30.6 }
+      ]
+    });
+
+    expect(statementTotals(lines)).toEqual([
+      { currency: 'GBP', net: 50, tax: 10, gross: 60 },
+      { currency: 'USD', net: 125.5, tax: 25.1, gross: 150.6 }
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { inflateRawSync } from 'zlib';
+import { describe, expect, it } from '@jest/globals';
+import { buildXlsx, cellText, columnName, crc32, dateCell, dateSerial, moneyCell } from '@/lib/xlsx';
+
+// Reads the entries of a ZIP through its central directory
+function unzip(archive: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(archive.readUInt32LE(position + 16));
+    entries.set(name, content.toString('utf8'));
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+describe('buildXlsx', () => {
+  it('packages the workbook parts and one worksheet per sheet', () => {
+    const entries = unzip(buildXlsx([
+      { name: 'Summary', rows: [['Project', 'North Yard']] },
+      { name: 'Lines', rows: [['Item'], ['Excavator']], header: true }
+    ]));
+
+    expect(Array.from(entries.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml'
+    ]);
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Summary" sheetId="1" r:id="rId1"/>');
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Lines" sheetId="2" r:id="rId2"/>');
+  });
+
+  it('writes numbers, dates and money as typed cells', () => {
+    const sheet = unzip(buildXlsx([
+      { name: 'Lines', rows: [[3, dateCell('2025-06-01T00:00:00Z'), moneyCell(1240.5), null, 'Open']] }
+    ])).get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="A1"><v>3</v></c>');
+    expect(sheet).toContain('<c r="B1" s="1"><v>45809</v></c>');
+    expect(sheet).toContain('<c r="C1" s="2"><v>1240.5</v></c>');
+    expect(sheet).not.toContain('r="D1"');
+    expect(sheet).toContain('<c r="E1" t="inlineStr"><is><t xml:space="preserve">Open</t></is></c>');
+  });
+
+  it('escapes markup in text and sheet names', () => {
+    const entries = unzip(buildXlsx([
+      { name: 'Costs: A/B', rows: [['<Tools & "Plant">']] }
+    ]));
+
+    expect(entries.get('xl/workbook.xml')).toContain('name="Costs  A B"');
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('&lt;Tools &amp; &quot;Plant&quot;&gt;');
+  });
+
+  it('rejects a workbook without sheets', () => {
+    expect(() => buildXlsx([])).toThrow('A workbook needs at least one sheet');
+  });
+});
+
+describe('columnName', () => {
+  it('continues past Z with two letters', () => {
+    expect([0, 25, 26, 27, 51, 52].map(columnName)).toEqual(['A', 'Z', 'AA', 'AB', 'AZ', 'BA']);
+  });
+});
+
+describe('dateSerial', () => {
+  it('counts days from the spreadsheet epoch', () => {
+    expect(dateSerial('1900-03-01')).toBe(61);
+    expect(dateSerial('2025-01-01')).toBe(45658);
+  });
+});
+
+describe('cellText', () => {
+  it('renders typed cells the way CSV exports show them', () => {
+    expect(cellText(dateCell('2025-06-01'))).toBe('2025-06-01');
+    expect(cellText(moneyCell(12.5))).toBe('12.50');
+    expect(cellText(null)).toBe('');
+    expect(cellText(4)).toBe(4);
+  });
+});